@@ -15,6 +15,7 @@ import { QueryDefinition } from "../src/query/queryDefinition";
 import { Observer } from "../src/observer";
 import {MockDb} from "../tests/driver/mockDb";
 import {Property} from "../src/mapping/property";
+import {InverseOfOptions} from "../src/mapping/providers/annotations";
 
 suite("SessionImpl", () => {
 
@@ -138,6 +139,12 @@ class DummyPersister implements Persister {
     refresh(entity: any, callback: ResultCallback<any>): void {
     }
 
+    restore(entity: any, callback: Callback): void {
+    }
+
+    merge(entity: any, callback: ResultCallback<any>): void {
+    }
+
     watch(value: any, observer: Observer): void {
     }
 
@@ -153,15 +160,18 @@ class DummyPersister implements Persister {
     findOneById(id: any, callback: ResultCallback<any>): void {
     }
 
+    load(document: any, callback: ResultCallback<Object>): void {
+    }
+
     findOne(criteria: any, callback: ResultCallback<any>): void {
 
     }
 
-    findInverseOf(entity: Object, path: string, callback: ResultCallback<any[]>): void {
+    findInverseOf(entity: Object, path: string, options: InverseOfOptions, callback: ResultCallback<any[]>): void {
 
     }
 
-    findOneInverseOf(entity: Object, path: string, callback: ResultCallback<any>): void {
+    findOneInverseOf(entity: Object, path: string, options: InverseOfOptions, callback: ResultCallback<any>): void {
 
     }
 
@@ -4,6 +4,8 @@ import {Callback} from "./core/callback";
 import {Command} from "./core/command";
 import {PersistenceError} from "./persistenceError";
 import {FlushPriority} from "./mapping/mappingModel";
+import {WriteConcern} from "./config/configuration";
+import {ClientSession} from "mongodb";
 
 /**
  * @hidden
@@ -14,6 +16,16 @@ export class Batch implements Command {
     private _commands: Command[] = [];
     private _executed = false;
 
+    /**
+     * Creates a batch.
+     * @param writeConcern Optional. The write concern for the commands in the batch. If not specified, each command
+     * uses the write concern for its collection.
+     * @param session Optional. The client session of the transaction to execute the commands in.
+     */
+    constructor(public writeConcern?: WriteConcern, public session?: ClientSession) {
+
+    }
+
     /**
      * Gets a command from the batch.
      * @param id The id of the command.
@@ -0,0 +1,159 @@
+import {IdentityGenerator} from "./configuration";
+import {PersistenceError} from "../persistenceError";
+import {ObjectMapping} from "../mapping/objectMapping";
+import {EntityMapping} from "../mapping/entityMapping";
+import {Property} from "../mapping/property";
+import {MappingModel} from "../mapping/mappingModel";
+
+/**
+ * Identity generator for entities with a composite key. The identifier is the embedded document written by the
+ * identity property of the entity. The string representation of the identifier is a JSON array of the values of
+ * the fields in the key, in the order the fields are mapped, so it does not depend on the order of the fields in the
+ * document.
+ * @hidden
+ */
+export class CompositeKeyGenerator implements IdentityGenerator {
+
+    private _properties: Property[];
+
+    constructor(public keyMapping: ObjectMapping) {
+
+    }
+
+    generate(): any {
+        throw new PersistenceError("Identifiers for entities with a composite key are assigned from the identity property.");
+    }
+
+    validate(value: any): boolean {
+
+        if(value == null || typeof value !== "object" || Array.isArray(value)) return false;
+
+        var properties = this._getProperties();
+        for (var i = 0, l = properties.length; i < l; i++) {
+            if(properties[i].getFieldValue(value) == null) {
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    keyToString(id: any): string {
+
+        // the string is used as the key in the identity map so it must not depend on the order of the fields
+        return this._getString(id);
+    }
+
+    fromString(text: string): any {
+
+        if(text == null) return null;
+
+        try {
+            var parts = JSON.parse(text);
+        }
+        catch(err) {
+            return null;
+        }
+
+        var properties = this._getProperties();
+        if(!Array.isArray(parts) || parts.length != properties.length) {
+            return null;
+        }
+
+        var key: any = {};
+        for (var i = 0, l = properties.length; i < l; i++) {
+            var value = this._convertPart(properties[i], parts[i]);
+            if(value == null) {
+                return null;
+            }
+            properties[i].setFieldValue(key, value);
+        }
+
+        return this.validate(key) ? key : null;
+    }
+
+    areEqual(first: any, second: any): boolean {
+
+        if(first === second) return true;
+        if(first == null || second == null || typeof first !== "object" || typeof second !== "object") return false;
+
+        return this.keyToString(first) === this.keyToString(second);
+    }
+
+    /**
+     * Creates the criteria for a query that finds the documents with the specified identifiers. Each field in the key is
+     * matched separately so the query does not depend on the order of the fields in the identifiers.
+     * @param ids The identifiers. Identifiers must be valid.
+     */
+    createCriteria(ids: any[]): any {
+
+        var criteria = ids.map(id => this._createKeyCriteria(id));
+        return criteria.length == 1 ? criteria[0] : { $or: criteria };
+    }
+
+    private _createKeyCriteria(id: any): any {
+
+        var criteria: any = {},
+            properties = this._getProperties();
+
+        for (var i = 0, l = properties.length; i < l; i++) {
+            var property = properties[i],
+                value = property.getFieldValue(id);
+
+            // references in the key can be given as strings
+            if(typeof value === "string") {
+                value = this._convertPart(property, value);
+            }
+            criteria["_id." + property.field] = value;
+        }
+
+        return criteria;
+    }
+
+    private _convertPart(property: Property, part: any): any {
+
+        if(typeof part !== "string") return null;
+
+        var mapping = property.mapping;
+        if(mapping.flags & MappingModel.MappingFlags.Entity) {
+            return (<EntityMapping>(<EntityMapping>mapping).inheritanceRoot).identity.fromString(part);
+        }
+
+        if(mapping.flags & MappingModel.MappingFlags.Number) {
+            var value = Number(part);
+            return part !== "" && isFinite(value) ? value : null;
+        }
+
+        if(mapping.flags & MappingModel.MappingFlags.String) {
+            return part;
+        }
+
+        // other types of fields in the key cannot be converted from a string
+        return null;
+    }
+
+    private _getString(value: any): string {
+
+        var properties = this._getProperties(),
+            parts = new Array(properties.length);
+
+        for (var i = 0, l = properties.length; i < l; i++) {
+            var part = properties[i].getFieldValue(value);
+            parts[i] = part == null ? null : part.toString();
+        }
+
+        return JSON.stringify(parts);
+    }
+
+    private _getProperties(): Property[] {
+
+        if(!this._properties) {
+            // the properties of the key mapping are not available until the mapping is built
+            this._properties = this.keyMapping.properties.filter(property =>
+                (property.flags & (MappingModel.PropertyFlags.Ignored | MappingModel.PropertyFlags.InverseSide)) == 0);
+        }
+
+        return this._properties;
+    }
+}
+
@@ -1,7 +1,7 @@
 import * as async from "async";
 import * as mongodb from "mongodb";
 import {NamingStrategy, NamingStrategies} from "./namingStrategies";
-import {ResultCallback} from "../core/callback";
+import {Callback, ResultCallback} from "../core/callback";
 import {MappingRegistry} from "../mapping/mappingRegistry";
 import {ChangeTrackingType} from "../mapping/mappingModel";
 import {Table} from "../core/table";
@@ -11,6 +11,8 @@ import {EntityMapping} from "../mapping/entityMapping";
 import {ObjectIdGenerator} from "./objectIdGenerator";
 import {ClassMapping} from "../mapping/classMapping";
 import {PersistenceError} from "../persistenceError";
+import {LruCacheStore} from "./lruCacheStore";
+import {EntityCache} from "../entityCache";
 
 /**
  * Specifies default settings used to create the [[SessionFactory]].
@@ -78,6 +80,20 @@ export class Configuration {
      */
     createIndexes: boolean;
 
+    /**
+     * The store to use for the second-level cache of entities that are marked as [[Cacheable]]. The cache is shared by
+     * all sessions created by the [[SessionFactory]]. If not specified, an in-process [[LruCacheStore]] is used.
+     */
+    cacheStore: CacheStore;
+
+    /**
+     * Default write concern for writes to the database. The write concern can be changed for the entities in a
+     * collection by specifying `w`, `wtimeout`, or `j` in the options for [[Collection]], and for a single write by
+     * passing a write concern to [[Session.flush]] or to a query that modifies documents. If not specified, the
+     * write concern of the MongoDB connection is used.
+     */
+    writeConcern: WriteConcern;
+
     /**
      * @hidden
      */
@@ -94,15 +110,50 @@ export class Configuration {
 
     /**
      * Creates a session factory.
-     * @param connection The MongoDB connection to use.
+     * @param connection The MongoDB client or database to use. If a client is specified, the database named in the
+     * connection string is used. A client is required for transactions and for entities that are mapped to another
+     * database.
      * @param callback Called once the session factory is created.
      */
-    createSessionFactory(connection: mongodb.Db, callback: ResultCallback<SessionFactory>): void {
+    createSessionFactory(connection: mongodb.MongoClient | mongodb.Db, callback: ResultCallback<SessionFactory>): void;
+
+    /**
+     * Creates a session factory. Returns a Promise for the session factory.
+     * @param connection The MongoDB client or database to use. If a client is specified, the database named in the
+     * connection string is used. A client is required for transactions and for entities that are mapped to another
+     * database.
+     */
+    createSessionFactory(connection: mongodb.MongoClient | mongodb.Db): Promise<SessionFactory>;
+    createSessionFactory(connection: mongodb.MongoClient | mongodb.Db, callback?: ResultCallback<SessionFactory>): Promise<SessionFactory> {
+
+        if(!callback) {
+            return new Promise<SessionFactory>((resolve, reject) => {
+                this.createSessionFactory(connection, (err, factory) => {
+                    if(err) {
+                        reject(err);
+                    }
+                    else {
+                        resolve(factory);
+                    }
+                });
+            });
+        }
+
+        var registry = new MappingRegistry(),
+            client: mongodb.MongoClient,
+            db: mongodb.Db;
 
-        var registry = new MappingRegistry();
+        if(connection instanceof mongodb.MongoClient) {
+            client = connection;
+            db = client.db();
+        }
+        else {
+            db = connection;
+        }
 
         if(!this._mappings || this._mappings.length == 0) {
-            return callback(new PersistenceError("No mappings were added to the configuration."));
+            callback(new PersistenceError("No mappings were added to the configuration."));
+            return;
         }
 
         // Get the mappings from the mapping providers
@@ -118,11 +169,12 @@ export class Configuration {
         }, (err) => {
             if(err) return callback(err);
 
-            this._buildCollections(connection, registry, (err, collections) => {
+            this._buildCollections(db, client, registry, (err, collections) => {
                 if(err) return callback(err);
 
-                let factory = new SessionFactoryImpl(connection, collections, registry);
+                let factory = new SessionFactoryImpl(db, collections, registry, client);
                 factory.logger = this.logger;
+                factory.cache = new EntityCache(this.cacheStore || new LruCacheStore());
 
                 // see if creating indexes is enabled
                 if (!this.createIndexes) {
@@ -141,7 +193,7 @@ export class Configuration {
     /**
      * @hidden
      */
-    private _buildCollections(connection: mongodb.Db, registry: MappingRegistry, callback: ResultCallback<Table<mongodb.Collection>>): void {
+    private _buildCollections(connection: mongodb.Db, client: mongodb.MongoClient, registry: MappingRegistry, callback: ResultCallback<Table<mongodb.Collection>>): void {
 
         // Get all the collections and make sure they exit. We can also use this as a chance to build the
         // collection if it does not exist.
@@ -168,7 +220,11 @@ export class Configuration {
 
             // change current database if a databaseName was specified in the mapping
             if(mapping.databaseName && mapping.databaseName !== localConnection.databaseName) {
-                localConnection = localConnection.db(mapping.databaseName);
+                if(!client) {
+                    return done(new PersistenceError("Type '" + mapping.name + "' is mapped to database '" + mapping.databaseName
+                        + "'. Create the session factory with a MongoClient to use more than one database."));
+                }
+                localConnection = client.db(mapping.databaseName);
             }
 
             localConnection.listCollections({ name: mapping.collectionName }).toArray((err: Error, names: string[]): void => {
@@ -211,10 +267,104 @@ export interface IdentityGenerator {
     validate(value: any): boolean;
     areEqual(first: any, second: any): boolean;
 
+    /**
+     * Optional. Gets the string representation of an identifier that is used as the key for the entity in the identity
+     * map and the cache. Implement this method if the identifier is a document or another value whose `toString`
+     * method does not uniquely identify it. If not specified, `toString` is called on the identifier.
+     * @param id The identifier.
+     */
+    keyToString?(id: any): string;
+
+    /**
+     * Optional. Generates an identifier asynchronously. Implement this method if the generator needs to access the
+     * database. If specified, it is called in place of `generate` when a new entity is saved.
+     * @param context Information about the entity the identifier is generated for.
+     * @param callback Called with the generated identifier.
+     */
+    generateAsync?(context: IdentityContext, callback: ResultCallback<any>): void;
+
     // TODO: serialize and deserialize methods on IdentityGenerator? e.g. Perhaps UUID is a class when assigned to an
     // entity but is serialized to a string when stored in the database.
 }
 
+/**
+ * The acknowledgment requested from MongoDB for writes. See the MongoDB documentation on
+ * [write concern](https://docs.mongodb.com/manual/reference/write-concern/) for details.
+ */
+export interface WriteConcern {
+
+    /**
+     * The number of members of the replica set that must acknowledge the write or "majority". A value of 0 requests
+     * no acknowledgment, in which case write errors and optimistic locking conflicts are not reported.
+     */
+    w?: number | string;
+
+    /**
+     * The time limit, in milliseconds, for the write concern.
+     */
+    wtimeout?: number;
+
+    /**
+     * Requests acknowledgment that the write has been written to the journal.
+     */
+    j?: boolean;
+}
+
+/**
+ * Information about the entity an identifier is generated for.
+ */
+export interface IdentityContext {
+
+    /**
+     * The MongoDB database connection.
+     */
+    connection: mongodb.Db;
+
+    /**
+     * The name of the collection for the entity.
+     */
+    collectionName: string;
+}
+
+/**
+ * A store for the second-level cache. Values are grouped in regions, one for each collection of cacheable entities,
+ * so all values for a collection can be removed at once when the collection is modified by a query.
+ */
+export interface CacheStore {
+
+    /**
+     * Gets a value from the store.
+     * @param region The region of the value.
+     * @param key The key of the value.
+     * @param callback Called with the value or undefined if the value is not in the store.
+     */
+    get(region: string, key: string, callback: ResultCallback<any>): void;
+
+    /**
+     * Adds a value to the store, replacing any existing value with the same key.
+     * @param region The region of the value.
+     * @param key The key of the value.
+     * @param value The value.
+     * @param callback Called after the value has been added.
+     */
+    set(region: string, key: string, value: any, callback: Callback): void;
+
+    /**
+     * Removes a value from the store.
+     * @param region The region of the value.
+     * @param key The key of the value.
+     * @param callback Called after the value has been removed.
+     */
+    remove(region: string, key: string, callback: Callback): void;
+
+    /**
+     * Removes all values in a region from the store.
+     * @param region The region to clear.
+     * @param callback Called after the values have been removed.
+     */
+    clear(region: string, callback: Callback): void;
+}
+
 /**
  * Describes a type that is able to convert an entity or embeddable property value to a MongoDB document field and back.
  *
@@ -0,0 +1,143 @@
+import {CacheStore} from "./configuration";
+import {Callback, ResultCallback} from "../core/callback";
+
+/**
+ * An in-process [[CacheStore]] that holds up to a maximum number of values. When the store is full, the least recently
+ * used value is discarded.
+ *
+ * Values are stored by reference so they must not be modified after they are added to the store.
+ */
+export class LruCacheStore implements CacheStore {
+
+    private _entries: Map<string, LruEntry> = new Map();
+    private _head: LruEntry;
+    private _tail: LruEntry;
+
+    /**
+     * Constructs an LruCacheStore.
+     * @param maxSize The maximum number of values to hold. Default is 1000.
+     */
+    constructor(public maxSize = 1000) {
+
+    }
+
+    /**
+     * The number of values in the store.
+     */
+    get size(): number {
+
+        return this._entries.size;
+    }
+
+    get(region: string, key: string, callback: ResultCallback<any>): void {
+
+        var entry = this._entries.get(getEntryKey(region, key));
+        if (entry) {
+            // move the entry to the front of the list since it is now the most recently used
+            this._unlink(entry);
+            this._linkFirst(entry);
+        }
+
+        process.nextTick(() => callback(null, entry && entry.value));
+    }
+
+    set(region: string, key: string, value: any, callback: Callback): void {
+
+        var entryKey = getEntryKey(region, key),
+            entry = this._entries.get(entryKey);
+
+        if (entry) {
+            this._unlink(entry);
+            entry.value = value;
+        }
+        else {
+            entry = { key: entryKey, region, value };
+            this._entries.set(entryKey, entry);
+        }
+        this._linkFirst(entry);
+
+        // discard the least recently used values if the store is full
+        while (this._entries.size > this.maxSize && this._tail) {
+            this._remove(this._tail);
+        }
+
+        process.nextTick(callback);
+    }
+
+    remove(region: string, key: string, callback: Callback): void {
+
+        var entry = this._entries.get(getEntryKey(region, key));
+        if (entry) {
+            this._remove(entry);
+        }
+
+        process.nextTick(callback);
+    }
+
+    clear(region: string, callback: Callback): void {
+
+        var entry = this._head;
+        while (entry) {
+            var next = entry.next;
+            if (entry.region === region) {
+                this._remove(entry);
+            }
+            entry = next;
+        }
+
+        process.nextTick(callback);
+    }
+
+    private _remove(entry: LruEntry): void {
+
+        this._unlink(entry);
+        this._entries.delete(entry.key);
+    }
+
+    private _linkFirst(entry: LruEntry): void {
+
+        entry.prev = null;
+        entry.next = this._head;
+
+        if (this._head) {
+            this._head.prev = entry;
+        }
+        else {
+            this._tail = entry;
+        }
+        this._head = entry;
+    }
+
+    private _unlink(entry: LruEntry): void {
+
+        if (entry.prev) {
+            entry.prev.next = entry.next;
+        }
+        else {
+            this._head = entry.next;
+        }
+
+        if (entry.next) {
+            entry.next.prev = entry.prev;
+        }
+        else {
+            this._tail = entry.prev;
+        }
+
+        entry.prev = entry.next = null;
+    }
+}
+
+interface LruEntry {
+
+    key: string;
+    region: string;
+    value: any;
+    prev?: LruEntry;
+    next?: LruEntry;
+}
+
+function getEntryKey(region: string, key: string): string {
+
+    return region + ":" + key;
+}
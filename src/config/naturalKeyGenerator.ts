@@ -0,0 +1,38 @@
+import {IdentityGenerator} from "./configuration";
+import {PersistenceError} from "../persistenceError";
+
+/**
+ * Identity generator for entities with a natural key. Identifiers are assigned from the identity property of the
+ * entity rather than generated.
+ * @hidden
+ */
+export class NaturalKeyGenerator implements IdentityGenerator {
+
+    generate(): any {
+        throw new PersistenceError("Identifiers for entities with a natural key are assigned from the identity property.");
+    }
+
+    validate(value: any): boolean {
+
+        return value != null && value !== "";
+    }
+
+    fromString(text: string): any {
+
+        // natural keys are generally strings so the text is the identifier
+        return text == null || text === "" ? null : text;
+    }
+
+    areEqual(first: any, second: any): boolean {
+
+        if(first === second) return true;
+        if(first == null || second == null) return false;
+
+        // identifiers such as ObjectIDs and Binary values provide an equals method
+        if(typeof first.equals === "function") {
+            return first.equals(second);
+        }
+
+        return false;
+    }
+}
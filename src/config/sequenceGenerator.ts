@@ -0,0 +1,168 @@
+import {IdentityGenerator, IdentityContext} from "./configuration";
+import {ResultCallback} from "../core/callback";
+import {PersistenceError} from "../persistenceError";
+
+/**
+ * Options for a [[SequenceGenerator]].
+ */
+export interface SequenceGeneratorOptions {
+
+    /**
+     * The name of the sequence. If not specified, the name of the collection for the entity is used so each
+     * collection has its own sequence.
+     */
+    name?: string;
+
+    /**
+     * The name of the collection that holds the current value of each sequence. Default is "counters".
+     */
+    collectionName?: string;
+
+    /**
+     * The number of identifiers to reserve each time the database is accessed. Default is 100.
+     */
+    blockSize?: number;
+}
+
+/**
+ * State of a sequence that has a block of identifiers reserved.
+ * @hidden
+ */
+interface Sequence {
+
+    /**
+     * The next identifier to return.
+     */
+    next: number;
+
+    /**
+     * The identifier after the last identifier in the reserved block.
+     */
+    max: number;
+
+    /**
+     * Callbacks waiting for a new block of identifiers to be reserved.
+     */
+    waiting: ResultCallback<number>[];
+}
+
+/**
+ * Generates sequential numeric identifiers. The current value of each sequence is stored in a counters collection.
+ *
+ * Identifiers are reserved in blocks using the hi/lo algorithm: each time the database is accessed, the value of the
+ * sequence is incremented by the block size and the identifiers in the block are handed out from memory. Identifiers
+ * are unique across processes but, since unused identifiers in a block are lost when the process exits, they may
+ * not be contiguous.
+ *
+ * ### Example
+ *
+ * ```typescript
+ *  @Entity()
+ *  @Identity(new SequenceGenerator({ blockSize: 10 }))
+ *  export class Invoice {
+ *      ...
+ *  }
+ * ```
+ */
+export class SequenceGenerator implements IdentityGenerator {
+
+    private _name: string;
+    private _collectionName: string;
+    private _blockSize: number;
+    private _sequences: Map<string, Sequence> = new Map();
+
+    constructor(options?: SequenceGeneratorOptions) {
+
+        options = options || {};
+
+        if(options.blockSize != null && (options.blockSize < 1 || Math.floor(options.blockSize) !== options.blockSize)) {
+            throw new PersistenceError("Block size must be a positive integer.");
+        }
+
+        this._name = options.name;
+        this._collectionName = options.collectionName || "counters";
+        this._blockSize = options.blockSize || 100;
+    }
+
+    generate(): any {
+        throw new PersistenceError("Sequence identifiers must be generated asynchronously.");
+    }
+
+    generateAsync(context: IdentityContext, callback: ResultCallback<any>): void {
+
+        var name = this._name || context.collectionName,
+            sequence = this._sequences.get(name);
+
+        if(!sequence) {
+            sequence = { next: 0, max: 0, waiting: [] };
+            this._sequences.set(name, sequence);
+        }
+
+        if(sequence.next < sequence.max) {
+            return callback(null, sequence.next++);
+        }
+
+        // wait for the block that is being reserved if there is one
+        sequence.waiting.push(callback);
+        if(sequence.waiting.length > 1) {
+            return;
+        }
+
+        this._reserveBlock(context, name, (err, hi) => {
+
+            var waiting = sequence.waiting;
+            sequence.waiting = [];
+
+            if(err) {
+                waiting.forEach((done) => done(err));
+                return;
+            }
+
+            sequence.next = hi - this._blockSize + 1;
+            sequence.max = hi + 1;
+
+            // callbacks that do not fit in the block are queued again
+            waiting.forEach((done) => this.generateAsync(context, done));
+        });
+    }
+
+    validate(value: any): boolean {
+
+        return typeof value === "number" && Math.floor(value) === value && value > 0;
+    }
+
+    fromString(text: string): any {
+
+        if(text == null || !/^[1-9][0-9]*$/.test(text)) {
+            return null;
+        }
+
+        return parseInt(text, 10);
+    }
+
+    areEqual(first: any, second: any): boolean {
+
+        return first === second;
+    }
+
+    /**
+     * Increments the value of the sequence by the block size. Returns the new value of the sequence, which is the last
+     * identifier in the reserved block.
+     */
+    private _reserveBlock(context: IdentityContext, name: string, callback: ResultCallback<number>): void {
+
+        var collection = context.connection.collection(this._collectionName),
+            update = { $inc: { value: this._blockSize }};
+
+        collection.findAndModify({ _id: name }, [], update, { upsert: true, new: true }, (err, response) => {
+            if(err) return callback(err);
+
+            var document = response && response.value;
+            if(!document || typeof document.value !== "number") {
+                return callback(new PersistenceError("Unable to reserve identifiers for sequence '" + name + "'."));
+            }
+
+            callback(null, document.value);
+        });
+    }
+}
@@ -0,0 +1,65 @@
+import * as crypto from "crypto";
+import {Binary} from "mongodb";
+import {IdentityGenerator} from "./configuration";
+
+/**
+ * Generates random (version 4) UUIDs stored as BSON Binary values with the UUID subtype (4).
+ *
+ * The string representation of an identifier is in the canonical form `xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx`.
+ */
+export class UuidGenerator implements IdentityGenerator {
+
+    generate(): any {
+
+        var buffer = crypto.randomBytes(16);
+
+        // set the version to 4 and the variant to RFC 4122
+        buffer[6] = (buffer[6] & 0x0f) | 0x40;
+        buffer[8] = (buffer[8] & 0x3f) | 0x80;
+
+        return new Binary(buffer, UUID_SUBTYPE);
+    }
+
+    validate(value: any): boolean {
+
+        if(value == null) return false;
+
+        return value._bsontype == 'Binary' && value.sub_type == UUID_SUBTYPE && value.position == 16;
+    }
+
+    keyToString(id: any): string {
+
+        // Binary.toString returns the raw contents of the buffer so use the canonical form of the UUID instead
+        var hex = toHex(id);
+        return [hex.substr(0, 8), hex.substr(8, 4), hex.substr(12, 4), hex.substr(16, 4), hex.substr(20, 12)].join("-");
+    }
+
+    fromString(text: string): any {
+
+        if(text == null) {
+            return null;
+        }
+
+        var hex = text.replace(/-/g, "");
+        if(hex.length != 32 || !/^[0-9a-fA-F]+$/.test(hex)) {
+            return null;
+        }
+
+        return new Binary(Buffer.from(hex, "hex"), UUID_SUBTYPE);
+    }
+
+    areEqual(first: any, second: any): boolean {
+
+        return toHex(first) === toHex(second);
+    }
+}
+
+/**
+ * The BSON Binary subtype for a UUID.
+ */
+const UUID_SUBTYPE = 4;
+
+function toHex(value: any): string {
+
+    return value.buffer.slice(0, value.position).toString("hex");
+}
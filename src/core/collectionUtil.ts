@@ -42,4 +42,16 @@ export function isIterableConstructor(obj: any): boolean {
     }
 
     return obj.prototype[Symbol.iterator] !== undefined;
-}
\ No newline at end of file
+}
+
+/**
+ * Returns an array containing the values of a Set or Map, in iteration order.
+ * @param collection The Set or Map.
+ * @hidden
+ */
+export function toArray(collection: Set<any> | Map<any, any>): any[] {
+
+    var result: any[] = [];
+    (<any>collection).forEach((value: any) => result.push(value));
+    return result;
+}
@@ -0,0 +1,147 @@
+import {CacheStore} from "./config/configuration";
+import {EntityMapping} from "./mapping/entityMapping";
+import {Callback, ResultCallback} from "./core/callback";
+import * as RegExpUtil from "./core/regExpUtil";
+
+/**
+ * The second-level cache. Holds the documents for cacheable entities so they can be shared by all sessions created by
+ * a session factory. Documents are stored in a region for the collection of the entity, keyed by the string
+ * representation of the identifier. The document includes the version field so an entity loaded from the cache has
+ * the same version as an entity loaded from the database.
+ *
+ * When the document for a versioned entity is evicted because the entity was written, the version that was written is
+ * kept in the cache. A document with an older version, read by another session before the write, is then not added
+ * back to the cache. Documents are copied when they are added to and returned from the cache so changes made by a
+ * session do not affect the documents held by the cache.
+ * @hidden
+ */
+export class EntityCache {
+
+    constructor(public store: CacheStore) {
+
+    }
+
+    /**
+     * Gets a document from the cache.
+     * @param mapping The mapping for the entity.
+     * @param id The identifier of the entity.
+     * @param callback Called with the document or undefined if the document is not in the cache.
+     */
+    get(mapping: EntityMapping, id: any, callback: ResultCallback<any>): void {
+
+        this.store.get(getRegion(mapping), mapping.keyToString(id), (err, entry: CacheEntry) => {
+            if (err) return callback(err);
+
+            callback(null, entry && entry.document ? cloneDocument(entry.document) : undefined);
+        });
+    }
+
+    /**
+     * Adds a document to the cache. The document is not added if a newer version of the document is in the cache or
+     * was evicted from the cache.
+     * @param mapping The mapping for the entity.
+     * @param document The document. The document must contain all fields that are loaded by default.
+     * @param callback Called after the document has been added.
+     */
+    put(mapping: EntityMapping, document: any, callback: Callback): void {
+
+        var region = getRegion(mapping),
+            key = mapping.keyToString(document["_id"]),
+            version = getVersion(mapping, document);
+
+        this.store.get(region, key, (err, entry: CacheEntry) => {
+            if (err) return callback(err);
+
+            if (entry && entry.version != null && (version == null || version < entry.version)) {
+                // the document was read before a newer version was written
+                return callback();
+            }
+
+            this.store.set(region, key, { document: cloneDocument(document), version }, callback);
+        });
+    }
+
+    /**
+     * Removes a document from the cache.
+     * @param mapping The mapping for the entity.
+     * @param id The identifier of the entity.
+     * @param version The version of the document that was written, or undefined if the version is not known. Older
+     * versions of the document are not added to the cache after it is evicted.
+     * @param callback Called after the document has been removed.
+     */
+    evict(mapping: EntityMapping, id: any, version: number, callback: Callback): void {
+
+        var region = getRegion(mapping),
+            key = mapping.keyToString(id);
+
+        if (version == null) {
+            this.store.remove(region, key, callback);
+        }
+        else {
+            this.store.set(region, key, { version }, callback);
+        }
+    }
+
+    /**
+     * Removes all documents in the collection for an entity from the cache.
+     * @param mapping The mapping for the entity.
+     * @param callback Called after the documents have been removed.
+     */
+    evictAll(mapping: EntityMapping, callback: Callback): void {
+
+        this.store.clear(getRegion(mapping), callback);
+    }
+}
+
+/**
+ * A value held by the [[CacheStore]]. An entry without a document records the version of a document that was evicted.
+ * @hidden
+ */
+interface CacheEntry {
+
+    document?: any;
+    version?: number;
+}
+
+function getVersion(mapping: EntityMapping, document: any): number {
+
+    return (<EntityMapping>mapping.inheritanceRoot).versioned ? mapping.getDocumentVersion(document) : undefined;
+}
+
+function getRegion(mapping: EntityMapping): string {
+
+    var root = <EntityMapping>mapping.inheritanceRoot;
+    return root.databaseName ? root.databaseName + "." + root.collectionName : root.collectionName;
+}
+
+function cloneDocument(value: any): any {
+
+    if (value == null || typeof value !== "object") {
+        return value;
+    }
+
+    if (Array.isArray(value)) {
+        return value.map(cloneDocument);
+    }
+
+    if (value instanceof Date) {
+        return new Date(value.getTime());
+    }
+
+    if (value instanceof RegExp) {
+        return RegExpUtil.clone(value);
+    }
+
+    // values such as ObjectIDs are never modified so they are shared
+    if (Object.getPrototypeOf(value) !== Object.prototype) {
+        return value;
+    }
+
+    var clone: any = {};
+    for (var key in value) {
+        if (value.hasOwnProperty(key)) {
+            clone[key] = cloneDocument(value[key]);
+        }
+    }
+    return clone;
+}
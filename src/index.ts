@@ -1,28 +1,51 @@
 import {Reference} from "./reference";
 
 export {NamingStrategies, NamingStrategy} from "./config/namingStrategies";
-export {PersistenceError, EntityNotFoundError} from "./persistenceError";
-export {CascadeFlags, ChangeTrackingType, FlushPriority, FetchType} from "./mapping/mappingModel";
+export {
+    PersistenceError,
+    EntityNotFoundError,
+    FlushError,
+    OptimisticLockError,
+    ValidationError,
+    ConstraintViolation,
+    WriteFailure,
+    WriteOperation,
+    WriteErrorType
+} from "./persistenceError";
+export {CascadeFlags, ChangeTrackingType, FlushPriority, FetchType, LifecycleEvent} from "./mapping/mappingModel";
 
 export {Configuration} from "./config/configuration";
 export {ObjectIdGenerator} from "./config/objectIdGenerator";
+export {UuidGenerator} from "./config/uuidGenerator";
+export {SequenceGenerator, SequenceGeneratorOptions} from "./config/sequenceGenerator";
+export {LruCacheStore} from "./config/lruCacheStore";
 export {AnnotationMappingProvider} from "./mapping/providers/annotationMappingProvider";
 
 export * from "./mapping/providers/decorators";
 
 export {Callback, ResultCallback, IteratorCallback} from "./core/callback";
-export {IdentityGenerator, PropertyConverter} from "./config/configuration";
-export {Session} from "./session";
+export {ValidatorFunction} from "./mapping/constraint";
+export {IdentityGenerator, IdentityContext, PropertyConverter, CacheStore, WriteConcern} from "./config/configuration";
+export {Session, FlushOptions} from "./session";
 export {SessionFactory} from "./sessionFactory";
 export {
     Query,
     QueryBuilder,
     CountQuery,
+    DistinctQuery,
+    WriteQuery,
     FindQuery,
     FindOneQuery,
     FindOneAndUpdateQuery,
     FindOneAndRemoveQuery,
-    QueryDocument
+    QueryDocument,
+    QueryCursor,
+    QueryCursorIterator,
+    AggregateQuery,
+    ReadQuery,
+    ReadPreferenceMode,
+    ReadConcernLevel,
+    Collation
 } from "./query/queryBuilder";
 
 export interface Constructor<T> {
@@ -12,6 +12,8 @@ import {ReadContext} from "./readContext";
 import {Observer} from "../observer";
 import {WriteContext} from "./writeContext";
 import {PersistenceError} from "../persistenceError";
+import {Changes} from "./changes";
+import {InverseOfOptions} from "./providers/annotations";
 
 /**
  * @hidden
@@ -39,11 +41,6 @@ export class ArrayMapping extends MappingBase {
             result[i] = mapping.read(context, value[i]);
         }
 
-        // if there is an observer in the context, then watch this array for changes.
-        if(context.observer) {
-            context.observer.watch(result);
-        }
-
         return result;
     }
 
@@ -66,15 +63,20 @@ export class ArrayMapping extends MappingBase {
         return result;
     }
 
-    watch(value: any, observer: Observer, visited: any[]): void {
+    watch(value: any, observer: Observer, visited: any[]): any {
 
-        if(!value || !Array.isArray(value)) return;
-
-        observer.watch(value);
+        if(!value || !Array.isArray(value)) return value;
 
         for (var i = 0, l = value.length; i < l; i++) {
-            this.elementMapping.watch(value[i], observer, visited);
+            var element = value[i],
+                watched = this.elementMapping.watch(element, observer, visited);
+
+            if(watched !== element) {
+                value[i] = watched;
+            }
         }
+
+        return observer.watch(value);
     }
 
     areEqual(documentValue1: any, documentValue2: any): boolean {
@@ -97,6 +99,28 @@ export class ArrayMapping extends MappingBase {
         return true;
     }
 
+    getChanges(documentValue1: any, documentValue2: any, path: string, changes: Changes): void {
+
+        if (Array.isArray(documentValue1) && Array.isArray(documentValue2) && documentValue2.length > documentValue1.length) {
+
+            // check if elements were only appended to the end of the array
+            var mapping = this.elementMapping;
+            for (var i = 0, l = documentValue1.length; i < l; i++) {
+                var fieldValue1 = documentValue1[i];
+                var fieldValue2 = documentValue2[i];
+
+                if (fieldValue1 !== fieldValue2 && !mapping.areEqual(fieldValue1, fieldValue2)) {
+                    this.replaceValue(documentValue2, path, changes);
+                    return;
+                }
+            }
+
+            (changes.$push || (changes.$push = {}))[path] = { $each: documentValue2.slice(documentValue1.length) };
+            return;
+        }
+
+        this.replaceValue(documentValue2, path, changes);
+    }
 
     walk(session: InternalSession, value: any, flags: MappingModel.PropertyFlags, entities: any[], embedded: any[], references: Reference[]): void {
 
@@ -123,7 +147,7 @@ export class ArrayMapping extends MappingBase {
         });
     }
 
-    fetchInverse(session: InternalSession, parentEntity: any, propertyName: string, path: string[], depth: number, callback: ResultCallback<any>): void {
+    fetchInverse(session: InternalSession, parentEntity: any, propertyName: string, options: InverseOfOptions, path: string[], depth: number, callback: ResultCallback<any>): void {
 
         if(!parentEntity) {
             return callback(new PersistenceError("Parent entity required to resolve inverse relationship."));
@@ -133,7 +157,7 @@ export class ArrayMapping extends MappingBase {
             return callback(new PersistenceError("Element mapping must be an entity to resolve inverse relationship."));
         }
 
-        session.getPersister(<EntityMapping>this.elementMapping).findInverseOf(parentEntity, propertyName, (err, value) => {
+        session.getPersister(<EntityMapping>this.elementMapping).findInverseOf(parentEntity, propertyName, options, (err, value) => {
             if(err) return callback(err);
             this.fetch(session, this, value, path, depth, callback);
         });
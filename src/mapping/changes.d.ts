@@ -2,4 +2,5 @@ export interface Changes {
 
     $set?: { [name: string]: any };
     $unset?: { [name: string]: any };
+    $push?: { [name: string]: any };
 }
@@ -7,6 +7,7 @@ import {ResultCallback} from "../core/callback";
 import {ReadContext} from "./readContext";
 import {WriteContext} from "./writeContext";
 import {PersistenceError} from "../persistenceError";
+import {Changes} from "./changes";
 
 var OriginalDocument = Symbol();
 
@@ -15,7 +16,7 @@ var OriginalDocument = Symbol();
  */
 export class ClassMapping extends ObjectMapping {
 
-    private _baseClass: ClassMapping;
+    protected _baseClass: ClassMapping;
     private _subclasses: ClassMapping[];
     private _discriminatorMap: Map<string, ClassMapping>;
     private _registry: MappingRegistry;
@@ -276,6 +277,27 @@ export class ClassMapping extends ObjectMapping {
         return super.areEqual(documentValue1, documentValue2);
     }
 
+    getChanges(documentValue1: any, documentValue2: any, path: string, changes: Changes): void {
+
+        if (documentValue1 != null && documentValue2 != null) {
+            var mapping1 = this._getMappingForDocument(documentValue1);
+            var mapping2 = this._getMappingForDocument(documentValue2);
+
+            // only compare the fields if both documents have the same mapping
+            if (mapping1 !== undefined && mapping1 === mapping2) {
+                mapping1._getChanges(documentValue1, documentValue2, path, changes);
+                return;
+            }
+        }
+
+        this.replaceValue(documentValue2, path, changes);
+    }
+
+    private _getChanges(documentValue1: any, documentValue2: any, path: string, changes: Changes): void {
+
+        super.getChanges(documentValue1, documentValue2, path, changes);
+    }
+
     walk(session: InternalSession, value: any, flags: MappingModel.PropertyFlags, entities: any[], embedded: any[], references: Reference[]): void {
 
         if (!value || typeof value !== "object") return;
@@ -3,7 +3,7 @@ export interface CollectionOptions {
     /**
      * The write concern.
      */
-    w?: string;
+    w?: number | string;
 
     /**
      * The write concern timeout.
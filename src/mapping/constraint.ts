@@ -0,0 +1,138 @@
+/**
+ * A constraint on the value of a property that is checked before an entity is written to the database.
+ * @hidden
+ */
+export interface Constraint {
+
+    /**
+     * Checks a value against the constraint. Returns a message describing why the value is invalid or undefined if
+     * the value is valid.
+     * @param value The value of the property.
+     */
+    validate(value: any): string;
+}
+
+/**
+ * Function used by [[Validate]] to check the value of a property. Returns true if the value is valid. Returns false
+ * or a message describing the problem if the value is invalid.
+ */
+export interface ValidatorFunction {
+
+    (value: any): boolean | string;
+}
+
+/**
+ * @hidden
+ */
+export class RequiredConstraint implements Constraint {
+
+    validate(value: any): string {
+
+        if (value == null || value === "") {
+            return "Value is required.";
+        }
+    }
+}
+
+/**
+ * @hidden
+ */
+export class LengthConstraint implements Constraint {
+
+    constructor(public min: number, public max?: number) {
+
+    }
+
+    validate(value: any): string {
+
+        // the constraint only applies to values that have a length, such as strings and arrays
+        if (value == null || typeof value.length !== "number") return;
+
+        if (value.length < this.min || (this.max != null && value.length > this.max)) {
+            if (this.max == null) {
+                return "Length must be at least " + this.min + ".";
+            }
+            return "Length must be between " + this.min + " and " + this.max + ".";
+        }
+    }
+}
+
+/**
+ * @hidden
+ */
+export class MinConstraint implements Constraint {
+
+    constructor(public min: number) {
+
+    }
+
+    validate(value: any): string {
+
+        if (typeof value === "number" && value < this.min) {
+            return "Value must be greater than or equal to " + this.min + ".";
+        }
+    }
+}
+
+/**
+ * @hidden
+ */
+export class MaxConstraint implements Constraint {
+
+    constructor(public max: number) {
+
+    }
+
+    validate(value: any): string {
+
+        if (typeof value === "number" && value > this.max) {
+            return "Value must be less than or equal to " + this.max + ".";
+        }
+    }
+}
+
+/**
+ * @hidden
+ */
+export class PatternConstraint implements Constraint {
+
+    constructor(public pattern: RegExp) {
+
+    }
+
+    validate(value: any): string {
+
+        if (typeof value === "string") {
+            // reset the index in case the expression is global
+            this.pattern.lastIndex = 0;
+            if (!this.pattern.test(value)) {
+                return "Value does not match pattern " + this.pattern.toString() + ".";
+            }
+        }
+    }
+}
+
+/**
+ * @hidden
+ */
+export class FunctionConstraint implements Constraint {
+
+    constructor(public validator: ValidatorFunction) {
+
+    }
+
+    validate(value: any): string {
+
+        if (value == null) return;
+
+        var result = this.validator(value);
+
+        if (typeof result === "string") {
+            return result;
+        }
+
+        if (!result) {
+            return "Value is invalid.";
+        }
+    }
+}
@@ -1,6 +1,7 @@
-import {IdentityGenerator} from "../config/configuration";
+import {DBRef} from "mongodb";
+import {IdentityGenerator, WriteConcern} from "../config/configuration";
 import {ClassMapping} from "./classMapping";
-import {ChangeTrackingType, FlushPriority} from "./mappingModel";
+import {ChangeTrackingType, FlushPriority, LifecycleEvent} from "./mappingModel";
 import {Index} from "./index";
 import {CollectionOptions} from "./collectionOptions";
 import {MappingModel} from "./mappingModel";
@@ -14,6 +15,10 @@ import {Property} from "./property";
 import {WriteContext} from "./writeContext";
 import {PersistenceError} from "../persistenceError";
 import {QueryDocument} from "../query/queryBuilder";
+import {Changes} from "./changes";
+import {Filter} from "./filter";
+import {ArrayMapping} from "./arrayMapping";
+import {InverseOfOptions} from "./providers/annotations";
 
 /**
  * @hidden
@@ -26,18 +31,27 @@ export class EntityMapping extends ClassMapping {
     collectionOptions: CollectionOptions;
 
     identity: IdentityGenerator;
+    identityProperty: Property;
 
     changeTracking: ChangeTrackingType;
 
     versioned: boolean;
     versionField: string;
 
+    cacheable: boolean;
+
+    softDeleteField: string;
+
+    writeConcern: WriteConcern;
+
     /**
      * The order in which collections are flushed to the database. Higher priority collections are flushed first.
      */
     flushPriority = FlushPriority.Medium;
 
     private _defaultFields: QueryDocument;
+    private _lifecycleCallbacks: string[][];
+    private _filters: Filter[];
 
     constructor(baseClass?: EntityMapping) {
         super(baseClass);
@@ -75,6 +89,21 @@ export class EntityMapping extends ClassMapping {
         obj[(<EntityMapping>this.inheritanceRoot).versionField] = version;
     }
 
+    /**
+     * Gets the string representation of an identifier that is used as the key for the entity in the identity map and
+     * the cache. Identifiers given as strings are already in their string representation.
+     * @param id The identifier.
+     */
+    keyToString(id: any): string {
+
+        if (id == null || typeof id === "string") {
+            return id;
+        }
+
+        var identity = (<EntityMapping>this.inheritanceRoot).identity;
+        return identity.keyToString ? identity.keyToString(id) : id.toString();
+    }
+
     getDocumentVersion(obj: any): number {
 
         // TODO: escape versionField
@@ -90,6 +119,72 @@ export class EntityMapping extends ClassMapping {
         this.indexes.push(index);
     }
 
+    addLifecycleCallback(event: LifecycleEvent, methodName: string): void {
+
+        if(!this._lifecycleCallbacks) {
+            this._lifecycleCallbacks = [];
+        }
+
+        var callbacks = this._lifecycleCallbacks[event] || (this._lifecycleCallbacks[event] = []);
+
+        // a method overridden in a subclass may be annotated in both the base class and the subclass
+        if(callbacks.indexOf(methodName) == -1) {
+            callbacks.push(methodName);
+        }
+    }
+
+    addFilter(name: string, criteria: QueryDocument): void {
+
+        if(!this._filters) {
+            this._filters = [];
+        }
+        this._filters.push({ name, criteria });
+    }
+
+    /**
+     * Gets the filters defined on this entity and its base classes. Returns undefined if there are no filters.
+     */
+    getFilters(): Filter[] {
+
+        var filters: Filter[],
+            mapping: EntityMapping = this;
+
+        while(mapping) {
+            if(mapping._filters) {
+                filters = filters ? filters.concat(mapping._filters) : mapping._filters;
+            }
+            mapping = <EntityMapping>mapping._baseClass;
+        }
+
+        return filters;
+    }
+
+    hasLifecycleCallbacks(event: LifecycleEvent): boolean {
+
+        return !!(this._lifecycleCallbacks && this._lifecycleCallbacks[event]);
+    }
+
+    /**
+     * Calls the lifecycle callbacks for the specified event on the entity. Returns the error thrown by a callback, if
+     * any. Remaining callbacks are not called after a callback throws.
+     * @param event The lifecycle event.
+     * @param entity The entity.
+     */
+    invokeLifecycleCallbacks(event: LifecycleEvent, entity: any): Error {
+
+        var callbacks = this._lifecycleCallbacks && this._lifecycleCallbacks[event];
+        if(callbacks) {
+            for(var i = 0, l = callbacks.length; i < l; i++) {
+                try {
+                    entity[callbacks[i]]();
+                }
+                catch(err) {
+                    return err;
+                }
+            }
+        }
+    }
+
     refresh(context: ReadContext, entity: any, document: any): any {
 
         var mapping = this.inheritanceRoot.getMapping(context, document);
@@ -110,10 +205,15 @@ export class EntityMapping extends ClassMapping {
 
         var id: any;
 
-        // if this is not the top level, the value should be the id
+        // if this is not the top level, the value should be the id or a DBRef
         if(context.path) {
-            // TODO: handle DBRef
-            id = value;
+            if(isDbRef(value)) {
+                id = this._readDbRef(context, value);
+                if(id === undefined) return;
+            }
+            else {
+                id = value;
+            }
         }
         else {
             // otherwise, get the value from the document
@@ -124,9 +224,8 @@ export class EntityMapping extends ClassMapping {
             }
         }
 
-        // TODO: handle DBRef
         if(!(<EntityMapping>this.inheritanceRoot).identity.validate(id)) {
-            context.addError("'" + id.toString() + "' is not a valid identifier.", (context.path ? context.path + "." : "") + "_id");
+            context.addError("'" + this.keyToString(id) + "' is not a valid identifier.", (context.path ? context.path + "." : "") + "_id");
             return;
         }
 
@@ -138,7 +237,7 @@ export class EntityMapping extends ClassMapping {
 
         var obj = super.read(context, value);
         obj["_id"] = id;
-        obj["id"] = id.toString();
+        obj["id"] = this.keyToString(id);
         return obj;
     }
 
@@ -161,31 +260,44 @@ export class EntityMapping extends ClassMapping {
         }
 
         if(!(<EntityMapping>this.inheritanceRoot).identity.validate(id)) {
-            context.addError("'" + id.toString() + "' is not a valid identifier.", (context.path ? context.path + "." : "") + "_id");
+            context.addError("'" + this.keyToString(id) + "' is not a valid identifier.", (context.path ? context.path + "." : "") + "_id");
             return;
         }
 
         // if this is not the top level then just return a reference
         if(context.path) {
-            // TODO: decide when to save reference as a DBRef
+            if(context.dbRef) {
+                var root = <EntityMapping>this.inheritanceRoot;
+                return new DBRef(root.collectionName, id, root.databaseName);
+            }
             return id;
         }
 
         var document = super.write(context, value);
         if(document) {
+            // the natural key is written to the _id field by the identity property so make sure it was not changed
+            var identityProperty = (<EntityMapping>this.inheritanceRoot).identityProperty;
+            if(identityProperty) {
+                var key = document["_id"];
+                if(key == null || !(<EntityMapping>this.inheritanceRoot).identity.areEqual(key, id)) {
+                    context.addError("The value of identity property '" + identityProperty.name + "' cannot be changed.", identityProperty.name);
+                    return;
+                }
+            }
             document["_id"] = id;
         }
         return document;
     }
 
-    watchEntity(entity: any, observer: Observer): void {
+    watchEntity(entity: any, observer: Observer): any {
 
-        super.watch(entity, observer, []);
+        return super.watch(entity, observer, []);
     }
 
-    watch(value: any, observer: Observer, visited: any[]): void {
+    watch(value: any, observer: Observer, visited: any[]): any {
 
-        // Do nothing. Watch does not propagate to other entities.
+        // Watch does not propagate to other entities.
+        return value;
     }
 
     areDocumentsEqual(document1: any, document2: any): boolean {
@@ -193,13 +305,30 @@ export class EntityMapping extends ClassMapping {
         return super.areEqual(document1, document2);
     }
 
+    /**
+     * Gets the field level changes needed to update document1 to document2. Returns `null` if the documents cannot be
+     * compared at the field level and document2 should replace document1.
+     * @param document1 The original document.
+     * @param document2 The new document.
+     */
+    getDocumentChanges(document1: any, document2: any): Changes {
+
+        if (this.getDocumentDiscriminator(document1) !== this.getDocumentDiscriminator(document2)) {
+            return null;
+        }
+
+        var changes: Changes = {};
+        super.getChanges(document1, document2, "", changes);
+        return changes;
+    }
+
     areEqual(documentValue1: any, documentValue2: any): boolean {
 
         if(documentValue1 === documentValue2) return true;
         if(documentValue1 == null || documentValue2 == null) return false;
 
-        var id1 = documentValue1["_id"] || documentValue1,
-            id2 = documentValue2["_id"] || documentValue2;
+        var id1 = getReferencedId(documentValue1),
+            id2 = getReferencedId(documentValue2);
 
         if(id1 == null || id2 == null) {
             return false;
@@ -208,12 +337,63 @@ export class EntityMapping extends ClassMapping {
         return (<EntityMapping>this.inheritanceRoot).identity.areEqual(id1, id2)
     }
 
+    getChanges(documentValue1: any, documentValue2: any, path: string, changes: Changes): void {
+
+        // references to other entities are always replaced
+        this.replaceValue(documentValue2, path, changes);
+    }
+
+    /**
+     * Gets references to the entities that were referenced in the original document by properties with orphan removal
+     * enabled but are no longer referenced by the entity.
+     * @param entity The entity.
+     * @param originalDocument The document for the entity when it was last loaded or flushed.
+     */
+    getOrphans(entity: any, originalDocument: any): Reference[] {
+
+        var orphans: Reference[] = [];
+
+        if (!originalDocument) return orphans;
+
+        var properties = this.getProperties(MappingModel.PropertyFlags.OrphanRemoval);
+        for (var i = 0, l = properties.length; i < l; i++) {
+            var property = properties[i],
+                originalValue = property.getFieldValue(originalDocument);
+
+            if (originalValue == null) continue;
+
+            var context = new WriteContext(property.name);
+            context.dbRef = (property.flags & MappingModel.PropertyFlags.DbRef) != 0;
+
+            var value = property.mapping.write(context, property.getPropertyValue(entity));
+            if (context.hasErrors) {
+                // the error is reported when the entity is dirty checked
+                continue;
+            }
+
+            if (property.mapping.flags & MappingModel.MappingFlags.Array) {
+                var targetMapping = <EntityMapping>(<ArrayMapping>property.mapping).elementMapping;
+                if (!Array.isArray(originalValue)) continue;
+
+                for (var j = 0; j < originalValue.length; j++) {
+                    if (originalValue[j] != null && !containsReference(targetMapping, value, originalValue[j])) {
+                        orphans.push(new Reference(targetMapping, getReferencedId(originalValue[j])));
+                    }
+                }
+            }
+            else if (!property.mapping.areEqual(originalValue, value)) {
+                orphans.push(new Reference(<EntityMapping>property.mapping, getReferencedId(originalValue)));
+            }
+        }
+
+        return orphans;
+    }
+
     walk(session: InternalSession, value: any, flags: MappingModel.PropertyFlags, entities: any[], embedded: any[], references: Reference[]): void {
 
         if (!value || typeof value !== "object") return;
 
         if(Reference.isReference(value)) {
-            // TODO: handle DBRef
             var entity = session.getObject((<Reference>value).id);
             if (entity) {
                 value = entity;
@@ -243,7 +423,6 @@ export class EntityMapping extends ClassMapping {
         }
 
         if(Reference.isReference(value)) {
-            // TODO: handle DBRef
             // We don't bother with the call to getObject here since fetch will call getObject. The reason we have the
             // separate call to getObject in 'walk' above is that walk only calls fetch if ProperFlags.Dereference is
             // passed in but should still include the object in the found entities if the object is managed.
@@ -257,13 +436,13 @@ export class EntityMapping extends ClassMapping {
         super.fetch(session, value, value, path, depth, callback);
     }
 
-    fetchInverse(session: InternalSession, parentEntity: any, propertyName: string, path: string[], depth: number, callback: ResultCallback<any>): void {
+    fetchInverse(session: InternalSession, parentEntity: any, propertyName: string, options: InverseOfOptions, path: string[], depth: number, callback: ResultCallback<any>): void {
 
         if(!parentEntity) {
             return callback(new PersistenceError("Parent entity required to resolve inverse relationship."));
         }
 
-        session.getPersister(this).findOneInverseOf(parentEntity, propertyName, (err, value) => {
+        session.getPersister(this).findOneInverseOf(parentEntity, propertyName, options, (err, value) => {
             if(err) return callback(err);
             super.fetch(session, this, value, path, depth, callback);
         });
@@ -293,6 +472,44 @@ export class EntityMapping extends ClassMapping {
         return this._defaultFields;
     }
 
+    /**
+     * Gets the identifier from a DBRef. Returns undefined and adds an error to the context if the DBRef does not
+     * reference the collection for this entity.
+     */
+    private _readDbRef(context: ReadContext, value: any): any {
+
+        var root = <EntityMapping>this.inheritanceRoot,
+            collectionName: string,
+            databaseName: string,
+            id: any;
+
+        // DBRefs are deserialized by the driver but could also be plain documents, e.g. in the results of an aggregation
+        if(value._bsontype == "DBRef") {
+            collectionName = value.namespace;
+            databaseName = value.db;
+            id = value.oid;
+        }
+        else {
+            collectionName = value.$ref;
+            databaseName = value.$db;
+            id = value.$id;
+        }
+
+        // the database can only be checked if one is specified on the mapping since the connection could be to any database
+        if(collectionName !== root.collectionName || (databaseName && root.databaseName && databaseName !== root.databaseName)) {
+            context.addError("DBRef to collection '" + (databaseName ? databaseName + "." : "") + collectionName
+                + "' does not reference the collection for entity '" + root.name + "'.");
+            return;
+        }
+
+        if(id == null) {
+            context.addError("Missing identifier in DBRef.");
+            return;
+        }
+
+        return id;
+    }
+
     protected resolveCore(context: ResolveContext): void {
 
         if(!context.isFirst) {
@@ -303,3 +520,45 @@ export class EntityMapping extends ClassMapping {
         super.resolveCore(context);
     }
 }
+
+/**
+ * Returns true if the value is a DBRef; otherwise, returns false.
+ * @hidden
+ */
+function isDbRef(value: any): boolean {
+
+    return value != null && typeof value === "object" && (value._bsontype == "DBRef" || (value.$ref !== undefined && value.$id !== undefined));
+}
+
+/**
+ * Returns true if the array of referenced identifiers contains the reference; otherwise, returns false.
+ * @hidden
+ */
+function containsReference(mapping: EntityMapping, values: any[], reference: any): boolean {
+
+    if (!Array.isArray(values)) return false;
+
+    for (var i = 0, l = values.length; i < l; i++) {
+        if (mapping.areEqual(values[i], reference)) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Gets the identifier from a document, a reference to an entity, or a DBRef.
+ * @hidden
+ */
+function getReferencedId(value: any): any {
+
+    if(value._bsontype == "DBRef") {
+        return value.oid;
+    }
+
+    if(value.$ref !== undefined && value.$id !== undefined) {
+        return value.$id;
+    }
+
+    return value["_id"] || value;
+}
@@ -0,0 +1,7 @@
+import {QueryDocument} from "../query/queryBuilder";
+
+export interface Filter {
+
+    name: string;
+    criteria: QueryDocument;
+}
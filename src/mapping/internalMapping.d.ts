@@ -9,6 +9,7 @@ import {ResolveContext} from "./resolveContext";
 import {ReadContext} from "./readContext";
 import {Observer} from "../observer";
 import {WriteContext} from "./writeContext";
+import {InverseOfOptions} from "./providers/annotations";
 
 /**
  * @hidden
@@ -21,10 +22,11 @@ export interface InternalMapping extends MappingModel.Mapping {
     read(context: ReadContext, value: any): any;
     write(context: WriteContext, value: any): any;
     areEqual(documentValue1: any, documentValue2: any): boolean;
+    getChanges(documentValue1: any, documentValue2: any, path: string, changes: Changes): void;
     resolve(path: string): ResolveContext;
     resolve(context: ResolveContext): void;
-    watch(value: any, observer: Observer, visited: any[]): void;
+    watch(value: any, observer: Observer, visited: any[]): any;
     walk(session: InternalSession, value: any, flags: MappingModel.PropertyFlags, entities: any[], embedded: any[], references: Reference[]): void;
     fetch(session: InternalSession, parentEntity: any, value: any, path: string[], depth: number, callback: ResultCallback<any>): void;
-    fetchInverse(session: InternalSession, parentEntity: any, propertyName: string, path: string[], depth: number, callback: ResultCallback<any>): void;
+    fetchInverse(session: InternalSession, parentEntity: any, propertyName: string, options: InverseOfOptions, path: string[], depth: number, callback: ResultCallback<any>): void;
 }
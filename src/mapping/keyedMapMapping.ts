@@ -0,0 +1,118 @@
+import * as async from "async";
+import {InternalMapping} from "./internalMapping";
+import {ArrayMapping} from "./arrayMapping";
+import {Reference} from "../reference";
+import {MappingModel} from "./mappingModel";
+import {InternalSession} from "../session";
+import {ResultCallback} from "../core/callback";
+import {ReadContext} from "./readContext";
+import {Observer} from "../observer";
+import {WriteContext} from "./writeContext";
+import {isMap, toArray} from "../core/collectionUtil";
+
+/**
+ * Mapping for a Map where the key of each entry is a property of the value. The Map is persisted as an array of the
+ * values.
+ * @hidden
+ */
+export class KeyedMapMapping extends ArrayMapping {
+
+    constructor(elementMapping: InternalMapping, public keyPropertyName: string) {
+        super(elementMapping);
+
+        this.flags |= MappingModel.MappingFlags.Iterable;
+    }
+
+    read(context: ReadContext, value: any): any {
+
+        var elements = super.read(context, value);
+        if(elements == null) return elements;
+
+        var result = new Map();
+        for (var i = 0, l = elements.length; i < l; i++) {
+            var element = elements[i];
+            if(element != null) {
+                result.set(element[this.keyPropertyName], element);
+            }
+        }
+
+        return result;
+    }
+
+    write(context: WriteContext, value: any): any {
+
+        if(value == null) return null;
+
+        // arrays are allowed so query values can be written
+        if(isMap(value)) {
+            var keyPropertyName = this.keyPropertyName,
+                valid = true;
+
+            value.forEach((element: any, key: any) => {
+                if(element == null || element[keyPropertyName] !== key) {
+                    valid = false;
+                }
+            });
+
+            if(!valid) {
+                context.addError("Expected key of Map entry to equal the value of property '" + keyPropertyName + "'.");
+                return;
+            }
+
+            value = toArray(value);
+        }
+        else if(!Array.isArray(value)) {
+            context.addError("Expected Map.");
+            return;
+        }
+
+        return super.write(context, value);
+    }
+
+    watch(value: any, observer: Observer, visited: any[]): any {
+
+        if(!value || !isMap(value)) return value;
+
+        value.forEach((element: any, key: any) => {
+            var watched = this.elementMapping.watch(element, observer, visited);
+
+            if(watched !== element) {
+                // call the method on the prototype so the change is not reported to the observer
+                Map.prototype.set.call(value, key, watched);
+            }
+        });
+
+        return observer.watchCollection(value);
+    }
+
+    walk(session: InternalSession, value: any, flags: MappingModel.PropertyFlags, entities: any[], embedded: any[], references: Reference[]): void {
+
+        if (!isMap(value)) {
+            return;
+        }
+
+        super.walk(session, toArray(value), flags, entities, embedded, references);
+    }
+
+    fetch(session: InternalSession, parentEntity: any, value: any, path: string[], depth: number, callback: ResultCallback<any>): void {
+
+        if(!isMap(value) || value.size == 0) {
+            return callback(null, value);
+        }
+
+        var mapping = this.elementMapping,
+            keys: any[] = [];
+
+        value.forEach((element: any, key: any) => keys.push(key));
+
+        async.map(toArray(value), (item, done) => mapping.fetch(session, parentEntity, item, path, depth, done), (err, elements) => {
+            if(err) return callback(err);
+
+            var result = new Map();
+            for (var i = 0, l = keys.length; i < l; i++) {
+                result.set(keys[i], elements[i]);
+            }
+            callback(null, result);
+        });
+    }
+}
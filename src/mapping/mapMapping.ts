@@ -0,0 +1,201 @@
+import * as async from "async";
+import {InternalMapping} from "./internalMapping";
+import {MappingBase} from "./mappingBase";
+import {Reference} from "../reference";
+import {MappingModel} from "./mappingModel";
+import {InternalSession} from "../session";
+import {ResultCallback} from "../core/callback";
+import {ResolveContext} from "./resolveContext";
+import {ReadContext} from "./readContext";
+import {Observer} from "../observer";
+import {WriteContext} from "./writeContext";
+import {Changes} from "./changes";
+import {isMap} from "../core/collectionUtil";
+
+/**
+ * Mapping for a Map with string keys. The Map is persisted as a sub-document where each key is a field.
+ * @hidden
+ */
+export class MapMapping extends MappingBase {
+
+    constructor(public valueMapping: InternalMapping) {
+        super(MappingModel.MappingFlags.Iterable);
+    }
+
+    read(context: ReadContext, value: any): any {
+
+        if(value == null) return null;
+
+        if (typeof value !== "object") {
+            context.addError("Expected document.");
+            return;
+        }
+
+        var result = new Map(),
+            mapping = this.valueMapping;
+
+        for (var key in value) {
+            if (value.hasOwnProperty(key)) {
+                result.set(key, mapping.read(context, value[key]));
+            }
+        }
+
+        return result;
+    }
+
+    write(context: WriteContext, value: any): any {
+
+        if(value == null) return null;
+
+        if (!isMap(value)) {
+            context.addError("Expected Map.");
+            return;
+        }
+
+        var document: any = {},
+            mapping = this.valueMapping;
+
+        value.forEach((item: any, key: any) => {
+
+            if (typeof key !== "string") {
+                context.addError("Expected key of Map to be a string.");
+                return;
+            }
+
+            // keys are field names so they cannot be operators or contain a path separator
+            if (key[0] == "$" || key.indexOf(".") != -1) {
+                context.addError("Map key '" + key + "' cannot start with '$' or contain '.'.");
+                return;
+            }
+
+            document[key] = mapping.write(context, item);
+        });
+
+        return document;
+    }
+
+    watch(value: any, observer: Observer, visited: any[]): any {
+
+        if(!value || !isMap(value)) return value;
+
+        value.forEach((item: any, key: any) => {
+            var watched = this.valueMapping.watch(item, observer, visited);
+
+            if(watched !== item) {
+                // call the method on the prototype so the change is not reported to the observer
+                Map.prototype.set.call(value, key, watched);
+            }
+        });
+
+        return observer.watchCollection(value);
+    }
+
+    areEqual(documentValue1: any, documentValue2: any): boolean {
+
+        if(documentValue1 === documentValue2) return true;
+        if(documentValue1 == null || documentValue2 == null) return false;
+
+        if (typeof documentValue1 !== "object" || typeof documentValue2 !== "object") {
+            return false;
+        }
+
+        var keys = Object.keys(documentValue1);
+        if (keys.length != Object.keys(documentValue2).length) {
+            return false;
+        }
+
+        var mapping = this.valueMapping;
+        for (var i = 0, l = keys.length; i < l; i++) {
+            var key = keys[i];
+
+            if (!documentValue2.hasOwnProperty(key)) {
+                return false;
+            }
+
+            var fieldValue1 = documentValue1[key];
+            var fieldValue2 = documentValue2[key];
+
+            if (fieldValue1 !== fieldValue2 && !mapping.areEqual(fieldValue1, fieldValue2)) {
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    getChanges(documentValue1: any, documentValue2: any, path: string, changes: Changes): void {
+
+        if (documentValue1 == null || documentValue2 == null || typeof documentValue1 !== "object" || typeof documentValue2 !== "object") {
+            this.replaceValue(documentValue2, path, changes);
+            return;
+        }
+
+        var base = path ? path + "." : "",
+            mapping = this.valueMapping;
+
+        // entries that were removed
+        for (var key in documentValue1) {
+            if (documentValue1.hasOwnProperty(key) && !documentValue2.hasOwnProperty(key)) {
+                (changes.$unset || (changes.$unset = {}))[base + key] = 1;
+            }
+        }
+
+        // entries that were added or changed
+        for (var key in documentValue2) {
+            if (documentValue2.hasOwnProperty(key)) {
+                var fieldValue1 = documentValue1[key];
+                var fieldValue2 = documentValue2[key];
+
+                if (fieldValue1 !== fieldValue2 && !mapping.areEqual(fieldValue1, fieldValue2)) {
+                    mapping.getChanges(fieldValue1, fieldValue2, base + key, changes);
+                }
+            }
+        }
+    }
+
+    walk(session: InternalSession, value: any, flags: MappingModel.PropertyFlags, entities: any[], embedded: any[], references: Reference[]): void {
+
+        if (!isMap(value)) {
+            return;
+        }
+
+        var mapping = this.valueMapping;
+        value.forEach((item: any) => mapping.walk(session, item, flags, entities, embedded, references));
+    }
+
+    fetch(session: InternalSession, parentEntity: any, value: any, path: string[], depth: number, callback: ResultCallback<any>): void {
+
+        if(!isMap(value) || value.size == 0) {
+            return callback(null, value);
+        }
+
+        var mapping = this.valueMapping,
+            keys: any[] = [],
+            items: any[] = [];
+
+        value.forEach((item: any, key: any) => {
+            keys.push(key);
+            items.push(item);
+        });
+
+        async.map(items, (item, done) => mapping.fetch(session, parentEntity, item, path, depth, done), (err, fetched) => {
+            if(err) return callback(err);
+
+            var result = new Map();
+            for (var i = 0, l = keys.length; i < l; i++) {
+                result.set(keys[i], fetched[i]);
+            }
+            callback(null, result);
+        });
+    }
+
+    protected resolveCore(context: ResolveContext): void {
+
+        // the current property is the key of an entry in the map
+        if(context.resolveProperty(this.valueMapping, context.currentProperty)) {
+            return; // reached end of path
+        }
+
+        this.valueMapping.resolve(context);
+    }
+}
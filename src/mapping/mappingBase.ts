@@ -10,6 +10,7 @@ import {Observer} from "../observer";
 import {InternalMapping} from "./internalMapping";
 import {WriteContext} from "./writeContext";
 import {PersistenceError} from "../persistenceError";
+import {InverseOfOptions} from "./providers/annotations";
 
 var nextMappingId = 1;
 
@@ -35,8 +36,15 @@ export abstract class MappingBase implements InternalMapping {
         return this.flags != undefined && ((this.flags & flags) === flags);
     }
 
-    watch(value: any, observer: Observer, visited: any[]): void {
+    /**
+     * Watches a value for changes. Returns the value that should be used in place of the original value.
+     * @param value The value to watch.
+     * @param observer The observer.
+     * @param visited List of embedded objects that have already been watched.
+     */
+    watch(value: any, observer: Observer, visited: any[]): any {
 
+        return value;
     }
 
     walk(session: InternalSession, value: any, flags: MappingModel.PropertyFlags, entities: any[], embedded: any[], references: Reference[]): void {
@@ -52,6 +60,29 @@ export abstract class MappingBase implements InternalMapping {
         return false;
     }
 
+    /**
+     * Adds the changes needed to update documentValue1 to documentValue2 at the specified path. Only called if the
+     * values are not equal. By default, the whole value is replaced.
+     * @param documentValue1 The original document value.
+     * @param documentValue2 The new document value.
+     * @param path The path to the value in the document.
+     * @param changes The changes to add to.
+     */
+    getChanges(documentValue1: any, documentValue2: any, path: string, changes: Changes): void {
+
+        this.replaceValue(documentValue2, path, changes);
+    }
+
+    protected replaceValue(documentValue: any, path: string, changes: Changes): void {
+
+        if (documentValue === undefined) {
+            (changes.$unset || (changes.$unset = {}))[path] = 1;
+        }
+        else {
+            (changes.$set || (changes.$set = {}))[path] = documentValue;
+        }
+    }
+
     fetch(session: InternalSession, parentEntity: any, value: any, path: string[], depth: number, callback: ResultCallback<any>): void {
 
         if(depth == path.length) {
@@ -62,7 +93,7 @@ export abstract class MappingBase implements InternalMapping {
         }
     }
 
-    fetchInverse(session: InternalSession, parentEntity: any, propertyName: string, path: string[], depth: number, callback: ResultCallback<any>): void {
+    fetchInverse(session: InternalSession, parentEntity: any, propertyName: string, options: InverseOfOptions, path: string[], depth: number, callback: ResultCallback<any>): void {
 
         callback(new PersistenceError("Mapping does not support inverse relationships."));
     }
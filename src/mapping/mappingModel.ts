@@ -1,4 +1,7 @@
 import {ArrayMapping} from "./arrayMapping";
+import {SetMapping} from "./setMapping";
+import {MapMapping} from "./mapMapping";
+import {KeyedMapMapping} from "./keyedMapMapping";
 import {BooleanMapping} from "./booleanMapping";
 import {ClassMapping as ClassMappingImpl} from "./classMapping";
 import {DateMapping} from "./dateMapping";
@@ -13,9 +16,12 @@ import {InternalMapping} from "./internalMapping";
 import {Property as PropertyImpl} from "./property";
 import {Index} from "./index";
 import {CollectionOptions} from "./collectionOptions";
-import {IdentityGenerator} from "../config/configuration";
+import {IdentityGenerator, WriteConcern} from "../config/configuration";
 import {ConverterMapping} from "./converterMapping";
+import {Constraint} from "./constraint";
+import {InverseOfOptions} from "./providers/annotations";
 import {BufferMapping} from "./bufferMapping";
+import {PolymorphicReferenceMapping} from "./polymorphicReferenceMapping";
 import {PersistenceError} from "../persistenceError";
 
 
@@ -69,6 +75,12 @@ export namespace MappingModel {
          */
         inverseOf: string;
 
+        /**
+         * The ordering, criteria, and limit used when retrieving the value of a property that is the inverse side of a
+         * relationship.
+         */
+        inverseOfOptions: InverseOfOptions;
+
         /**
          * The mapping of the property.
          */
@@ -78,6 +90,13 @@ export namespace MappingModel {
          * Sets the property flags.
          */
         setFlags(flags: PropertyFlags): void;
+
+        /**
+         * Adds a constraint that is checked against the value of the property before the entity is written to the
+         * database.
+         * @param constraint The constraint.
+         */
+        addConstraint(constraint: Constraint): void;
     }
 
     /**
@@ -103,6 +122,7 @@ export namespace MappingModel {
         Iterable            = 0x00008000,
         Virtual             = 0x00010000,
         Immutable           = 0x00020000,
+        PolymorphicReference = 0x00040000,
 
         ImmutableEmbeddable = Immutable | Embeddable
     }
@@ -205,7 +225,12 @@ export namespace MappingModel {
          * Indicates that reference found during a walk operation should be fetched.
          * @hidden
          */
-        Dereference = 0x00004000
+        Dereference = 0x00004000,
+
+        /**
+         * Indicates that references to entities are stored as DBRefs instead of just the identifier.
+         */
+        DbRef = 0x00008000
     }
 
     /**
@@ -304,6 +329,12 @@ export namespace MappingModel {
          */
         identity: IdentityGenerator;
 
+        /**
+         * The property that holds the natural key of the entity, if any. The value of the property is used as the
+         * identifier of the entity instead of a generated identifier.
+         */
+        identityProperty: Property;
+
         /**
          * The change tracking to use for this entity. If not specified, the change tracking type specified in the
          * Configuration is used.
@@ -321,12 +352,45 @@ export namespace MappingModel {
          */
         versionField: string;
 
+        /**
+         * Indicates if documents for this entity are held in the second-level cache. Default is false.
+         */
+        cacheable: boolean;
+
+        /**
+         * The name of the database document field that marks a document as deleted. If specified, removing an entity
+         * sets the field instead of deleting the document. Default is undefined.
+         */
+        softDeleteField: string;
+
+        /**
+         * The write concern for writes to the collection. If not specified, the write concern in the collection
+         * options is used if there is one; otherwise, the write concern from the Configuration is used.
+         */
+        writeConcern: WriteConcern;
+
         /**
          * Adds a specification for an index that should be created on the collection. The index is only created if
          * creation of indexes is enabled.
          * @param index The index specification.
          */
         addIndex(index: Index): void;
+
+        /**
+         * Adds a method to call on entities of this type when the specified lifecycle event occurs. Callbacks are
+         * called in the order they are added.
+         * @param event The lifecycle event.
+         * @param methodName The name of the method to call on the entity.
+         */
+        addLifecycleCallback(event: LifecycleEvent, methodName: string): void;
+
+        /**
+         * Adds a named filter that can be enabled in a session. When the filter is enabled, the criteria is combined
+         * with the criteria of all queries for this entity and its subclasses.
+         * @param name The name of the filter.
+         * @param criteria The criteria for the filter. String values that start with a colon are parameters.
+         */
+        addFilter(name: string, criteria: Object): void;
     }
 
     /**
@@ -355,6 +419,34 @@ export namespace MappingModel {
         return new ArrayMapping(<InternalMapping>elementMapping);
     }
 
+    /**
+     * Create a mapping for a Set. The Set is persisted as an array.
+     * @param elementMapping The mapping for the Set element.
+     */
+    export function createSetMapping(elementMapping: Mapping): Mapping {
+        if(!elementMapping) {
+            throw new PersistenceError("Missing required argument 'elementMapping'.");
+        }
+        return new SetMapping(<InternalMapping>elementMapping);
+    }
+
+    /**
+     * Create a mapping for a Map. If a key property name is not specified, the Map is persisted as a sub-document and
+     * the keys of the Map must be strings. Otherwise, the Map is persisted as an array of values and the key of each
+     * entry is the value of the key property.
+     * @param valueMapping The mapping for the Map value.
+     * @param keyPropertyName Optional. The name of the property on the value that holds the key.
+     */
+    export function createMapMapping(valueMapping: Mapping, keyPropertyName?: string): Mapping {
+        if(!valueMapping) {
+            throw new PersistenceError("Missing required argument 'valueMapping'.");
+        }
+        if(keyPropertyName) {
+            return new KeyedMapMapping(<InternalMapping>valueMapping, keyPropertyName);
+        }
+        return new MapMapping(<InternalMapping>valueMapping);
+    }
+
     /**
      * Creates a mapping for a boolean.
      */
@@ -439,6 +531,17 @@ export namespace MappingModel {
         return new BufferMapping();
     }
 
+    /**
+     * Creates a mapping for a reference to an entity in any of several inheritance hierarchies.
+     * @param targetMappings The mappings for the entities that can be referenced.
+     */
+    export function createPolymorphicReferenceMapping(targetMappings: EntityMapping[]): Mapping {
+        if(!targetMappings || targetMappings.length == 0) {
+            throw new PersistenceError("Missing required argument 'targetMappings'.");
+        }
+        return new PolymorphicReferenceMapping(<EntityMappingImpl[]>targetMappings);
+    }
+
     /**
      * Creates a mapping for a tuple.
      * @param elementMappings An array for mappings to use for the tuple elements.
@@ -478,7 +581,14 @@ export const enum ChangeTrackingType {
 
     None,
     DeferredImplicit,
-    DeferredExplicit
+    DeferredExplicit,
+
+    /**
+     * Entities loaded from the database are watched for changes and only dirty checked if a change is detected. Note
+     * that entities are watched using a proxy so only the entity instances returned by the Session are watched. New
+     * entities added to the Session using save are dirty checked on every flush.
+     */
+    Observe
 }
 
 /**
@@ -545,3 +655,44 @@ export const enum FetchType {
      */
     Lazy = MappingModel.PropertyFlags.FetchLazy
 }
+
+/**
+ * Events in the lifecycle of an entity for which callbacks can be registered.
+ */
+export const enum LifecycleEvent {
+
+    /**
+     * Occurs before a new entity is saved to the Session.
+     */
+    PrePersist,
+
+    /**
+     * Occurs after a new entity has been inserted into the database.
+     */
+    PostPersist,
+
+    /**
+     * Occurs before a changed entity is updated in the database.
+     */
+    PreUpdate,
+
+    /**
+     * Occurs after a changed entity has been updated in the database.
+     */
+    PostUpdate,
+
+    /**
+     * Occurs before an entity is removed from the database.
+     */
+    PreRemove,
+
+    /**
+     * Occurs after an entity has been removed from the database.
+     */
+    PostRemove,
+
+    /**
+     * Occurs after an entity has been loaded from the database.
+     */
+    PostLoad
+}
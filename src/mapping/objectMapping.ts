@@ -184,11 +184,6 @@ export class ObjectMapping extends MappingBase {
 
         context.parent = objectParent;
 
-        // if there is an observer in the context, then watch this object for changes.
-        if(context.observer && (this.flags & MappingModel.MappingFlags.Immutable) == 0) {
-            context.observer.watch(obj);
-        }
-
         return obj;
     }
 
@@ -224,6 +219,12 @@ export class ObjectMapping extends MappingBase {
             }
 
             var propertyValue = property.getPropertyValue(value);
+            if (property.constraints) {
+                var savedPath = context.path;
+                context.path = base + property.name;
+                property.validate(context, propertyValue);
+                context.path = savedPath;
+            }
             if (propertyValue === undefined) {
                 // skip undefined values
                 continue;
@@ -236,10 +237,13 @@ export class ObjectMapping extends MappingBase {
                 fieldValue = null;
             }
             else {
-                var savedPath = context.path;
+                var savedPath = context.path,
+                    savedDbRef = context.dbRef;
                 context.path = base + property.name;
+                context.dbRef = (flags & MappingModel.PropertyFlags.DbRef) != 0;
                 fieldValue = property.mapping.write(context, propertyValue);
                 context.path = savedPath;
+                context.dbRef = savedDbRef;
             }
             property.setFieldValue(document, fieldValue);
         }
@@ -249,25 +253,31 @@ export class ObjectMapping extends MappingBase {
         return document;
     }
 
-    watch(value: any, observer: Observer, visited: any[]): void {
+    watch(value: any, observer: Observer, visited: any[]): any {
 
-        if(!value || typeof value != "object") return;
+        if(!value || typeof value != "object" || (this.flags & MappingModel.MappingFlags.Immutable) != 0) return value;
 
         if(this.flags & MappingModel.MappingFlags.Embeddable) {
-            if (visited.indexOf(value) !== -1) return;
+            if (visited.indexOf(value) !== -1) return value;
             visited.push(value);
         }
 
-        observer.watch(value);
-
         for (var i = 0, l = this.properties.length; i < l; i++) {
 
             var property = this.properties[i];
-            // if the property is not ignored and it has the specified flags, then walk the value of the property
+            // if the property is not ignored, then watch the value of the property. if the value was replaced by a
+            // proxy then update the property value.
             if ((property.flags & MappingModel.PropertyFlags.Ignored) == 0) {
-                property.mapping.watch(property.getPropertyValue(value), observer, visited);
+                var propertyValue = property.getPropertyValue(value),
+                    watched = property.mapping.watch(propertyValue, observer, visited);
+
+                if(watched !== propertyValue) {
+                    property.setPropertyValue(value, watched);
+                }
             }
         }
+
+        return observer.watch(value);
     }
 
     areEqual(documentValue1: any, documentValue2: any): boolean {
@@ -300,6 +310,34 @@ export class ObjectMapping extends MappingBase {
         return true;
     }
 
+    getChanges(documentValue1: any, documentValue2: any, path: string, changes: Changes): void {
+
+        if (documentValue1 == null || documentValue2 == null || typeof documentValue1 !== "object" || typeof documentValue2 !== "object") {
+            this.replaceValue(documentValue2, path, changes);
+            return;
+        }
+
+        var base = path ? path + "." : "",
+            properties = this.properties;
+
+        for (var i = 0, l = properties.length; i < l; i++) {
+            var property = properties[i];
+
+            // skip fields that are not persisted
+            if ((property.flags & (MappingModel.PropertyFlags.Ignored | MappingModel.PropertyFlags.InverseSide)) != 0) {
+                continue;
+            }
+
+            // get the field values from the documents
+            var fieldValue1 = property.getFieldValue(documentValue1);
+            var fieldValue2 = property.getFieldValue(documentValue2);
+
+            if (fieldValue1 !== fieldValue2 && !property.mapping.areEqual(fieldValue1, fieldValue2)) {
+                property.mapping.getChanges(fieldValue1, fieldValue2, base + property.field, changes);
+            }
+        }
+    }
+
     walk(session: InternalSession, value: any, flags: MappingModel.PropertyFlags, entities: any[], embedded: any[], references: Reference[]): void {
 
         if (!value || typeof value !== "object") return;
@@ -336,7 +374,7 @@ export class ObjectMapping extends MappingBase {
 
         var propertyValue = property.getPropertyValue(value);
         if((property.flags & MappingModel.PropertyFlags.InverseSide) != 0 && propertyValue === undefined) {
-            property.mapping.fetchInverse(session, parentEntity, property.inverseOf, path, depth + 1, handleCallback);
+            property.mapping.fetchInverse(session, parentEntity, property.inverseOf, property.inverseOfOptions, path, depth + 1, handleCallback);
         }
         else if((property.flags & MappingModel.PropertyFlags.FetchLazy) != 0 && propertyValue === undefined) {
             this.fetchPropertyValue(session, value, property, handleCallback);
@@ -385,7 +423,7 @@ export class ObjectMapping extends MappingBase {
             context.setError("Cannot resolve ignored property.");
         }
 
-        if(context.resolveProperty(property.mapping, property.field)) {
+        if(context.resolveProperty(property.mapping, property.field, property)) {
             return; // reached end of path
         }
 
@@ -0,0 +1,137 @@
+import {MappingBase} from "./mappingBase";
+import {EntityMapping} from "./entityMapping";
+import {Reference} from "../reference";
+import {MappingModel} from "./mappingModel";
+import {InternalSession} from "../session";
+import {ResultCallback} from "../core/callback";
+import {ReadContext} from "./readContext";
+import {WriteContext} from "./writeContext";
+
+/**
+ * Mapping for a reference to an entity in any of several unrelated inheritance hierarchies. The reference is persisted
+ * as a sub-document with the identifier of the entity and the name of the collection for the inheritance root of the
+ * entity.
+ * @hidden
+ */
+export class PolymorphicReferenceMapping extends MappingBase {
+
+    constructor(public targetMappings: EntityMapping[]) {
+        super(MappingModel.MappingFlags.PolymorphicReference);
+    }
+
+    read(context: ReadContext, value: any): any {
+
+        if(value == null) return null;
+
+        if(typeof value !== "object") {
+            context.addError("Expected document.");
+            return;
+        }
+
+        var mapping = this._getMappingForType(value.type);
+        if(!mapping) {
+            context.addError("Unknown entity type '" + value.type + "' for reference.");
+            return;
+        }
+
+        if(value._id == null) {
+            context.addError("Missing identifier.", context.path + "._id");
+            return;
+        }
+
+        return mapping.read(context, value._id);
+    }
+
+    write(context: WriteContext, value: any): any {
+
+        if(value == null) return null;
+
+        var mapping = this._getMappingForValue(value);
+        if(!mapping) {
+            context.addError("Expected reference to entity of type " + this.targetMappings.map(x => "'" + x.name + "'").join(", ") + ".");
+            return;
+        }
+
+        var id = mapping.write(context, value);
+        if(id === undefined) {
+            return;
+        }
+
+        return { _id: id, type: (<EntityMapping>mapping.inheritanceRoot).collectionName };
+    }
+
+    areEqual(documentValue1: any, documentValue2: any): boolean {
+
+        if(documentValue1 === documentValue2) return true;
+        if(documentValue1 == null || documentValue2 == null) return false;
+
+        if(typeof documentValue1 !== "object" || typeof documentValue2 !== "object" || documentValue1.type !== documentValue2.type) {
+            return false;
+        }
+
+        var mapping = this._getMappingForType(documentValue1.type);
+        return !!mapping && mapping.areEqual(documentValue1._id, documentValue2._id);
+    }
+
+    walk(session: InternalSession, value: any, flags: MappingModel.PropertyFlags, entities: any[], embedded: any[], references: Reference[]): void {
+
+        if (!value || typeof value !== "object") return;
+
+        var mapping = this._getMappingForValue(value);
+        if(mapping) {
+            mapping.walk(session, value, flags, entities, embedded, references);
+        }
+    }
+
+    fetch(session: InternalSession, parentEntity: any, value: any, path: string[], depth: number, callback: ResultCallback<any>): void {
+
+        if (!value || typeof value !== "object") {
+            return callback(null, value);
+        }
+
+        var mapping = this._getMappingForValue(value);
+        if(!mapping) {
+            return callback(null, value);
+        }
+
+        mapping.fetch(session, parentEntity, value, path, depth, callback);
+    }
+
+    /**
+     * Gets the target mapping for an entity or a reference to an entity.
+     */
+    private _getMappingForValue(value: any): EntityMapping {
+
+        var targets = this.targetMappings;
+
+        if(Reference.isReference(value)) {
+            var root = (<Reference>value).mapping && (<Reference>value).mapping.inheritanceRoot;
+            for (var i = 0, l = targets.length; i < l; i++) {
+                if(targets[i].inheritanceRoot === root) {
+                    return targets[i];
+                }
+            }
+            return;
+        }
+
+        for (var i = 0, l = targets.length; i < l; i++) {
+            if(value instanceof targets[i].classConstructor) {
+                return targets[i];
+            }
+        }
+    }
+
+    /**
+     * Gets the target mapping for the type stored in a reference.
+     */
+    private _getMappingForType(type: string): EntityMapping {
+
+        var targets = this.targetMappings;
+
+        for (var i = 0, l = targets.length; i < l; i++) {
+            if((<EntityMapping>targets[i].inheritanceRoot).collectionName === type) {
+                return targets[i];
+            }
+        }
+    }
+}
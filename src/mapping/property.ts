@@ -1,6 +1,9 @@
 import {InternalMapping} from "./internalMapping";
 import {MappingModel} from "./mappingModel";
 import {PersistenceError} from "../persistenceError";
+import {Constraint} from "./constraint";
+import {WriteContext} from "./writeContext";
+import {InverseOfOptions} from "./providers/annotations";
 
 /**
  * @hidden
@@ -27,11 +30,22 @@ export class Property implements MappingModel.Property {
      */
     inverseOf: string;
 
+    /**
+     * The ordering, criteria, and limit used when retrieving the value of a property that is the inverse side of a
+     * relationship.
+     */
+    inverseOfOptions: InverseOfOptions;
+
     /**
      * The mapping of the property.
      */
     mapping: InternalMapping;
 
+    /**
+     * The constraints on the value of the property. Undefined if the property does not have any constraints.
+     */
+    constraints: Constraint[];
+
     constructor(name: string, mapping: InternalMapping) {
         if(!name) {
             throw new PersistenceError("Missing required argument 'name'.");
@@ -53,6 +67,27 @@ export class Property implements MappingModel.Property {
         }
     }
 
+    addConstraint(constraint: Constraint): void {
+
+        (this.constraints || (this.constraints = [])).push(constraint);
+    }
+
+    /**
+     * Checks the value of the property against the constraints on the property, adding a validation error to the
+     * context for each constraint that is not satisfied.
+     * @param context The context for the write. The path of the context must be the path to the property.
+     * @param value The value of the property.
+     */
+    validate(context: WriteContext, value: any): void {
+
+        for (var i = 0, l = this.constraints.length; i < l; i++) {
+            var message = this.constraints[i].validate(value);
+            if (message) {
+                context.addValidationError(message);
+            }
+        }
+    }
+
     hasFlags(flags: MappingModel.PropertyFlags): boolean {
 
         return this.flags != undefined && ((this.flags & flags) === flags);
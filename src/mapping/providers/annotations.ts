@@ -1,4 +1,4 @@
-import {PropertyConverter, FlushPriority, FetchType} from "../mappingModel";
+import {PropertyConverter, FlushPriority, FetchType, LifecycleEvent} from "../mappingModel";
 import {CollectionOptions} from "../collectionOptions";
 import {IndexOptions} from "../indexOptions";
 import {ChangeTrackingType} from "../mappingModel";
@@ -11,6 +11,20 @@ import {Type, Property, Method} from "reflect-helper";
 import {EntityMappingBuilder} from "./entityMappingBuilder";
 import {ClassMappingBuilder} from "./classMappingBuilder";
 import {Index} from "../index";
+import {IdentityGenerator} from "../../config/configuration";
+import {ArrayMapping} from "../arrayMapping";
+import {MapMapping} from "../mapMapping";
+import {QueryDocument} from "../../query/queryBuilder";
+import {
+    Constraint,
+    RequiredConstraint,
+    LengthConstraint,
+    MinConstraint,
+    MaxConstraint,
+    PatternConstraint,
+    FunctionConstraint,
+    ValidatorFunction
+} from "../constraint";
 
 /**
  * Indicates the order in which annotations are processed. Annotations with a higher priority are processed first.
@@ -384,6 +398,36 @@ export class VersionFieldAnnotation extends Annotation implements ClassAnnotatio
     }
 }
 
+/**
+ * @hidden
+ */
+export class IdentityAnnotation extends Annotation implements ClassAnnotation {
+
+    /**
+     * Constructs an IdentityAnnotation object.
+     * @param generator The identity generator to use for the entity.
+     */
+    constructor(public generator: IdentityGenerator) {
+        super();
+
+    }
+
+    toString(): string {
+        return "@Identity";
+    }
+
+    processClassAnnotation(context: MappingBuilderContext, mapping: MappingModel.EntityMapping, annotation: IdentityAnnotation): void {
+
+        if(context.assertRootEntityMapping(mapping)) {
+            if(!annotation.generator) {
+                context.addError("Missing identity generator.");
+                return;
+            }
+            mapping.identity = annotation.generator;
+        }
+    }
+}
+
 /**
  * @hidden
  */
@@ -411,6 +455,114 @@ export class VersionedAnnotation extends Annotation implements ClassAnnotation {
     }
 }
 
+/**
+ * @hidden
+ */
+export class CacheableAnnotation extends Annotation implements ClassAnnotation {
+
+    /**
+     * Constructs a CacheableAnnotation object.
+     * @param enabled Indicates if caching is enabled. Default is true.
+     */
+    constructor(public enabled: boolean = true) {
+        super();
+
+    }
+
+    toString(): string {
+        return "@Cacheable";
+    }
+
+    processClassAnnotation(context: MappingBuilderContext, mapping: MappingModel.EntityMapping, annotation: CacheableAnnotation): void {
+
+        if(context.assertRootEntityMapping(mapping)) {
+
+            mapping.cacheable = annotation.enabled;
+        }
+    }
+}
+
+/**
+ * @hidden
+ */
+export class SoftDeleteAnnotation extends Annotation implements ClassAnnotation {
+
+    /**
+     * The name of the database document field that marks a document as deleted.
+     */
+    field: string;
+
+    /**
+     * Constructs a SoftDeleteAnnotation object.
+     * @param description Describes soft delete for the entity.
+     */
+    constructor(description?: SoftDeleteDescription) {
+        super();
+
+        this.field = (description && description.field) || "deletedAt";
+    }
+
+    toString(): string {
+        return "@SoftDelete";
+    }
+
+    processClassAnnotation(context: MappingBuilderContext, mapping: MappingModel.EntityMapping, annotation: SoftDeleteAnnotation): void {
+
+        if(context.assertRootEntityMapping(mapping)) {
+
+            if(typeof annotation.field !== "string" || annotation.field.indexOf(".") != -1 || annotation.field[0] == "$") {
+                context.addError("Invalid field name for soft delete.");
+                return;
+            }
+
+            mapping.softDeleteField = annotation.field;
+        }
+    }
+}
+
+export interface SoftDeleteDescription {
+
+    field?: string;
+}
+
+/**
+ * @hidden
+ */
+export class FilterAnnotation extends Annotation implements ClassAnnotation {
+
+    /**
+     * Indicates annotation is inherited from a mapped superclass.
+     */
+    inherited = true;
+
+    constructor(public name: string, public criteria: QueryDocument) {
+        super();
+
+    }
+
+    toString(): string {
+        return "@Filter";
+    }
+
+    processClassAnnotation(context: MappingBuilderContext, mapping: MappingModel.EntityMapping, annotation: FilterAnnotation): void {
+
+        if(context.assertEntityMapping(mapping)) {
+
+            if(!annotation.name || typeof annotation.name !== "string") {
+                context.addError("Missing or invalid name for filter.");
+                return;
+            }
+
+            if(!annotation.criteria || typeof annotation.criteria !== "object") {
+                context.addError("Missing or invalid criteria for filter '" + annotation.name + "'.");
+                return;
+            }
+
+            mapping.addFilter(annotation.name, annotation.criteria);
+        }
+    }
+}
+
 /**
  * @hidden
  */
@@ -534,7 +686,7 @@ export class DiscriminatorValueAnnotation extends Annotation  implements ClassAn
  */
 export class InverseOfAnnotation extends Annotation implements PropertyAnnotation {
 
-    constructor(public propertyName: string) {
+    constructor(public propertyName: string, public options?: InverseOfOptions) {
         super();
 
     }
@@ -545,20 +697,63 @@ export class InverseOfAnnotation extends Annotation implements PropertyAnnotatio
 
     processPropertyAnnotation(context: MappingBuilderContext, mapping: MappingModel.ObjectMapping, property: MappingModel.Property, symbol: Property, annotation: InverseOfAnnotation): void {
 
+        var options = annotation.options;
+        if(options) {
+            if(options.orderBy !== undefined && !Array.isArray(options.orderBy)) {
+                context.addError("Invalid value for 'orderBy'. Expected an array of field and direction pairs.");
+                return;
+            }
+
+            if(options.limit !== undefined && (!isNumber(options.limit) || options.limit <= 0)) {
+                context.addError("Invalid value for 'limit'. Expected a positive number.");
+                return;
+            }
+
+            if(options.where !== undefined && (options.where === null || typeof options.where !== "object")) {
+                context.addError("Invalid value for 'where'. Expected a query document.");
+                return;
+            }
+        }
+
         // TODO: validate inverse relationship
         property.inverseOf = annotation.propertyName;
+        property.inverseOfOptions = options;
         property.setFlags(MappingModel.PropertyFlags.InverseSide);
     }
 }
 
+export interface InverseOfOptions {
+
+    /**
+     * The order of the entities on the inverse side of the relationship. Each item is a pair of the property path and
+     * the sort direction, 1 for ascending or -1 for descending.
+     */
+    orderBy?: [string, number][];
+
+    /**
+     * Additional criteria that entities on the inverse side of the relationship must match.
+     */
+    where?: QueryDocument;
+
+    /**
+     * The maximum number of entities on the inverse side of the relationship to fetch.
+     */
+    limit?: number;
+}
+
 /**
  * @hidden
  */
 export class CascadeAnnotation extends Annotation implements PropertyAnnotation {
 
-    constructor(public flags: CascadeFlags) {
+    orphanRemoval: boolean;
+
+    constructor(public flags: CascadeFlags, options?: CascadeOptions) {
         super();
 
+        if(options) {
+            this.orphanRemoval = options.orphanRemoval;
+        }
     }
 
     toString(): string {
@@ -568,9 +763,32 @@ export class CascadeAnnotation extends Annotation implements PropertyAnnotation
     processPropertyAnnotation(context: MappingBuilderContext, mapping: MappingModel.ObjectMapping, property: MappingModel.Property, symbol: Property, annotation: CascadeAnnotation): void {
 
         property.setFlags(annotation.flags & MappingModel.PropertyFlags.CascadeAll);
+
+        if(annotation.orphanRemoval) {
+            var propertyMapping = property.mapping;
+            if(propertyMapping && (propertyMapping.flags & MappingModel.MappingFlags.Array)) {
+                propertyMapping = (<ArrayMapping>propertyMapping).elementMapping;
+            }
+
+            if(!propertyMapping || (propertyMapping.flags & MappingModel.MappingFlags.Entity) == 0) {
+                context.addError("Orphan removal is only supported for references to entities and arrays of references to entities.");
+                return;
+            }
+
+            property.setFlags(MappingModel.PropertyFlags.OrphanRemoval);
+        }
     }
 }
 
+export interface CascadeOptions {
+
+    /**
+     * Indicates if entities that are no longer referenced by the property should be removed when the owning entity is
+     * flushed. Default is false.
+     */
+    orphanRemoval?: boolean;
+}
+
 /**
  * @hidden
  */
@@ -621,6 +839,24 @@ export class ElementTypeAnnotation extends Annotation implements TargetClassAnno
     }
 }
 
+/**
+ * @hidden
+ */
+export class PolymorphicAnnotation extends Annotation {
+
+    targets: (Constructor<any> | string)[];
+
+    constructor(...targets: (Constructor<any> | string)[]) {
+        super();
+
+        this.targets = targets;
+    }
+
+    toString(): string {
+        return "@Polymorphic";
+    }
+}
+
 /**
  * @hidden
  */
@@ -644,6 +880,7 @@ export class FieldAnnotation extends Annotation implements PropertyAnnotation {
     name: string;
     nullable: boolean;
     readable: boolean;
+    reference: string;
 
     constructor(name?: string);
     constructor(args: FieldDescription);
@@ -658,6 +895,7 @@ export class FieldAnnotation extends Annotation implements PropertyAnnotation {
                 this.name = args.name;
                 this.nullable = args.nullable;
                 this.readable = args.readable;
+                this.reference = args.reference;
             }
         }
     }
@@ -680,6 +918,62 @@ export class FieldAnnotation extends Annotation implements PropertyAnnotation {
         if (annotation.readable === false) {
             property.setFlags(MappingModel.PropertyFlags.WriteOnly);
         }
+
+        if (annotation.reference != null) {
+            if (annotation.reference !== "id" && annotation.reference !== "dbref") {
+                context.addError("Unknown reference type '" + annotation.reference + "'. Expected 'id' or 'dbref'.");
+                return;
+            }
+
+            // collections of entities store a reference for each element
+            var target = property.mapping;
+            if (target instanceof ArrayMapping) {
+                target = (<ArrayMapping>target).elementMapping;
+            }
+            else if (target instanceof MapMapping) {
+                target = (<MapMapping>target).valueMapping;
+            }
+
+            if (!target.hasFlags(MappingModel.MappingFlags.Entity)) {
+                context.addError("Option 'reference' can only be specified for properties that reference entities.");
+                return;
+            }
+
+            if (annotation.reference === "dbref") {
+                property.setFlags(MappingModel.PropertyFlags.DbRef);
+            }
+        }
+    }
+}
+
+/**
+ * @hidden
+ */
+export class IdAnnotation extends Annotation implements PropertyAnnotation {
+
+    toString(): string {
+        return "@Id";
+    }
+
+    processPropertyAnnotation(context: MappingBuilderContext, mapping: MappingModel.ObjectMapping, property: MappingModel.Property,
+                              symbol: Property, annotation: IdAnnotation): void {
+
+        if (context.assertEntityMapping(mapping)) {
+
+            // properties of a base class are processed again for each subclass so only the class that declares the
+            // property needs to be the root of the inheritance hierarchy
+            if (!(mapping.flags & MappingModel.MappingFlags.InheritanceRoot) && symbol.parent === context.currentType) {
+                context.addError("Annotation can only be defined on classes that are the root of a mapped inheritance hierarchy.");
+                return;
+            }
+
+            // the value of the property is stored in the _id field
+            property.field = "_id";
+
+            if (mapping.flags & MappingModel.MappingFlags.InheritanceRoot) {
+                (<MappingModel.EntityMapping>mapping).identityProperty = property;
+            }
+        }
     }
 }
 
@@ -720,6 +1014,13 @@ export interface FieldDescription {
      * an accessor with a value calculated from other fields in the class that you want to store to the database for queries.
      */
     readable?: boolean;
+
+    /**
+     * Indicates how references to entities are stored. If `"id"`, only the identifier of the referenced entity is stored.
+     * If `"dbref"`, the reference is stored as a [DBRef](https://docs.mongodb.com/manual/reference/database-references/#dbrefs)
+     * that includes the collection, and database if specified, of the referenced entity. Default is `"id"`.
+     */
+    reference?: string;
 }
 
 /**
@@ -765,3 +1066,272 @@ export class TransientAnnotation implements PropertyAnnotation {
         property.setFlags(MappingModel.PropertyFlags.Ignored);
     }
 }
+
+/**
+ * @hidden
+ */
+export class ConstraintAnnotation extends Annotation implements PropertyAnnotation {
+
+    constructor(public constraint: Constraint) {
+        super();
+    }
+
+    processPropertyAnnotation(context: MappingBuilderContext, mapping: MappingModel.ObjectMapping, property: MappingModel.Property, symbol: Property, annotation: Annotation): void {
+
+        property.addConstraint(this.constraint);
+    }
+}
+
+/**
+ * @hidden
+ */
+export class RequiredAnnotation extends ConstraintAnnotation {
+
+    constructor() {
+        super(new RequiredConstraint());
+    }
+
+    toString(): string {
+        return "@Required";
+    }
+}
+
+/**
+ * @hidden
+ */
+export class LengthAnnotation extends ConstraintAnnotation {
+
+    constructor(public min: number, public max?: number) {
+        super(new LengthConstraint(min, max));
+    }
+
+    toString(): string {
+        return "@Length";
+    }
+
+    processPropertyAnnotation(context: MappingBuilderContext, mapping: MappingModel.ObjectMapping, property: MappingModel.Property, symbol: Property, annotation: Annotation): void {
+
+        if(!isNumber(this.min) || this.min < 0 || (this.max != null && (!isNumber(this.max) || this.max < this.min))) {
+            context.addError("Missing or invalid length.");
+            return;
+        }
+
+        super.processPropertyAnnotation(context, mapping, property, symbol, annotation);
+    }
+}
+
+/**
+ * @hidden
+ */
+export class MinAnnotation extends ConstraintAnnotation {
+
+    constructor(public value: number) {
+        super(new MinConstraint(value));
+    }
+
+    toString(): string {
+        return "@Min";
+    }
+
+    processPropertyAnnotation(context: MappingBuilderContext, mapping: MappingModel.ObjectMapping, property: MappingModel.Property, symbol: Property, annotation: Annotation): void {
+
+        if(!isNumber(this.value)) {
+            context.addError("Missing or invalid minimum value.");
+            return;
+        }
+
+        super.processPropertyAnnotation(context, mapping, property, symbol, annotation);
+    }
+}
+
+/**
+ * @hidden
+ */
+export class MaxAnnotation extends ConstraintAnnotation {
+
+    constructor(public value: number) {
+        super(new MaxConstraint(value));
+    }
+
+    toString(): string {
+        return "@Max";
+    }
+
+    processPropertyAnnotation(context: MappingBuilderContext, mapping: MappingModel.ObjectMapping, property: MappingModel.Property, symbol: Property, annotation: Annotation): void {
+
+        if(!isNumber(this.value)) {
+            context.addError("Missing or invalid maximum value.");
+            return;
+        }
+
+        super.processPropertyAnnotation(context, mapping, property, symbol, annotation);
+    }
+}
+
+/**
+ * @hidden
+ */
+export class PatternAnnotation extends ConstraintAnnotation {
+
+    constructor(public pattern: RegExp) {
+        super(new PatternConstraint(pattern));
+    }
+
+    toString(): string {
+        return "@Pattern";
+    }
+
+    processPropertyAnnotation(context: MappingBuilderContext, mapping: MappingModel.ObjectMapping, property: MappingModel.Property, symbol: Property, annotation: Annotation): void {
+
+        if(!(this.pattern instanceof RegExp)) {
+            context.addError("Missing or invalid pattern.");
+            return;
+        }
+
+        super.processPropertyAnnotation(context, mapping, property, symbol, annotation);
+    }
+}
+
+/**
+ * @hidden
+ */
+export class ValidateAnnotation extends ConstraintAnnotation {
+
+    constructor(public validator: ValidatorFunction) {
+        super(new FunctionConstraint(validator));
+    }
+
+    toString(): string {
+        return "@Validate";
+    }
+
+    processPropertyAnnotation(context: MappingBuilderContext, mapping: MappingModel.ObjectMapping, property: MappingModel.Property, symbol: Property, annotation: Annotation): void {
+
+        if(typeof this.validator !== "function") {
+            context.addError("Missing or invalid validator function.");
+            return;
+        }
+
+        super.processPropertyAnnotation(context, mapping, property, symbol, annotation);
+    }
+}
+
+function isNumber(value: any): boolean {
+
+    return typeof value === "number" && !isNaN(value);
+}
+
+/**
+ * @hidden
+ */
+export class LifecycleCallbackAnnotation extends Annotation implements MethodAnnotation {
+
+    constructor(public event: LifecycleEvent) {
+        super();
+    }
+
+    processMethodAnnotation(context: MappingBuilderContext, mapping: MappingModel.EntityMapping, method: Method, annotation: Annotation): void {
+
+        if(context.assertEntityMapping(mapping)) {
+            mapping.addLifecycleCallback(this.event, method.name);
+        }
+    }
+}
+
+/**
+ * @hidden
+ */
+export class PrePersistAnnotation extends LifecycleCallbackAnnotation {
+
+    constructor() {
+        super(LifecycleEvent.PrePersist);
+    }
+
+    toString(): string {
+        return "@PrePersist";
+    }
+}
+
+/**
+ * @hidden
+ */
+export class PostPersistAnnotation extends LifecycleCallbackAnnotation {
+
+    constructor() {
+        super(LifecycleEvent.PostPersist);
+    }
+
+    toString(): string {
+        return "@PostPersist";
+    }
+}
+
+/**
+ * @hidden
+ */
+export class PreUpdateAnnotation extends LifecycleCallbackAnnotation {
+
+    constructor() {
+        super(LifecycleEvent.PreUpdate);
+    }
+
+    toString(): string {
+        return "@PreUpdate";
+    }
+}
+
+/**
+ * @hidden
+ */
+export class PostUpdateAnnotation extends LifecycleCallbackAnnotation {
+
+    constructor() {
+        super(LifecycleEvent.PostUpdate);
+    }
+
+    toString(): string {
+        return "@PostUpdate";
+    }
+}
+
+/**
+ * @hidden
+ */
+export class PreRemoveAnnotation extends LifecycleCallbackAnnotation {
+
+    constructor() {
+        super(LifecycleEvent.PreRemove);
+    }
+
+    toString(): string {
+        return "@PreRemove";
+    }
+}
+
+/**
+ * @hidden
+ */
+export class PostRemoveAnnotation extends LifecycleCallbackAnnotation {
+
+    constructor() {
+        super(LifecycleEvent.PostRemove);
+    }
+
+    toString(): string {
+        return "@PostRemove";
+    }
+}
+
+/**
+ * @hidden
+ */
+export class PostLoadAnnotation extends LifecycleCallbackAnnotation {
+
+    constructor() {
+        super(LifecycleEvent.PostLoad);
+    }
+
+    toString(): string {
+        return "@PostLoad";
+    }
+}
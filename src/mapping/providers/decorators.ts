@@ -1,5 +1,6 @@
 import {makeDecorator} from "reflect-helper";
 import {Constructor, ParameterlessConstructor} from "../../index";
+import {ValidatorFunction} from "../constraint";
 
 import {
     EntityAnnotation,
@@ -9,14 +10,23 @@ import {
     IndexAnnotation,
     VersionFieldAnnotation,
     VersionedAnnotation,
+    IdentityAnnotation,
+    IdAnnotation,
     ChangeTrackingAnnotation,
+    CacheableAnnotation,
+    SoftDeleteAnnotation,
+    SoftDeleteDescription,
+    FilterAnnotation,
     DiscriminatorFieldAnnotation,
     DiscriminatorValueAnnotation,
     CascadeAnnotation,
+    CascadeOptions,
     InverseOfAnnotation,
+    InverseOfOptions,
     TypeAnnotation,
     ElementTypeAnnotation,
     MapKeyAnnotation,
+    PolymorphicAnnotation,
     FieldAnnotation,
     EnumeratedAnnotation,
     FieldDescription,
@@ -24,12 +34,27 @@ import {
     ClassIndexDescription,
     PropertyIndexDescription,
     TransientAnnotation,
-    ImmutableAnnotation, FetchAnnotation, ParentAnnotation
+    ImmutableAnnotation, FetchAnnotation, ParentAnnotation,
+    RequiredAnnotation,
+    LengthAnnotation,
+    MinAnnotation,
+    MaxAnnotation,
+    PatternAnnotation,
+    ValidateAnnotation,
+    PrePersistAnnotation,
+    PostPersistAnnotation,
+    PreUpdateAnnotation,
+    PostUpdateAnnotation,
+    PreRemoveAnnotation,
+    PostRemoveAnnotation,
+    PostLoadAnnotation
 } from "./annotations";
 
 import {PropertyConverter, FetchType} from "../mappingModel";
 import {ChangeTrackingType} from "../mappingModel";
 import {CascadeFlags} from "../mappingModel";
+import {IdentityGenerator} from "../../config/configuration";
+import {QueryDocument} from "../../query/queryBuilder";
 
 /**
  * Specifies that a class is a persistent entity and will be serialized to a document within a MongoDB collection.
@@ -141,6 +166,20 @@ export declare function Collection(name: string): ClassDecorator;
  *     ...
  *  }
  * ```
+ *
+ * ### Write Concern
+ *
+ * The `w`, `wtimeout`, and `j` collection options set the write concern for writes to the collection, overriding the
+ * write concern in the [[Configuration]]. For example, the following entity requires writes to be acknowledged by a
+ * majority of the replica set and written to the journal.
+ *
+ * ```typescript
+ *  @Collection({ options: { w: "majority", j: true } })
+ *  @Entity()
+ *  export class Payment {
+ *     ...
+ *  }
+ * ```
  */
 export declare function Collection(description?: CollectionDescription): ClassDecorator;
 
@@ -252,6 +291,24 @@ export declare function VersionField(name: string): ClassDecorator;
  */
 export declare function Versioned(enabled?: boolean): ClassDecorator;
 
+/**
+ * Specifies the identity generator to use for an entity.
+ *
+ * If the identity generator is not specified, the [[identityGenerator]] on the [[Configuration]] is used. By default,
+ * this is an [[ObjectIdGenerator]].
+ *
+ * ### Example
+ *
+ * ```typescript
+ *  @Entity()
+ *  @Identity(new UuidGenerator())
+ *  export class Person {
+ *      ...
+ *  }
+ * ```
+ */
+export declare function Identity(generator: IdentityGenerator): ClassDecorator;
+
 /**
  * Specifies the type of change tracking to use for an entity.
  *
@@ -269,6 +326,70 @@ export declare function Versioned(enabled?: boolean): ClassDecorator;
  */
 export declare function ChangeTracking(type: ChangeTrackingType): ClassDecorator;
 
+/**
+ * Specifies that documents for an entity are held in the second-level cache.
+ *
+ * The second-level cache is shared by all sessions created by the [[SessionFactory]]. When an entity is found by
+ * identifier, the cache is checked before the database is queried. Documents are removed from the cache when the
+ * entity is updated or removed by a flush and all documents for the collection are removed when the collection is
+ * modified by a query. Caching is best suited to reference data that is read often and rarely changes. The store
+ * used for the cache can be specified using [[cacheStore]] on the [[Configuration]].
+ *
+ * ### Example
+ *
+ * ```typescript
+ *  @Entity()
+ *  @Cacheable()
+ *  export class Country {
+ *      ...
+ *  }
+ * ```
+ */
+export declare function Cacheable(enabled?: boolean): ClassDecorator;
+
+/**
+ * Specifies that documents for an entity are marked as deleted instead of being removed from the database.
+ *
+ * When an entity is removed, the field specified in the description is set to the date the entity was removed. The
+ * default name for the field is "deletedAt". Documents that are marked as deleted are excluded from all queries for
+ * the entity unless `withDeleted` is called on the query. Queries that remove documents also mark the documents as
+ * deleted. A deleted entity can be restored by calling [[Session.restore]].
+ *
+ * ### Example
+ *
+ * ```typescript
+ *  @Entity()
+ *  @SoftDelete({ field: "deletedAt" })
+ *  export class Invoice {
+ *      ...
+ *  }
+ * ```
+ */
+export declare function SoftDelete(description?: SoftDeleteDescription): ClassDecorator;
+
+/**
+ * Defines a named filter for an entity. Filters are disabled by default and are enabled for a session by calling
+ * [[Session.enableFilter]]. While a filter is enabled, the criteria of the filter is combined with the criteria of every
+ * query for the entity and its subclasses, including finding an entity by identifier and fetching references.
+ *
+ * The criteria uses the same syntax as the criteria of a query. Any string value in the criteria that starts with a
+ * colon is a parameter. The value of the parameter is specified when the filter is enabled. Any number of filters can be
+ * defined on an entity.
+ *
+ * ### Example
+ *
+ * ```typescript
+ *  @Entity()
+ *  @Filter("tenant", { tenant: ":tenant" })
+ *  export class Invoice {
+ *      ...
+ *  }
+ *
+ *  session.enableFilter("tenant", { tenant: currentTenant });
+ * ```
+ */
+export declare function Filter(name: string, criteria: QueryDocument): ClassDecorator;
+
 /**
  * Specifies the name of the field used for the class inheritance discriminator.
  *
@@ -354,6 +475,30 @@ export declare function Field(name?: string): PropertyDecorator;
  */
 export declare function Field(description: FieldDescription): PropertyDecorator;
 
+/**
+ * Specifies that a property holds the natural key of an entity.
+ *
+ * The value of the property is stored in the `_id` field of the document and is used as the identifier of the entity
+ * instead of a generated identifier. The property must have a value when the entity is saved and the value cannot be
+ * changed after the entity is saved. The decorator can only be used on the root class of an entity inheritance
+ * hierarchy.
+ *
+ * If the type of the property is an embeddable then the entity has a composite key and the `_id` field is the
+ * subdocument for the key.
+ *
+ * ### Example
+ *
+ * ```typescript
+ *  @Entity()
+ *  export class User {
+ *
+ *      @Id()
+ *      email: string;
+ *  }
+ * ```
+ */
+export declare function Id(): PropertyDecorator;
+
 /**
  * Indicates that a property is a reference to the parent of an embeddable class.
  *
@@ -464,8 +609,36 @@ export declare function Enumerated(members: Object): PropertyDecorator;
  *      ...
  * });
  * ```
+ *
+ * ### Ordering, Filtering, and Limiting
+ *
+ * By default, all entities that reference the entity are fetched in no particular order. The `orderBy`, `where`, and
+ * `limit` options control which entities are fetched. The paths in `orderBy` and `where` are properties of the
+ * referencing entity. In the example below, only the ten most recent admissions are fetched.
+ *
+ * ```typescript
+ * @Entity()
+ * export class Patient {
+ *
+ *     @InverseOf("patient", { orderBy: [["admittedOn", -1]], limit: 10 })
+ *     @ElementType(Admission)
+ *     recentAdmissions: Admission[];
+ *     ...
+ * }
+ * ```
+ *
+ * To page through all of the referencing entities, use [[QueryBuilder.inverseOf]].
+ *
+ * ```typescript
+ * session.query(Admission).inverseOf(patient, "patient").sort("admittedOn", -1).skip(20).limit(10, (err, admissions) => {
+ *      ...
+ * });
+ * ```
+ *
+ * @param propertyName The name of the property on the referencing entity that holds the reference.
+ * @param options Optional. The ordering, criteria, and limit used when fetching the property.
  */
-export declare function InverseOf(propertyName: string): PropertyDecorator;
+export declare function InverseOf(propertyName: string, options?: InverseOfOptions): PropertyDecorator;
 
 /**
  * Specifies which operations should cascade to a property on an entity or embeddable. The type of the property must be
@@ -481,8 +654,29 @@ export declare function InverseOf(propertyName: string): PropertyDecorator;
  *      owner: Person;
  *  }
  * ```
+ *
+ * ### Orphan Removal
+ *
+ * If the `orphanRemoval` option is specified, an entity that is removed from the property, or from the array held by
+ * the property, is removed from the database the next time the owning entity is flushed. Removal of the orphaned entity
+ * is cascaded according to its own mapping. The orphaned entity is removed even if it has been assigned to another
+ * entity so orphan removal should only be used for entities that are owned exclusively by the entity that references
+ * them.
+ *
+ * ```typescript
+ *  @Entity()
+ *  export class Invoice {
+ *
+ *      @Cascade(CascadeFlags.All, { orphanRemoval: true })
+ *      @ElementType("InvoiceLine")
+ *      lines: InvoiceLine[];
+ *  }
+ * ```
+ *
+ * @param flags The operations to cascade.
+ * @param options Optional. Additional cascade options.
  */
-export declare function Cascade(flags: CascadeFlags): PropertyDecorator;
+export declare function Cascade(flags: CascadeFlags, options?: CascadeOptions): PropertyDecorator;
 
 /**
  * ### FetchType.Eager
@@ -569,7 +763,47 @@ export declare function Type(target: Constructor<any> | string): PropertyDecorat
 export declare function ElementType(target: Constructor<any> | string): PropertyDecorator;
 
 /**
- * @hidden
+ * Specifies that a property references an entity in any of several unrelated inheritance hierarchies.
+ *
+ * A reference to an entity is normally stored as just the identifier of the entity, so a property can only reference
+ * entities in a single inheritance hierarchy. A polymorphic reference is stored as a sub-document with the identifier of
+ * the entity in the `_id` field and the name of the collection for the entity in the `type` field. The type of the
+ * property is generally an interface or a union type. If the property is an Array or a Set, each element is a
+ * polymorphic reference.
+ *
+ * ### Example
+ *
+ * ```typescript
+ *  @Entity()
+ *  export class Comment {
+ *
+ *      @Polymorphic(Post, Photo)
+ *      target: Commentable;
+ *  }
+ * ```
+ * @param targets The entities that can be referenced.
+ */
+export declare function Polymorphic(...targets: (Constructor<any> | string)[]): PropertyDecorator;
+
+/**
+ * Specifies that a Map is persisted as an array of its values, where the key of each entry is the value of the named
+ * property.
+ *
+ * By default, a Map is persisted as a sub-document and the keys of the Map must be strings. When the MapKey decorator
+ * is used, the value of the Map must be an embeddable and the key of each entry must equal the value of the named
+ * property of the embeddable.
+ *
+ * ### Example
+ *
+ * ```typescript
+ *  @Entity()
+ *  export class Article {
+ *
+ *      @ElementType(Translation)
+ *      @MapKey("locale")
+ *      translations: Map<string, Translation>;
+ *  }
+ * ```
  */
 export declare function MapKey(propertyName: string): PropertyDecorator;
 
@@ -594,6 +828,221 @@ export declare function MapKey(propertyName: string): PropertyDecorator;
  */
 export declare function Transient(): PropertyDecorator;
 
+/**
+ * Specifies that a property must have a value. A value of `null`, `undefined`, or an empty string is not allowed.
+ *
+ * Constraints are checked for entities and the embeddables they contain when an entity is inserted or updated. If any
+ * value does not satisfy a constraint, the flush fails with a [[ValidationError]] before any changes are written to the
+ * database. All constraints except Required allow a property to be `null` or `undefined`.
+ *
+ * ### Example
+ *
+ * ```typescript
+ *  @Entity()
+ *  export class User {
+ *
+ *      @Required()
+ *      @Length(3, 20)
+ *      @Pattern(/^[a-z0-9_]+$/)
+ *      username: string;
+ *
+ *      @Min(13)
+ *      @Max(120)
+ *      age: number;
+ *  }
+ * ```
+ */
+export declare function Required(): PropertyDecorator;
+
+/**
+ * Specifies the minimum and, optionally, the maximum length of a string or array property. See [[Required]].
+ * @param min The minimum length.
+ * @param max Optional. The maximum length.
+ */
+export declare function Length(min: number, max?: number): PropertyDecorator;
+
+/**
+ * Specifies the minimum value of a number property. See [[Required]].
+ * @param value The minimum value.
+ */
+export declare function Min(value: number): PropertyDecorator;
+
+/**
+ * Specifies the maximum value of a number property. See [[Required]].
+ * @param value The maximum value.
+ */
+export declare function Max(value: number): PropertyDecorator;
+
+/**
+ * Specifies a regular expression that the value of a string property must match. See [[Required]].
+ * @param pattern The regular expression.
+ */
+export declare function Pattern(pattern: RegExp): PropertyDecorator;
+
+/**
+ * Specifies a function that checks the value of a property. The function is not called if the value is `null` or
+ * `undefined`. See [[Required]].
+ *
+ * ### Example
+ *
+ * ```typescript
+ *  @Entity()
+ *  export class Event {
+ *
+ *      @Validate(value => value.getTime() > Date.now() || "Must be in the future.")
+ *      startsAt: Date;
+ *  }
+ * ```
+ * @param validator Returns true if the value is valid. Returns false or a message if the value is invalid.
+ */
+export declare function Validate(validator: ValidatorFunction): PropertyDecorator;
+
+/**
+ * Specifies a method to call on a new entity before it is saved to the Session. The method is called when `save` is
+ * called on the Session, or when the save is cascaded to the entity. If the method throws an error, the error is
+ * passed to the callback for `save` and the entity is not saved.
+ *
+ * Lifecycle decorators can be placed on any number of methods in an entity or mapped superclass. Methods are called
+ * with no arguments, in the order they are defined, with methods on base classes called first.
+ *
+ * ### Example
+ *
+ * ```typescript
+ *  @Entity()
+ *  export class User {
+ *
+ *      created: Date;
+ *      modified: Date;
+ *
+ *      @PrePersist()
+ *      private _stampCreated(): void {
+ *          this.created = this.modified = new Date();
+ *      }
+ *  }
+ * ```
+ */
+export declare function PrePersist(): MethodDecorator;
+
+/**
+ * Specifies a method to call on an entity after it has been inserted into the database. The method is called once the
+ * flush that inserted the entity has completed.
+ *
+ * ### Example
+ *
+ * ```typescript
+ *  @Entity()
+ *  export class User {
+ *
+ *      @PostPersist()
+ *      private _logCreated(): void {
+ *          console.log("Created user " + this.id);
+ *      }
+ *  }
+ * ```
+ */
+export declare function PostPersist(): MethodDecorator;
+
+/**
+ * Specifies a method to call on an entity before it is updated in the database. The method is only called during a
+ * flush if the entity has changed since it was loaded or last flushed. Changes made to the entity by the method are
+ * included in the update.
+ *
+ * ### Example
+ *
+ * ```typescript
+ *  @Entity()
+ *  export class User {
+ *
+ *      email: string;
+ *      modified: Date;
+ *
+ *      @PreUpdate()
+ *      private _beforeUpdate(): void {
+ *          this.email = this.email.toLowerCase();
+ *          this.modified = new Date();
+ *      }
+ *  }
+ * ```
+ */
+export declare function PreUpdate(): MethodDecorator;
+
+/**
+ * Specifies a method to call on an entity after it has been updated in the database.
+ *
+ * ### Example
+ *
+ * ```typescript
+ *  @Entity()
+ *  export class User {
+ *
+ *      @PostUpdate()
+ *      private _logUpdated(): void {
+ *          console.log("Updated user " + this.id);
+ *      }
+ *  }
+ * ```
+ */
+export declare function PostUpdate(): MethodDecorator;
+
+/**
+ * Specifies a method to call on an entity before it is removed from the database. The method is called during the
+ * flush that removes the entity.
+ *
+ * ### Example
+ *
+ * ```typescript
+ *  @Entity()
+ *  export class User {
+ *
+ *      @PreRemove()
+ *      private _beforeRemove(): void {
+ *          console.log("Removing user " + this.id);
+ *      }
+ *  }
+ * ```
+ */
+export declare function PreRemove(): MethodDecorator;
+
+/**
+ * Specifies a method to call on an entity after it has been removed from the database.
+ *
+ * ### Example
+ *
+ * ```typescript
+ *  @Entity()
+ *  export class User {
+ *
+ *      @PostRemove()
+ *      private _logRemoved(): void {
+ *          console.log("Removed user " + this.id);
+ *      }
+ *  }
+ * ```
+ */
+export declare function PostRemove(): MethodDecorator;
+
+/**
+ * Specifies a method to call on an entity after it has been loaded from the database. Changes made to the entity by
+ * the method are treated as changes to the entity and will be saved on the next flush.
+ *
+ * ### Example
+ *
+ * ```typescript
+ *  @Entity()
+ *  export class User {
+ *
+ *      name: string;
+ *      displayName: string;
+ *
+ *      @PostLoad()
+ *      private _afterLoad(): void {
+ *          this.displayName = this.name.toUpperCase();
+ *      }
+ *  }
+ * ```
+ */
+export declare function PostLoad(): MethodDecorator;
+
 
 exports.Entity = makeDecorator(EntityAnnotation);
 exports.Embeddable = makeDecorator(EmbeddableAnnotation);
@@ -602,7 +1051,12 @@ exports.Collection = makeDecorator(CollectionAnnotation);
 exports.Index = makeDecorator(IndexAnnotation);
 exports.VersionField = makeDecorator(VersionFieldAnnotation);
 exports.Versioned = makeDecorator(VersionedAnnotation);
+exports.Identity = makeDecorator(IdentityAnnotation);
+exports.Id = makeDecorator(IdAnnotation);
 exports.ChangeTracking = makeDecorator(ChangeTrackingAnnotation);
+exports.Cacheable = makeDecorator(CacheableAnnotation);
+exports.SoftDelete = makeDecorator(SoftDeleteAnnotation);
+exports.Filter = makeDecorator(FilterAnnotation);
 exports.DiscriminatorField = makeDecorator(DiscriminatorFieldAnnotation);
 exports.DiscriminatorValue = makeDecorator(DiscriminatorValueAnnotation);
 exports.Field = makeDecorator(FieldAnnotation);
@@ -614,7 +1068,19 @@ exports.InverseOf = makeDecorator(InverseOfAnnotation);
 exports.Type = makeDecorator(TypeAnnotation);
 exports.ElementType = makeDecorator(ElementTypeAnnotation);
 exports.MapKey = makeDecorator(MapKeyAnnotation);
+exports.Polymorphic = makeDecorator(PolymorphicAnnotation);
 exports.Immutable = makeDecorator(ImmutableAnnotation);
 exports.Transient = makeDecorator(TransientAnnotation);
-
-
+exports.Required = makeDecorator(RequiredAnnotation);
+exports.Length = makeDecorator(LengthAnnotation);
+exports.Min = makeDecorator(MinAnnotation);
+exports.Max = makeDecorator(MaxAnnotation);
+exports.Pattern = makeDecorator(PatternAnnotation);
+exports.Validate = makeDecorator(ValidateAnnotation);
+exports.PrePersist = makeDecorator(PrePersistAnnotation);
+exports.PostPersist = makeDecorator(PostPersistAnnotation);
+exports.PreUpdate = makeDecorator(PreUpdateAnnotation);
+exports.PostUpdate = makeDecorator(PostUpdateAnnotation);
+exports.PreRemove = makeDecorator(PreRemoveAnnotation);
+exports.PostRemove = makeDecorator(PostRemoveAnnotation);
+exports.PostLoad = makeDecorator(PostLoadAnnotation);
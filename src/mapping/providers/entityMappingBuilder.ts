@@ -1,5 +1,8 @@
 import {ClassMappingBuilder} from "./classMappingBuilder";
 import {MappingModel} from "../mappingModel";
+import {NaturalKeyGenerator} from "../../config/naturalKeyGenerator";
+import {CompositeKeyGenerator} from "../../config/compositeKeyGenerator";
+import {ObjectMapping} from "../objectMapping";
 
 /**
  * @hidden
@@ -26,6 +29,16 @@ export class EntityMappingBuilder extends ClassMappingBuilder {
                 mapping.changeTracking = this.context.config.changeTracking;
             }
 
+            if (mapping.writeConcern == null) {
+                var options = mapping.collectionOptions;
+                if (options && (options.w !== undefined || options.wtimeout !== undefined || options.j !== undefined)) {
+                    mapping.writeConcern = { w: options.w, wtimeout: options.wtimeout, j: options.j };
+                }
+                else {
+                    mapping.writeConcern = this.context.config.writeConcern;
+                }
+            }
+
             if (mapping.collectionName == null) {
                 mapping.collectionName = this.context.config.collectionNamingStrategy(mapping.name);
             }
@@ -35,7 +48,18 @@ export class EntityMappingBuilder extends ClassMappingBuilder {
             }
 
             if (mapping.identity == null) {
-                mapping.identity = this.context.config.identityGenerator;
+                // entities with a natural key do not generate identifiers
+                var identityProperty = mapping.identityProperty;
+                if (!identityProperty) {
+                    mapping.identity = this.context.config.identityGenerator;
+                }
+                else if (identityProperty.mapping.flags & MappingModel.MappingFlags.Embeddable) {
+                    // the key is an embeddable so the identifier is a document with a field for each part of the key
+                    mapping.identity = new CompositeKeyGenerator(<ObjectMapping>identityProperty.mapping);
+                }
+                else {
+                    mapping.identity = new NaturalKeyGenerator();
+                }
             }
 
             // if versioning is enabled then add an index for the _id that includes the version
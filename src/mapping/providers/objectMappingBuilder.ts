@@ -7,7 +7,9 @@ import {
     ConverterAnnotation,
     TypeAnnotation,
     ElementTypeAnnotation,
-    EnumeratedAnnotation
+    EnumeratedAnnotation,
+    MapKeyAnnotation,
+    PolymorphicAnnotation
 } from "./annotations";
 import {Type, Property} from "reflect-helper";
 import {Constructor} from "../../index";
@@ -160,6 +162,17 @@ export class ObjectMappingBuilder extends MappingBuilder {
             return this._createEnumMapping(propertyType, symbol.getAnnotations(EnumeratedAnnotation)[0]);
         }
 
+        var polymorphicAnnotation = symbol.getAnnotations(PolymorphicAnnotation)[0];
+        if(polymorphicAnnotation) {
+            var referenceMapping = this._createPolymorphicReferenceMapping(polymorphicAnnotation);
+            if(!referenceMapping) return;
+
+            if(propertyType.isIterable) {
+                return this._createCollectionMapping(propertyType, referenceMapping, symbol);
+            }
+            return referenceMapping;
+        }
+
         var elementTypeAnnotation = symbol.getAnnotations(ElementTypeAnnotation)[0];
         if(elementTypeAnnotation) {
             if(!elementTypeAnnotation.target) {
@@ -174,7 +187,7 @@ export class ObjectMappingBuilder extends MappingBuilder {
                 this.context.addError("Properties annotated @ElementType must have a type that is iterable.");
             }
 
-            return this._createCollectionMapping(propertyType, mapping);
+            return this._createCollectionMapping(propertyType, mapping, symbol);
         }
 
         if(propertyType.isArray) {
@@ -185,16 +198,67 @@ export class ObjectMappingBuilder extends MappingBuilder {
         return this._getMapping(propertyType);
     }
 
-    private _createCollectionMapping(propertyType: Type, mapping: MappingModel.Mapping): MappingModel.Mapping {
+    private _createCollectionMapping(propertyType: Type, mapping: MappingModel.Mapping, symbol: Property): MappingModel.Mapping {
+
+        var mapKeyAnnotation = symbol.getAnnotations(MapKeyAnnotation)[0];
+
+        if(propertyType.isAssignableTo(Map)) {
+            if(mapKeyAnnotation) {
+                if(!mapping.hasFlags(MappingModel.MappingFlags.Embeddable)) {
+                    this.context.addError("@MapKey can only be used when the element type is an embeddable.");
+                    return null;
+                }
+                return MappingModel.createMapMapping(mapping, mapKeyAnnotation.propertyName);
+            }
+            return MappingModel.createMapMapping(mapping);
+        }
+
+        if(mapKeyAnnotation) {
+            this.context.addError("@MapKey can only be used on properties of type 'Map'.");
+            return null;
+        }
 
         if(propertyType.isArray) {
             return MappingModel.createArrayMapping(mapping);
         }
 
-        this.context.addError("Collections other than 'Array' are not currently supported.");
+        if(propertyType.isAssignableTo(Set)) {
+            return MappingModel.createSetMapping(mapping);
+        }
+
+        this.context.addError("Collections other than 'Array', 'Set', and 'Map' are not currently supported.");
         return null;
     }
 
+    private _createPolymorphicReferenceMapping(annotation: PolymorphicAnnotation): MappingModel.Mapping {
+
+        if(!annotation.targets || annotation.targets.length == 0) {
+            this.context.addError("At least one entity must be specified for @Polymorphic.");
+            return null;
+        }
+
+        var targetMappings: MappingModel.EntityMapping[] = [];
+
+        for (var i = 0, l = annotation.targets.length; i < l; i++) {
+            var target = annotation.targets[i];
+            if(!target) {
+                this.context.addError("Unable to determine type of target. This may be because of a circular reference or the type is used before it is defined. Try changing target to name of class .");
+                return null;
+            }
+
+            var mapping = this._getMapping(target);
+            if(!mapping) return null;
+
+            if(!mapping.hasFlags(MappingModel.MappingFlags.Entity)) {
+                this.context.addError("Targets of @Polymorphic must be entities.");
+                return null;
+            }
+            targetMappings.push(<MappingModel.EntityMapping>mapping);
+        }
+
+        return MappingModel.createPolymorphicReferenceMapping(targetMappings);
+    }
+
     private _getPropertyType(symbol: Property): Type {
 
         // Check to see if type is specified by an annotation
@@ -1,6 +1,5 @@
 import {MappingError, createErrorMessage} from "./mappingError";
 import {InternalSession} from "../session";
-import {Observer} from "../observer";
 
 /**
  * @hidden
@@ -22,11 +21,6 @@ export class ReadContext {
      */
     hasErrors: boolean;
 
-    /**
-     * Observer used to watch deserialized objects, if specified.
-     */
-    observer: Observer;
-
     /**
      * Fetches found while walking the object.
      */
@@ -1,4 +1,5 @@
 import {InternalMapping} from "./internalMapping";
+import {Property} from "./property";
 import {PersistenceError} from "../persistenceError";
 
 /**
@@ -8,6 +9,7 @@ export class ResolveContext {
 
     resolvedPath: string;
     resolvedMapping: InternalMapping;
+    resolvedProperty: Property;
     error: Error;
 
     private _path: string[];
@@ -46,7 +48,13 @@ export class ResolveContext {
         this._finished();
     }
 
-    resolveProperty(mapping: InternalMapping, resolvedProperty: string): boolean {
+    /**
+     * Resolves the current part of the path. Returns true if the end of the path was reached; otherwise, false.
+     * @param mapping The mapping for the current part of the path.
+     * @param resolvedProperty The name of the field for the current part of the path.
+     * @param property Optional. The property for the current part of the path, if any.
+     */
+    resolveProperty(mapping: InternalMapping, resolvedProperty: string, property?: Property): boolean {
 
         this._resolvePath[this._depth] = resolvedProperty;
 
@@ -54,6 +62,7 @@ export class ResolveContext {
         if(this._depth === this._path.length) {
 
             this.resolvedMapping = mapping;
+            this.resolvedProperty = property;
             this.resolvedPath = this._resolvePath.join(".");
             this._finished();
             return true;
@@ -0,0 +1,106 @@
+import * as async from "async";
+import {InternalMapping} from "./internalMapping";
+import {ArrayMapping} from "./arrayMapping";
+import {Reference} from "../reference";
+import {MappingModel} from "./mappingModel";
+import {InternalSession} from "../session";
+import {ResultCallback} from "../core/callback";
+import {ReadContext} from "./readContext";
+import {Observer} from "../observer";
+import {WriteContext} from "./writeContext";
+import {isSet, toArray} from "../core/collectionUtil";
+
+/**
+ * Mapping for a Set. The Set is persisted as an array.
+ * @hidden
+ */
+export class SetMapping extends ArrayMapping {
+
+    constructor(elementMapping: InternalMapping) {
+        super(elementMapping);
+
+        this.flags |= MappingModel.MappingFlags.Iterable;
+    }
+
+    read(context: ReadContext, value: any): any {
+
+        var result = super.read(context, value);
+        if(result == null) return result;
+
+        return new Set(result);
+    }
+
+    write(context: WriteContext, value: any): any {
+
+        if(value == null) return null;
+
+        // arrays are allowed so query values can be written
+        if(isSet(value)) {
+            value = toArray(value);
+        }
+        else if(!Array.isArray(value)) {
+            context.addError("Expected Set.");
+            return;
+        }
+
+        return super.write(context, value);
+    }
+
+    watch(value: any, observer: Observer, visited: any[]): any {
+
+        if(!value || !isSet(value)) return value;
+
+        var elements = toArray(value),
+            replaced = false;
+
+        for (var i = 0, l = elements.length; i < l; i++) {
+            var element = elements[i],
+                watched = this.elementMapping.watch(element, observer, visited);
+
+            if(watched !== element) {
+                elements[i] = watched;
+                replaced = true;
+            }
+        }
+
+        if(replaced) {
+            // rebuild the Set to keep the original order. call the methods on the prototype so the change is not
+            // reported to the observer.
+            Set.prototype.clear.call(value);
+            for (var i = 0, l = elements.length; i < l; i++) {
+                Set.prototype.add.call(value, elements[i]);
+            }
+        }
+
+        return observer.watchCollection(value);
+    }
+
+    walk(session: InternalSession, value: any, flags: MappingModel.PropertyFlags, entities: any[], embedded: any[], references: Reference[]): void {
+
+        if (!isSet(value)) {
+            return;
+        }
+
+        super.walk(session, toArray(value), flags, entities, embedded, references);
+    }
+
+    fetch(session: InternalSession, parentEntity: any, value: any, path: string[], depth: number, callback: ResultCallback<any>): void {
+
+        // the value is an array when called from fetchInverse
+        if(isSet(value)) {
+            if(value.size == 0) {
+                return callback(null, value);
+            }
+            value = toArray(value);
+        }
+        else if(!Array.isArray(value)) {
+            return callback(null, value);
+        }
+
+        var mapping = this.elementMapping;
+        async.map(value, (item, done) => mapping.fetch(session, parentEntity, item, path, depth, done), (err, result) => {
+            if(err) return callback(err);
+            callback(null, new Set(result));
+        });
+    }
+}
@@ -44,11 +44,6 @@ export class TupleMapping extends MappingBase {
             context.path = savedPath;
         }
 
-        // if there is an observer in the context, then watch this tuple for changes.
-        if(context.observer) {
-            context.observer.watch(result);
-        }
-
         return result;
     }
 
@@ -80,15 +75,20 @@ export class TupleMapping extends MappingBase {
         return result;
     }
 
-    watch(value: any, observer: Observer, visited: any[]): void {
-
-        if(!value || !Array.isArray(value)) return;
+    watch(value: any, observer: Observer, visited: any[]): any {
 
-        observer.watch(value);
+        if(!value || !Array.isArray(value)) return value;
 
         for (var i = 0, l = Math.min(value.length, this.elementMappings.length); i < l; i++) {
-            this.elementMappings[i].watch(value[i], observer, visited);
+            var element = value[i],
+                watched = this.elementMappings[i].watch(element, observer, visited);
+
+            if(watched !== element) {
+                value[i] = watched;
+            }
         }
+
+        return observer.watch(value);
     }
 
     areEqual(documentValue1: any, documentValue2: any): boolean {
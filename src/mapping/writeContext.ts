@@ -21,6 +21,16 @@ export class WriteContext {
      */
     hasErrors: boolean;
 
+    /**
+     * A list of values that do not satisfy the constraints on their properties. Undefined if all values are valid.
+     */
+    validationErrors: MappingError[];
+
+    /**
+     * True if references to entities for the current property should be written as DBRefs; otherwise, false.
+     */
+    dbRef: boolean;
+
     /**
      * Constructs a Write Context.
      * @param path The current path.
@@ -44,6 +54,19 @@ export class WriteContext {
         this.hasErrors = true;
     }
 
+    /**
+     * Adds a validation error to the context. Validation errors do not prevent the document from being written.
+     * @param message The error message.
+     * @param path Optional. The current path if different than what's in the context.
+     */
+    addValidationError(message: string, path?: string): void {
+
+        (this.validationErrors || (this.validationErrors = [])).push({
+            message: message,
+            path: path || this.path
+        });
+    }
+
     /**
      * Gets a string summarizing all errors in the context.
      */
@@ -1,54 +1,136 @@
 import {Reference} from "./reference";
-import {PersistenceError} from "./persistenceError";
 
 /**
+ * Map of proxies created by an Observer to the Observer that created them.
+ */
+var proxies: WeakMap<Object, Observer> = new WeakMap();
+
+/**
+ * Map of Sets and Maps watched by an Observer to the Observer that is currently watching them.
+ */
+var collections: WeakMap<Object, Observer> = new WeakMap();
+
+/**
+ * Watches objects for changes. Since a Proxy cannot be attached to an existing object, watching an object returns a
+ * proxy for the object that should be used in place of the original object.
  * @hidden
  */
 export class Observer {
 
-    private _watching: any[] = [];
-    private _onChange: (changes: ObjectChangeInfo[]) => void;
+    private _callback: () => void;
+    private _handler: ProxyHandler<any>;
+
+    constructor() {
+
+        this._handler = this._createHandler();
+    }
 
     /**
-     * Creates an Observer object.
-     * @param callback Called the first time any of the watched objects change.
+     * Watches an object or array for changes. Returns a proxy for the object that must be used in place of the object
+     * for changes to be detected. If the object is already being watched by this Observer, the object is returned.
+     * @param obj The object to watch.
      */
-    constructor(callback: () => void) {
+    watch<T>(obj: T): T {
 
-        this._onChange = this._createOnChangeEvent(callback);
-    }
+        if(proxies.get(obj) === this) {
+            return obj;
+        }
 
-    watch(obj: any): void {
-        if(!this._watching) throw new PersistenceError("Observer is destroyed.");
-        Object.observe(obj, this._onChange);
-        this._watching.push(obj);
+        var proxy = new Proxy(obj, this._handler);
+        proxies.set(proxy, this);
+        return proxy;
     }
 
-    destroy(): void {
-        if(!this._watching) return;
+    /**
+     * Watches a Set or Map for changes. The methods of a Set or Map cannot be called through a Proxy so, instead, the
+     * methods that modify the collection are replaced on the instance. The collection itself is returned.
+     * @param collection The Set or Map to watch.
+     */
+    watchCollection<T>(collection: T): T {
 
-        for(var i = 0; i < this._watching.length; i++) {
-            Object.unobserve(this._watching[i], this._onChange);
+        if(!collections.has(collection)) {
+            this._patchCollection(collection, "add");
+            this._patchCollection(collection, "set");
+            this._patchCollection(collection, "delete");
+            this._patchCollection(collection, "clear");
         }
 
-        this._watching = undefined;
+        collections.set(collection, this);
+        return collection;
     }
 
-    private _createOnChangeEvent(callback: () => void): (changes: ObjectChangeInfo[]) => void {
+    /**
+     * Starts observing watched objects.
+     * @param callback Called the first time any of the watched objects change. After the callback is called, the
+     * Observer stops observing changes until observe is called again.
+     */
+    observe(callback: () => void): void {
 
-        return (changes: ObjectChangeInfo[]) => {
+        this._callback = callback;
+    }
 
-            // Only consider changed if we have a change that was not a Reference being fetched.
-            for(var i = 0; i < changes.length; i++) {
-                var change = changes[i];
+    /**
+     * Stops observing watched objects.
+     */
+    unobserve(): void {
 
-                if(change.type != 'update' || !Reference.areEqual(change.oldValue, (<any>change.object)[change.name])) {
-                    // value has changed
-                    callback();
-                    this.destroy();
-                    return;
-                }
+        this._callback = undefined;
+    }
+
+    private _createHandler(): ProxyHandler<any> {
+
+        return {
+            set: (target: any, property: PropertyKey, value: any): boolean => {
+
+                var oldValue = target[property];
+                target[property] = value;
+                this._changed(oldValue, value);
+                return true;
+            },
+            deleteProperty: (target: any, property: PropertyKey): boolean => {
+
+                var oldValue = target[property];
+                delete target[property];
+                this._changed(oldValue, undefined);
+                return true;
             }
+        };
+    }
+
+    private _patchCollection(collection: any, methodName: string): void {
+
+        var method: Function = collection[methodName];
+        if(typeof method !== "function") return;
+
+        Object.defineProperty(collection, methodName, {
+            value: function (key: any, value: any): any {
+
+                // if an existing key in a Map is set, compare the value of the key. otherwise, compare the size of
+                // the collection.
+                var replacing = methodName == "set" && collection.has(key),
+                    oldValue = replacing ? collection.get(key) : collection.size,
+                    result = method.apply(collection, arguments),
+                    observer = collections.get(collection);
+
+                if(observer) {
+                    observer._changed(oldValue, replacing ? value : collection.size);
+                }
+                return result;
+            },
+            configurable: true,
+            writable: true
+        });
+    }
+
+    private _changed(oldValue: any, newValue: any): void {
+
+        if(!this._callback || oldValue === newValue) return;
+
+        // Only consider changed if the value is not a Reference being fetched.
+        if(!(Reference.isReference(oldValue) || Reference.isReference(newValue)) || !Reference.areEqual(oldValue, newValue)) {
+            var callback = this._callback;
+            this._callback = undefined;
+            callback();
         }
     }
 }
@@ -38,3 +38,176 @@ export class EntityNotFoundError extends PersistenceError {
      */
     name = "EntityNotFoundError";
 }
+
+/**
+ * Describes a property value that does not satisfy a constraint.
+ */
+export interface ConstraintViolation {
+
+    /**
+     * The path to the property from the entity, such as `address.city`.
+     */
+    path: string;
+
+    /**
+     * A human readable message explaining why the value is invalid.
+     */
+    message: string;
+}
+
+/**
+ * Error returned by a flush when an entity does not satisfy the constraints on its properties. The flush fails before
+ * any changes are written to the database.
+ */
+export class ValidationError extends PersistenceError {
+
+    /**
+     * The name of the error.
+     */
+    name = "ValidationError";
+
+    /**
+     * The entity that is invalid.
+     */
+    entity: Object;
+
+    /**
+     * The property values that do not satisfy a constraint.
+     */
+    violations: ConstraintViolation[];
+
+    constructor(message: string, entity: Object, violations: ConstraintViolation[]) {
+        super(message);
+
+        this.entity = entity;
+        this.violations = violations;
+    }
+}
+
+/**
+ * The type of a write operation.
+ */
+export const enum WriteOperation {
+
+    Insert,
+    Update,
+    Remove
+}
+
+/**
+ * The reason a write operation failed.
+ */
+export const enum WriteErrorType {
+
+    /**
+     * The document was changed or removed in the database after the entity was loaded.
+     */
+    VersionConflict,
+
+    /**
+     * The document violates a unique index.
+     */
+    DuplicateKey,
+
+    /**
+     * The document failed validation in the database.
+     */
+    Validation,
+
+    /**
+     * Any other error.
+     */
+    Other
+}
+
+/**
+ * Describes a write operation that failed during a flush.
+ */
+export interface WriteFailure {
+
+    /**
+     * The entity that was being written.
+     */
+    entity: Object;
+
+    /**
+     * The identifier of the entity.
+     */
+    id: any;
+
+    /**
+     * The type of write operation.
+     */
+    operation: WriteOperation;
+
+    /**
+     * The reason the operation failed.
+     */
+    type: WriteErrorType;
+
+    /**
+     * The error code returned by the database, if any.
+     */
+    code?: number;
+
+    /**
+     * A human readable message explaining the failure.
+     */
+    message: string;
+
+    /**
+     * For a version conflict, the version of the entity when it was loaded.
+     */
+    expectedVersion?: number;
+
+    /**
+     * For a version conflict, the current version of the document in the database. The value is `undefined` if the
+     * document was removed.
+     */
+    currentVersion?: number;
+}
+
+/**
+ * Error returned by a flush when one or more write operations fail.
+ */
+export class FlushError extends PersistenceError {
+
+    /**
+     * The name of the error.
+     */
+    name = "FlushError";
+
+    /**
+     * The write operations that failed. The list is empty if the failed operations could not be determined.
+     */
+    failures: WriteFailure[];
+
+    constructor(message: string, failures: WriteFailure[]) {
+        super(message);
+
+        this.failures = failures;
+    }
+}
+
+/**
+ * Error returned by a flush when versioned entities could not be updated because the documents were changed or removed
+ * in the database after the entities were loaded. All failures in the error are version conflicts.
+ */
+export class OptimisticLockError extends FlushError {
+
+    /**
+     * The name of the error.
+     */
+    name = "OptimisticLockError";
+
+    /**
+     * The entities that are stale.
+     */
+    entities: Object[];
+
+    constructor(message: string, failures: WriteFailure[]) {
+        super(message, failures);
+
+        this.entities = failures.map(failure => failure.entity);
+    }
+}
@@ -4,36 +4,49 @@ import {onlyOnce, chain} from "./core/callback";
 import {EntityMapping} from "./mapping/entityMapping";
 import {ResultCallback} from "./core/callback";
 import {InternalSession} from "./session";
-import {ChangeTrackingType} from "./mapping/mappingModel";
-import {IdentityGenerator} from "./config/configuration";
+import {ChangeTrackingType, LifecycleEvent} from "./mapping/mappingModel";
+import {MappingModel} from "./mapping/mappingModel";
+import {IdentityGenerator, WriteConcern} from "./config/configuration";
+import {CompositeKeyGenerator} from "./config/compositeKeyGenerator";
 import {Batch} from "./batch";
 import {Callback} from "./core/callback";
 import {Command} from "./core/command";
 import {Changes} from "./mapping/changes";
-import {QueryDefinition} from "./query/queryDefinition";
+import {QueryDefinition, ReadOptions} from "./query/queryDefinition";
 import {QueryKind} from "./query/queryKind";
 import {IteratorCallback} from "./core/callback";
 import {QueryDocument} from "./query/queryBuilder";
 import {CriteriaBuilder} from "./query/criteriaBuilder";
 import {UpdateDocumentBuilder} from "./query/updateDocumentBuilder";
+import {AggregatePipelineBuilder} from "./query/aggregatePipelineBuilder";
 import {ReadContext} from "./mapping/readContext";
 import {Observer} from "./observer";
 import {OrderDocument} from "./query/orderDocument";
 import {WriteContext} from "./mapping/writeContext";
-import {PersistenceError, EntityNotFoundError} from "./persistenceError";
+import {createErrorMessage} from "./mapping/mappingError";
+import {PersistenceError, EntityNotFoundError, FlushError, OptimisticLockError, ValidationError, WriteFailure, WriteOperation, WriteErrorType} from "./persistenceError";
 import {getDuration} from "./core/timerUtil";
 import {Property} from "./mapping/property";
+import {EntityCache} from "./entityCache";
+import {Filter} from "./mapping/filter";
+import {InverseOfOptions} from "./mapping/providers/annotations";
+import {ArrayMapping} from "./mapping/arrayMapping";
+import {shallowClone} from "./core/objectUtil";
 
 interface FindOneQuery {
 
     criteria: any;
     fields?: any;
     fetchPaths?: string[];
+    selectPaths?: string[];
+    excludePaths?: string[];
+    readOptions?: ReadOptions;
 }
 
 interface FindAllQuery extends FindOneQuery {
 
     orderDocument?: OrderDocument[];
+    joinPaths?: string[];
     limitCount?: number;
     skipCount?: number;
     batchSizeValue?: number;
@@ -45,9 +58,9 @@ interface FindEachQuery extends FindAllQuery {
 }
 
 interface WriteOptions {
-    w?: number;
+    w?: number | string;
     wtimeout?: number;
-    j?: number;
+    j?: boolean;
 }
 
 interface FindAndModifyOptions extends WriteOptions {
@@ -65,7 +78,7 @@ interface UpdateOptions extends WriteOptions {
     upsert?: boolean;
 }
 
-interface CountOptions {
+interface CountOptions extends ReadOptions {
     limit: number;
     skip: number;
 }
@@ -82,16 +95,19 @@ export interface Persister {
     dirtyCheck(batch: Batch, entity: Object, originalDocument: Object, callback: ResultCallback<Object>): void;
     addInsert(batch: Batch, entity: Object, callback: ResultCallback<Object>): void;
     addRemove(batch: Batch, entity: Object, callback: Callback): void;
+    restore(entity: Object, callback: Callback): void;
 
     fetch(entity: Object, path: string, callback: Callback): void;
     fetchPropertyValue(entity: any, property: Property, callback: ResultCallback<any>): void;
     refresh(entity: Object, callback: ResultCallback<Object>): void;
-    watch(value: any, observer: Observer): void;
+    merge(entity: Object, callback: ResultCallback<Object>): void;
+    watch(value: any, observer: Observer): any;
     executeQuery(query: QueryDefinition, callback: ResultCallback<any>): void;
 
     findOneById(id: any, callback: ResultCallback<any>): void;
-    findInverseOf(entity: Object, path: string, callback: ResultCallback<Object[]>): void;
-    findOneInverseOf(entity: Object, path: string, callback: ResultCallback<Object>): void;
+    load(document: any, callback: ResultCallback<Object>): void;
+    findInverseOf(entity: Object, path: string, options: InverseOfOptions, callback: ResultCallback<Object[]>): void;
+    findOneInverseOf(entity: Object, path: string, options: InverseOfOptions, callback: ResultCallback<Object>): void;
 }
 
 /**
@@ -109,8 +125,14 @@ export class PersisterImpl implements Persister {
     private _session: InternalSession;
     private _criteriaBuilder: CriteriaBuilder;
     private _updateDocumentBuilder: UpdateDocumentBuilder;
+    private _pipelineBuilder: AggregatePipelineBuilder;
+    private _readConcernCollections: Map<string, mongodb.Collection>;
+    private _writeConcern: WriteConcern;
     private _traceEnabled: boolean;
     private _defaultFields: QueryDocument;
+    private _cache: EntityCache;
+    private _softDeleteField: string;
+    private _findDeletedQueue: FindQueue;
 
     constructor(session: InternalSession, mapping: EntityMapping, collection: mongodb.Collection) {
 
@@ -124,14 +146,21 @@ export class PersisterImpl implements Persister {
         this._versioned = inheritanceRoot.versioned;
         this._traceEnabled = this._session.factory.logger != null;
         this._defaultFields = mapping.getDefaultFields();
+
+        if (inheritanceRoot.cacheable) {
+            this._cache = this._session.factory.cache;
+        }
+
+        this._softDeleteField = inheritanceRoot.softDeleteField;
+        this._writeConcern = inheritanceRoot.writeConcern;
     }
 
-    dirtyCheck(batch: Batch, entity: Object, originalDocument: Object, callback: ResultCallback<Object>): void {
+    dirtyCheck(batch: Batch, entity: Object, originalDocument: any, callback: ResultCallback<Object>): void {
 
         var context = new WriteContext();
-        var document = this._mapping.write(context, entity);
-        if(context.hasErrors) {
-            return callback(new PersistenceError(`Error serializing document:\n${context.getErrorMessage()}`));
+        var document = this._writeDirtyDocument(context, entity, originalDocument);
+        if(document instanceof Error) {
+            return callback(document);
         }
 
         if(this._mapping.areDocumentsEqual(originalDocument, document)) {
@@ -139,6 +168,24 @@ export class PersisterImpl implements Persister {
             callback(null);
         }
         else {
+            // PreUpdate callbacks are only called for entities that changed. the document is written again since the
+            // callbacks can change the entity.
+            if (this._mapping.hasLifecycleCallbacks(LifecycleEvent.PreUpdate)) {
+                var err = this._mapping.invokeLifecycleCallbacks(LifecycleEvent.PreUpdate, entity);
+                if (err) return callback(err);
+
+                context = new WriteContext();
+                document = this._writeDirtyDocument(context, entity, originalDocument);
+                if(document instanceof Error) {
+                    return callback(document);
+                }
+            }
+
+            // only entities that changed are validated so an entity that was invalid when loaded can still be read
+            if (context.validationErrors) {
+                return callback(this._createValidationError(entity, context));
+            }
+
             // update version field if versioned
             if (this._versioned) {
                 // get the current version
@@ -147,11 +194,44 @@ export class PersisterImpl implements Persister {
                 this._mapping.setDocumentVersion(document, (version || 0) + 1);
             }
 
-            this._getCommand(batch).addReplace(document, version);
+            // only send the fields that changed unless the whole document needs to be replaced
+            var changes = this._mapping.getDocumentChanges(originalDocument, document);
+            if (changes) {
+                if (this._versioned) {
+                    this._mapping.setDocumentVersion(changes.$set || (changes.$set = {}), (version || 0) + 1);
+                }
+                this._getCommand(batch).addUpdate(entity, document["_id"], changes, version);
+            }
+            else {
+                this._getCommand(batch).addReplace(entity, document, version);
+            }
             callback(null, document);
         }
     }
 
+    /**
+     * Writes the document for an entity that is checked for changes. Returns an Error if the entity cannot be
+     * serialized.
+     * @param context The write context.
+     * @param entity The entity.
+     * @param originalDocument The document for the entity when it was last read or written.
+     */
+    private _writeDirtyDocument(context: WriteContext, entity: Object, originalDocument: any): any {
+
+        var document = this._mapping.write(context, entity);
+        if(context.hasErrors) {
+            return new PersistenceError(`Error serializing document:\n${context.getErrorMessage()}`);
+        }
+
+        // keep the marker for an entity that was loaded while marked as deleted so it is not lost if the document is
+        // replaced
+        if (this._softDeleteField && originalDocument && originalDocument[this._softDeleteField] != null) {
+            document[this._softDeleteField] = originalDocument[this._softDeleteField];
+        }
+
+        return document;
+    }
+
     addInsert(batch: Batch, entity: Object, callback: ResultCallback<Object>): void {
 
         var context = new WriteContext();
@@ -160,21 +240,76 @@ export class PersisterImpl implements Persister {
             return callback(new PersistenceError(`Error serializing document:\n${context.getErrorMessage()}`));
         }
 
+        if(context.validationErrors) {
+            return callback(this._createValidationError(entity, context));
+        }
+
         // add version field if versioned
         if(this._versioned) {
             this._mapping.setDocumentVersion(document, 1);
         }
 
-        this._getCommand(batch).addInsert(document);
+        this._getCommand(batch).addInsert(entity, document);
         callback(null, document);
     }
 
     addRemove(batch: Batch, entity: any, callback: Callback): void {
 
-        this._getCommand(batch).addRemove(entity["_id"]);
+        if (!this._softDeleteField) {
+            this._getCommand(batch).addRemove(entity, entity["_id"]);
+            return callback();
+        }
+
+        // the document for a soft deleted entity is marked as deleted instead of being removed
+        var changes: Changes = {
+            $set: { [this._softDeleteField]: new Date() }
+        };
+
+        if (this._versioned) {
+            var version = this._session.getVersion(entity);
+            this._mapping.setDocumentVersion(changes.$set, (version || 0) + 1);
+        }
+
+        this._getCommand(batch).addUpdate(entity, entity["_id"], changes, version);
         callback();
     }
 
+    private _createValidationError(entity: Object, context: WriteContext): ValidationError {
+
+        return new ValidationError(`Validation failed for entity '${this._mapping.name}':\n${createErrorMessage(context.validationErrors)}`,
+            entity, context.validationErrors);
+    }
+
+    /**
+     * Clears the marker on the document for a soft deleted entity.
+     * @param entity The entity to restore.
+     * @param callback Called after the document has been updated.
+     */
+    restore(entity: any, callback: Callback): void {
+
+        var id = entity["_id"],
+            options: UpdateOptions = addWriteConcern({}, this._writeConcern);
+
+        var document: QueryDocument = {
+            $unset: { [this._softDeleteField]: "" }
+        };
+
+        // increment version field if versioned
+        if (this._versioned) {
+            this._mapping.setDocumentVersion(document["$inc"] = {}, 1);
+        }
+
+        this._collection.update({ _id: id }, document, options, (err: Error, response: any) => {
+            if (err) return callback(err);
+
+            // the number of matched documents is not known if the write is not acknowledged
+            if (!response.result.n && !isUnacknowledged(this._writeConcern)) {
+                return callback(new EntityNotFoundError("Unable to find document with identifier '" + this._mapping.keyToString(id) + "'."));
+            }
+            callback();
+        });
+    }
+
     /**
      * Refreshes the managed entity with the state from the database, discarding any unwritten changes. The new
      * document is returned in the callback. There is no need to return the entity since the caller already has
@@ -191,8 +326,70 @@ export class PersisterImpl implements Persister {
         });
     }
 
-    watch(value: any, observer: Observer): void {
-        this._mapping.watchEntity(value, observer);
+    /**
+     * Copies the state of a detached entity onto the managed entity with the same identifier, loading the managed
+     * entity from the database if it is not already in the session. The managed entity is returned in the callback.
+     * If the entity is versioned and the detached entity has a value for the version field, the version must match
+     * the version of the managed entity.
+     * @param entity The detached entity.
+     * @param callback The callback to call when method completes. The results parameter contains the managed entity.
+     */
+    merge(entity: any, callback: ResultCallback<Object>): void {
+
+        var context = new WriteContext();
+        var document = this._mapping.write(context, entity);
+        if(context.hasErrors) {
+            return callback(new PersistenceError(`Error serializing document:\n${context.getErrorMessage()}`));
+        }
+
+        this.findOneById(entity["_id"], (err, managed) => {
+            if (err) return callback(err);
+
+            // null means that the entity is in the session but is scheduled for delete
+            if (managed === null) {
+                return callback(new PersistenceError("Cannot merge an entity that is pending removal."));
+            }
+
+            if (this._session.factory.getMappingForObject(managed) !== this._mapping) {
+                return callback(new PersistenceError("Cannot merge an entity into a managed entity of a different type."));
+            }
+
+            // check to make sure the detached entity is not stale. the version is only available if the entity maps
+            // a property to the version field so take it from the written document.
+            if (this._versioned) {
+                var version = this._mapping.getDocumentVersion(document),
+                    currentVersion = this._session.getVersion(managed);
+
+                if (version != null && version != currentVersion) {
+                    return callback(new OptimisticLockError("Cannot merge entity because document version has changed.", [{
+                        entity: entity,
+                        id: entity["_id"],
+                        operation: WriteOperation.Update,
+                        type: WriteErrorType.VersionConflict,
+                        message: "Expected version " + version + " but found version " + currentVersion + ".",
+                        expectedVersion: version,
+                        currentVersion: currentVersion
+                    }]));
+                }
+            }
+
+            // Note that the original document of the managed entity is not changed so the changes are picked up by the
+            // dirty check on the next flush.
+            this._refreshFromDocument(managed, document, (err) => {
+                if (err) return callback(err);
+                callback(null, managed);
+            });
+        });
+    }
+
+    /**
+     * Watches an entity for changes. Returns a proxy for the entity that must be used in place of the entity for
+     * changes to the entity itself to be detected.
+     * @param value The entity to watch.
+     * @param observer The observer.
+     */
+    watch(value: any, observer: Observer): any {
+        return this._mapping.watchEntity(value, observer);
     }
 
     private _refreshFromDocument(entity: Object, document: Object, callback: ResultCallback<Object>): void {
@@ -271,67 +468,187 @@ export class PersisterImpl implements Persister {
         });
     }
 
-    findInverseOf(entity: Object, path: string, callback: ResultCallback<any[]>): void {
+    findInverseOf(entity: Object, path: string, options: InverseOfOptions, callback: ResultCallback<any[]>): void {
 
-        var criteria = this._prepareInverseQuery(entity, path, callback);
-        if(criteria) {
-            this.findAll(criteria, callback);
-        }
+        this._prepareInverseQuery(entity, path, options, (err, query) => {
+            if (err) return callback(err);
+
+            // setup trace logging.
+            var handleCallback = callback;
+            if (this._traceEnabled) {
+                query.kind = QueryKind[QueryKind.FindAll];
+                handleCallback = this._createTraceableCallback(query, callback);
+            }
+
+            this._findAll(query, handleCallback);
+        });
     }
 
-    findOneInverseOf(entity: Object, path: string, callback: ResultCallback<any>): void {
+    findOneInverseOf(entity: Object, path: string, options: InverseOfOptions, callback: ResultCallback<any>): void {
 
-        var criteria = this._prepareInverseQuery(entity, path, callback);
-        if(criteria) {
-            this.findOne(criteria, callback);
-        }
+        this._prepareInverseQuery(entity, path, options, (err, query) => {
+            if (err) return callback(err);
+
+            // setup trace logging.
+            var handleCallback = callback;
+            if (this._traceEnabled) {
+                query.kind = QueryKind[QueryKind.FindOne];
+                handleCallback = this._createTraceableCallback(query, callback);
+            }
+
+            if (query.orderDocument) {
+                // findOne does not support sorting so find the first entity in the order using a cursor
+                query.limitCount = 1;
+                this._findAll(query, (err, entities) => {
+                    if (err) return handleCallback(err);
+                    handleCallback(null, entities[0] || null);
+                });
+            }
+            else {
+                this._findOne(query, handleCallback);
+            }
+        });
     }
 
     /**
-     * Returns a query for finding an inverse relationship. If an error occurs, the callback is called; otherwise,
-     * the callback is not called and is left to the caller to handle. Note that the query prepared does not include
-     * a discriminator but since we assume that ids are globally unique, this doesn't matter.
+     * Prepares a query for finding an inverse relationship. Note that the query prepared does not include a
+     * discriminator but since we assume that ids are globally unique, this doesn't matter.
      * @param entity The entity that has the inverse relationship
      * @param path The map to the property in the entity that is the owning side of the relationship.
-     * @param callback Callback called on error.
+     * @param options The ordering, criteria, and limit for the inverse relationship. Optional.
+     * @param callback Called with the query.
      */
-    _prepareInverseQuery(entity: Object, path: string, callback: ResultCallback<any>): QueryDocument {
+    private _prepareInverseQuery(entity: Object, path: string, options: InverseOfOptions, callback: ResultCallback<any>): void {
 
         var property = this._mapping.getProperty(path);
         if(property === undefined) {
-            callback(new PersistenceError("Missing property '" + path + "'."));
-            return null;
+            return callback(new PersistenceError("Missing property '" + path + "'."));
         }
 
         var id = (<any>entity)._id;
         if(id === undefined) {
-            callback(new PersistenceError("Missing identifier on entity that is the inverse side of a relationship."));
-            return null;
+            return callback(new PersistenceError("Missing identifier on entity that is the inverse side of a relationship."));
+        }
+
+        var criteria: QueryDocument = {};
+        if(property.flags & MappingModel.PropertyFlags.DbRef) {
+            // match the identifier in the DBRef
+            criteria[property.field + ".$id"] = id;
+        }
+        else {
+            property.setFieldValue(criteria, id);
+        }
+
+        options = options || {};
+
+        if(options.where) {
+            var where = (this._criteriaBuilder || (this._criteriaBuilder = new CriteriaBuilder(this._mapping)))
+                .build(options.where);
+
+            // check if we got any error during build
+            if(this._criteriaBuilder.error) {
+                return callback(this._criteriaBuilder.error);
+            }
+            criteria = { $and: [criteria, where] };
+        }
+
+        criteria = this._addFilterCriteria(criteria);
+        if (criteria instanceof Error) {
+            return callback(criteria);
         }
 
-        var query: QueryDocument = {};
-        property.setFieldValue(query, id);
-        return query;
+        var query: any = {
+            criteria,
+            fields: this._defaultFields
+        };
+
+        if(options.limit) {
+            query.limitCount = options.limit;
+        }
+
+        if(!options.orderBy) {
+            return callback(null, query);
+        }
+
+        this._prepareOrderDocument(options.orderBy, (err, preparedOrder) => {
+            if(err) return callback(err);
+
+            query.orderDocument = preparedOrder;
+            callback(null, query);
+        });
+    }
+
+    /**
+     * Loads an entity from a document that was returned by a query for another entity, such as a document that was
+     * joined using $lookup.
+     * @param document The document for the entity.
+     * @param callback Called with the entity.
+     */
+    load(document: any, callback: ResultCallback<Object>): void {
+
+        this._loadOne(document, callback, false, true);
     }
 
     findOneById(id: any, callback: ResultCallback<any>): void {
 
+        this._findOneById(id, false, undefined, callback);
+    }
+
+    private _findOneById(id: any, includeDeleted: boolean, readOptions: ReadOptions, callback: ResultCallback<any>): void {
+
         // Check to see if object is already loaded. Note explicit check for undefined here. Null means
         // that the object is loaded but scheduled for delete so null should be returned.
-        var entity = this._session.getObject(id);
+        var entity = this._session.getObject(this._mapping.keyToString(id));
         if (entity !== undefined) {
             return process.nextTick(() => callback(null, entity));
         }
 
+        // a find with read options, such as a read preference, is not batched with other finds or read from the
+        // second-level cache
+        if (readOptions) {
+            return new FindQueue(this, this._mapping, includeDeleted, readOptions).add(id, callback);
+        }
+
+        // documents for entities that are marked as deleted are never added to the second-level cache
+        if (includeDeleted && this._softDeleteField) {
+            return (this._findDeletedQueue || (this._findDeletedQueue = new FindQueue(this, this._mapping, true))).add(id, callback);
+        }
+
+        // documents in the second-level cache may not match the filters that are enabled in the session
+        if (!this._cache || this._hasEnabledFilters()) {
+            return this._queueFind(id, callback);
+        }
+
+        // check the second-level cache before going to the database
+        this._cache.get(this._mapping, id, (err, document) => {
+            if (err) return callback(err);
+
+            if (document) {
+                this._loadOne(document, callback);
+            }
+            else {
+                this._queueFind(id, callback);
+            }
+        });
+    }
+
+    private _queueFind(id: any, callback: ResultCallback<any>): void {
+
         // TODO: FindQueue should be shared by all persisters with the same collection?
-        (this._findQueue || (this._findQueue = new FindQueue(this))).add(id, callback);
+        (this._findQueue || (this._findQueue = new FindQueue(this, this._mapping))).add(id, callback);
     }
 
-    findOne(criteria: QueryDocument, callback: ResultCallback<any>): void {
+    findOne(criteria: QueryDocument, callback: ResultCallback<any>, includeDeleted?: boolean, readOptions?: ReadOptions): void {
+
+        criteria = this._addFilterCriteria(criteria, includeDeleted);
+        if (criteria instanceof Error) {
+            return callback(criteria);
+        }
 
         var query: any =  {
             criteria,
-            fields: this._defaultFields
+            fields: this._defaultFields,
+            readOptions
         };
 
         // setup trace logging.
@@ -346,17 +663,23 @@ export class PersisterImpl implements Persister {
 
     private _findOne(query: FindOneQuery, callback: ResultCallback<any>): void {
 
-        this._collection.findOne(query.criteria, query.fields, (err, document) => {
+        this._getReadCollection(query.readOptions).findOne(query.criteria, query.fields, query.readOptions || {}, (err, document) => {
             if (err) return callback(err);
-            this._loadOne(document, callback);
+            this._loadOne(document, callback, this._isPartial(query), true);
         });
     }
 
-    findAll(criteria: QueryDocument, callback: ResultCallback<any[]>): void {
+    findAll(criteria: QueryDocument, callback: ResultCallback<any[]>, includeDeleted?: boolean, readOptions?: ReadOptions): void {
+
+        criteria = this._addFilterCriteria(criteria, includeDeleted);
+        if (criteria instanceof Error) {
+            return callback(criteria);
+        }
 
         var query: any = {
             criteria,
-            fields: this._defaultFields
+            fields: this._defaultFields,
+            readOptions
         };
 
         // setup trace logging.
@@ -372,6 +695,7 @@ export class PersisterImpl implements Persister {
     private _findAll(query: FindAllQuery, callback: ResultCallback<any[]>): void {
 
         var cursor = this._prepareFind(query),
+            partial = this._isPartial(query),
             self = this,
             entities: any[] = [];
 
@@ -396,7 +720,7 @@ export class PersisterImpl implements Persister {
                         entities.push(value);
                     }
                     next();
-                });
+                }, partial, true);
             });
         }
 
@@ -422,8 +746,27 @@ export class PersisterImpl implements Persister {
             }
         }
 
-        // todo: handle field projection
-        query.fields = this._defaultFields;
+        // the filters for finding by identifier are added by the FindQueue and an aggregation pipeline does not have
+        // criteria
+        if (query.kind != QueryKind.FindOneById && query.kind != QueryKind.Aggregate) {
+            var criteria = this._addFilterCriteria(query.criteria, query.wantsDeleted);
+            if (criteria instanceof Error) {
+                return callback(criteria);
+            }
+            query.criteria = criteria;
+        }
+
+        // map field projection if it's defined
+        if (query.selectPaths || query.excludePaths) {
+            var projection = this._getProjection(query);
+            if (projection instanceof Error) {
+                return callback(projection);
+            }
+            query.fields = projection;
+        }
+        else {
+            query.fields = this._defaultFields;
+        }
 
         // map update document if it's defined
         if (query.updateDocument) {
@@ -445,6 +788,40 @@ export class PersisterImpl implements Persister {
             }
         }
 
+        // map aggregation pipeline if it's defined
+        if (query.pipeline) {
+            query.pipeline = (this._pipelineBuilder || (this._pipelineBuilder = new AggregatePipelineBuilder(this._mapping)))
+                .build(query.pipeline, query.wantsEntities);
+
+            // check if we got any error during build
+            if(this._pipelineBuilder.error) {
+                return callback(this._pipelineBuilder.error);
+            }
+
+            // documents that do not match the enabled filters are removed at the start of the pipeline
+            var filterCriteria = this._getFilterCriteria(query.wantsDeleted);
+            if (filterCriteria instanceof Error) {
+                return callback(filterCriteria);
+            }
+            if (filterCriteria) {
+                query.pipeline.unshift({ $match: filterCriteria });
+            }
+        }
+
+        // the entity for a query by identifier may already be in the identity map and the documents for a query
+        // that iterates the results are read one at a time so the joined paths are fetched instead
+        if (query.joinPaths && query.kind != QueryKind.FindAll && query.kind != QueryKind.FindOne) {
+            query.fetchPaths = (query.fetchPaths || []).concat(query.joinPaths);
+            query.joinPaths = undefined;
+        }
+
+        // map read options
+        var readOptions = this._prepareReadOptions(query);
+        if (readOptions instanceof Error) {
+            return callback(readOptions);
+        }
+        query.readOptions = readOptions;
+
         // map sorting
         if(query.sortValue) {
             this._prepareOrderDocument(query.sortValue, (err, preparedOrder) => {
@@ -471,13 +848,23 @@ export class PersisterImpl implements Persister {
 
         switch(query.kind) {
             case QueryKind.FindOne:
-                this._findOne(query, this._fetchOne(query, handleCallback));
+                if (query.joinPaths) {
+                    this._findJoined(query, /* single */ true, this._fetchOne(query, handleCallback));
+                }
+                else {
+                    this._findOne(query, this._fetchOne(query, handleCallback));
+                }
                 break;
             case QueryKind.FindOneById:
-                this.findOneById(query.id, this._fetchOne(query, handleCallback));
+                this._findOneById(query.id, query.wantsDeleted, query.readOptions, this._fetchOne(query, handleCallback));
                 break;
             case QueryKind.FindAll:
-                this._findAll(query, this._fetchAll(query, handleCallback));
+                if (query.joinPaths) {
+                    this._findJoined(query, /* single */ false, this._fetchAll(query, handleCallback));
+                }
+                else {
+                    this._findAll(query, this._fetchAll(query, handleCallback));
+                }
                 break;
             case QueryKind.FindEach:
                 this._findEach(query, handleCallback);
@@ -508,6 +895,9 @@ export class PersisterImpl implements Persister {
             case QueryKind.Count:
                 this._count(query, handleCallback);
                 break;
+            case QueryKind.Aggregate:
+                this._aggregate(query, handleCallback);
+                break;
             default:
                 handleCallback(new PersistenceError(`Unknown query type '${query.kind}'.`));
         }
@@ -550,11 +940,104 @@ export class PersisterImpl implements Persister {
         callback(null, order);
     }
 
+    /**
+     * Builds the options passed to the driver for the read preference, read concern, time limit, index hint,
+     * collation, and comment of a query. Returns undefined if the query does not specify any of them or an Error if
+     * a property in the index hint cannot be resolved.
+     * @param query The query.
+     */
+    private _prepareReadOptions(query: QueryDefinition): ReadOptions | Error {
+
+        if (!query.readPreferenceMode && !query.readConcernLevel && query.maxTimeMS === undefined && !query.hintValue
+            && !query.collationValue && query.commentValue === undefined) {
+            return undefined;
+        }
+
+        var options: ReadOptions = {};
+
+        if (query.readPreferenceMode) {
+            options.readPreference = query.readPreferenceMode;
+        }
+
+        if (query.readConcernLevel) {
+            options.readConcern = { level: query.readConcernLevel };
+        }
+
+        if (query.maxTimeMS !== undefined) {
+            options.maxTimeMS = query.maxTimeMS;
+        }
+
+        if (query.hintValue) {
+            if (typeof query.hintValue === "string") {
+                // name of the index
+                options.hint = query.hintValue;
+            }
+            else {
+                // index specification using property names
+                var hint: QueryDocument = {},
+                    spec = <QueryDocument>query.hintValue;
+
+                for (var key in spec) {
+                    if (spec.hasOwnProperty(key)) {
+                        var context = this._mapping.resolve(key);
+                        if (context.error) {
+                            return context.error;
+                        }
+                        hint[context.resolvedPath] = spec[key];
+                    }
+                }
+                options.hint = hint;
+            }
+        }
+
+        if (query.collationValue) {
+            options.collation = query.collationValue;
+        }
+
+        if (query.commentValue !== undefined) {
+            options.comment = query.commentValue;
+        }
+
+        return options;
+    }
+
+    /**
+     * Gets the collection to use for a query. The driver only supports setting the read concern on a collection so
+     * a collection with the read concern is used if the query specifies one.
+     * @param options The read options for the query.
+     */
+    private _getReadCollection(options: ReadOptions): mongodb.Collection {
+
+        if (!options || !options.readConcern) {
+            return this._collection;
+        }
+
+        var collections = this._readConcernCollections || (this._readConcernCollections = new Map()),
+            collection = collections.get(options.readConcern.level);
+
+        if (!collection) {
+            var root = <EntityMapping>this._mapping.inheritanceRoot,
+                connection = this._session.factory.connection;
+
+            // use the database for the collection if it's not the database for the connection. the session factory
+            // is only created for other databases if it has a client.
+            if (root.databaseName && root.databaseName !== connection.databaseName) {
+                connection = this._session.factory.client.db(root.databaseName);
+            }
+
+            collection = connection.collection(this._collection.collectionName, { readConcern: options.readConcern });
+            collections.set(options.readConcern.level, collection);
+        }
+
+        return collection;
+    }
+
     // TODO: optimize this function by using underlying cursor from core directly
     private _findEach(query: FindEachQuery, callback: Callback): void {
 
         var cursor = this._prepareFind(query);
         var iterator = this._fetchIterator(query);
+        var partial = this._isPartial(query);
 
         var completed = 0,
             started = 0,
@@ -606,7 +1089,7 @@ export class PersisterImpl implements Persister {
                     // pass the entity to the iterator, and wait for done to be called
                     iterator(value, onlyOnce(done));
                 }
-            });
+            }, partial, true);
         }
 
         function done(err: Error) {
@@ -634,6 +1117,7 @@ export class PersisterImpl implements Persister {
 
         var cursor = this._prepareFind(query),
             iterator = this._fetchIterator(query),
+            partial = this._isPartial(query),
             self = this;
 
         (function next(err?: Error) {
@@ -656,7 +1140,7 @@ export class PersisterImpl implements Persister {
                     else {
                         iterator(value, next);
                     }
-                });
+                }, partial, true);
             });
         })();
 
@@ -680,13 +1164,13 @@ export class PersisterImpl implements Persister {
                 }
 
                 this._session.fetchInternal(entity, query.fetchPaths, callback);
-            });
+            }, this._isPartial(query), true);
         }));
     }
 
     private _prepareFind(query: FindAllQuery): mongodb.Cursor {
         
-        var cursor = this._collection.find(query.criteria, query.fields);
+        var cursor = this._getReadCollection(query.readOptions).find(query.criteria, query.fields, query.readOptions || {});
 
         if(query.orderDocument !== undefined) {
             cursor.sort(query.orderDocument);
@@ -707,47 +1191,214 @@ export class PersisterImpl implements Persister {
         return cursor;
     }
 
-    private _findOneAndModify(query: QueryDefinition, callback: ResultCallback<Object>): void {
+    /**
+     * Finds entities using an aggregation that joins the documents for the referenced entities so the referenced
+     * entities are loaded in the same round trip as the query. The referenced entities are loaded before the entity
+     * that references them so the references are resolved to the loaded entities.
+     * @param query The query.
+     * @param single True if only the first entity is returned.
+     * @param callback Called with the entities or, if single is true, the first entity.
+     */
+    private _findJoined(query: FindAllQuery, single: boolean, callback: ResultCallback<any>): void {
 
-        var options: FindAndModifyOptions = {
-            remove: query.kind == QueryKind.FindOneAndRemove,
-            new: query.wantsUpdated,
-            upsert: query.kind == QueryKind.FindOneAndUpsert
-        };
+        var joins = this._prepareJoins(query.joinPaths);
+        if (joins instanceof Error) {
+            return callback(joins);
+        }
 
-        this._collection.findAndModify(query.criteria, query.orderDocument, query.updateDocument, options, (err, response) => {
-            if (err) return callback(err);
+        var pipeline: QueryDocument[] = [];
 
-            var document = response.value;
-            if (!document) return callback(null); // no match for criteria
+        if (query.criteria && Object.keys(query.criteria).length > 0) {
+            pipeline.push({ $match: query.criteria });
+        }
 
-            // check if the entity is already in the session
-            var entity = this._session.getObject(document["_id"]);
-            if(entity !== undefined) {
-                // We check to see if the entity is already in the session so we know if we need to refresh the
-                // entity or not.
-                var alreadyLoaded = true;
-                handleCallback();
-            }
-            else {
-                // If the entity is not in the session, then it will be loaded and added to the session as managed.
-                // The state may be changed to Removed below.
-                this._loadOne(document, (err, value) => {
-                    if(err) return callback(err);
-                    entity = value;
-                    handleCallback();
-                });
+        if (query.orderDocument) {
+            var sort: QueryDocument = {},
+                order = <[string, number][]><any>query.orderDocument;
+
+            for (var i = 0; i < order.length; i++) {
+                sort[order[i][0]] = order[i][1];
             }
+            pipeline.push({ $sort: sort });
+        }
 
-            var self = this;
-            function handleCallback() {
-                // If the entity is not pending deletion, then see if we need to refresh the entity from the updated
-                // document or notify the session that the entity is now removed.
+        if (query.skipCount !== undefined) {
+            pipeline.push({ $skip: query.skipCount });
+        }
+
+        if (single || query.limitCount !== undefined) {
+            pipeline.push({ $limit: single ? 1 : query.limitCount });
+        }
+
+        for (var i = 0; i < joins.length; i++) {
+            pipeline.push(joins[i].lookup);
+        }
+
+        // the projection is applied after the lookups so the fields that reference the joined entities are available
+        // to the lookups
+        if (query.fields && Object.keys(query.fields).length > 0) {
+            var fields = query.fields;
+
+            if (isInclusion(fields)) {
+                // the fields that hold the joined documents must be included as well
+                fields = shallowClone(fields);
+                for (var i = 0; i < joins.length; i++) {
+                    fields[joins[i].as] = 1;
+                }
+            }
+            pipeline.push({ $project: fields });
+        }
+
+        var partial = this._isPartial(query),
+            entities: any[] = [];
+
+        this._getReadCollection(query.readOptions).aggregate(pipeline, query.readOptions || {}, (err: Error, cursor: mongodb.Cursor) => {
+            if (err) return callback(err);
+
+            cursor.toArray((err: Error, documents: any[]) => {
+                if (err) return callback(err);
+
+                async.eachSeries(documents, (document: any, done: Callback) => {
+                    this._loadJoined(document, joins, (err) => {
+                        if (err) return done(err);
+
+                        this._loadOne(document, (err, entity) => {
+                            if (err) return done(err);
+
+                            // Filter any null values from the result because null means the object is scheduled for removal
+                            if (entity !== null) {
+                                entities.push(entity);
+                            }
+                            done();
+                        }, partial, true);
+                    });
+                }, (err) => {
+                    if (err) return callback(err);
+                    callback(null, single ? (entities[0] || null) : entities);
+                });
+            });
+        });
+    }
+
+    /**
+     * Builds the $lookup stages for the joined paths of a query. Returns an Error if a path is not a reference to an
+     * entity that can be joined. The joined documents are limited by the filters that are enabled for the referenced
+     * entity and exclude documents that are marked as deleted.
+     * @param paths The joined paths.
+     */
+    private _prepareJoins(paths: string[]): any {
+
+        var builder = this._pipelineBuilder || (this._pipelineBuilder = new AggregatePipelineBuilder(this._mapping)),
+            joins: Join[] = [];
+
+        for (var i = 0; i < paths.length; i++) {
+            var as = "__join" + i,
+                lookup = builder.buildLookup(paths[i], as);
+
+            if (builder.error) {
+                return builder.error;
+            }
+
+            var mapping = this._mapping.resolve(paths[i]).resolvedMapping,
+                array = (mapping.flags & MappingModel.MappingFlags.Array) != 0;
+
+            if (array) {
+                mapping = (<ArrayMapping>mapping).elementMapping;
+            }
+
+            var filterCriteria = this._getFilterCriteria(false, <EntityMapping>mapping);
+            if (filterCriteria instanceof Error) {
+                return filterCriteria;
+            }
+
+            if (filterCriteria) {
+                lookup = createFilteredLookup(lookup["$lookup"], array, filterCriteria);
+            }
+
+            joins.push({ lookup, as, persister: this._session.getPersister(<EntityMapping>mapping) });
+        }
+
+        return joins;
+    }
+
+    /**
+     * Loads the entities for the documents that were joined to a document and removes the joined documents from the
+     * document.
+     * @param document The document.
+     * @param joins The joins for the query.
+     * @param callback Called after the joined entities are loaded.
+     */
+    private _loadJoined(document: any, joins: Join[], callback: Callback): void {
+
+        async.eachSeries(joins, (join: Join, done: Callback) => {
+            var joined = document[join.as];
+            delete document[join.as];
+
+            if (!Array.isArray(joined)) {
+                return done();
+            }
+
+            async.eachSeries(joined, (joinedDocument: any, next: Callback) => join.persister.load(joinedDocument, next), done);
+        }, callback);
+    }
+
+    private _findOneAndModify(query: QueryDefinition, callback: ResultCallback<Object>): void {
+
+        var options: FindAndModifyOptions = {
+            remove: query.kind == QueryKind.FindOneAndRemove,
+            new: query.wantsUpdated,
+            upsert: query.kind == QueryKind.FindOneAndUpsert
+        };
+
+        addWriteConcern(options, query.writeConcernValue || this._writeConcern);
+
+        var removed = options.remove,
+            updateDocument = query.updateDocument;
+
+        if (removed && this._softDeleteField) {
+            // the document for a soft deleted entity is marked as deleted instead of being removed
+            options.remove = false;
+            updateDocument = this._createSoftDeleteDocument();
+        }
+
+        this._collection.findAndModify(query.criteria, query.orderDocument, updateDocument, options, (err, response) => {
+            if (err) return callback(err);
+
+            var document = response.value;
+            if (!document) return callback(null); // no match for criteria
+
+            if (this._cache) {
+                // the document was modified so it must be removed from the second-level cache
+                callback = this._evictBefore(document["_id"], callback);
+            }
+
+            // check if the entity is already in the session
+            var entity = this._session.getObject(this._mapping.keyToString(document["_id"]));
+            if(entity !== undefined) {
+                // We check to see if the entity is already in the session so we know if we need to refresh the
+                // entity or not.
+                var alreadyLoaded = true;
+                handleCallback();
+            }
+            else {
+                // If the entity is not in the session, then it will be loaded and added to the session as managed.
+                // The state may be changed to Removed below.
+                this._loadOne(document, (err, value) => {
+                    if(err) return callback(err);
+                    entity = value;
+                    handleCallback();
+                });
+            }
+
+            var self = this;
+            function handleCallback() {
+                // If the entity is not pending deletion, then see if we need to refresh the entity from the updated
+                // document or notify the session that the entity is now removed.
 
                 // Note that if the entity is pending deletion in the session then the callback will be called with null
                 // for the result. This is a little funny but seems most consistent with other methods such as findOne.
                 if (entity) {
-                    if (options.remove) {
+                    if (removed) {
                         // If entity was removed then notify the session that the entity has been removed from the
                         // database. Note that the remove operation is not cascaded.
                         self._session.notifyRemoved(entity);
@@ -777,39 +1428,85 @@ export class PersisterImpl implements Persister {
 
     private _remove(query: QueryDefinition, callback: ResultCallback<number>): void {
 
-        var options: RemoveOptions = {
+        if (this._softDeleteField) {
+            return this._softRemove(query, callback);
+        }
+
+        var options: RemoveOptions = addWriteConcern({
             single: query.kind == QueryKind.RemoveOne
-        };
+        }, query.writeConcernValue || this._writeConcern);
 
         this._collection.remove(query.criteria, options, (err: Error, response: any) => {
             if(err) return callback(err);
-            callback(null, response.result.n);
+
+            this._evictAll((err) => {
+                if(err) return callback(err);
+                callback(null, response.result.n);
+            });
+        });
+    }
+
+    /**
+     * Marks the documents matched by a remove query as deleted.
+     */
+    private _softRemove(query: QueryDefinition, callback: ResultCallback<number>): void {
+
+        var options: UpdateOptions = addWriteConcern({
+            multi: query.kind == QueryKind.RemoveAll
+        }, query.writeConcernValue || this._writeConcern);
+
+        this._collection.update(query.criteria, this._createSoftDeleteDocument(), options, (err: Error, response: any) => {
+            if(err) return callback(err);
+
+            this._evictAll((err) => {
+                if(err) return callback(err);
+                callback(null, response.result.nModified);
+            });
         });
     }
 
+    /**
+     * Creates the update document that marks a document as deleted.
+     */
+    private _createSoftDeleteDocument(): QueryDocument {
+
+        var document: QueryDocument = {
+            $set: { [this._softDeleteField]: new Date() }
+        };
+
+        // increment version field if versioned
+        if (this._versioned) {
+            this._mapping.setDocumentVersion(document["$inc"] = {}, 1);
+        }
+
+        return document;
+    }
+
     private _update(query: QueryDefinition, callback: ResultCallback<number>): void {
 
-        var options: UpdateOptions = {
+        var options: UpdateOptions = addWriteConcern({
             multi: query.kind == QueryKind.UpdateAll,
             upsert: query.kind == QueryKind.Upsert
-        };
+        }, query.writeConcernValue || this._writeConcern);
 
         this._collection.update(query.criteria, query.updateDocument, options, (err: Error, response: any) => {
             if(err) return callback(err);
-            callback(null, response.result.nModified);
+
+            this._evictAll((err) => {
+                if(err) return callback(err);
+                callback(null, response.result.nModified);
+            });
         });
     }
 
     private _distinct(query: QueryDefinition, callback: ResultCallback<any[]>): void {
 
-        // TODO: add options for readpreference
-
         var context = this._mapping.resolve(query.key);
         if(context.error) {
             return callback(context.error);
         }
 
-        this._collection.distinct(context.resolvedPath, query.criteria, undefined, (err: Error, results: any[]) => {
+        this._getReadCollection(query.readOptions).distinct(context.resolvedPath, query.criteria, query.readOptions || {}, (err: Error, results: any[]) => {
             if(err) return callback(err);
 
             // read results based on property mapping
@@ -829,19 +1526,71 @@ export class PersisterImpl implements Persister {
 
     private _count(query: QueryDefinition, callback: ResultCallback<number>): void {
 
-        // TODO: add options for readpreference
-
         var options: CountOptions = {
             limit: query.limitCount,
             skip: query.skipCount
         };
 
-        this._collection.count(query.criteria, options, (err: Error, result: number) => {
+        var readOptions = query.readOptions;
+        if (readOptions) {
+            if (readOptions.readPreference) {
+                options.readPreference = readOptions.readPreference;
+            }
+            if (readOptions.readConcern) {
+                options.readConcern = readOptions.readConcern;
+            }
+            if (readOptions.maxTimeMS !== undefined) {
+                options.maxTimeMS = readOptions.maxTimeMS;
+            }
+            if (readOptions.hint) {
+                options.hint = readOptions.hint;
+            }
+            if (readOptions.collation) {
+                options.collation = readOptions.collation;
+            }
+            if (readOptions.comment !== undefined) {
+                options.comment = readOptions.comment;
+            }
+        }
+
+        this._getReadCollection(query.readOptions).count(query.criteria, options, (err: Error, result: number) => {
             if(err) return callback(err);
             callback(null, result);
         });
     }
 
+    private _aggregate(query: QueryDefinition, callback: ResultCallback<any[]>): void {
+
+        this._collection.aggregate(query.pipeline, (err: Error, cursor: mongodb.Cursor) => {
+            if(err) return callback(err);
+
+            cursor.toArray((err: Error, results: any[]) => {
+                if(err) return callback(err);
+
+                if(!query.wantsEntities) {
+                    return callback(null, results);
+                }
+
+                var entities: any[] = [];
+
+                async.eachSeries(results, (document: any, done: (err?: Error) => void) => {
+                    this._loadOne(document, (err, entity) => {
+                        if(err) return done(err);
+
+                        // Filter any null values from the result because null means the object is scheduled for removal
+                        if(entity !== null) {
+                            entities.push(entity);
+                        }
+                        done();
+                    });
+                }, (err) => {
+                    if(err) return callback(err);
+                    callback(null, entities);
+                });
+            });
+        });
+    }
+
     private _fetchOne(query: FindOneQuery, callback: ResultCallback<any>): ResultCallback<any> {
 
         if(!query.fetchPaths) {
@@ -886,7 +1635,150 @@ export class PersisterImpl implements Persister {
         }
     }
 
-    private _loadOne(document: any, callback: ResultCallback<Object>): void {
+    /**
+     * Returns true if any of the filters defined on the entity are enabled in the session.
+     */
+    private _hasEnabledFilters(): boolean {
+
+        var filters = this._mapping.getFilters();
+        return !!filters && filters.some(filter => this._session.getFilterParameters(filter.name) !== undefined);
+    }
+
+    /**
+     * Gets the criteria for the filters that are enabled in the session, mapped to document fields. Documents that are
+     * marked as deleted are excluded unless includeDeleted is true. Returns undefined if there is nothing to filter or
+     * an Error if the criteria could not be built.
+     * @param includeDeleted True if documents that are marked as deleted should not be excluded.
+     * @param mapping Optional. The mapping for the entity to filter. Default is the mapping for this persister.
+     */
+    private _getFilterCriteria(includeDeleted?: boolean, mapping = this._mapping): any {
+
+        var filters = mapping.getFilters(),
+            softDeleteField = (<EntityMapping>mapping.inheritanceRoot).softDeleteField,
+            criteria: QueryDocument[] = [],
+            prepared: QueryDocument;
+
+        if (filters) {
+            for (var i = 0; i < filters.length; i++) {
+                var parameters = this._session.getFilterParameters(filters[i].name);
+                if (parameters !== undefined) {
+                    try {
+                        criteria.push(bindFilterParameters(filters[i], filters[i].criteria, parameters));
+                    }
+                    catch (err) {
+                        return err;
+                    }
+                }
+            }
+        }
+
+        if (criteria.length > 0) {
+            var builder = mapping !== this._mapping ? new CriteriaBuilder(mapping) :
+                (this._criteriaBuilder || (this._criteriaBuilder = new CriteriaBuilder(this._mapping)));
+
+            prepared = builder.build(criteria.length == 1 ? criteria[0] : { $and: criteria });
+            if (builder.error) {
+                return new PersistenceError("Invalid criteria for filter: " + builder.error.message);
+            }
+        }
+
+        // the marker is a document field rather than a property so it is added after the criteria is built
+        if (softDeleteField && !includeDeleted) {
+            var notDeleted: QueryDocument = { [softDeleteField]: null };
+            prepared = prepared ? { $and: [prepared, notDeleted] } : notDeleted;
+        }
+
+        return prepared;
+    }
+
+    /**
+     * Combines the criteria of a query with the criteria for the filters that are enabled in the session. Returns an
+     * Error if the criteria for the filters could not be built.
+     * @param criteria The criteria of the query, mapped to document fields.
+     * @param includeDeleted True if documents that are marked as deleted should not be excluded.
+     */
+    private _addFilterCriteria(criteria: QueryDocument, includeDeleted?: boolean): any {
+
+        var filterCriteria = this._getFilterCriteria(includeDeleted);
+        if (!filterCriteria || filterCriteria instanceof Error) {
+            return filterCriteria || criteria;
+        }
+
+        if (!criteria || Object.keys(criteria).length == 0) {
+            return filterCriteria;
+        }
+
+        return { $and: [criteria, filterCriteria] };
+    }
+
+    /**
+     * Returns true if the document is marked as deleted.
+     */
+    private _isMarkedDeleted(document: any): boolean {
+
+        return !!this._softDeleteField && document[this._softDeleteField] != null;
+    }
+
+    /**
+     * Returns true if the query only loads some of the fields of the entity.
+     */
+    private _isPartial(query: FindOneQuery): boolean {
+
+        return !!(query.selectPaths || query.excludePaths);
+    }
+
+    /**
+     * Builds the field projection for a query that selects or excludes fields.
+     * @param query The query.
+     */
+    private _getProjection(query: FindOneQuery): any {
+
+        var fields: any,
+            paths: string[],
+            value: number;
+
+        if (query.selectPaths) {
+            fields = {};
+            paths = query.selectPaths;
+            value = 1;
+
+            // the discriminator is always needed to create an instance of the correct class
+            var discriminatorField = this._mapping.inheritanceRoot.discriminatorField;
+            if (discriminatorField) {
+                fields[discriminatorField] = 1;
+            }
+        }
+        else {
+            // start with the default fields so fields that are never loaded remain excluded
+            fields = {};
+            for (var field in this._defaultFields) {
+                if (this._defaultFields.hasOwnProperty(field)) {
+                    fields[field] = this._defaultFields[field];
+                }
+            }
+            paths = query.excludePaths;
+            value = 0;
+        }
+
+        for (var i = 0; i < paths.length; i++) {
+            var context = this._mapping.resolve(paths[i]);
+            if (context.error) {
+                return context.error;
+            }
+            fields[context.resolvedPath] = value;
+        }
+
+        return fields;
+    }
+
+    /**
+     * Loads an entity from a document, unless the entity is already in the session.
+     * @param document The document to load.
+     * @param callback Called with the entity.
+     * @param partial True if the document only contains some of the fields of the entity.
+     * @param cache True if the document should be added to the second-level cache. Partial documents are never cached.
+     */
+    private _loadOne(document: any, callback: ResultCallback<Object>, partial?: boolean, cache?: boolean): void {
 
         var entity: any;
 
@@ -896,7 +1788,7 @@ export class PersisterImpl implements Persister {
         else {
             // Check to see if object is already loaded. Note explicit check for undefined here. Null means
             // that the object is loaded but scheduled for delete so null should be returned.
-            entity = this._session.getObject(document["_id"]);
+            entity = this._session.getObject(this._mapping.keyToString(document["_id"]));
             if (entity === undefined) {
 
                 var context = new ReadContext(this._session);
@@ -905,14 +1797,26 @@ export class PersisterImpl implements Persister {
                     return callback(new PersistenceError("Error deserializing document:\n" + context.getErrorMessage()));
                 }
 
-                this._session.registerManaged(this, entity, document);
+                entity = this._session.registerManaged(this, entity, document, partial);
+
+                // documents that are marked as deleted are not cached since they are excluded from find by identifier
+                if (cache && !partial && this._cache && !this._isMarkedDeleted(document)) {
+                    this._cache.put(this._mapping, document, (err) => {
+                        if (err && this._traceEnabled) {
+                            this._session.factory.logger.warn(err, "[Hydrate] Unable to add document to cache.");
+                        }
+                    });
+                }
 
                 if (!context.fetches) {
-                    callback(null, entity);
+                    this._postLoad(entity, callback);
                 }
                 else {
                     // requested fetches were found when reading the entity
-                    this._session.fetchInternal(entity, context.fetches, callback);
+                    this._session.fetchInternal(entity, context.fetches, (err) => {
+                        if (err) return callback(err);
+                        this._postLoad(entity, callback);
+                    });
                 }
                 return;
             }
@@ -921,17 +1825,76 @@ export class PersisterImpl implements Persister {
         callback(null, entity);
     }
 
+    /**
+     * Removes all documents in the collection from the second-level cache. Called after the collection is modified by a
+     * query since the documents that were modified are not known.
+     * @param callback Called after the documents have been removed.
+     */
+    private _evictAll(callback: Callback): void {
+
+        if (!this._cache) {
+            return callback();
+        }
+
+        this._cache.evictAll(this._mapping, callback);
+    }
+
+    /**
+     * Returns a callback that removes a document from the second-level cache before calling the original callback.
+     * @param id The identifier of the document to remove.
+     * @param callback The original callback.
+     */
+    private _evictBefore(id: any, callback: ResultCallback<Object>): ResultCallback<Object> {
+
+        return (err: Error, result?: Object) => {
+            this._cache.evict(this._mapping, id, undefined, (evictErr) => {
+                callback(err || evictErr, result);
+            });
+        }
+    }
+
+    private _postLoad(entity: any, callback: ResultCallback<Object>): void {
+
+        var err = this._session.factory.getMappingForObject(entity).invokeLifecycleCallbacks(LifecycleEvent.PostLoad, entity);
+        if (err) return callback(err);
+        callback(null, entity);
+    }
+
     private _getCommand(batch: Batch): BulkOperationCommand {
         var id = this._mapping.inheritanceRoot.id;
         var command = <BulkOperationCommand>batch.getCommand(id);
         if(!command) {
-            command = new BulkOperationCommand(this._collection, this._mapping);
+            // the write concern for the batch overrides the write concern for the collection. writes in a transaction
+            // use the write concern of the transaction.
+            var writeConcern = batch.session ? undefined : batch.writeConcern || this._writeConcern;
+            command = new BulkOperationCommand(this._collection, this._mapping, writeConcern, batch.session);
             batch.addCommand(id, command);
         }
         return command;
     }
 }
 
+/**
+ * A path joined to the results of a query using $lookup.
+ */
+interface Join {
+
+    lookup: QueryDocument;
+    as: string;
+    persister: Persister;
+}
+
+/**
+ * A write operation queued by a BulkOperationCommand.
+ */
+interface QueuedOperation {
+
+    entity: Object;
+    id: any;
+    operation: WriteOperation;
+    version?: number;
+}
+
 class BulkOperationCommand implements Command {
 
     collectionName: string;
@@ -942,23 +1905,33 @@ class BulkOperationCommand implements Command {
     priority: number;
 
     private _mapping: EntityMapping;
+    private _collection: mongodb.Collection;
+    private _writeConcern: WriteConcern;
 
-    constructor(collection: mongodb.Collection, mapping: EntityMapping) {
+    /**
+     * The queued operations in the order they were added to the bulk operation.
+     */
+    private _operations: QueuedOperation[] = [];
+
+    constructor(collection: mongodb.Collection, mapping: EntityMapping, writeConcern?: WriteConcern, session?: mongodb.ClientSession) {
 
         this._mapping = mapping;
+        this._collection = collection;
+        this._writeConcern = writeConcern;
         this.priority = mapping.flushPriority;
         this.collectionName = collection.collectionName;
-        this.operation = collection.initializeUnorderedBulkOp();
+        this.operation = collection.initializeUnorderedBulkOp(session ? { session } : undefined);
         this.inserted = this.updated = this.removed = 0;
     }
 
-    addInsert(document: any): void {
+    addInsert(entity: Object, document: any): void {
 
         this.inserted++;
         this.operation.insert(document);
+        this._operations.push({ entity, id: document["_id"], operation: WriteOperation.Insert });
     }
 
-    addReplace(document: any, version: number): void {
+    addReplace(entity: Object, document: any, version: number): void {
 
         var query: any = {
             _id: document["_id"]
@@ -971,19 +1944,25 @@ class BulkOperationCommand implements Command {
 
         this.updated++;
         this.operation.find(query).replaceOne(document);
+        this._operations.push({ entity, id: document["_id"], operation: WriteOperation.Update, version });
     }
 
-    addUpdate(id: any, changes: Changes): void {
+    addUpdate(entity: Object, id: any, changes: Changes, version: number): void {
 
         var query: any = {
             _id: id
         };
 
+        if(version != null) {
+            this._mapping.setDocumentVersion(query, version);
+        }
+
         this.updated++;
         this.operation.find(query).update(changes);
+        this._operations.push({ entity, id, operation: WriteOperation.Update, version });
     }
 
-    addRemove(id: any): void {
+    addRemove(entity: Object, id: any): void {
 
         var query: any = {
             _id: id
@@ -991,39 +1970,300 @@ class BulkOperationCommand implements Command {
 
         this.removed++;
         this.operation.find(query).removeOne();
+        this._operations.push({ entity, id, operation: WriteOperation.Remove });
     }
 
     execute(callback: Callback): void {
 
-        this.operation.execute((err: Error, result: mongodb.BulkWriteResult) => {
+        this.operation.execute(addWriteConcern({}, this._writeConcern), (err: Error, result: mongodb.BulkWriteResult) => {
+
+            // the driver returns the result on the error if any of the operations failed
+            if(!result && err instanceof mongodb.BulkWriteError) {
+                result = err.result;
+            }
+
+            if(result && result.hasWriteErrors && result.hasWriteErrors()) {
+                return callback(this._createFlushError(this._getWriteFailures(result.getWriteErrors())));
+            }
+
             if(err) return callback(err);
 
-            // TODO: provide more detailed error information
+            // the number of documents written is not known if the writes are not acknowledged
+            if(isUnacknowledged(this._writeConcern)) {
+                return callback();
+            }
+
             if((result.nInserted || 0) != this.inserted) {
-                return callback(new PersistenceError("Flush failed for collection '" + this.collectionName + "'. Expected to insert " + this.inserted + " documents but only inserted " + (result.nInserted || 0) + "."));
+                return callback(new FlushError("Flush failed for collection '" + this.collectionName + "'. Expected to insert " + this.inserted + " documents but only inserted " + (result.nInserted || 0) + ".", []));
             }
 
             if((result.nModified || 0) != this.updated) {
-                return callback(new PersistenceError("Flush failed for collection '" + this.collectionName + "'. Expected to update " + this.updated + " documents but only updated " + (result.nModified || 0) + "."));
+                var missing = this.updated - (result.nModified || 0),
+                    message = "Flush failed for collection '" + this.collectionName + "'. Expected to update " + this.updated + " documents but only updated " + (result.nModified || 0) + ".";
+
+                this._findVersionConflicts((err, failures) => {
+                    if(err) return callback(err);
+
+                    // if version conflicts account for all of the documents that were not updated then it's an
+                    // optimistic lock failure
+                    if(failures.length == missing) {
+                        callback(new OptimisticLockError(message, failures));
+                    }
+                    else {
+                        callback(new FlushError(message, failures));
+                    }
+                });
+                return;
             }
 
             if((result.nRemoved || 0) != this.removed) {
-                return callback(new PersistenceError("Flush failed for collection '" + this.collectionName + "'. Expected to remove " + this.removed + " documents but only removed " + (result.nRemoved || 0) + "."));
+                return callback(new FlushError("Flush failed for collection '" + this.collectionName + "'. Expected to remove " + this.removed + " documents but only removed " + (result.nRemoved || 0) + ".", []));
             }
 
             callback();
         });
     }
+
+    /**
+     * Maps the write errors returned by the driver to the queued operations that caused them.
+     * @param writeErrors The write errors.
+     */
+    private _getWriteFailures(writeErrors: any[]): WriteFailure[] {
+
+        var failures: WriteFailure[] = [];
+
+        for(var i = 0; i < writeErrors.length; i++) {
+            var writeError = writeErrors[i],
+                queued = this._operations[writeError.index];
+
+            failures.push({
+                entity: queued && queued.entity,
+                id: queued && queued.id,
+                operation: queued && queued.operation,
+                type: getWriteErrorType(writeError.code),
+                code: writeError.code,
+                message: writeError.errmsg
+            });
+        }
+
+        return failures;
+    }
+
+    /**
+     * Finds the versioned updates that did not match a document because the document was changed or removed after
+     * the entity was loaded.
+     * @param callback Called with the failures.
+     */
+    private _findVersionConflicts(callback: ResultCallback<WriteFailure[]>): void {
+
+        var updates = this._operations.filter(queued => queued.operation == WriteOperation.Update && queued.version != null);
+        if(updates.length == 0) {
+            return callback(null, []);
+        }
+
+        var fields: any = {};
+        this._mapping.setDocumentVersion(fields, 1);
+
+        this._collection.find({ _id: { $in: updates.map(queued => queued.id) }}, fields).toArray((err: Error, documents: any[]) => {
+            if(err) return callback(err);
+
+            var versions = new Map<string, number>();
+            for(var i = 0; i < documents.length; i++) {
+                versions.set(this._mapping.keyToString(documents[i]["_id"]), this._mapping.getDocumentVersion(documents[i]));
+            }
+
+            var failures: WriteFailure[] = [];
+
+            for(var i = 0; i < updates.length; i++) {
+                var queued = updates[i],
+                    key = this._mapping.keyToString(queued.id);
+
+                // if the update was applied, the version in the database is one more than the version that was loaded
+                if(!versions.has(key) || versions.get(key) != queued.version + 1) {
+                    failures.push({
+                        entity: queued.entity,
+                        id: queued.id,
+                        operation: queued.operation,
+                        type: WriteErrorType.VersionConflict,
+                        message: versions.has(key) ?
+                            "Expected version " + queued.version + " but found version " + versions.get(key) + "." :
+                            "Document was removed.",
+                        expectedVersion: queued.version,
+                        currentVersion: versions.get(key)
+                    });
+                }
+            }
+
+            callback(null, failures);
+        });
+    }
+
+    private _createFlushError(failures: WriteFailure[]): FlushError {
+
+        var message = "Flush failed for collection '" + this.collectionName + "' with " + failures.length + " write error(s):";
+
+        for(var i = 0; i < failures.length; i++) {
+            var failure = failures[i];
+            message += "\n" + getWriteOperationName(failure.operation) + " of entity with identifier '" + failure.id + "' failed: " + failure.message;
+        }
+
+        return new FlushError(message, failures);
+    }
+}
+
+/**
+ * Determines the type of write error from the code returned by the database.
+ * @param code The error code.
+ */
+function getWriteErrorType(code: number): WriteErrorType {
+
+    switch(code) {
+        case 11000:
+        case 11001:
+            return WriteErrorType.DuplicateKey;
+        case 121:
+            return WriteErrorType.Validation;
+        default:
+            return WriteErrorType.Other;
+    }
+}
+
+/**
+ * Replaces the parameters in the criteria of a filter with the values of the parameters. A parameter is a string that
+ * starts with a colon followed by the name of the parameter. Throws an error if a value for a parameter is missing.
+ * @param filter The filter.
+ * @param value The value in the criteria.
+ * @param parameters The values of the parameters.
+ */
+function bindFilterParameters(filter: Filter, value: any, parameters: any): any {
+
+    if (typeof value === "string") {
+        var match = /^:(\w+)$/.exec(value);
+        if (!match) {
+            return value;
+        }
+
+        var parameter = parameters[match[1]];
+        if (parameter === undefined) {
+            throw new PersistenceError(`Missing value for parameter '${match[1]}' of filter '${filter.name}'.`);
+        }
+        return parameter;
+    }
+
+    if (Array.isArray(value)) {
+        return value.map((item: any) => bindFilterParameters(filter, item, parameters));
+    }
+
+    // only plain objects are copied. other objects, such as identifiers and dates, are values.
+    if (value != null && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+        var result: any = {};
+        for (var key in value) {
+            if (value.hasOwnProperty(key)) {
+                result[key] = bindFilterParameters(filter, value[key], parameters);
+            }
+        }
+        return result;
+    }
+
+    return value;
+}
+
+function getWriteOperationName(operation: WriteOperation): string {
+
+    switch(operation) {
+        case WriteOperation.Insert:
+            return "Insert";
+        case WriteOperation.Update:
+            return "Update";
+        case WriteOperation.Remove:
+            return "Remove";
+    }
+}
+
+/**
+ * Adds the fields of a write concern to the options for a write.
+ * @param options The options for the write.
+ * @param writeConcern The write concern. If not specified, the options are not changed.
+ */
+function addWriteConcern<T extends WriteOptions>(options: T, writeConcern: WriteConcern): T {
+
+    if (writeConcern) {
+        if (writeConcern.w !== undefined) {
+            options.w = writeConcern.w;
+        }
+        if (writeConcern.wtimeout !== undefined) {
+            options.wtimeout = writeConcern.wtimeout;
+        }
+        if (writeConcern.j !== undefined) {
+            options.j = writeConcern.j;
+        }
+    }
+
+    return options;
+}
+
+/**
+ * Returns true if a projection includes fields rather than excluding them.
+ * @param fields The projection.
+ */
+function isInclusion(fields: QueryDocument): boolean {
+
+    for (var field in fields) {
+        if (fields.hasOwnProperty(field) && field != "_id" && fields[field]) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Converts a $lookup stage to the form that runs a pipeline on the joined collection so the joined documents can be
+ * limited by criteria.
+ * @param lookup The value of the $lookup stage, which has a local and foreign field.
+ * @param array True if the local field holds an array of references.
+ * @param criteria The criteria for the joined documents.
+ */
+function createFilteredLookup(lookup: QueryDocument, array: boolean, criteria: QueryDocument): QueryDocument {
+
+    var field = "$" + lookup["foreignField"],
+        match: QueryDocument = array ? { $in: [field, { $ifNull: ["$$references", <any[]>[]] }] } : { $eq: [field, "$$references"] };
+
+    return {
+        $lookup: {
+            from: lookup["from"],
+            let: { references: "$" + lookup["localField"] },
+            pipeline: [
+                { $match: { $expr: match }},
+                { $match: criteria }
+            ],
+            as: lookup["as"]
+        }
+    };
+}
+
+/**
+ * Returns true if the write concern does not request acknowledgment of writes.
+ * @param writeConcern The write concern.
+ */
+function isUnacknowledged(writeConcern: WriteConcern): boolean {
+
+    return !!writeConcern && writeConcern.w === 0 && !writeConcern.j;
 }
 
 class FindQueue {
 
     private _persister: PersisterImpl;
+    private _mapping: EntityMapping;
+    private _includeDeleted: boolean;
+    private _readOptions: ReadOptions;
     private _ids: any[];
     private _callbacks: Map<string, ResultCallback<any>>;
 
-    constructor(persister: PersisterImpl) {
+    constructor(persister: PersisterImpl, mapping: EntityMapping, includeDeleted?: boolean, readOptions?: ReadOptions) {
         this._persister = persister;
+        this._mapping = mapping;
+        this._includeDeleted = includeDeleted;
+        this._readOptions = readOptions;
     }
 
     add(id: any, callback: ResultCallback<any>): void {
@@ -1034,7 +2274,7 @@ class FindQueue {
             process.nextTick(() => this._process());
         }
 
-        var key = id.toString();
+        var key = this._mapping.keyToString(id);
         var existingCallback = this._callbacks.get(key);
         if(existingCallback === undefined) {
             this._ids.push(id);
@@ -1050,7 +2290,8 @@ class FindQueue {
 
         // pull values local
         var callbacks = this._callbacks,
-            ids = this._ids;
+            ids = this._ids,
+            mapping = this._mapping;
 
         // clear queue
         this._ids = this._callbacks = undefined;
@@ -1078,23 +2319,27 @@ class FindQueue {
             }
         }
 
+        // entities with a composite key match each field in the key separately
+        var identity = this._persister.identity,
+            composite = identity instanceof CompositeKeyGenerator ? <CompositeKeyGenerator>identity : null;
+
         // check for simple case of only a single find in the queue
         if (ids.length == 1) {
             let id = ids[0],
-                callback = callbacks.get(id.toString());
+                callback = callbacks.get(this._mapping.keyToString(id));
 
-            this._persister.findOne({ _id: id }, (err, entity) => {
+            this._persister.findOne(composite ? composite.createCriteria(ids) : { _id: id }, (err, entity) => {
                 if(err) return callback(err);
 
                 if(!entity) {
-                    return callback(new EntityNotFoundError("Unable to find document with identifier '" + id.toString() + "'."));
+                    return callback(new EntityNotFoundError("Unable to find document with identifier '" + this._mapping.keyToString(id) + "'."));
                 }
                 callback(null, entity);
-            });
+            }, this._includeDeleted, this._readOptions);
             return;
         }
 
-        this._persister.findAll({ _id: { $in: ids }}, (err, entities) => {
+        this._persister.findAll(composite ? composite.createCriteria(ids) : { _id: { $in: ids }}, (err, entities) => {
             if(!err) {
                 for (var i = 0, l = entities.length; i < l; i++) {
 
@@ -1107,11 +2352,11 @@ class FindQueue {
 
             // pass error message to any callbacks that have not been called yet
             callbacks.forEach((callback, id) => callback(err || new EntityNotFoundError("Unable to find document with identifier '" + id + "'.")));
-        });
+        }, this._includeDeleted, this._readOptions);
 
         function handleCallback(id: any, err: Error, result?: any): void {
 
-            var key = id.toString(),
+            var key = mapping.keyToString(id),
                 callback = callbacks.get(key);
 
             callback(err, result);
@@ -1165,6 +2410,8 @@ class CursorImpl<T> {
 
     next(callback: ResultCallback<T>): void {
 
+        var self = this;
+
         this._cursor.nextObject((err: Error, item: any) => {
             if (err) return handleError(err);
 
@@ -1183,7 +2430,7 @@ class CursorImpl<T> {
 
         function handleError(err: Error) {
 
-            this.close();  // close the cursor since it may not be exhausted
+            self.close();  // close the cursor since it may not be exhausted
             callback(err);
         }
     }
@@ -0,0 +1,301 @@
+import {QueryDocument} from "./queryBuilder";
+import {MappingModel} from "../mapping/mappingModel";
+import {ArrayMapping} from "../mapping/arrayMapping";
+import {InternalMapping} from "../mapping/internalMapping";
+import {CriteriaBuilder} from "./criteriaBuilder";
+import {EntityMapping} from "../mapping/entityMapping";
+import {PersistenceError} from "../persistenceError";
+
+/**
+ * Class that builds an aggregation pipeline. Property names are mapped to field names until a $group or $project stage
+ * changes the shape of the documents. After that, names refer to the fields output by that stage and are used as-is.
+ * Documents can only be read as entities if no stage changes their shape, including an $unwind stage or a $lookup stage
+ * that replaces a field of the entity.
+ * @hidden
+ */
+export class AggregatePipelineBuilder extends CriteriaBuilder {
+
+    /**
+     * Indicates if the documents in the pipeline still have the shape of the entity.
+     */
+    private _mapped: boolean;
+
+    /**
+     * Indicates if the documents in the pipeline can be read as entities.
+     */
+    private _entityShape: boolean;
+
+    /**
+     * Builds and validates an aggregation pipeline.
+     * @param pipeline The source pipeline.
+     * @param wantsEntities True if the documents returned by the pipeline are read as entities.
+     */
+    build(pipeline: QueryDocument[], wantsEntities?: boolean): QueryDocument[] {
+
+        this.error = undefined;
+        this._mapped = true;
+        this._entityShape = true;
+
+        var result: QueryDocument[] = [];
+
+        // limit the pipeline to documents of the entity type if the collection contains other types
+        var discriminator: QueryDocument = {};
+        this.mapping.setQueryDocumentDiscriminator(discriminator);
+        if (Object.keys(discriminator).length > 0) {
+            result.push({ $match: discriminator });
+        }
+
+        for (var i = 0; i < pipeline.length; i++) {
+            var stage = this._prepareStage(pipeline[i]);
+            if (!stage) {
+                return null;
+            }
+            result.push(stage);
+        }
+
+        if (wantsEntities && !this._entityShape) {
+            this.error = new PersistenceError("Cannot return entities from a pipeline that includes a $group, $project, or $unwind stage " +
+                "or a $lookup stage that replaces a field of the entity.");
+            return null;
+        }
+
+        return result;
+    }
+
+    /**
+     * Builds a $lookup stage that joins the documents for the entities referenced by a property.
+     * @param path The path of the property that references the entities.
+     * @param as The name of the field that holds the joined documents.
+     */
+    buildLookup(path: string, as: string): QueryDocument {
+
+        this.error = undefined;
+        this._mapped = true;
+
+        var lookup = this._prepareLookup({ localField: path, as });
+        return lookup ? { $lookup: lookup } : null;
+    }
+
+    private _prepareStage(stage: QueryDocument): QueryDocument {
+
+        var operators = Object.keys(stage);
+        if (operators.length != 1) {
+            this.error = new PersistenceError("Pipeline stage should have exactly one operator.");
+            return null;
+        }
+
+        var operator = operators[0],
+            value = stage[operator],
+            preparedValue: any;
+
+        if (value == null) {
+            this.error = new PersistenceError("Missing value for operator '" + operator + "'.");
+            return null;
+        }
+
+        switch (operator) {
+            case '$match':
+                preparedValue = this._mapped ? this.prepareQueryDocument(value, this.mapping) : value;
+                break;
+            case '$sort':
+                preparedValue = this._prepareSort(value);
+                break;
+            case '$unwind':
+                preparedValue = this._prepareExpression(value);
+                this._entityShape = false;
+                break;
+            case '$lookup':
+                preparedValue = this._prepareLookup(value);
+                if (preparedValue && this._isEntityField(preparedValue["as"])) {
+                    this._entityShape = false;
+                }
+                break;
+            case '$group':
+                preparedValue = this._prepareExpression(value);
+                this._mapped = this._entityShape = false;
+                break;
+            case '$project':
+                preparedValue = this._prepareProjection(value);
+                this._mapped = this._entityShape = false;
+                break;
+            case '$limit':
+            case '$skip':
+                // assign as-is
+                preparedValue = value;
+                break;
+            default:
+                this.error = new PersistenceError("Unknown pipeline stage '" + operator + "'.");
+                return null;
+        }
+
+        if (this.error) {
+            return null;
+        }
+
+        var result: QueryDocument = {};
+        result[operator] = preparedValue;
+        return result;
+    }
+
+    private _prepareSort(sort: QueryDocument): QueryDocument {
+
+        var result: QueryDocument = {};
+
+        for (var key in sort) {
+            if (sort.hasOwnProperty(key)) {
+                var path = this._resolvePath(key);
+                if (!path) {
+                    return null;
+                }
+                result[path] = sort[key];
+            }
+        }
+
+        return result;
+    }
+
+    private _prepareProjection(projection: QueryDocument): QueryDocument {
+
+        var result: QueryDocument = {};
+
+        for (var key in projection) {
+            if (projection.hasOwnProperty(key)) {
+                var value = projection[key];
+
+                if (typeof value === "number" || typeof value === "boolean") {
+                    // the key is a property that is included or excluded
+                    var path = this._resolvePath(key);
+                    if (!path) {
+                        return null;
+                    }
+                    result[path] = value;
+                }
+                else {
+                    // the key is the name of a new field that is computed by the expression
+                    result[key] = this._prepareExpression(value);
+                    if (this.error) {
+                        return null;
+                    }
+                }
+            }
+        }
+
+        return result;
+    }
+
+    private _prepareLookup(lookup: QueryDocument): QueryDocument {
+
+        if (!this._mapped) {
+            this.error = new PersistenceError("A $lookup stage cannot follow a $group or $project stage.");
+            return null;
+        }
+
+        var context = this.mapping.resolve(lookup["localField"]);
+        if (context.error) {
+            this.error = context.error;
+            return null;
+        }
+
+        var mapping: InternalMapping = context.resolvedMapping;
+        if (mapping.flags & MappingModel.MappingFlags.Array) {
+            mapping = (<ArrayMapping>mapping).elementMapping;
+        }
+
+        if (!(mapping.flags & MappingModel.MappingFlags.Entity)) {
+            this.error = new PersistenceError("Property '" + lookup["localField"] + "' is not a reference to an entity.");
+            return null;
+        }
+
+        // field paths in an aggregation cannot refer to the $id field of a DBRef
+        if (context.resolvedProperty && (context.resolvedProperty.flags & MappingModel.PropertyFlags.DbRef)) {
+            this.error = new PersistenceError("Property '" + lookup["localField"] + "' stores references as DBRefs, which are not supported by $lookup.");
+            return null;
+        }
+
+        // $lookup can only join a collection in the same database
+        var target = <EntityMapping>(<EntityMapping>mapping).inheritanceRoot;
+        if (target.databaseName != (<EntityMapping>this.mapping.inheritanceRoot).databaseName) {
+            this.error = new PersistenceError("Property '" + lookup["localField"] + "' references entities in a different database, which are not supported by $lookup.");
+            return null;
+        }
+
+        var as = lookup["as"];
+
+        return {
+            from: target.collectionName,
+            localField: context.resolvedPath,
+            foreignField: "_id",
+            as: as ? as : context.resolvedPath
+        };
+    }
+
+    /**
+     * Determines if a field path refers to a field of the entity.
+     * @param path The field path.
+     */
+    private _isEntityField(path: string): boolean {
+
+        var field = path.split(".")[0],
+            inheritanceRoot = <EntityMapping>this.mapping.inheritanceRoot;
+
+        return field == "_id" || field == inheritanceRoot.discriminatorField || field == inheritanceRoot.versionField
+            || !!this.mapping.getPropertyForField(field);
+    }
+
+    /**
+     * Maps field paths in an aggregation expression. Field paths are strings that start with a single '$'.
+     * @param expression The expression.
+     */
+    private _prepareExpression(expression: any): any {
+
+        if (typeof expression === "string") {
+            if (expression[0] != "$" || expression[1] == "$") {
+                // not a field path or a variable
+                return expression;
+            }
+
+            var path = this._resolvePath(expression.substring(1));
+            return path ? "$" + path : null;
+        }
+
+        if (Array.isArray(expression)) {
+            var arr = new Array(expression.length);
+            for (var i = 0; i < expression.length; i++) {
+                arr[i] = this._prepareExpression(expression[i]);
+            }
+            return arr;
+        }
+
+        if (expression && expression.constructor === Object) {
+            var result: QueryDocument = {};
+            for (var key in expression) {
+                if (expression.hasOwnProperty(key)) {
+                    result[key] = this._prepareExpression(expression[key]);
+                }
+            }
+            return result;
+        }
+
+        return expression;
+    }
+
+    /**
+     * Resolves a property path to a field path if the documents in the pipeline have the shape of the entity.
+     * @param path The property path.
+     */
+    private _resolvePath(path: string): string {
+
+        // the identity field is not a property of the mapping
+        if (!this._mapped || path == "_id") {
+            return path;
+        }
+
+        var context = this.mapping.resolve(path);
+        if (context.error) {
+            this.error = context.error;
+            return null;
+        }
+
+        return context.resolvedPath;
+    }
+}
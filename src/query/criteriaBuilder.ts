@@ -143,6 +143,11 @@ export class CriteriaBuilder {
                         }
 
                         preparedKey = context.resolvedPath;
+                        if(context.resolvedProperty && (context.resolvedProperty.flags & MappingModel.PropertyFlags.DbRef)) {
+                            // references stored as DBRefs are matched on the identifier so the collection and
+                            // database in the DBRef do not need to match exactly
+                            preparedKey += ".$id";
+                        }
                     }
                 }
 
@@ -219,7 +224,7 @@ export class CriteriaBuilder {
         return result;
     }
 
-    protected prepareArrayOfValues(operator: string, value: any[], mapping: InternalMapping): any[] {
+    protected prepareArrayOfValues(operator: string, value: any[], mapping: InternalMapping, dbRef?: boolean): any[] {
 
         if(!Array.isArray(value)) {
             this.error = new PersistenceError("Expected array for '" + operator +"' operator.");
@@ -228,13 +233,13 @@ export class CriteriaBuilder {
 
         var result = new Array(value.length);
         for(var i = 0, l = value.length; i < l; i++) {
-            result[i] = this.prepareQueryValue(operator , value[i], mapping);
+            result[i] = this.prepareQueryValue(operator , value[i], mapping, dbRef);
         }
 
         return result;
     }
 
-    protected prepareQueryValue(path: string, value: any, mapping: InternalMapping): any {
+    protected prepareQueryValue(path: string, value: any, mapping: InternalMapping, dbRef?: boolean): any {
 
         // Regular expressions are allowed in place of strings
         if((mapping.flags & MappingModel.MappingFlags.String) && (value instanceof RegExp)) {
@@ -242,6 +247,7 @@ export class CriteriaBuilder {
         }
 
         var context = new WriteContext(path);
+        context.dbRef = dbRef;
         var preparedValue = mapping.write(context, value);
         if(context.hasErrors) {
             this.error = new PersistenceError(`Bad value: ${context.getErrorMessage()}`);
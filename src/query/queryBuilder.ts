@@ -8,6 +8,7 @@ import {Constructor} from "../index"
 import {PersistenceError} from "../persistenceError";
 import {Observable} from "rx";
 import {Cursor} from "../persister";
+import {WriteConcern} from "../config/configuration";
 
 export interface QueryBuilder<T> {
     findAll(callback?: ResultCallback<T[]>): FindQuery<T>;
@@ -21,20 +22,34 @@ export interface QueryBuilder<T> {
     findOneAndUpdate(criteria: QueryDocument, updateDocument: QueryDocument, callback?: ResultCallback<T>): FindOneAndUpdateQuery<T>;
     findOneAndUpsert(updateDocument: QueryDocument, callback?: ResultCallback<T>): FindOneAndUpdateQuery<T>;
     findOneAndUpsert(criteria: QueryDocument, updateDocument: QueryDocument, callback?: ResultCallback<T>): FindOneAndUpdateQuery<T>;
-    removeAll(callback?: ResultCallback<number>): void;
-    removeAll(criteria: QueryDocument, callback?: ResultCallback<number>): void;
-    removeOne(callback?: ResultCallback<number>): void;
-    removeOne(criteria: QueryDocument, callback?: ResultCallback<number>): void;
-    updateAll(updateDocument: QueryDocument, callback?: ResultCallback<number>): void;
-    updateAll(criteria: QueryDocument, updateDocument: QueryDocument, callback?: ResultCallback<number>): void;
-    updateOne(updateDocument: QueryDocument, callback?: ResultCallback<number>): void;
-    updateOne(criteria: QueryDocument, updateDocument: QueryDocument, callback?: ResultCallback<number>): void;
-    upsert(updateDocument: QueryDocument, callback?: ResultCallback<number>): void;
-    upsert(criteria: QueryDocument, updateDocument: QueryDocument, callback?: ResultCallback<number>): void;
-    distinct(key: string, callback: ResultCallback<any[]>): void;
-    distinct(key: string, criteria: QueryDocument, callback: ResultCallback<any[]>): void;
+    removeAll(callback?: ResultCallback<number>): WriteQuery;
+    removeAll(criteria: QueryDocument, callback?: ResultCallback<number>): WriteQuery;
+    removeOne(callback?: ResultCallback<number>): WriteQuery;
+    removeOne(criteria: QueryDocument, callback?: ResultCallback<number>): WriteQuery;
+    updateAll(updateDocument: QueryDocument, callback?: ResultCallback<number>): WriteQuery;
+    updateAll(criteria: QueryDocument, updateDocument: QueryDocument, callback?: ResultCallback<number>): WriteQuery;
+    updateOne(updateDocument: QueryDocument, callback?: ResultCallback<number>): WriteQuery;
+    updateOne(criteria: QueryDocument, updateDocument: QueryDocument, callback?: ResultCallback<number>): WriteQuery;
+    upsert(updateDocument: QueryDocument, callback?: ResultCallback<number>): WriteQuery;
+    upsert(criteria: QueryDocument, updateDocument: QueryDocument, callback?: ResultCallback<number>): WriteQuery;
+    distinct(key: string, callback?: ResultCallback<any[]>): DistinctQuery;
+    distinct(key: string, criteria: QueryDocument, callback?: ResultCallback<any[]>): DistinctQuery;
     count(callback?: ResultCallback<number>): CountQuery;
     count(criteria: QueryDocument, callback?: ResultCallback<number>): CountQuery;
+
+    /**
+     * Finds the entities that reference another entity. This is the query that is used to fetch the inverse side of a
+     * relationship and can be used to sort, filter, and page through a large number of referencing entities.
+     * @param entity The referenced entity.
+     * @param path The path to the property that holds the reference to the entity.
+     * @param callback Optional. Called with the referencing entities.
+     */
+    inverseOf(entity: Object, path: string, callback?: ResultCallback<T[]>): FindQuery<T>;
+
+    /**
+     * Creates an aggregation pipeline for the entity's collection. See [[AggregateQuery]].
+     */
+    aggregate(): AggregateQuery<T>;
 }
 
 export interface QueryDocument {
@@ -54,10 +69,104 @@ export interface Query<T> {
     asPromise(): Promise<T>;
 }
 
-export interface CountQuery extends Query<number> {
+/**
+ * The read preference mode of a query. See the MongoDB documentation on
+ * [read preference](https://docs.mongodb.com/manual/core/read-preference/) for details.
+ */
+export type ReadPreferenceMode = "primary" | "primaryPreferred" | "secondary" | "secondaryPreferred" | "nearest";
+
+/**
+ * The read concern level of a query. See the MongoDB documentation on
+ * [read concern](https://docs.mongodb.com/manual/reference/read-concern/) for details.
+ */
+export type ReadConcernLevel = "local" | "majority" | "linearizable";
+
+/**
+ * Language-specific rules for string comparison used by a query. See the MongoDB documentation on
+ * [collation](https://docs.mongodb.com/manual/reference/collation/) for details.
+ */
+export interface Collation {
+
+    locale: string;
+    caseLevel?: boolean;
+    caseFirst?: string;
+    strength?: number;
+    numericOrdering?: boolean;
+    alternate?: string;
+    maxVariable?: string;
+    backwards?: boolean;
+}
+
+/**
+ * Options that control how a query reads from the database.
+ */
+export interface ReadQuery<TQuery, TResult> {
+
+    /**
+     * Sets the members of the replica set that the query can read from. For example, use `secondary` to keep long
+     * running reads off of the primary.
+     * @param mode The read preference mode.
+     */
+    readPreference(mode: ReadPreferenceMode, callback?: ResultCallback<TResult>): TQuery;
+
+    /**
+     * Sets the consistency and isolation of the data read by the query.
+     * @param level The read concern level.
+     */
+    readConcern(level: ReadConcernLevel, callback?: ResultCallback<TResult>): TQuery;
+
+    /**
+     * Sets a time limit for the query. The server stops the query and the query returns an error if the time limit
+     * is exceeded.
+     * @param milliseconds The time limit in milliseconds.
+     */
+    maxTime(milliseconds: number, callback?: ResultCallback<TResult>): TQuery;
+
+    /**
+     * Sets the collation used to compare strings in the query.
+     * @param collation The collation.
+     */
+    collation(collation: Collation, callback?: ResultCallback<TResult>): TQuery;
+
+    /**
+     * Adds a comment to the query that appears in the database profiler and logs.
+     * @param value The comment.
+     */
+    comment(value: string, callback?: ResultCallback<TResult>): TQuery;
+}
+
+export interface CountQuery extends Query<number>, ReadQuery<CountQuery, number> {
 
     limit(value: number, callback?: ResultCallback<number>): CountQuery;
     skip(value: number, callback?: ResultCallback<number>): CountQuery;
+
+    /**
+     * Forces the query to use an index. See [[FindQuery.hint]].
+     */
+    hint(index: string | QueryDocument, callback?: ResultCallback<number>): CountQuery;
+
+    /**
+     * Includes entities that are marked as deleted. See [[SoftDelete]].
+     */
+    withDeleted(callback?: ResultCallback<number>): CountQuery;
+}
+
+export interface DistinctQuery extends Query<any[]>, ReadQuery<DistinctQuery, any[]> {
+
+}
+
+/**
+ * A query that modifies documents. The query is called with the number of documents that were modified, which is
+ * undefined if the write concern does not request acknowledgment.
+ */
+export interface WriteQuery extends Query<number> {
+
+    /**
+     * Sets the write concern for the query. Overrides the write concern specified for the entity and in the
+     * [[Configuration]].
+     * @param writeConcern The write concern.
+     */
+    writeConcern(writeConcern: WriteConcern, callback?: ResultCallback<number>): WriteQuery;
 }
 
 export interface FindOneAndRemoveQuery<T> extends Query<T> {
@@ -66,6 +175,16 @@ export interface FindOneAndRemoveQuery<T> extends Query<T> {
     sort(fields: [string, number][], callback?: ResultCallback<T>): FindOneAndRemoveQuery<T>;
     fetch(path: string, callback?: ResultCallback<T>): FindOneAndRemoveQuery<T>;
     fetch(paths: string[], callback?: ResultCallback<T>): FindOneAndRemoveQuery<T>;
+
+    /**
+     * Includes entities that are marked as deleted. See [[SoftDelete]].
+     */
+    withDeleted(callback?: ResultCallback<T>): FindOneAndRemoveQuery<T>;
+
+    /**
+     * Sets the write concern for the query. See [[WriteQuery.writeConcern]].
+     */
+    writeConcern(writeConcern: WriteConcern, callback?: ResultCallback<T>): FindOneAndRemoveQuery<T>;
 }
 
 export interface FindOneAndUpdateQuery<T> extends Query<T> {
@@ -75,23 +194,95 @@ export interface FindOneAndUpdateQuery<T> extends Query<T> {
     fetch(path: string, callback?: ResultCallback<T>): FindOneAndUpdateQuery<T>;
     fetch(paths: string[], callback?: ResultCallback<T>): FindOneAndUpdateQuery<T>;
     returnUpdated(callback?: ResultCallback<T>): FindOneAndUpdateQuery<T>;
+
+    /**
+     * Includes entities that are marked as deleted. See [[SoftDelete]].
+     */
+    withDeleted(callback?: ResultCallback<T>): FindOneAndUpdateQuery<T>;
+
+    /**
+     * Sets the write concern for the query. See [[WriteQuery.writeConcern]].
+     */
+    writeConcern(writeConcern: WriteConcern, callback?: ResultCallback<T>): FindOneAndUpdateQuery<T>;
 }
 
-export interface FindOneQuery<T> extends Query<T> {
+export interface FindOneQuery<T> extends Query<T>, ReadQuery<FindOneQuery<T>, T> {
 
     fetch(path: string, callback?: ResultCallback<T>): FindOneQuery<T>;
     fetch(paths: string[], callback?: ResultCallback<T>): FindOneQuery<T>;
+
+    /**
+     * Loads the entities referenced by the specified properties in the same round trip as the query. The documents
+     * for the referenced entities are joined to the documents for the query using a `$lookup` stage in an
+     * aggregation. The referenced entities are added to the session, the same as [[fetch]]. References stored as
+     * DBRefs and references to entities in a different database cannot be joined.
+     * @param path The path of the property to join. Dot notation can be used for properties of embedded objects.
+     */
+    join(path: string, callback?: ResultCallback<T>): FindOneQuery<T>;
+    join(paths: string[], callback?: ResultCallback<T>): FindOneQuery<T>;
+
+    /**
+     * Forces the query to use an index. See [[FindQuery.hint]].
+     */
+    hint(index: string | QueryDocument, callback?: ResultCallback<T>): FindOneQuery<T>;
+
+    /**
+     * Includes entities that are marked as deleted. See [[SoftDelete]].
+     */
+    withDeleted(callback?: ResultCallback<T>): FindOneQuery<T>;
 }
 
-export interface FindQuery<T> extends Query<T[]> {
+export interface FindQuery<T> extends Query<T[]>, ReadQuery<FindQuery<T>, T[]> {
 
     sort(field: string, direction: number, callback?: ResultCallback<T[]>): FindQuery<T>;
     sort(fields: [string, number][], callback?: ResultCallback<T[]>): FindQuery<T>;
     fetch(path: string, callback?: ResultCallback<T[]>): FindQuery<T>;
     fetch(paths: string[], callback?: ResultCallback<T[]>): FindQuery<T>;
+
+    /**
+     * Loads the entities referenced by the specified properties in the same round trip as the query. The documents
+     * for the referenced entities are joined to the documents for the query using a `$lookup` stage in an
+     * aggregation. The referenced entities are added to the session, the same as [[fetch]]. References stored as
+     * DBRefs and references to entities in a different database cannot be joined.
+     * @param path The path of the property to join. Dot notation can be used for properties of embedded objects.
+     */
+    join(path: string, callback?: ResultCallback<T[]>): FindQuery<T>;
+    join(paths: string[], callback?: ResultCallback<T[]>): FindQuery<T>;
+
     limit(value: number, callback?: ResultCallback<T[]>): FindQuery<T>;
     skip(value: number, callback?: ResultCallback<T[]>): FindQuery<T>;
     batchSize(value: number): FindQuery<T>;
+
+    /**
+     * Forces the query to use an index.
+     * @param index The name of the index or the index specification. Property names in the index specification are
+     * mapped to field names, the same as for [[sort]].
+     */
+    hint(index: string | QueryDocument, callback?: ResultCallback<T[]>): FindQuery<T>;
+
+    /**
+     * Limits the fields loaded for the entities to the specified properties. Entities returned by a query that selects
+     * fields are read-only; changes to them are not saved when the session is flushed. Call [[Session.refresh]] on
+     * an entity to load all fields and make the entity writable. The selected fields cannot be combined with
+     * [[exclude]].
+     * @param paths The properties to load. Dot notation can be used for properties of embedded objects.
+     */
+    select(...paths: string[]): FindQuery<T>;
+
+    /**
+     * Excludes the specified properties from the fields loaded for the entities. Entities returned by a query that
+     * excludes fields are read-only; changes to them are not saved when the session is flushed. Call
+     * [[Session.refresh]] on an entity to load all fields and make the entity writable. The excluded fields cannot be
+     * combined with [[select]].
+     * @param paths The properties to exclude. Dot notation can be used for properties of embedded objects.
+     */
+    exclude(...paths: string[]): FindQuery<T>;
+
+    /**
+     * Includes entities that are marked as deleted. See [[SoftDelete]].
+     */
+    withDeleted(callback?: ResultCallback<T[]>): FindQuery<T>;
+
     each(iterator: IteratorCallback<T>, callback: Callback): void;
     eachSeries(iterator: IteratorCallback<T>, callback: Callback): void;
 
@@ -99,6 +290,177 @@ export interface FindQuery<T> extends Query<T[]> {
      * Returns an [Observable](http://reactivex.io/documentation/observable.html) for the query.
      */
     asObservable(): Observable<T>;
+
+    /**
+     * Returns a [[QueryCursor]] for the query. The query is executed when the first entity is requested from the
+     * cursor. The cursor can be iterated using `for await`.
+     */
+    cursor(): QueryCursor<T>;
+}
+
+/**
+ * An aggregation pipeline. The stages are added to the pipeline in the order the methods are called. Property names
+ * in the stages are mapped to field names and values in `match` are serialized the same as criteria for `findAll`.
+ * After a `group` or `project` stage changes the shape of the documents, names refer to the fields output by that
+ * stage and are passed to the database as-is. Field paths in expressions are strings that start with `$`.
+ *
+ * By default, the query returns the documents output by the pipeline. Call `returnEntities` to have the documents
+ * read as entities when the output has the shape of the entity.
+ *
+ * ### Example
+ *
+ * ```typescript
+ *  session.query(Order).aggregate()
+ *      .match({ status: OrderStatus.Shipped })
+ *      .group({ _id: "$customer", total: { $sum: "$amount" }})
+ *      .sort("total", -1)
+ *      .execute((err, results) => {
+ *          ...
+ *      });
+ * ```
+ */
+export interface AggregateQuery<T> extends Query<any[]> {
+
+    /**
+     * Adds a $match stage that filters the documents using the specified criteria.
+     * @param criteria The query criteria.
+     * @param callback Optional. Called with the results of the pipeline.
+     */
+    match(criteria: QueryDocument, callback?: ResultCallback<any[]>): AggregateQuery<T>;
+
+    /**
+     * Adds a $group stage. Field paths in the accumulator expressions are mapped to field names.
+     * @param group The group specification.
+     * @param callback Optional. Called with the results of the pipeline.
+     */
+    group(group: QueryDocument, callback?: ResultCallback<any[]>): AggregateQuery<T>;
+
+    /**
+     * Adds a $sort stage.
+     * @param field The property to sort by.
+     * @param direction The sort direction.
+     * @param callback Optional. Called with the results of the pipeline.
+     */
+    sort(field: string, direction: number, callback?: ResultCallback<any[]>): AggregateQuery<T>;
+
+    /**
+     * Adds a $sort stage.
+     * @param fields List of properties and sort directions.
+     * @param callback Optional. Called with the results of the pipeline.
+     */
+    sort(fields: [string, number][], callback?: ResultCallback<any[]>): AggregateQuery<T>;
+
+    /**
+     * Adds a $project stage. Properties with a value of `0` or `1` are excluded or included. Any other key is the
+     * name of a new field computed by the expression.
+     * @param projection The projection specification.
+     * @param callback Optional. Called with the results of the pipeline.
+     */
+    project(projection: QueryDocument, callback?: ResultCallback<any[]>): AggregateQuery<T>;
+
+    /**
+     * Adds an $unwind stage for an array property.
+     * @param path The array property.
+     * @param callback Optional. Called with the results of the pipeline.
+     */
+    unwind(path: string, callback?: ResultCallback<any[]>): AggregateQuery<T>;
+
+    /**
+     * Adds a $lookup stage that joins the documents for the entities referenced by a property. The collection
+     * to join is determined from the mapping of the referenced entity.
+     * @param path The property that references an entity or an array of entities.
+     * @param callback Optional. Called with the results of the pipeline.
+     */
+    lookup(path: string, callback?: ResultCallback<any[]>): AggregateQuery<T>;
+
+    /**
+     * Adds a $lookup stage that joins the documents for the entities referenced by a property. The collection
+     * to join is determined from the mapping of the referenced entity.
+     * @param path The property that references an entity or an array of entities.
+     * @param as The field for the joined documents. Defaults to the field of the property.
+     * @param callback Optional. Called with the results of the pipeline.
+     */
+    lookup(path: string, as: string, callback?: ResultCallback<any[]>): AggregateQuery<T>;
+
+    /**
+     * Adds a $limit stage.
+     * @param value The maximum number of documents.
+     * @param callback Optional. Called with the results of the pipeline.
+     */
+    limit(value: number, callback?: ResultCallback<any[]>): AggregateQuery<T>;
+
+    /**
+     * Adds a $skip stage.
+     * @param value The number of documents to skip.
+     * @param callback Optional. Called with the results of the pipeline.
+     */
+    skip(value: number, callback?: ResultCallback<any[]>): AggregateQuery<T>;
+
+    /**
+     * Reads the documents output by the pipeline as entities that are managed by the session. The pipeline cannot
+     * include a `group`, `project`, or `unwind` stage, or a `lookup` stage that replaces a field of the entity.
+     * @param callback Optional. Called with the entities.
+     */
+    returnEntities(callback?: ResultCallback<T[]>): AggregateQuery<T>;
+
+    /**
+     * Includes documents for entities that are marked as deleted. See [[SoftDelete]].
+     * @param callback Optional. Called with the results of the pipeline.
+     */
+    withDeleted(callback?: ResultCallback<any[]>): AggregateQuery<T>;
+}
+
+/**
+ * Cursor for the entities returned by a query. Any paths specified by `fetch` on the query are fetched for each
+ * entity before the entity is returned.
+ *
+ * ### Example
+ *
+ * ```typescript
+ *  for await (let task of session.query(Task).findAll({ status: TaskStatus.Pending }).cursor()) {
+ *      ...
+ *  }
+ * ```
+ */
+export interface QueryCursor<T> {
+
+    /**
+     * Gets the next entity from the cursor. The entity is `null` if there are no more entities.
+     * @param callback Called with the next entity.
+     */
+    next(callback: ResultCallback<T>): void;
+
+    /**
+     * Gets the next entity from the cursor. Returns a Promise for the entity, which is `null` if there are no more
+     * entities.
+     */
+    next(): Promise<T>;
+
+    /**
+     * Closes the cursor. The cursor is closed automatically once all entities have been returned.
+     * @param callback Called when the cursor is closed.
+     */
+    close(callback: Callback): void;
+
+    /**
+     * Closes the cursor. Returns a Promise that is resolved when the cursor is closed.
+     */
+    close(): Promise<void>;
+
+    /**
+     * Returns an async iterator for the cursor. The cursor is closed if iteration is stopped before all entities
+     * have been returned.
+     */
+    [Symbol.asyncIterator](): QueryCursorIterator<T>;
+}
+
+/**
+ * Async iterator for a [[QueryCursor]].
+ */
+export interface QueryCursorIterator<T> {
+
+    next(): Promise<IteratorResult<T>>;
+    return(): Promise<IteratorResult<T>>;
 }
 
 
@@ -163,45 +525,45 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
         return this._createUpdateQuery(QueryKind.FindOneAndUpsert, criteriaOrUpdateDocument, updateDocumentOrCallback, callback);
     }
 
-    removeAll(callback?: ResultCallback<number>): void;
-    removeAll(criteria: QueryDocument, callback?: ResultCallback<number>): void;
-    removeAll(criteriaOrCallback?: any, callback?: ResultCallback<number>): void {
+    removeAll(callback?: ResultCallback<number>): WriteQuery;
+    removeAll(criteria: QueryDocument, callback?: ResultCallback<number>): WriteQuery;
+    removeAll(criteriaOrCallback?: any, callback?: ResultCallback<number>): WriteQuery {
 
-        this._createRemoveQuery(QueryKind.RemoveAll, criteriaOrCallback, callback);
+        return this._createRemoveQuery(QueryKind.RemoveAll, criteriaOrCallback, callback);
     }
 
-    removeOne(callback?: ResultCallback<number>): void;
-    removeOne(criteria: QueryDocument, callback?: ResultCallback<number>): void;
-    removeOne(criteriaOrCallback?: any, callback?: ResultCallback<number>): void {
+    removeOne(callback?: ResultCallback<number>): WriteQuery;
+    removeOne(criteria: QueryDocument, callback?: ResultCallback<number>): WriteQuery;
+    removeOne(criteriaOrCallback?: any, callback?: ResultCallback<number>): WriteQuery {
 
-        this._createRemoveQuery(QueryKind.RemoveOne, criteriaOrCallback, callback);
+        return this._createRemoveQuery(QueryKind.RemoveOne, criteriaOrCallback, callback);
     }
 
-    updateAll(updateDocument: QueryDocument, callback?: ResultCallback<number>): void;
-    updateAll(criteria: QueryDocument, updateDocument: QueryDocument, callback?: ResultCallback<number>): void;
-    updateAll(criteriaOrUpdateDocument: QueryDocument, updateDocumentOrCallback: any, callback?: ResultCallback<number>): void {
+    updateAll(updateDocument: QueryDocument, callback?: ResultCallback<number>): WriteQuery;
+    updateAll(criteria: QueryDocument, updateDocument: QueryDocument, callback?: ResultCallback<number>): WriteQuery;
+    updateAll(criteriaOrUpdateDocument: QueryDocument, updateDocumentOrCallback: any, callback?: ResultCallback<number>): WriteQuery {
 
-        this._createUpdateQuery(QueryKind.UpdateAll, criteriaOrUpdateDocument, updateDocumentOrCallback, callback);
+        return this._createUpdateQuery(QueryKind.UpdateAll, criteriaOrUpdateDocument, updateDocumentOrCallback, callback);
     }
 
-    updateOne(updateDocument: QueryDocument, callback?: ResultCallback<number>): void;
-    updateOne(criteria: QueryDocument, updateDocument: QueryDocument, callback?: ResultCallback<number>): void;
-    updateOne(criteriaOrUpdateDocument: QueryDocument, updateDocumentOrCallback: any, callback?: ResultCallback<number>): void {
+    updateOne(updateDocument: QueryDocument, callback?: ResultCallback<number>): WriteQuery;
+    updateOne(criteria: QueryDocument, updateDocument: QueryDocument, callback?: ResultCallback<number>): WriteQuery;
+    updateOne(criteriaOrUpdateDocument: QueryDocument, updateDocumentOrCallback: any, callback?: ResultCallback<number>): WriteQuery {
 
-        this._createUpdateQuery(QueryKind.UpdateOne, criteriaOrUpdateDocument, updateDocumentOrCallback, callback);
+        return this._createUpdateQuery(QueryKind.UpdateOne, criteriaOrUpdateDocument, updateDocumentOrCallback, callback);
     }
 
-    upsert(updateDocument: QueryDocument, callback?: ResultCallback<number>): void;
-    upsert(criteria: QueryDocument, updateDocument: QueryDocument, callback?: ResultCallback<number>): void;
-    upsert(criteriaOrUpdateDocument: QueryDocument, updateDocumentOrCallback: any, callback?: ResultCallback<number>): void {
+    upsert(updateDocument: QueryDocument, callback?: ResultCallback<number>): WriteQuery;
+    upsert(criteria: QueryDocument, updateDocument: QueryDocument, callback?: ResultCallback<number>): WriteQuery;
+    upsert(criteriaOrUpdateDocument: QueryDocument, updateDocumentOrCallback: any, callback?: ResultCallback<number>): WriteQuery {
 
-        this._createUpdateQuery(QueryKind.Upsert, criteriaOrUpdateDocument, updateDocumentOrCallback, callback);
+        return this._createUpdateQuery(QueryKind.Upsert, criteriaOrUpdateDocument, updateDocumentOrCallback, callback);
 
     }
 
-    distinct(key: string, callback: ResultCallback<any[]>): void;
-    distinct(key: string, criteria: QueryDocument, callback: ResultCallback<any[]>): void;
-    distinct(key: string, criteriaOrCallback: any, callback?: ResultCallback<any[]>): void {
+    distinct(key: string, callback?: ResultCallback<any[]>): DistinctQuery;
+    distinct(key: string, criteria: QueryDocument, callback?: ResultCallback<any[]>): DistinctQuery;
+    distinct(key: string, criteriaOrCallback?: any, callback?: ResultCallback<any[]>): DistinctQuery {
 
         var query = this._createQuery(QueryKind.Distinct);
         query.key = key;
@@ -212,7 +574,7 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
         else {
             query.criteria = criteriaOrCallback || {};
         }
-        query.handleCallback(callback);
+        return query.handleCallback(callback);
     }
 
     count(callback?: ResultCallback<number>): CountQuery;
@@ -232,6 +594,32 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
         return query.handleCallback(callback);
     }
 
+    inverseOf(entity: Object, path: string, callback?: ResultCallback<T[]>): FindQuery<T> {
+
+        var query = this._createQuery(QueryKind.FindAll);
+
+        query.criteria = {};
+
+        if(entity == null) {
+            query.error = new PersistenceError("Missing entity for inverse relationship.");
+        }
+        else if(!path) {
+            query.error = new PersistenceError("Missing path for inverse relationship.");
+        }
+        else {
+            query.criteria[path] = entity;
+        }
+
+        return query.handleCallback(callback);
+    }
+
+    aggregate(): AggregateQuery<T> {
+
+        var query = this._createQuery(QueryKind.Aggregate);
+        query.pipeline = [];
+        return query;
+    }
+
     private _createUpdateQuery(kind: QueryKind, criteriaOrUpdateDocument: QueryDocument, updateDocumentOrCallback: any, callback?: ResultCallback<any>): any {
 
         var query = this._createQuery(kind);
@@ -285,7 +673,7 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
     }
 }
 
-class QueryObject implements QueryDefinition, FindQuery<Object>, FindOneQuery<Object>, FindOneAndRemoveQuery<Object>, FindOneAndUpdateQuery<Object>, CountQuery {
+class QueryObject implements QueryDefinition, FindQuery<Object>, FindOneQuery<Object>, FindOneAndRemoveQuery<Object>, FindOneAndUpdateQuery<Object>, CountQuery, DistinctQuery, WriteQuery, AggregateQuery<Object> {
 
     key: string;
     id: any;
@@ -295,11 +683,24 @@ class QueryObject implements QueryDefinition, FindQuery<Object>, FindOneQuery<Ob
 
     wantsUpdated: boolean;
     fetchPaths: string[];
+    joinPaths: string[];
+    selectPaths: string[];
+    excludePaths: string[];
     sortValue: [string, number][];
     limitCount: number;
     skipCount: number;
     iterator: IteratorCallback<Object>;
     batchSizeValue: number;
+    pipeline: QueryDocument[];
+    wantsEntities: boolean;
+    wantsDeleted: boolean;
+    readPreferenceMode: ReadPreferenceMode;
+    readConcernLevel: ReadConcernLevel;
+    maxTimeMS: number;
+    hintValue: string | QueryDocument;
+    collationValue: Collation;
+    commentValue: string;
+    writeConcernValue: WriteConcern;
     error: Error;
 
     private _session: InternalSession;
@@ -323,6 +724,7 @@ class QueryObject implements QueryDefinition, FindQuery<Object>, FindOneQuery<Ob
             case QueryKind.FindOneById:
             case QueryKind.Distinct:
             case QueryKind.Count:
+            case QueryKind.Aggregate:
                 return true;
             default:
                 return false;
@@ -345,6 +747,22 @@ class QueryObject implements QueryDefinition, FindQuery<Object>, FindOneQuery<Ob
         return this.handleCallback(callback);
     }
 
+    join(path: string | string[], callback?: ResultCallback<any>): QueryObject {
+
+        if(!this.joinPaths) {
+            this.joinPaths = [];
+        }
+
+        if(typeof path === "string") {
+            this.joinPaths.push(path);
+        }
+        else {
+            this.joinPaths = this.joinPaths.concat(path);
+        }
+
+        return this.handleCallback(callback);
+    }
+
     sort(field: string | [string, number][], directionOrCallback: number | ResultCallback<any>, callback?: ResultCallback<any>): QueryObject {
 
         if(!this.sortValue) {
@@ -366,6 +784,16 @@ class QueryObject implements QueryDefinition, FindQuery<Object>, FindOneQuery<Ob
             this.sortValue = this.sortValue.concat(field);
         }
 
+        if(this.kind == QueryKind.Aggregate) {
+            // each call to sort adds a stage to the pipeline
+            var sort: QueryDocument = {};
+            for(var i = 0; i < this.sortValue.length; i++) {
+                sort[this.sortValue[i][0]] = this.sortValue[i][1];
+            }
+            this.pipeline.push({ $sort: sort });
+            this.sortValue = undefined;
+        }
+
         if(typeof directionOrCallback === "number") {
             return this.handleCallback(callback);
         }
@@ -382,13 +810,74 @@ class QueryObject implements QueryDefinition, FindQuery<Object>, FindOneQuery<Ob
 
     limit(value: number, callback?: ResultCallback<any>): QueryObject {
 
-        this.limitCount = value;
+        if(this.kind == QueryKind.Aggregate) {
+            this.pipeline.push({ $limit: value });
+        }
+        else {
+            this.limitCount = value;
+        }
         return this.handleCallback(callback);
     }
 
     skip(value: number, callback?: ResultCallback<any>): QueryObject {
 
-        this.skipCount = value;
+        if(this.kind == QueryKind.Aggregate) {
+            this.pipeline.push({ $skip: value });
+        }
+        else {
+            this.skipCount = value;
+        }
+        return this.handleCallback(callback);
+    }
+
+    match(criteria: QueryDocument, callback?: ResultCallback<any>): QueryObject {
+
+        this.pipeline.push({ $match: criteria || {} });
+        return this.handleCallback(callback);
+    }
+
+    group(group: QueryDocument, callback?: ResultCallback<any>): QueryObject {
+
+        this.pipeline.push({ $group: group });
+        return this.handleCallback(callback);
+    }
+
+    project(projection: QueryDocument, callback?: ResultCallback<any>): QueryObject {
+
+        this.pipeline.push({ $project: projection });
+        return this.handleCallback(callback);
+    }
+
+    unwind(path: string, callback?: ResultCallback<any>): QueryObject {
+
+        this.pipeline.push({ $unwind: "$" + path });
+        return this.handleCallback(callback);
+    }
+
+    lookup(path: string, asOrCallback?: string | ResultCallback<any>, callback?: ResultCallback<any>): QueryObject {
+
+        var as: string;
+
+        if(typeof asOrCallback === "function") {
+            callback = asOrCallback;
+        }
+        else {
+            as = asOrCallback;
+        }
+
+        this.pipeline.push({ $lookup: { localField: path, as: as }});
+        return this.handleCallback(callback);
+    }
+
+    returnEntities(callback?: ResultCallback<any>): QueryObject {
+
+        this.wantsEntities = true;
+        return this.handleCallback(callback);
+    }
+
+    withDeleted(callback?: ResultCallback<any>): QueryObject {
+
+        this.wantsDeleted = true;
         return this.handleCallback(callback);
     }
 
@@ -397,6 +886,61 @@ class QueryObject implements QueryDefinition, FindQuery<Object>, FindOneQuery<Ob
         return this.handleCallback(callback);
     }
 
+    readPreference(mode: ReadPreferenceMode, callback?: ResultCallback<any>): QueryObject {
+        this.readPreferenceMode = mode;
+        return this.handleCallback(callback);
+    }
+
+    readConcern(level: ReadConcernLevel, callback?: ResultCallback<any>): QueryObject {
+        this.readConcernLevel = level;
+        return this.handleCallback(callback);
+    }
+
+    maxTime(milliseconds: number, callback?: ResultCallback<any>): QueryObject {
+        this.maxTimeMS = milliseconds;
+        return this.handleCallback(callback);
+    }
+
+    hint(index: string | QueryDocument, callback?: ResultCallback<any>): QueryObject {
+        this.hintValue = index;
+        return this.handleCallback(callback);
+    }
+
+    collation(collation: Collation, callback?: ResultCallback<any>): QueryObject {
+        this.collationValue = collation;
+        return this.handleCallback(callback);
+    }
+
+    comment(value: string, callback?: ResultCallback<any>): QueryObject {
+        this.commentValue = value;
+        return this.handleCallback(callback);
+    }
+
+    writeConcern(writeConcern: WriteConcern, callback?: ResultCallback<any>): QueryObject {
+        this.writeConcernValue = writeConcern;
+        return this.handleCallback(callback);
+    }
+
+    select(...paths: string[]): QueryObject {
+
+        if(this.excludePaths) {
+            throw new PersistenceError("Cannot combine select with exclude.");
+        }
+
+        this.selectPaths = (this.selectPaths || []).concat(paths);
+        return this;
+    }
+
+    exclude(...paths: string[]): QueryObject {
+
+        if(this.selectPaths) {
+            throw new PersistenceError("Cannot combine exclude with select.");
+        }
+
+        this.excludePaths = (this.excludePaths || []).concat(paths);
+        return this;
+    }
+
     each(iterator: IteratorCallback<Object>, callback: Callback): void {
 
         if(!iterator) {
@@ -531,6 +1075,13 @@ class QueryObject implements QueryDefinition, FindQuery<Object>, FindOneQuery<Ob
         });
     }
 
+    cursor(): QueryCursor<Object> {
+
+        this.kind = QueryKind.FindCursor;
+
+        return new QueryCursorImpl(this);
+    }
+
     /**
      * Creates an object for logging purposes.
      */
@@ -543,10 +1094,158 @@ class QueryObject implements QueryDefinition, FindQuery<Object>, FindOneQuery<Ob
             update: this.updateDocument,
             wantsUpdated: this.wantsUpdated,
             fetch: this.fetchPaths,
+            join: this.joinPaths,
+            select: this.selectPaths,
+            exclude: this.excludePaths,
             sort: this.sortValue,
             limit: this.limitCount,
             skip: this.skipCount,
-            batchSize: this.batchSizeValue
+            batchSize: this.batchSizeValue,
+            pipeline: this.pipeline,
+            wantsEntities: this.wantsEntities,
+            wantsDeleted: this.wantsDeleted,
+            readPreference: this.readPreferenceMode,
+            readConcern: this.readConcernLevel,
+            maxTime: this.maxTimeMS,
+            hint: this.hintValue,
+            collation: this.collationValue,
+            comment: this.commentValue,
+            writeConcern: this.writeConcernValue
+        };
+    }
+}
+
+/**
+ * @hidden
+ */
+class QueryCursorImpl implements QueryCursor<Object> {
+
+    private _query: QueryObject;
+    private _cursor: Cursor<Object>;
+    private _opening: ResultCallback<Cursor<Object>>[];
+    private _closed = false;
+
+    constructor(query: QueryObject) {
+
+        this._query = query;
+    }
+
+    next(callback?: ResultCallback<Object>): Promise<Object> {
+
+        if (!callback) {
+            return new Promise((resolve, reject) => {
+                this.next((err, result) => {
+                    if (err) {
+                        reject(err);
+                    }
+                    else {
+                        resolve(result);
+                    }
+                });
+            });
+        }
+
+        this._open((err, cursor) => {
+            if (err) return callback(err);
+
+            if (!cursor) {
+                // the cursor is closed
+                callback(null, null);
+                return;
+            }
+
+            cursor.next((err, entity) => {
+                if (err) {
+                    // the underlying cursor closes itself on error
+                    this._cursor = null;
+                    this._closed = true;
+                    return callback(err);
+                }
+
+                if (entity == null) {
+                    // end of cursor
+                    this.close(() => callback(null, null));
+                    return;
+                }
+
+                callback(null, entity);
+            });
+        });
+    }
+
+    close(callback?: Callback): Promise<void> {
+
+        if (!callback) {
+            return new Promise<void>((resolve, reject) => {
+                this.close((err) => {
+                    if (err) {
+                        reject(err);
+                    }
+                    else {
+                        resolve();
+                    }
+                });
+            });
+        }
+
+        this._closed = true;
+
+        var cursor = this._cursor;
+        if (cursor) {
+            this._cursor = null;
+            cursor.close(callback);
+        }
+        else {
+            // if the query is still executing, the cursor is closed when it is returned
+            process.nextTick(callback);
+        }
+    }
+
+    [Symbol.asyncIterator](): QueryCursorIterator<Object> {
+
+        return {
+            next: () => this.next().then((entity) => entity == null ? { done: true } : { done: false, value: entity }),
+            return: () => this.close().then(() => ({ done: true }))
         };
     }
+
+    /**
+     * Executes the query the first time it is called and passes the cursor to the callback. Passes null if the cursor
+     * has been closed.
+     */
+    private _open(callback: ResultCallback<Cursor<Object>>): void {
+
+        if (this._closed || this._cursor) {
+            process.nextTick(() => callback(null, this._cursor));
+            return;
+        }
+
+        if (this._opening) {
+            // the query is already executing
+            this._opening.push(callback);
+            return;
+        }
+
+        this._opening = [callback];
+
+        this._query.execute((err: Error, cursor: Cursor<Object>) => {
+
+            var callbacks = this._opening;
+            this._opening = null;
+
+            if (!err) {
+                if (this._closed) {
+                    // cursor was closed while the query was executing
+                    cursor.close();
+                }
+                else {
+                    this._cursor = cursor;
+                }
+            }
+
+            for (var i = 0, l = callbacks.length; i < l; i++) {
+                callbacks[i](err, this._cursor);
+            }
+        });
+    }
 }
@@ -1,8 +1,9 @@
 import {ResultCallback} from "../core/callback";
 import {IteratorCallback} from "../core/callback";
 import {QueryKind} from "./queryKind";
-import {QueryDocument} from "./queryBuilder";
+import {QueryDocument, ReadPreferenceMode, ReadConcernLevel, Collation} from "./queryBuilder";
 import {OrderDocument} from "./orderDocument";
+import {WriteConcern} from "../config/configuration";
 
 /**
  * @hidden
@@ -20,13 +21,26 @@ export interface QueryDefinition {
 
     wantsUpdated: boolean;
     fetchPaths: string[];
+    joinPaths: string[];
+    selectPaths: string[];
+    excludePaths: string[];
     sortValue: [string, number][];
     orderDocument?: OrderDocument[];
     limitCount: number;
     skipCount: number;
     iterator: IteratorCallback<Object>;
     batchSizeValue: number;
-    // TODO: add read preference. Use string or enumeration or static class with core values?
+    pipeline: QueryDocument[];
+    wantsEntities: boolean;
+    wantsDeleted: boolean;
+    readPreferenceMode: ReadPreferenceMode;
+    readConcernLevel: ReadConcernLevel;
+    maxTimeMS: number;
+    hintValue: string | QueryDocument;
+    collationValue: Collation;
+    commentValue: string;
+    readOptions?: ReadOptions;
+    writeConcernValue: WriteConcern;
 
     executeInternal(callback: ResultCallback<any>): void;
 
@@ -35,3 +49,17 @@ export interface QueryDefinition {
      */
     toObject(): Object;
 }
+
+/**
+ * The options passed to the driver for a query that reads from the database.
+ * @hidden
+ */
+export interface ReadOptions {
+
+    readPreference?: ReadPreferenceMode;
+    readConcern?: { level: ReadConcernLevel };
+    maxTimeMS?: number;
+    hint?: string | QueryDocument;
+    collation?: Collation;
+    comment?: string;
+}
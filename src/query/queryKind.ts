@@ -18,5 +18,6 @@ export enum QueryKind {
     UpdateOne,
     Upsert,
     Distinct,
-    Count
+    Count,
+    Aggregate
 }
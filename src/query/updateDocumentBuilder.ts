@@ -55,7 +55,8 @@ export class UpdateDocumentBuilder extends CriteriaBuilder {
 
                             var mapping = context.resolvedMapping,
                                 value = fields[field],
-                                preparedValue: any;
+                                preparedValue: any,
+                                dbRef = !!context.resolvedProperty && (context.resolvedProperty.flags & MappingModel.PropertyFlags.DbRef) != 0;
 
                             switch (operator) {
                                 case '$currentDate':
@@ -73,23 +74,23 @@ export class UpdateDocumentBuilder extends CriteriaBuilder {
                                     // fields with value and optional modifier
                                     if (!this._isArray(operator, mapping)) return null;
                                     if (this.isQueryExpression(value)) {
-                                        preparedValue = this._prepareQueryModifier(operator, value, (<ArrayMapping>mapping).elementMapping);
+                                        preparedValue = this._prepareQueryModifier(operator, value, (<ArrayMapping>mapping).elementMapping, dbRef);
                                         break;
                                     }
-                                    preparedValue = this.prepareQueryValue(operator, value, (<ArrayMapping>mapping).elementMapping);
+                                    preparedValue = this.prepareQueryValue(operator, value, (<ArrayMapping>mapping).elementMapping, dbRef);
                                     break;
                                 case '$max':
                                 case '$min':
                                 case '$setOnInsert':
                                 case '$set':
                                     // fields with value
-                                    preparedValue = this.prepareQueryValue(operator, value, mapping);
+                                    preparedValue = this.prepareQueryValue(operator, value, mapping, dbRef);
                                     break;
                                 case '$pullAll':
                                 case '$pushAll':
                                     // handle array of values
                                     if (!this._isArray(operator, mapping)) return null;
-                                    preparedValue = this.prepareArrayOfValues(operator, value, (<ArrayMapping>mapping).elementMapping);
+                                    preparedValue = this.prepareArrayOfValues(operator, value, (<ArrayMapping>mapping).elementMapping, dbRef);
                                     break;
                                 default:
                                     this.error = new PersistenceError("Unknown query operator '" + operator + "'.");
@@ -116,7 +117,7 @@ export class UpdateDocumentBuilder extends CriteriaBuilder {
         return true;
     }
 
-    private _prepareQueryModifier(operator: string, query: QueryDocument, mapping: InternalMapping): QueryDocument {
+    private _prepareQueryModifier(operator: string, query: QueryDocument, mapping: InternalMapping, dbRef: boolean): QueryDocument {
 
         if(!query) {
             this.error = new PersistenceError("Missing value for operator '" + operator + "'.");
@@ -137,7 +138,7 @@ export class UpdateDocumentBuilder extends CriteriaBuilder {
                 switch(key) {
                     case '$each':
                         // handle array of values
-                        preparedValue = this.prepareArrayOfValues(key, value, mapping);
+                        preparedValue = this.prepareArrayOfValues(key, value, mapping, dbRef);
                         break;
                     case '$position':
                     case '$slice':
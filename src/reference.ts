@@ -19,7 +19,7 @@ export class Reference {
     constructor(public mapping: EntityMapping, private _id: any) {
 
         if (_id != null) {
-            this.id = _id.toString();
+            this.id = mapping ? mapping.keyToString(_id) : _id.toString();
         }
     }
 
@@ -1,12 +1,13 @@
 import * as async from "async";
+import * as mongodb from "mongodb";
 import {EventEmitter} from "events";
 import {Callback} from "./core/callback";
-import {ChangeTrackingType} from "./mapping/mappingModel";
+import {ChangeTrackingType, LifecycleEvent} from "./mapping/mappingModel";
 import {Constructor} from "./index";
 import {MappingModel} from "./mapping/mappingModel";
 import {ResultCallback} from "./core/callback";
 import {InternalSessionFactory, SessionFactory} from "./sessionFactory";
-import {TaskQueue} from "./taskQueue";
+import {TaskQueue, TaskCallback} from "./taskQueue";
 import {Persister} from "./persister";
 import {Batch} from "./batch";
 import {Reference} from "./reference";
@@ -15,9 +16,10 @@ import {EntityMapping} from "./mapping/entityMapping";
 import {QueryBuilder, QueryBuilderImpl, FindOneQuery} from "./query/queryBuilder";
 import {QueryDefinition} from "./query/queryDefinition";
 import {Observer} from "./observer";
-import {PersistenceError} from "./persistenceError";
+import {PersistenceError, OptimisticLockError, EntityNotFoundError} from "./persistenceError";
 import {WriteContext} from "./mapping/writeContext";
 import {getDuration} from "./core/timerUtil";
+import {WriteConcern} from "./config/configuration";
 
 /**
  * The state of an object.
@@ -73,9 +75,10 @@ const enum Action {
     ModifyQuery = 0x00000200,
     Wait        = 0x00000400,
     Close       = 0x00000800,
+    Restore     = 0x00001000,
 
     ReadOnly = Fetch | FindQuery,
-    All = Save | Remove | Detach | Flush | Clear | Refresh | Merge | Fetch | FindQuery | ModifyQuery | Wait | Close
+    All = Save | Remove | Detach | Flush | Clear | Refresh | Merge | Fetch | FindQuery | ModifyQuery | Wait | Close | Restore
 }
 
 interface ObjectLinks {
@@ -92,6 +95,16 @@ interface ObjectLinks {
     observer?: Observer;
 }
 
+/**
+ * The scheduled operation and original document of an entity before a flush.
+ */
+interface ScheduledState {
+
+    links: ObjectLinks;
+    operation: ScheduledOperation;
+    originalDocument: any;
+}
+
 /**
  * Static ObjectLinks returned from getObjectLinks for detached objects. There is no need to create a new ObjectLinks
  * object for each detached object.
@@ -102,6 +115,26 @@ var cachedDetachedLinks: ObjectLinks = {
 };
 
 
+/**
+ * Options for [[Session.flush]].
+ */
+export interface FlushOptions {
+
+    /**
+     * The write concern for the writes in the flush. Overrides the write concern specified for the entities and in
+     * the [[Configuration]].
+     */
+    writeConcern?: WriteConcern;
+
+    /**
+     * If true, the writes in the flush are executed in a MongoDB transaction so either all of the changes are written
+     * or none are. If the transaction is aborted, the changes remain scheduled and the Session can still be used, for
+     * example to flush again. Requires a [[SessionFactory]] created with a MongoClient and a replica set or sharded
+     * cluster that supports transactions.
+     */
+    transactional?: boolean;
+}
+
 /**
  *  The primary interface used to interact with the database. The Session is a
  *  [Unit of Work](http://martinfowler.com/eaaCatalog/unitOfWork.html) that keeps track of changes until they are
@@ -121,7 +154,14 @@ export interface Session {
      * @param obj The entity to save.
      * @param callback Called after the entity has been added to the Session.
      */
-    save(obj: Object, callback?: Callback): void;
+    save(obj: Object, callback: Callback): void;
+
+    /**
+     * Saves an entity to the Session. Returns a Promise that is resolved after the entity has been added to the
+     * Session.
+     * @param obj The entity to save.
+     */
+    save(obj: Object): Promise<void>;
 
     /**
      * Removes an entity from the Session. The entity is not actually removed from the database util the Session is
@@ -129,14 +169,27 @@ export interface Session {
      * @param obj The entity to remove.
      * @param callback Called after the entity has been removed from the Session.
      */
-    remove(obj: Object, callback?: Callback): void;
+    remove(obj: Object, callback: Callback): void;
+
+    /**
+     * Removes an entity from the Session. Returns a Promise that is resolved after the entity has been removed from
+     * the Session.
+     * @param obj The entity to remove.
+     */
+    remove(obj: Object): Promise<void>;
 
     /**
      * Detaches an entity from the Session making it unmanaged. Any changes to the entity will not be persisted.
      * @param obj The entity to detach.
      * @param callback Called after the entity has been detached.
      */
-    detach(obj: Object, callback?: Callback): void;
+    detach(obj: Object, callback: Callback): void;
+
+    /**
+     * Detaches an entity from the Session. Returns a Promise that is resolved after the entity has been detached.
+     * @param obj The entity to detach.
+     */
+    detach(obj: Object): Promise<void>;
 
     /**
      * Refreshes an entity state from database. Any changes to the entity are discarded.
@@ -145,17 +198,92 @@ export interface Session {
      */
     refresh(obj: Object, callback: Callback): void;
 
+    /**
+     * Refreshes an entity state from database. Returns a Promise that is resolved after the entity has been
+     * refreshed.
+     * @param obj The entity to refresh.
+     */
+    refresh(obj: Object): Promise<void>;
+
+    /**
+     * Restores an entity that was soft deleted by clearing the field that marks the document for the entity as
+     * deleted. The entity can be managed or detached. See [[SoftDelete]].
+     * @param obj The entity to restore.
+     * @param callback Called after the entity has been restored.
+     */
+    restore(obj: Object, callback: Callback): void;
+
+    /**
+     * Restores an entity that was soft deleted. Returns a Promise that is resolved after the entity has been restored.
+     * @param obj The entity to restore.
+     */
+    restore(obj: Object): Promise<void>;
+
+    /**
+     * Merges the state of a detached entity into the Session. If an entity with the same identifier is managed by the
+     * Session or exists in the database, the state of the detached entity is copied onto the managed entity, which is
+     * then flagged for dirty check. If the entity is new then it is saved to the Session. The detached entity itself
+     * does not become managed. If the entity maps a property to the version field and the version does not match the
+     * version of the managed entity, an [[OptimisticLockError]] is returned.
+     * @param obj The entity to merge.
+     * @param callback Called with the managed entity.
+     */
+    merge<T>(obj: T, callback: ResultCallback<T>): void;
+
+    /**
+     * Merges the state of a detached entity into the Session. Returns a Promise for the managed entity.
+     * @param obj The entity to merge.
+     */
+    merge<T>(obj: T): Promise<T>;
+
     /**
      * Synchronizes the Session with the database, writing any changes.
      * @param callback Called after the changes have been written to the database.
      */
-    flush(callback?: Callback): void;
+    flush(callback: Callback): void;
+
+    /**
+     * Synchronizes the Session with the database, writing any changes.
+     * @param options The options for the flush.
+     * @param callback Called after the changes have been written to the database.
+     */
+    flush(options: FlushOptions, callback: Callback): void;
+
+    /**
+     * Synchronizes the Session with the database, writing any changes. Returns a Promise that is resolved after the
+     * changes have been written to the database.
+     * @param options Optional. The options for the flush.
+     */
+    flush(options?: FlushOptions): Promise<void>;
+
+    /**
+     * Calls a function to make changes to entities in the Session and then flushes the changes in a MongoDB
+     * transaction. Only the writes are part of the transaction; entities loaded in the function are read outside
+     * of it, so use versioned entities to detect documents that are changed by others. If the function passes an
+     * error to its callback, nothing is flushed.
+     * @param work The function that makes the changes. Call the callback passed to the function when done.
+     * @param callback Called after the transaction has been committed.
+     */
+    transaction(work: (callback: Callback) => void, callback: Callback): void;
+
+    /**
+     * Calls a function to make changes to entities in the Session and then flushes the changes in a MongoDB
+     * transaction. Returns a Promise that is resolved after the transaction has been committed.
+     * @param work The function that makes the changes. Call the callback passed to the function when done.
+     */
+    transaction(work: (callback: Callback) => void): Promise<void>;
 
     /**
      * Clears the Session, detaching all managed entities.
      * @param callback Called after the Session has been cleared.
      */
-    clear(callback?: Callback): void;
+    clear(callback: Callback): void;
+
+    /**
+     * Clears the Session, detaching all managed entities. Returns a Promise that is resolved after the Session has
+     * been cleared.
+     */
+    clear(): Promise<void>;
 
     /**
      * Finds an entity by identifier.
@@ -174,6 +302,13 @@ export interface Session {
      */
     exists<T>(ctr: Constructor<T>, id: any, callback: ResultCallback<boolean>): void;
 
+    /**
+     * Check by identifier if an entity exists. Returns a Promise for a boolean indicating if the entity exists.
+     * @param ctr The constructor for the entity to find.
+     * @param id The identifier for the entity.
+     */
+    exists<T>(ctr: Constructor<T>, id: any): Promise<boolean>;
+
     /**
      * Gets a reference to an entity without making a request to the database.
      * @param ctr The constructor for the entity.
@@ -186,7 +321,13 @@ export interface Session {
      * @param obj The entity reference to fetch.
      * @param callback Called with the fetched entity.
      */
-    fetch<T>(obj: T, callback?: ResultCallback<T>): void;
+    fetch<T>(obj: T, callback: ResultCallback<T>): void;
+
+    /**
+     * Fetches an entity reference from the database. Returns a Promise for the fetched entity.
+     * @param obj The entity reference to fetch.
+     */
+    fetch<T>(obj: T): Promise<T>;
 
     /**
      * Fetches entity references at the specified path(s) on the given entity.
@@ -195,7 +336,16 @@ export interface Session {
      * [dot notation](https://docs.mongodb.org/manual/core/document/#dot-notation) that MongoDB uses for queries.
      * @param callback Called after any entity references have been fetched.
      */
-    fetch<T>(obj: T, path: string | string[], callback?: ResultCallback<T>): void;
+    fetch<T>(obj: T, path: string | string[], callback: ResultCallback<T>): void;
+
+    /**
+     * Fetches entity references at the specified path(s) on the given entity. Returns a Promise for the entity that
+     * is resolved after any entity references have been fetched.
+     * @param obj The entity
+     * @param path The path(s) to check. Uses the same
+     * [dot notation](https://docs.mongodb.org/manual/core/document/#dot-notation) that MongoDB uses for queries.
+     */
+    fetch<T>(obj: T, path: string | string[]): Promise<T>;
 
     query<T>(ctr: Constructor<T>): QueryBuilder<T>;
 
@@ -203,14 +353,26 @@ export interface Session {
      * Waits for pending operations on the Session to complete.
      * @param callback Called after all pending operations on the Session have completed.
      */
-    wait(callback?: Callback): void;
+    wait(callback: Callback): void;
+
+    /**
+     * Waits for pending operations on the Session to complete. Returns a Promise that is resolved after all pending
+     * operations on the Session have completed.
+     */
+    wait(): Promise<void>;
 
     /**
      * Flushes any changes to the database and closes the Session. Calling operations on a closed Session will result
      * in an error.
      * @param callback Called after the Session has been closed.
      */
-    close(callback?: Callback): void;
+    close(callback: Callback): void;
+
+    /**
+     * Flushes any changes to the database and closes the Session. Returns a Promise that is resolved after the
+     * Session has been closed.
+     */
+    close(): Promise<void>;
 
     /**
      * Checks if an entity is contained in the Session.
@@ -234,6 +396,29 @@ export interface Session {
      */
     getVersion(obj: Object): number;
 
+    /**
+     * Enables a filter for all queries executed by the Session. Filters are defined on entities using the [[Filter]]
+     * decorator. While the filter is enabled, the criteria of the filter is combined with the criteria of every query for
+     * the entities that define the filter. If the filter is already enabled, the values of the parameters are replaced.
+     * @param name The name of the filter.
+     * @param parameters Values for the parameters in the criteria of the filter.
+     */
+    enableFilter(name: string, parameters?: Object): void;
+
+    /**
+     * Disables a filter that was enabled for the Session.
+     * @param name The name of the filter.
+     */
+    disableFilter(name: string): void;
+
+    /**
+     * Adds a listener that is called when a flush fails because versioned entities were changed or removed in the
+     * database after they were loaded. The error is also passed to the callback of the operation that failed.
+     * @param event The event to listen for.
+     * @param listener Called with the error.
+     */
+    on(event: "optimisticLock", listener: (err: OptimisticLockError) => void): EventEmitter;
+
     /**
      * Adds an event listener.
      * @param event The event to listen for.
@@ -250,10 +435,11 @@ export interface InternalSession extends Session {
     factory: InternalSessionFactory;
 
     getObject(id: any): any;
-    registerManaged(persister: Persister, entity: Object, document: any): void;
+    registerManaged(persister: Persister, entity: Object, document: any, readOnly?: boolean): any;
     notifyRemoved(entity: Object): void;
     getPersister(mapping: EntityMapping): Persister;
     getReferenceInternal(mapping: EntityMapping, id: any): any;
+    getFilterParameters(name: string): Object;
     fetchInternal(entity: Object, paths: string[], callback: ResultCallback<any>): void;
     executeQuery(query: QueryDefinition, callback: ResultCallback<any>): void;
 }
@@ -298,6 +484,11 @@ export class SessionImpl extends EventEmitter implements InternalSession {
 
     private _traceEnabled: boolean;
 
+    /**
+     * Values of the parameters for the filters that are enabled, by filter name.
+     */
+    private _filters: Map<string, Object> = new Map();
+
     constructor(public factory: InternalSessionFactory) {
         super();
 
@@ -305,39 +496,55 @@ export class SessionImpl extends EventEmitter implements InternalSession {
         this._traceEnabled = this.factory.logger != null;
     }
 
-    save(obj: any, callback?: Callback): void {
+    save(obj: any, callback?: Callback): Promise<void> {
         if (typeof obj !== "object") {
             throw new Error("'obj' argument should be an object.");
         }
 
-        this._queue.add(Action.Save, Action.All & ~(Action.Save | Action.ReadOnly), obj, callback);
+        return this._addTask(Action.Save, Action.All & ~(Action.Save | Action.ReadOnly), obj, callback);
     }
 
-    remove(obj: any, callback?: Callback): void {
+    remove(obj: any, callback?: Callback): Promise<void> {
         if (typeof obj !== "object") {
             throw new Error("'obj' argument should be an object.");
         }
 
-        this._queue.add(Action.Remove, Action.All & ~Action.Remove, obj, callback);
+        return this._addTask(Action.Remove, Action.All & ~Action.Remove, obj, callback);
     }
 
-    refresh(obj: any, callback?: Callback): void {
+    refresh(obj: any, callback?: Callback): Promise<void> {
         if (typeof obj !== "object") {
             throw new Error("'obj' argument should be an object.");
         }
 
-        this._queue.add(Action.Refresh, Action.All & ~Action.Refresh, obj, callback);
+        return this._addTask(Action.Refresh, Action.All & ~Action.Refresh, obj, callback);
     }
 
-    detach(obj: any, callback?: Callback): void {
+    restore(obj: any, callback?: Callback): Promise<void> {
         if (typeof obj !== "object") {
             throw new Error("'obj' argument should be an object.");
         }
 
-        this._queue.add(Action.Detach, Action.All & ~Action.Detach, obj, callback);
+        return this._addTask(Action.Restore, Action.All, obj, callback);
     }
 
-    clear(callback?: Callback): void {
+    merge(obj: any, callback?: ResultCallback<any>): Promise<any> {
+        if (typeof obj !== "object") {
+            throw new Error("'obj' argument should be an object.");
+        }
+
+        return this._addTask(Action.Merge, Action.All & ~(Action.Merge | Action.ReadOnly), obj, callback);
+    }
+
+    detach(obj: any, callback?: Callback): Promise<void> {
+        if (typeof obj !== "object") {
+            throw new Error("'obj' argument should be an object.");
+        }
+
+        return this._addTask(Action.Detach, Action.All & ~Action.Detach, obj, callback);
+    }
+
+    clear(callback?: Callback): Promise<void> {
 
         // check to see if the task queue is invalid. if it is, create a new one. the session becomes invalid when an error occurs since
         // the session may be in an inconsistent state with the database. however, clearing the session means that it has no state so it
@@ -345,17 +552,47 @@ export class SessionImpl extends EventEmitter implements InternalSession {
         if (this._queue.invalid) {
             this._createTaskQueue();
         }
-        this._queue.add(Action.Clear, Action.All, undefined, callback);
+        return this._addTask(Action.Clear, Action.All, undefined, callback);
     }
 
-    flush(callback?: Callback): void {
+    flush(optionsOrCallback?: any, callback?: Callback): Promise<void> {
+
+        var options: FlushOptions;
+
+        if (typeof optionsOrCallback === "function") {
+            callback = optionsOrCallback;
+        }
+        else {
+            options = optionsOrCallback;
+        }
+
+        return this._addTask(Action.Flush, Action.All, options, callback);
+    }
+
+    transaction(work: (callback: Callback) => void, callback?: Callback): Promise<void> {
+
+        if (!callback) {
+            return new Promise<void>((resolve, reject) => {
+                this.transaction(work, (err) => {
+                    if (err) {
+                        reject(err);
+                    }
+                    else {
+                        resolve();
+                    }
+                });
+            });
+        }
 
-        this._queue.add(Action.Flush, Action.All, undefined, callback);
+        work((err) => {
+            if (err) return callback(err);
+            this.flush({ transactional: true }, callback);
+        });
     }
 
-    wait(callback?: Callback): void {
+    wait(callback?: Callback): Promise<void> {
 
-        this._queue.add(Action.Wait, Action.All, undefined, callback);
+        return this._addTask(Action.Wait, Action.All, undefined, callback);
     }
 
     find<T>(ctr: Constructor<T>, id: any, callback?: ResultCallback<T>): FindOneQuery<T> {
@@ -363,10 +600,24 @@ export class SessionImpl extends EventEmitter implements InternalSession {
         return this.query(ctr).findOneById(id, callback);
     }
 
-    exists<T>(ctr: Constructor<T>, id: any, callback: ResultCallback<boolean>): void {
+    exists<T>(ctr: Constructor<T>, id: any, callback?: ResultCallback<boolean>): Promise<boolean> {
+
+        if (!callback) {
+            return new Promise<boolean>((resolve, reject) => {
+                this.exists(ctr, id, (err, result) => {
+                    if (err) {
+                        reject(err);
+                    }
+                    else {
+                        resolve(result);
+                    }
+                });
+            });
+        }
 
         // check the identity map for the identifier
-        var obj = this.getObject(id);
+        var mapping = this.factory.getMappingForConstructor(ctr),
+            obj = this.getObject(mapping ? mapping.keyToString(id) : id);
 
         // if we get an object back then entity is managed
         if (obj) {
@@ -388,7 +639,7 @@ export class SessionImpl extends EventEmitter implements InternalSession {
         });
     }
 
-    fetch<T>(obj: T, pathsOrCallback: any, callback?: ResultCallback<T>): void {
+    fetch<T>(obj: T, pathsOrCallback?: any, callback?: ResultCallback<T>): Promise<T> {
 
         var paths: string[];
 
@@ -402,12 +653,25 @@ export class SessionImpl extends EventEmitter implements InternalSession {
             paths = pathsOrCallback;
         }
 
-        this._queue.add(Action.Fetch, Action.All & ~Action.ReadOnly, [obj, paths], callback);
+        return this._addTask(Action.Fetch, Action.All & ~Action.ReadOnly, [obj, paths], callback);
+    }
+
+    close(callback?: Callback): Promise<void> {
+
+        return this._addTask(Action.Close, Action.All, undefined, callback);
     }
 
-    close(callback?: Callback): void {
+    /**
+     * Adds an action to the task queue. If a callback is not provided, returns a Promise for the result of the action.
+     */
+    private _addTask(action: Action, wait: number, arg: any, callback: ResultCallback<any>): Promise<any> {
 
-        this._queue.add(Action.Close, Action.All, undefined, callback);
+        if (callback) {
+            this._queue.add(action, wait, arg, callback);
+            return;
+        }
+
+        return this._queue.addPromise(action, wait, arg);
     }
 
     executeQuery(query: QueryDefinition, callback: ResultCallback<any>): void {
@@ -528,16 +792,45 @@ export class SessionImpl extends EventEmitter implements InternalSession {
         return mapping.getDocumentVersion(links.originalDocument);
     }
 
+    enableFilter(name: string, parameters?: Object): void {
+
+        if (typeof name !== "string") {
+            throw new Error("'name' argument should be a string.");
+        }
+
+        if (!this.factory.hasFilter(name)) {
+            throw new PersistenceError("Unknown filter '" + name + "'.");
+        }
+
+        this._filters.set(name, parameters || {});
+    }
+
+    disableFilter(name: string): void {
+
+        this._filters.delete(name);
+    }
+
+    /**
+     * Gets the values of the parameters for a filter. Returns undefined if the filter is not enabled.
+     * @param name The name of the filter.
+     */
+    getFilterParameters(name: string): Object {
+
+        return this._filters.get(name);
+    }
+
     getReferenceInternal(mapping: EntityMapping, id: any): any {
 
         // TODO: should we cache references so all references with the same id share the same object?
-        return this.getObject(id) || new Reference(mapping, id);
+        return this.getObject(mapping ? mapping.keyToString(id) : id) || new Reference(mapping, id);
     }
 
     /**
      * Gets a managed object by the specified id. If the object is found but scheduled for delete then null is
-     * returned. If the object is not found then undefined is returned; otherwise, the object is returned.
-     * @param id The object identifier.
+     * returned. If the object is not found or only some of its fields were loaded then undefined is returned;
+     * otherwise, the object is returned.
+     * @param id The object identifier. Identifiers such as composite keys and UUIDs must be given as the
+     * string returned by [[EntityMapping.keyToString]].
      */
     getObject(id: any): any {
 
@@ -548,6 +841,10 @@ export class SessionImpl extends EventEmitter implements InternalSession {
                     case ObjectState.Removed:
                         return null;
                     case ObjectState.Managed:
+                        // an entity that was partially loaded is replaced when the entity is loaded again
+                        if (links.flags & ObjectFlags.ReadOnly) {
+                            return undefined;
+                        }
                         return links.object
                 }
             }
@@ -556,27 +853,81 @@ export class SessionImpl extends EventEmitter implements InternalSession {
         // otherwise, return undefined
     }
 
-    registerManaged(persister: Persister, entity: any, document: any): void {
+    /**
+     * Registers an entity loaded from the database as managed. Returns the entity that should be used in place of
+     * the entity passed in, which is different if the entity is watched for changes.
+     * @param persister The persister for the entity.
+     * @param entity The entity.
+     * @param document The document the entity was loaded from.
+     * @param readOnly True if the entity is never checked for changes, such as when only some of the fields of the
+     * entity were loaded.
+     */
+    registerManaged(persister: Persister, entity: any, document: any, readOnly?: boolean): any {
+
+        // replace an entity that was partially loaded so the session does not return the partial entity in place of
+        // the entity that was just loaded
+        var existing = this._objectLinksById.get(entity["id"]);
+        if (existing && (existing.flags & ObjectFlags.ReadOnly) && existing.state == ObjectState.Managed) {
+            this._unlinkObject(existing);
+        }
+
+        if (readOnly) {
+            var links = this._linkObject(entity, persister);
+            links.originalDocument = document;
+            links.flags |= ObjectFlags.ReadOnly;
+            return entity;
+        }
+
+        // entities loaded from the database are replaced by a proxy if they are observed for changes
+        if (persister.changeTracking == ChangeTrackingType.Observe) {
+            var observer = new Observer();
+            entity = persister.watch(entity, observer);
+        }
 
         // save the original document for dirty checking
         var links = this._linkObject(entity, persister);
         links.originalDocument = document;
+        links.observer = observer;
         this._trackChanges(links);
+
+        return entity;
     }
 
     private _trackChanges(links: ObjectLinks): void {
 
+        if (links.flags & ObjectFlags.ReadOnly) {
+            return;
+        }
+
         if ((links.flags & ObjectFlags.Dirty) || links.persister.changeTracking == ChangeTrackingType.DeferredImplicit) {
             this._makeDirty(links);
             return;
         }
+
+        if (links.persister.changeTracking == ChangeTrackingType.Observe) {
+            if (!links.observer) {
+                // the entity was not loaded from the database so there is no proxy to watch. dirty check instead.
+                this._makeDirty(links);
+                return;
+            }
+
+            // watch any values that were assigned to the entity since it was last watched
+            this._stopWatching(links);
+            links.persister.watch(links.object, links.observer);
+
+            links.flags |= ObjectFlags.Observing;
+            links.observer.observe(() => {
+                links.flags &= ~ObjectFlags.Observing;
+                this._makeDirty(links);
+            });
+        }
     }
 
     private _stopWatching(links: ObjectLinks): void {
 
         if(links.observer) {
-            links.observer.destroy();
-            links.observer = undefined;
+            links.observer.unobserve();
+            links.flags &= ~ObjectFlags.Observing;
         }
     }
 
@@ -597,7 +948,7 @@ export class SessionImpl extends EventEmitter implements InternalSession {
      * @param arg Contains arguments for the action.
      * @param callback Called when method completes.
      */
-    private _execute(action: Action, arg: any, callback: ResultCallback<any>): void {
+    private _execute(action: Action, arg: any, callback: TaskCallback): void {
 
         switch(action) {
             case Action.Save:
@@ -612,11 +963,17 @@ export class SessionImpl extends EventEmitter implements InternalSession {
             case Action.Refresh:
                 this._refresh(arg, callback);
                 break;
+            case Action.Restore:
+                this._restore(arg, callback);
+                break;
+            case Action.Merge:
+                this._merge(arg, callback);
+                break;
             case Action.Clear:
                 this._clear(callback);
                 break;
             case Action.Flush:
-                this._flush(callback);
+                this._flush(arg, callback);
                 break;
             case Action.Wait:
                 if(callback) callback(null);
@@ -648,62 +1005,150 @@ export class SessionImpl extends EventEmitter implements InternalSession {
 
     private _saveEntities(entities: any[], callback: Callback): void {
 
-        // Note that if you decide to make this async so you can make identity.genereate async, then you need to make
-        // sure to check for the object links a second time before create a new links object incase save is called twice
+        var index = 0;
 
-        for(var i = 0, l = entities.length; i < l; i++) {
-            var obj = entities[i];
-            var links = this._getObjectLinks(obj);
-            if (!links) {
-                var mapping = this.factory.getMappingForObject(obj);
-                if (!mapping) {
-                    callback(new PersistenceError("Object type is not mapped as an entity."));
+        // entities are saved in a loop until an identifier is generated asynchronously, at which point the loop
+        // continues when the entity has been saved.
+        var next = (): void => {
+
+            while (index < entities.length) {
+
+                var completed = false,
+                    waiting = false;
+
+                this._saveEntity(entities[index++], (err) => {
+                    if (err) return callback(err);
+
+                    completed = true;
+                    if (waiting) {
+                        next();
+                    }
+                });
+
+                if (!completed) {
+                    // either the entity is saved asynchronously or an error was returned
+                    waiting = true;
                     return;
                 }
+            }
+
+            callback();
+        };
+
+        next();
+    }
+
+    private _saveEntity(obj: any, callback: Callback): void {
+
+        var links = this._getObjectLinks(obj);
+        if (!links) {
+            var mapping = this.factory.getMappingForObject(obj);
+            if (!mapping) {
+                callback(new PersistenceError("Object type is not mapped as an entity."));
+                return;
+            }
 
-                var persister = this.getPersister(mapping);
+            var err = mapping.invokeLifecycleCallbacks(LifecycleEvent.PrePersist, obj);
+            if (err) {
+                callback(err);
+                return;
+            }
+
+            var persister = this.getPersister(mapping);
 
-                // we haven't seen this object before
-                var id = obj["_id"] = persister.identity.generate();
-                obj["id"] = id.toString();
+            // we haven't seen this object before
+            this._generateIdentity(obj, mapping, persister, (err, id) => {
+                if (err) return callback(err);
+
+                // check for the object links a second time in case save was called on the object while the
+                // identifier was generated
+                if (this._getObjectLinks(obj)) {
+                    return callback();
+                }
+
+                obj["_id"] = id;
+                obj["id"] = mapping.keyToString(id);
 
                 links = this._linkObject(obj, persister);
                 this._scheduleOperation(links, ScheduledOperation.Insert);
-            }
-            else {
-                switch (links.state) {
-                    case ObjectState.Managed:
-                        if (links.persister.changeTracking == ChangeTrackingType.DeferredExplicit) {
-                            this._makeDirty(links);
-                        }
-                        break;
-                    case ObjectState.Detached:
-                        callback(new PersistenceError("Cannot save a detached object."));
-                        return;
-                    case ObjectState.Removed:
-                        if (links.scheduledOperation == ScheduledOperation.Delete) {
-                            // if object is schedule for delete then cancel the pending delete operation.
-                            this._clearScheduledOperation(links);
-                            this._trackChanges(links);
-                        }
-                        else {
-                            // otherwise, this means the entity has already been removed from the database so queue
-                            // object for insert operation.
-                            this._scheduleOperation(links, ScheduledOperation.Insert);
-                        }
+                callback();
+            });
+            return;
+        }
 
-                        links.state = ObjectState.Managed;
-                        break;
+        switch (links.state) {
+            case ObjectState.Managed:
+                if (links.persister.changeTracking == ChangeTrackingType.DeferredExplicit) {
+                    this._makeDirty(links);
                 }
+                break;
+            case ObjectState.Detached:
+                callback(new PersistenceError("Cannot save a detached object."));
+                return;
+            case ObjectState.Removed:
+                if (links.scheduledOperation == ScheduledOperation.Delete) {
+                    // if object is schedule for delete then cancel the pending delete operation.
+                    this._clearScheduledOperation(links);
+                    this._trackChanges(links);
+                }
+                else {
+                    // otherwise, this means the entity has already been removed from the database so queue
+                    // object for insert operation.
+                    this._scheduleOperation(links, ScheduledOperation.Insert);
+                }
+
+                links.state = ObjectState.Managed;
+                break;
+        }
+
+        callback();
+    }
+
+    /**
+     * Gets the identifier for a new entity. If the entity has a natural key, the value of the identity property is
+     * used. Otherwise, the identifier is generated by the identity generator for the entity.
+     */
+    private _generateIdentity(obj: any, mapping: EntityMapping, persister: Persister, callback: ResultCallback<any>): void {
+
+        var inheritanceRoot = <EntityMapping>mapping.inheritanceRoot,
+            identity = persister.identity;
+
+        var identityProperty = inheritanceRoot.identityProperty;
+        if (identityProperty) {
+            var id = identityProperty.getPropertyValue(obj);
+
+            // a composite key is an embeddable so the identifier is the document written for the key
+            if (id != null && (identityProperty.mapping.flags & MappingModel.MappingFlags.Embeddable)) {
+                var context = new WriteContext(identityProperty.name);
+                id = identityProperty.mapping.write(context, id);
+                if (context.hasErrors) {
+                    callback(new PersistenceError("Error serializing identifier in property '" + identityProperty.name + "':\n" + context.getErrorMessage()));
+                    return;
+                }
+            }
+
+            if (!identity.validate(id)) {
+                callback(new PersistenceError("Missing or invalid identifier in property '" + identityProperty.name + "'."));
+                return;
             }
+            callback(null, id);
+            return;
         }
 
+        if (identity.generateAsync) {
+            identity.generateAsync({ connection: this.factory.connection, collectionName: inheritanceRoot.collectionName }, callback);
+            return;
+        }
 
-        callback();
+        callback(null, identity.generate());
     }
 
     private _makeDirty(links: ObjectLinks): void {
-        
+
+        if (links.flags & ObjectFlags.ReadOnly) {
+            return;
+        }
+
         // still flag the object as dirty even if we aren't going to schedule a dirty check because
         // the current operation could be canceled (e.g. save called after remove before flush),
         // and we'll want to queue the object for dirty check at that point.
@@ -839,7 +1284,7 @@ export class SessionImpl extends EventEmitter implements InternalSession {
                 return done(new PersistenceError("Object is not managed."));
             }
 
-            // Refreshing an entity should not cause it to become dirty, so if we have an observer, destroy it before
+            // Refreshing an entity should not cause it to become dirty, so if we have an observer, stop observing before
             // refreshing the object.
             this._stopWatching(links);
 
@@ -847,6 +1292,9 @@ export class SessionImpl extends EventEmitter implements InternalSession {
                 if(err) return done(err);
                 links.originalDocument = document;
 
+                // all fields are loaded by refresh so the object is no longer read-only
+                links.flags &= ~ObjectFlags.ReadOnly;
+
                 // clear dirty because object may have been dirty before refresh
                 this._clearDirty(links);
                 this._trackChanges(links);
@@ -855,36 +1303,298 @@ export class SessionImpl extends EventEmitter implements InternalSession {
         }, callback);
     }
 
-    private _flush(callback: Callback): void {
+    private _restore(obj: any, callback: Callback): void {
 
-        // Call setImmediate to ensure that all Object.observe callbacks are handled before a flush
-        setImmediate(() => {
-            var head = this._scheduleHead;
+        if(Reference.isReference(obj)) {
+            return callback(new PersistenceError("Reference passed to restore"));
+        }
 
-            // clear list of scheduled objects
-            this._scheduleHead = this._scheduleTail = null;
+        var mapping = this.factory.getMappingForObject(obj);
+        if (!mapping) {
+            return callback(new PersistenceError("Object type is not mapped as an entity."));
+        }
 
-            if (this._traceEnabled) {
-                var start = process.hrtime();
+        var field = (<EntityMapping>mapping.inheritanceRoot).softDeleteField;
+        if (!field) {
+            return callback(new PersistenceError("Soft delete is not enabled for entity '" + mapping.name + "'."));
+        }
+
+        if (obj["_id"] == null) {
+            return callback(new PersistenceError("Object is missing identifier."));
+        }
+
+        var links = this._getObjectLinks(obj);
+        if (links && links.state == ObjectState.Removed) {
+            return callback(new PersistenceError("Cannot restore an entity that is pending removal."));
+        }
+
+        this.getPersister(mapping).restore(obj, (err) => {
+            if (err) return callback(err);
+
+            // the marker is kept by the dirty check if it is in the original document
+            if (links && links.state == ObjectState.Managed && links.originalDocument) {
+                delete links.originalDocument[field];
+
+                // the version was incremented by the update so the next flush must expect the new version
+                if ((<EntityMapping>mapping.inheritanceRoot).versioned) {
+                    mapping.setDocumentVersion(links.originalDocument, (mapping.getDocumentVersion(links.originalDocument) || 0) + 1);
+                }
             }
+            callback();
+        });
+    }
+
+    private _merge(obj: any, callback: ResultCallback<any>): void {
+
+        if(Reference.isReference(obj)) {
+            return callback(new PersistenceError("Reference passed to merge"));
+        }
+
+        this._findReferencedEntities(obj, MappingModel.PropertyFlags.CascadeMerge, (err, entities) => {
+            if(err) return callback(err);
+            this._mergeEntities(entities, callback);
+        });
+    }
+
+    private _mergeEntities(entities: any[], callback: ResultCallback<any>): void {
+
+        var merged: any;
+
+        // merge in reverse order so entities reached through cascade are managed before the entities that reference
+        // them are merged. the last entity merged is the entity that was passed to merge.
+        async.eachSeries(entities.slice().reverse(), (entity: any, done: (err?: Error) => void) => {
+            this._mergeEntity(entity, (err, result) => {
+                if (err) return done(err);
+                merged = result;
+                done();
+            });
+        }, (err) => {
+            if (err) return callback(err);
+            callback(null, merged);
+        });
+    }
+
+    private _mergeEntity(obj: any, callback: ResultCallback<any>): void {
 
-            var batch = new Batch();
-            this._buildBatch(batch, head, (err) => {
+        var links = this._getObjectLinks(obj);
+        if (!links) {
+            // the entity is new so save it
+            this._saveEntities([obj], (err) => {
                 if (err) return callback(err);
+                callback(null, obj);
+            });
+            return;
+        }
 
-                batch.execute((err) => {
-                    if (err) return callback(err);
+        switch (links.state) {
+            case ObjectState.Managed:
+                // nothing to do since the entity is already managed
+                return callback(null, obj);
+            case ObjectState.Removed:
+                return callback(new PersistenceError("Cannot merge a removed entity."));
+        }
 
-                    if (start) {
-                        var duration = getDuration(start);
-                    }
+        var mapping = this.factory.getMappingForObject(obj);
+        if (!mapping) {
+            return callback(new PersistenceError("Object type is not mapped as an entity."));
+        }
+
+        this.getPersister(mapping).merge(obj, (err, entity) => {
+            if (err) return callback(err);
+
+            var links = this._getObjectLinks(entity);
+            if (links.persister.changeTracking == ChangeTrackingType.DeferredExplicit) {
+                this._makeDirty(links);
+            }
+            callback(null, entity);
+        });
+    }
+
+    private _flush(options: FlushOptions, callback: TaskCallback): void {
+
+        // Call setImmediate to ensure that any changes made in the current tick are handled before a flush
+        setImmediate(() => {
+            this._removeOrphans((err) => {
+                if (err) return callback(err);
+                this._flushScheduled(options, callback);
+            });
+        });
+    }
 
-                    this._batchCompleted(head, duration, callback);
+    private _flushScheduled(options: FlushOptions, callback: TaskCallback): void {
+
+        if (options && options.transactional) {
+            return this._flushTransaction(options, callback);
+        }
+
+        var head = this._scheduleHead;
+
+        // clear list of scheduled objects
+        this._scheduleHead = this._scheduleTail = null;
+
+        this._writeBatch(new Batch(options && options.writeConcern), head, (err, duration) => {
+            if (err) return callback(err);
+            this._batchCompleted(head, duration, callback);
+        });
+    }
+
+    /**
+     * Writes the scheduled operations in a MongoDB transaction. If the transaction is aborted, the scheduled
+     * operations are restored so the Session is still valid.
+     * @param options The options for the flush.
+     * @param callback Called after the transaction has been committed or aborted.
+     */
+    private _flushTransaction(options: FlushOptions, callback: TaskCallback): void {
+
+        var client = this.factory.client;
+        if (!client) {
+            return callback(new PersistenceError("Transactions require a session factory created with a MongoClient."), undefined, true);
+        }
+
+        var head = this._scheduleHead,
+            scheduled = getScheduledState(head);
+
+        // clear list of scheduled objects
+        this._scheduleHead = this._scheduleTail = null;
+
+        // the transaction must be started before the batch is built so the writes are sent in the transaction. the
+        // write concern for the flush is the write concern of the transaction.
+        var clientSession = client.startSession();
+        clientSession.startTransaction(options.writeConcern ? { writeConcern: options.writeConcern } : undefined);
+
+        this._writeBatch(new Batch(undefined, clientSession), head, (err, duration) => {
+            if (err) {
+                // an error from aborting the transaction is ignored because the server aborts transactions that
+                // are not committed
+                clientSession.abortTransaction(() => {
+                    clientSession.endSession();
+                    this._restoreScheduledState(scheduled);
+                    callback(err, undefined, true);
                 });
+                return;
+            }
+
+            clientSession.commitTransaction((err) => {
+                clientSession.endSession();
+
+                if (err) {
+                    // if it's not known if the transaction was committed then the Session cannot be restored
+                    if (err instanceof mongodb.MongoError && err.hasErrorLabel("UnknownTransactionCommitResult")) {
+                        return callback(err);
+                    }
+                    this._restoreScheduledState(scheduled);
+                    return callback(err, undefined, true);
+                }
+
+                this._batchCompleted(head, duration, callback);
+            });
+        });
+    }
+
+    /**
+     * Builds and executes a batch for the scheduled operations.
+     * @param batch The batch.
+     * @param head The head of the scheduled operation list.
+     * @param callback Called with the duration of the flush operation, for trace logging.
+     */
+    private _writeBatch(batch: Batch, head: ObjectLinks, callback: ResultCallback<number>): void {
+
+        if (this._traceEnabled) {
+            var start = process.hrtime();
+        }
+
+        this._buildBatch(batch, head, (err) => {
+            if (err) return callback(err);
+
+            batch.execute((err) => {
+                if (err) {
+                    if (err instanceof OptimisticLockError) {
+                        this.emit('optimisticLock', err);
+                    }
+                    return callback(err);
+                }
+
+                if (start) {
+                    var duration = getDuration(start);
+                }
+
+                callback(null, duration);
             });
         });
     }
 
+    /**
+     * Restores the scheduled operations of a flush that was not written to the database. The operations are put back
+     * at the front of the schedule, ahead of any operations that were scheduled during the flush.
+     * @param scheduled The scheduled operations and original documents before the flush.
+     */
+    private _restoreScheduledState(scheduled: ScheduledState[]): void {
+
+        if (scheduled.length == 0) {
+            return;
+        }
+
+        for (var i = 0; i < scheduled.length; i++) {
+            var state = scheduled[i];
+            state.links.scheduledOperation = state.operation;
+            state.links.originalDocument = state.originalDocument;
+        }
+
+        var head = scheduled[0].links,
+            tail = scheduled[scheduled.length - 1].links;
+
+        tail.next = this._scheduleHead;
+        if (this._scheduleHead) {
+            this._scheduleHead.prev = tail;
+        }
+        else {
+            this._scheduleTail = tail;
+        }
+        this._scheduleHead = head;
+    }
+
+    /**
+     * Schedules the removal of entities that are no longer referenced by a property with orphan removal enabled. Only
+     * entities that are scheduled for a dirty check are considered since entities that are being inserted do not have
+     * an original document to compare to.
+     * @param callback Called after the orphaned entities have been scheduled for removal.
+     */
+    private _removeOrphans(callback: Callback): void {
+
+        var orphans: Reference[] = [];
+
+        for (var links = this._scheduleHead; links; links = links.next) {
+            if (links.scheduledOperation == ScheduledOperation.DirtyCheck) {
+                var mapping = <EntityMapping>this.factory.getMappingForObject(links.object);
+                if (mapping) {
+                    orphans = orphans.concat(mapping.getOrphans(links.object, links.originalDocument));
+                }
+            }
+        }
+
+        if (orphans.length == 0) {
+            return callback();
+        }
+
+        async.eachSeries(orphans, (orphan: Reference, done: Callback) => {
+            // Note explicit check for undefined. Null means the entity has already been removed in this session.
+            var entity = this.getObject(orphan.id);
+            if (entity !== undefined) {
+                return entity ? this._remove(entity, done) : done();
+            }
+
+            orphan.fetch(this, (err, entity) => {
+                if (err) {
+                    // the orphan may have already been removed from the database
+                    return done(err instanceof EntityNotFoundError ? null : err);
+                }
+                // entity is null if it has already been removed in this session
+                if (!entity) return done();
+                this._remove(entity, done);
+            });
+        }, callback);
+    }
+
     /**
      * Populates the batch with the current scheduled operations. Since building the batch could take a long time if
      * there are many scheduled operations, break it up into chucks so we are not blocking the Node event queue.
@@ -896,7 +1606,8 @@ export class SessionImpl extends EventEmitter implements InternalSession {
 
         var count = 0,
             replenishing = false,
-            errored = false;
+            errored = false,
+            self = this;
 
         replenish();
 
@@ -928,6 +1639,11 @@ export class SessionImpl extends EventEmitter implements InternalSession {
                 }
                 else if (links.scheduledOperation == ScheduledOperation.Delete) {
                     count++;
+                    var err = self._invokeLifecycleCallbacks(links.object, LifecycleEvent.PreRemove);
+                    if(err) {
+                        done(err);
+                        break;
+                    }
                     links.persister.addRemove(batch, links.object, done);
                 }
 
@@ -977,9 +1693,29 @@ export class SessionImpl extends EventEmitter implements InternalSession {
             this._logFlushStats(head, duration);
         }
 
-        var links = head;
+        var links = head,
+            error: Error,
+            evictions: [EntityMapping, any, number][] = [];
+
         while(links) {
-            var next = links.next;
+            var next = links.next,
+                event = this._getPostOperationEvent(links.scheduledOperation);
+
+            // documents in the second-level cache for entities that were updated or removed are no longer current
+            if(links.scheduledOperation == ScheduledOperation.Update || links.scheduledOperation == ScheduledOperation.Delete) {
+                var mapping = this.factory.getMappingForObject(links.object),
+                    inheritanceRoot = <EntityMapping>mapping.inheritanceRoot;
+
+                if(inheritanceRoot.cacheable && this.factory.cache) {
+                    // keep the version that was written so a document read before the write is not cached again. the
+                    // original document of a removed entity still has the version from before the remove.
+                    var version = inheritanceRoot.versioned && links.originalDocument ? mapping.getDocumentVersion(links.originalDocument) : undefined;
+                    if(version != null && links.scheduledOperation == ScheduledOperation.Delete) {
+                        version++;
+                    }
+                    evictions.push([mapping, links.object["_id"], version]);
+                }
+            }
 
             links.scheduledOperation = ScheduledOperation.None;
             links.flags = ObjectFlags.None;
@@ -988,13 +1724,22 @@ export class SessionImpl extends EventEmitter implements InternalSession {
 
             switch(links.state) {
                 case ObjectState.Removed:
+                    // call the callbacks while the entity still has its identifier
+                    if(event !== undefined) {
+                        error = error || this._invokeLifecycleCallbacks(links.object, event);
+                    }
                     // unlink any removed objects.
                     this._unlinkObject(links);
-                    // then remove it's identifier
-                    this._clearIdentifier(links);
+                    // then remove it's identifier unless the entity was soft deleted and can be restored
+                    if(!(<EntityMapping>this.factory.getMappingForObject(links.object).inheritanceRoot).softDeleteField) {
+                        this._clearIdentifier(links);
+                    }
                     break;
                 case ObjectState.Managed:
                     this._trackChanges(links);
+                    if(event !== undefined) {
+                        error = error || this._invokeLifecycleCallbacks(links.object, event);
+                    }
                     break;
                 default:
                     return callback(new PersistenceError("Unexpected object state in flush."));
@@ -1003,7 +1748,36 @@ export class SessionImpl extends EventEmitter implements InternalSession {
             links = next;
         }
 
-        callback();
+        if(evictions.length == 0) {
+            // the batch has already been written so finish processing all entities before reporting a callback error
+            return callback(error);
+        }
+
+        async.each(
+            evictions,
+            (eviction: [EntityMapping, any, number], done: (err?: Error) => void) => this.factory.cache.evict(eviction[0], eviction[1], eviction[2], done),
+            (err) => callback(error || err));
+    }
+
+    /**
+     * Gets the lifecycle event to raise after a scheduled operation has been written to the database.
+     * @param operation The scheduled operation.
+     */
+    private _getPostOperationEvent(operation: ScheduledOperation): LifecycleEvent {
+
+        switch(operation) {
+            case ScheduledOperation.Insert:
+                return LifecycleEvent.PostPersist;
+            case ScheduledOperation.Update:
+                return LifecycleEvent.PostUpdate;
+            case ScheduledOperation.Delete:
+                return LifecycleEvent.PostRemove;
+        }
+    }
+
+    private _invokeLifecycleCallbacks(obj: any, event: LifecycleEvent): Error {
+
+        return this.factory.getMappingForObject(obj).invokeLifecycleCallbacks(event, obj);
     }
     
     private _logFlushStats(head: ObjectLinks, duration: number): void {
@@ -1049,7 +1823,7 @@ export class SessionImpl extends EventEmitter implements InternalSession {
         this._queue.close();
 
         // flush and then clear the session
-        this._flush((err) => {
+        this._flush(undefined, (err) => {
             if(err) return callback(err);
             this._clear(callback);
         });
@@ -1275,3 +2049,19 @@ export class SessionImpl extends EventEmitter implements InternalSession {
     }
 }
 
+/**
+ * Gets the scheduled operation and original document of each entity in the list of scheduled operations.
+ * @param head The head of the scheduled operation list.
+ * @hidden
+ */
+function getScheduledState(head: ObjectLinks): ScheduledState[] {
+
+    var scheduled: ScheduledState[] = [];
+
+    for (var links = head; links; links = links.next) {
+        scheduled.push({ links, operation: links.scheduledOperation, originalDocument: links.originalDocument });
+    }
+
+    return scheduled;
+}
+
@@ -12,8 +12,9 @@ import {Logger} from "./config/configuration";
 import {shallowClone, shallowEqual} from "./core/objectUtil";
 import {Callback} from "./core/callback";
 import {PersistenceError} from "./persistenceError";
-import {Db} from "mongodb";
+import {Db, MongoClient} from "mongodb";
 import {Index} from "./mapping/index";
+import {EntityCache} from "./entityCache";
 
 export interface SessionFactory {
 
@@ -22,6 +23,12 @@ export interface SessionFactory {
      */
     connection: Db;
 
+    /**
+     * The MongoDB client associated with this [SessionFactory]. The value is undefined if the [SessionFactory] was
+     * created with a database instead of a client. A client is required for transactions.
+     */
+    client: MongoClient;
+
     /**
      * Gets the MongoDB database collection for the specified Entity constructor.
      * @param ctr The constructor to get the collection for.
@@ -43,6 +50,12 @@ export interface SessionFactory {
      * @param callback Called after the operation has completed.
      */
     createIndexes(options: CreateIndexesOptions, callback: Callback): void;
+    /**
+     * Creates any indexes, defined on the mappings, that do not already exist. Returns a Promise that is resolved
+     * after the operation has completed.
+     * @param options Options for creating indexes.
+     */
+    createIndexes(options?: CreateIndexesOptions): Promise<void>;
     /**
      * Drops all indexes for all collections managed by Hydrate. This includes indexes that were not created by Hydrate.
      * @param callback Called after the operation has completed.
@@ -67,8 +80,10 @@ export interface CreateIndexesOptions {
 export interface InternalSessionFactory extends SessionFactory {
 
     logger: Logger;
+    cache: EntityCache;
     getMappingForObject(obj: any): EntityMapping;
     getMappingForConstructor(ctr: Constructor<any>): EntityMapping;
+    hasFilter(name: string): boolean;
     createPersister(session: InternalSession, mapping: EntityMapping): Persister;
 }
 
@@ -78,14 +93,17 @@ export interface InternalSessionFactory extends SessionFactory {
 export class SessionFactoryImpl implements InternalSessionFactory {
 
     connection: Db;
+    client: MongoClient;
     logger: Logger;
+    cache: EntityCache;
 
     private _collections: Table<Collection>;
     private _mappingRegistry: MappingRegistry;
 
-    constructor(connection: Db, collections: Table<Collection>, mappingRegistry: MappingRegistry) {
+    constructor(connection: Db, collections: Table<Collection>, mappingRegistry: MappingRegistry, client?: MongoClient) {
 
         this.connection = connection;
+        this.client = client;
         this._collections = collections;
         // TODO: get rid of mapping registry and handle directly in session factory
         this._mappingRegistry = mappingRegistry;
@@ -121,6 +139,18 @@ export class SessionFactoryImpl implements InternalSessionFactory {
         }
     }
 
+    /**
+     * Returns true if a filter with the specified name is defined on any entity; otherwise, returns false.
+     * @param name The name of the filter.
+     */
+    hasFilter(name: string): boolean {
+
+        return this._mappingRegistry.getEntityMappings().some(mapping => {
+            var filters = mapping.getFilters();
+            return !!filters && filters.some(filter => filter.name == name);
+        });
+    }
+
     createPersister(session: InternalSession, mapping: EntityMapping): Persister {
 
         return new PersisterImpl(session, mapping, this._collections[mapping.inheritanceRoot.id]);
@@ -128,7 +158,8 @@ export class SessionFactoryImpl implements InternalSessionFactory {
 
     createIndexes(callback: Callback): void;
     createIndexes(options: CreateIndexesOptions, callback: Callback): void;
-    createIndexes(optionsOrCallback: any, callback?: Callback): void {
+    createIndexes(options?: CreateIndexesOptions): Promise<void>;
+    createIndexes(optionsOrCallback?: any, callback?: Callback): Promise<void> {
 
         var options: CreateIndexesOptions;
 
@@ -139,6 +170,19 @@ export class SessionFactoryImpl implements InternalSessionFactory {
             options = optionsOrCallback;
         }
 
+        if (!callback) {
+            return new Promise<void>((resolve, reject) => {
+                this.createIndexes(options, (err) => {
+                    if (err) {
+                        reject(err);
+                    }
+                    else {
+                        resolve();
+                    }
+                });
+            });
+        }
+
         async.each(
             this._mappingRegistry.getEntityMappings(),
             (mapping, mappingDone) => {
@@ -12,16 +12,37 @@ interface Task {
     wait: number;
     arg: any;
     callback: ResultCallback<any>;
+    deferred?: Deferred;
     finished: boolean;
     next?: Task;
 }
 
+/**
+ * @hidden
+ */
+interface Deferred {
+
+    promise: Promise<any>;
+    resolve: (result: any) => void;
+    reject: (err: Error) => void;
+}
+
+/**
+ * Called when a task has finished executing. If `recovered` is true, the task restored any state it changed before
+ * it failed so the error does not make the queue invalid.
+ * @hidden
+ */
+export interface TaskCallback {
+
+    (err?: Error, result?: any, recovered?: boolean): void;
+}
+
 /**
  * @hidden
  */
 export class TaskQueue extends EventEmitter {
 
-    private _execute: (operation: number, arg: any, callback: ResultCallback<any>) => void;
+    private _execute: (operation: number, arg: any, callback: TaskCallback) => void;
     private _activeCounts: Table<number> = {};
     private _active: number = 0;
     private _head: Task;
@@ -29,13 +50,36 @@ export class TaskQueue extends EventEmitter {
     private _closed: boolean;
     private _invalid: boolean;
 
-    constructor(execute: (operation: number, arg: any, callback: ResultCallback<any>) => void) {
+    constructor(execute: (operation: number, arg: any, callback: TaskCallback) => void) {
         super();
         this._execute = execute;
     }
 
     add(operation: number, wait: number, arg: any, callback?: ResultCallback<any>): void {
 
+        this._add(operation, wait, arg, callback, null);
+    }
+
+    /**
+     * Adds a task to the queue and returns a Promise for the result of the task. The Promise takes the place of the
+     * callback. If the task is skipped because an error occurred in a previous task, the Promise is rejected with that
+     * error.
+     */
+    addPromise(operation: number, wait: number, arg: any): Promise<any> {
+
+        var deferred: Deferred = <any>{};
+
+        deferred.promise = new Promise<any>((resolve, reject) => {
+            deferred.resolve = resolve;
+            deferred.reject = reject;
+        });
+
+        this._add(operation, wait, arg, null, deferred);
+        return deferred.promise;
+    }
+
+    private _add(operation: number, wait: number, arg: any, callback: ResultCallback<any>, deferred: Deferred): void {
+
         var err: Error;
 
         if(this._closed) {
@@ -47,7 +91,15 @@ export class TaskQueue extends EventEmitter {
         }
 
         if(err) {
-            callback ? callback(err) : this._unhandledError(err);
+            if(callback) {
+                callback(err);
+            }
+            else if(deferred) {
+                deferred.reject(err);
+            }
+            else {
+                this._unhandledError(err);
+            }
             return;
         }
 
@@ -56,6 +108,7 @@ export class TaskQueue extends EventEmitter {
             wait: wait,
             arg: arg,
             callback: callback,
+            deferred: deferred,
             finished: false
         };
 
@@ -109,9 +162,9 @@ export class TaskQueue extends EventEmitter {
         }
     }
 
-    private _finished(task: Task): ResultCallback<any> {
+    private _finished(task: Task): TaskCallback {
 
-        return (err, result) => {
+        return (err, result, recovered) => {
 
             if(task.finished) {
                 throw new PersistenceError("Callback for task can only be called once.");
@@ -124,18 +177,33 @@ export class TaskQueue extends EventEmitter {
 
             // if we got an error during execution of the task, flag the queue as invalid before the callback is
             // executed in case the callback tries to queue up additional tasks.
-            if(err) {
+            if(err && !recovered) {
                 this._invalid = true;
             }
 
             if(task.callback) {
                 task.callback(err, result);
             }
+            else if(task.deferred && !err) {
+                task.deferred.resolve(result);
+            }
+
+            if(err && recovered) {
+                // only the failed task is rejected. the queued tasks are still executed.
+                if(task.deferred) {
+                    task.deferred.reject(err);
+                }
+                else if(!task.callback) {
+                    this.emit('error', err);
+                }
+            }
+            else if(err) {
+                // if the task did not have a callback, pass the error to the next task that has a callback
+                var handled = !!task.callback || this._passToNextCallback(err);
 
-            if(err) {
-                // if the task did not have a callback, handle the error
-                if(!task.callback) {
-                    this._unhandledError(err);
+                // reject the promise for this task and for any queued tasks since they will not be executed
+                if(!this._rejectPromises(task, err, handled) && !handled) {
+                    this.emit('error', err);
                 }
 
                 // stop execution of any queued tasks
@@ -152,6 +220,18 @@ export class TaskQueue extends EventEmitter {
 
     private _unhandledError(err: Error): void {
 
+        if(!this._passToNextCallback(err)) {
+            this.emit('error', err);
+        }
+    }
+
+    /**
+     * Passes the error to the next queued task that has a callback. Returns true if a task with a callback was found;
+     * otherwise, returns false.
+     * @param err The error.
+     */
+    private _passToNextCallback(err: Error): boolean {
+
         // find the next task that has a callback
         var task = this._head;
         while(task && !task.callback) {
@@ -159,12 +239,46 @@ export class TaskQueue extends EventEmitter {
         }
 
         // if we found a task with a callback, pass the error to that task.
-        if(task && task.callback) {
+        if(task) {
             task.callback(err);
+            return true;
         }
-        else {
-            this.emit('error', err);
+        return false;
+    }
+
+    /**
+     * Rejects the promise of the failed task and the promises of any queued tasks. Returns true if any promises were
+     * rejected; otherwise, returns false.
+     * @param failed The task that failed.
+     * @param err The error.
+     * @param handled True if the error was passed to a callback.
+     */
+    private _rejectPromises(failed: Task, err: Error, handled: boolean): boolean {
+
+        var deferreds: Deferred[] = [];
+
+        if(failed.deferred) {
+            deferreds.push(failed.deferred);
+        }
+
+        for(var task = this._head; task; task = task.next) {
+            if(task.deferred) {
+                deferreds.push(task.deferred);
+            }
+        }
+
+        for(var i = 0, l = deferreds.length; i < l; i++) {
+            var deferred = deferreds[i];
+            deferred.reject(err);
+
+            // Only the most recently queued promise is left to report the error as an unhandled rejection, and only
+            // if the error was not passed to a callback. This allows promises from earlier operations to be ignored.
+            if(handled || i < l - 1) {
+                deferred.promise.catch(noop);
+            }
         }
+
+        return deferreds.length > 0;
     }
 
     private _clear(): void {
@@ -172,3 +286,9 @@ export class TaskQueue extends EventEmitter {
 
     }
 }
+
+/**
+ * @hidden
+ */
+function noop(): void {
+}
@@ -3,10 +3,13 @@ import * as mongodb from "mongodb";
 export class MockBulk implements mongodb.UnorderedBulkOperation {
 
     findDocuments: any[] = [];
+    insertDocuments: any[] = [];
     replaceOneDocuments: any[] = [];
+    updateDocuments: any[] = [];
     removeOneCalled = 0;
 
     update(updateDocument: any): mongodb.UnorderedBulkOperation {
+        this.updateDocuments.push(updateDocument);
         return this;
     }
     updateOne(updateDocument: any): mongodb.UnorderedBulkOperation {
@@ -27,6 +30,7 @@ export class MockBulk implements mongodb.UnorderedBulkOperation {
         return this;
     }
     insert(document: any): mongodb.UnorderedBulkOperation {
+        this.insertDocuments.push(document);
         return this;
     }
     find(selector: any): mongodb.UnorderedBulkOperation {
@@ -36,5 +40,19 @@ export class MockBulk implements mongodb.UnorderedBulkOperation {
 
     execute(optionsOrCallback: any, callback?: (err: Error, result: any) => void): void {
 
+        var options: any;
+
+        if (typeof optionsOrCallback === "function") {
+            callback = optionsOrCallback;
+        }
+        else {
+            options = optionsOrCallback;
+        }
+
+        if (this.onExecute) {
+            process.nextTick(() => this.onExecute(callback, options));
+        }
     }
+
+    onExecute: (callback: (err: Error, result: any) => void, options?: any) => void;
 }
@@ -0,0 +1,61 @@
+import * as mongodb from "mongodb";
+import {MockDb} from "./mockDb";
+
+export class MockClient implements mongodb.MongoClient {
+
+    sessions: MockClientSession[] = [];
+
+    db(dbName?: string): mongodb.Db {
+        return new MockDb(dbName);
+    }
+
+    startSession(options?: mongodb.SessionOptions): mongodb.ClientSession {
+        var session = new MockClientSession();
+        this.sessions.push(session);
+        return session;
+    }
+
+    close(force?: boolean, callback?: (err: Error, result: any) => void): void {
+        throw new Error("Not implemented");
+    }
+}
+
+export class MockClientSession implements mongodb.ClientSession {
+
+    transactionOptions: mongodb.TransactionOptions;
+    started = false;
+    committed = false;
+    aborted = false;
+    ended = false;
+    commitError: mongodb.MongoError;
+
+    startTransaction(options?: mongodb.TransactionOptions): void {
+        this.transactionOptions = options;
+        this.started = true;
+    }
+
+    commitTransaction(callback: (err: mongodb.MongoError, result: any) => void): void {
+        process.nextTick(() => {
+            this.committed = !this.commitError;
+            callback(this.commitError, undefined);
+        });
+    }
+
+    abortTransaction(callback: (err: mongodb.MongoError, result: any) => void): void {
+        process.nextTick(() => {
+            this.aborted = true;
+            callback(null, undefined);
+        });
+    }
+
+    endSession(callback?: (err: Error, result: any) => void): void {
+        this.ended = true;
+        if (callback) {
+            process.nextTick(() => callback(null, undefined));
+        }
+    }
+
+    inTransaction(): boolean {
+        return this.started && !this.committed && !this.aborted;
+    }
+}
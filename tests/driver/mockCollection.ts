@@ -7,6 +7,7 @@ export class MockCollection implements mongodb.Collection {
     collectionName: string;
     hint: any;
     bulk: MockBulk;
+    bulkOptions: { session?: mongodb.ClientSession };
 
     constructor(public contents?: any[], name?: string) {
 
@@ -79,18 +80,38 @@ export class MockCollection implements mongodb.Collection {
     indexes(callback: Function): void {
     }
 
-    aggregate(pipeline: any[], optionsOrCallback: any, callback?: (err: Error, result: any) => void): void {
+    aggregate(pipeline: any[], optionsOrCallback: any, callback?: (err: Error, cursor: mongodb.Cursor) => void): void {
 
+        var options: Object;
+
+        if (typeof optionsOrCallback === "function") {
+            callback = optionsOrCallback;
+        }
+        else {
+            options = optionsOrCallback;
+        }
+
+        // the driver returns a cursor for the results
+        if (this.onAggregate) {
+            process.nextTick(() => this.onAggregate(pipeline, (err, results) => callback(err, results && new MockCursor(results)), options));
+            return;
+        }
+
+        process.nextTick(() => {
+            callback(null, new MockCursor(this.contents));
+        });
     }
 
+    onAggregate: (pipeline: any[], callback: (err: Error, result: any) => void, options?: Object) => void;
+
     stats(optionsOrCallback: any, callback?: (err: Error, results: mongodb.CollStats) => void): void {
 
     }
 
-    find(selector: Object, fields?: any): mongodb.Cursor {
+    find(selector: Object, fields?: any, options?: any): mongodb.Cursor {
 
         if (this.onFind) {
-            return this.onFind(selector, fields);
+            return this.onFind(selector, fields, options);
         }
 
         return this.createCursor();
@@ -100,23 +121,19 @@ export class MockCollection implements mongodb.Collection {
         return new MockCursor(this.contents);
     }
 
-    onFind: (selector: Object, fields: Object) => mongodb.Cursor;
+    onFind: (selector: Object, fields: Object, options: Object) => mongodb.Cursor;
 
     findOne(selector: Object, callback?: (err: Error, result: any) => void): any;
     findOne(selector: Object, fields?: Object, callback?: (err: Error, result: any) => void): any;
-    findOne(selector: Object, fieldsOrCallback?: any, callback?: (err: Error, result: any) => void): any {
+    findOne(selector: Object, fields: Object, options: Object, callback?: (err: Error, result: any) => void): any;
+    findOne(selector: Object, ...args: any[]): any {
 
-        var fields: Object;
-
-        if (typeof fieldsOrCallback === "function") {
-            callback = fieldsOrCallback;
-        }
-        else {
-            fields = fieldsOrCallback;
-        }
+        var callback: (err: Error, result: any) => void = args.pop(),
+            fields: Object = args[0],
+            options: Object = args[1];
 
         if (this.onFindOne) {
-            process.nextTick(() => this.onFindOne(selector, fields, callback));
+            process.nextTick(() => this.onFindOne(selector, fields, callback, options));
             return;
         }
 
@@ -125,13 +142,18 @@ export class MockCollection implements mongodb.Collection {
         });
     }
 
-    onFindOne: (selector: Object, fields: Object, callback?: (err: Error, result: any) => void) => any;
+    onFindOne: (selector: Object, fields: Object, callback?: (err: Error, result: any) => void, options?: Object) => any;
 
 
     findAndModify(query: Object, sort: any[], doc: Object, optionsOrCallbac: any, callback?: (err: Error, result: any) => void): void {
-
+        if (this.onFindAndModify) {
+            process.nextTick(() => this.onFindAndModify(query, sort, doc, optionsOrCallbac, callback));
+            return;
+        }
     }
 
+    onFindAndModify: (query: Object, sort: any[], doc: any, options: any, callback: (err: Error, result: any) => void) => void;
+
     remove(selector: Object, options: { safe?: any; single?: boolean; }, callback?: (err: Error, result: any) => void): void {
 
     }
@@ -146,9 +168,14 @@ export class MockCollection implements mongodb.Collection {
     onUpdate: (selector: Object, document: any, options: { safe?: boolean; upsert?: any; multi?: boolean; serializeFunctions?: boolean; }, callback: (err: Error, result: any) => void) => void;
 
     count(queryOrCallback: any, optionsOrCallback?: any, callback?: (err: Error, result: any) => void): void {
-
+        if (this.onCount) {
+            process.nextTick(() => this.onCount(queryOrCallback, optionsOrCallback, callback));
+            return;
+        }
     }
 
+    onCount: (query: Object, options: Object, callback: (err: Error, result: any) => void) => void;
+
     distinct(key: string, query: Object, optionsOrCallback: any, callback?: (err: Error, result: any) => void): void {
         if (this.onDistinct) {
             process.nextTick(() => this.onDistinct(key, query, optionsOrCallback, callback));
@@ -156,10 +183,11 @@ export class MockCollection implements mongodb.Collection {
         }
     }
 
-    onDistinct: (key: string, query: Object, options: { readPreference: string; }, callback: (err: Error, result: any) => void) => void;
+    onDistinct: (key: string, query: Object, options: { readPreference?: string; maxTimeMS?: number; collation?: Object; }, callback: (err: Error, result: any) => void) => void;
 
-    initializeUnorderedBulkOp(): mongodb.UnorderedBulkOperation {
+    initializeUnorderedBulkOp(options?: { session?: mongodb.ClientSession }): mongodb.UnorderedBulkOperation {
 
+        this.bulkOptions = options;
         return this.bulk = new MockBulk();
     }
 }
\ No newline at end of file
@@ -62,9 +62,15 @@ export class MockCursor implements mongodb.Cursor {
 
     limit(limit: number, callback?: (err: Error, result: any) => void): mongodb.Cursor {
 
+        if(this.onLimit) {
+            return this.onLimit(limit, callback);
+        }
+
         return this;
     }
 
+    onLimit: (limit: number, callback?: (err: Error, result: any) => void) => mongodb.Cursor;
+
     setReadPreference(preference: string, callback?: Function): mongodb.Cursor {
 
         return this;
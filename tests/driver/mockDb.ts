@@ -12,10 +12,6 @@ export class MockDb implements Db {
         this.databaseName = name;
     }
 
-    db(dbName: string): Db {
-        return new MockDb(dbName);
-    }
-
     open(callback: (err : Error, db : Db) => void ): void {
         throw new Error("Not implemented");
     }
@@ -42,10 +38,10 @@ export class MockDb implements Db {
 
     collection(collectionName: string): Collection;
     collection(collectionName: string, callback: (err: Error, collection: Collection) => void ): Collection;
-    collection(collectionName: string, options: MongoCollectionOptions, callback: (err: Error, collection: Collection) => void): Collection;
+    collection(collectionName: string, options: MongoCollectionOptions, callback?: (err: Error, collection: Collection) => void): Collection;
     collection(collectionName: string, optionsOrCallback?: any, callback?: (err: Error, collection: Collection) => void): Collection  {
 
-        if(callback === undefined) {
+        if(callback === undefined && typeof optionsOrCallback === "function") {
             callback = optionsOrCallback;
         }
 
@@ -0,0 +1,25 @@
+import { Entity, Field, Cacheable } from "../../../src/mapping/providers/decorators";
+
+@Entity()
+@Cacheable()
+export class Country {
+
+    _id: any;
+    id: string;
+
+    @Field()
+    name: string;
+}
+
+@Entity()
+export class Address {
+
+    _id: any;
+    id: string;
+
+    @Field()
+    street: string;
+
+    @Field()
+    country: Country;
+}
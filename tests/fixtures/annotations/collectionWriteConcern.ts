@@ -0,0 +1,12 @@
+import { Entity, Collection } from "../../../src/mapping/providers/decorators";
+
+@Entity()
+export class A {
+
+}
+
+@Entity()
+@Collection({ options: { w: "majority", j: true } })
+export class B {
+
+}
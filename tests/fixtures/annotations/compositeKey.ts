@@ -0,0 +1,39 @@
+import { Entity, Embeddable, Field, Id } from "../../../src/mapping/providers/decorators";
+
+@Entity()
+export class User {
+
+    _id: any;
+    id: string;
+
+    @Field()
+    name: string;
+}
+
+@Embeddable()
+export class MembershipKey {
+
+    @Field()
+    user: User;
+
+    @Field()
+    group: string;
+
+    constructor(user?: User, group?: string) {
+        this.user = user;
+        this.group = group;
+    }
+}
+
+@Entity()
+export class Membership {
+
+    _id: any;
+    id: string;
+
+    @Id()
+    key: MembershipKey;
+
+    @Field()
+    role: string;
+}
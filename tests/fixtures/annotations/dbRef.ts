@@ -0,0 +1,29 @@
+import { Entity, Collection, Field, ElementType } from "../../../src/mapping/providers/decorators";
+
+@Entity()
+@Collection({ name: "accounts", db: "legacy" })
+export class Account {
+
+    _id: any;
+    id: string;
+
+    @Field()
+    name: string;
+}
+
+@Entity()
+export class Customer {
+
+    _id: any;
+    id: string;
+
+    @Field({ reference: "dbref" })
+    account: Account;
+
+    @ElementType(Account)
+    @Field({ reference: "dbref" })
+    previousAccounts: Account[];
+
+    @Field()
+    primaryAccount: Account;
+}
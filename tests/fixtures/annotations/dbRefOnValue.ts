@@ -0,0 +1,8 @@
+import { Entity, Field } from "../../../src/mapping/providers/decorators";
+
+@Entity()
+export class A {
+
+    @Field({ reference: "dbref" })
+    name: string;
+}
@@ -0,0 +1,27 @@
+import { Entity, Field, Filter } from "../../../src/mapping/providers/decorators";
+
+@Entity()
+@Filter("tenant", { tenant: ":tenant" })
+@Filter("active", { closedOn: null })
+export class Account {
+
+    _id: any;
+    id: string;
+
+    @Field()
+    tenant: string;
+
+    @Field()
+    name: string;
+
+    @Field()
+    closedOn: Date;
+}
+
+@Entity()
+@Filter("highInterest", { interestRate: { $gte: ":minimumRate" } })
+export class SavingsAccount extends Account {
+
+    @Field()
+    interestRate: number;
+}
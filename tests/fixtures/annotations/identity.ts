@@ -0,0 +1,35 @@
+import { Entity, Field, Id, Identity } from "../../../src/mapping/providers/decorators";
+import {IdentityContext} from "../../../src/config/configuration";
+import {ResultCallback} from "../../../src/core/callback";
+import {MockIdentityGenerator} from "../../id/mockIdentityGenerator";
+
+export class AsyncIdentityGenerator extends MockIdentityGenerator {
+
+    generateAsync(context: IdentityContext, callback: ResultCallback<any>): void {
+        process.nextTick(() => callback(null, this.generate()));
+    }
+}
+
+@Entity()
+export class Country {
+
+    _id: string;
+    id: string;
+
+    @Id()
+    code: string;
+
+    @Field()
+    name: string;
+}
+
+@Entity()
+@Identity(new AsyncIdentityGenerator())
+export class Invoice {
+
+    _id: number;
+    id: string;
+
+    @Field()
+    total: number;
+}
@@ -0,0 +1,32 @@
+import { Entity, Field, ElementType, InverseOf } from "../../../src/mapping/providers/decorators";
+
+@Entity()
+export class Customer {
+
+    _id: any;
+    id: string;
+
+    @InverseOf("customer")
+    @ElementType("Order")
+    orders: Order[];
+
+    @InverseOf("customer", { orderBy: [["created", -1]], where: { status: "open" }, limit: 10 })
+    @ElementType("Order")
+    recentOrders: Order[];
+}
+
+@Entity()
+export class Order {
+
+    _id: any;
+    id: string;
+
+    @Field()
+    customer: Customer;
+
+    @Field()
+    created: Date;
+
+    @Field()
+    status: string;
+}
@@ -0,0 +1,16 @@
+import { Entity, Field, ElementType, InverseOf } from "../../../src/mapping/providers/decorators";
+
+@Entity()
+export class Customer {
+
+    @InverseOf("customer", { limit: -1 })
+    @ElementType("Order")
+    orders: Order[];
+}
+
+@Entity()
+export class Order {
+
+    @Field()
+    customer: Customer;
+}
@@ -0,0 +1,30 @@
+import {Entity, Field, PrePersist, PostLoad} from "../../../src/mapping/providers/decorators";
+
+export class A {
+
+    @Field()
+    a: string;
+
+    @PrePersist()
+    onPrePersist(): void {
+    }
+
+    @PrePersist()
+    onPrePersistOverridden(): void {
+    }
+}
+
+@Entity()
+export class B extends A {
+
+    @Field()
+    b: string;
+
+    @PrePersist()
+    onPrePersistOverridden(): void {
+    }
+
+    @PostLoad()
+    onPostLoad(): void {
+    }
+}
@@ -0,0 +1,19 @@
+import {Embeddable, Entity, Field, PrePersist} from "../../../src/mapping/providers/decorators";
+
+@Embeddable()
+export class A {
+
+    @Field()
+    a: string;
+
+    @PrePersist()
+    onPrePersist(): void {
+    }
+}
+
+@Entity()
+export class B {
+
+    @Field()
+    a: A;
+}
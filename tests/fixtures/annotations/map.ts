@@ -0,0 +1,22 @@
+import { Entity, Field, ElementType, MapKey, Embeddable } from "../../../src/mapping/providers/decorators";
+
+@Embeddable()
+export class Translation {
+
+    @Field()
+    locale: string;
+
+    @Field()
+    title: string;
+}
+
+@Entity()
+export class Article {
+
+    @ElementType(String)
+    tags: Map<string, string>;
+
+    @ElementType(Translation)
+    @MapKey("locale")
+    translations: Map<string, Translation>;
+}
@@ -0,0 +1,15 @@
+import { Entity, ElementType, MapKey, Embeddable } from "../../../src/mapping/providers/decorators";
+
+@Embeddable()
+export class Translation {
+
+    locale: string;
+}
+
+@Entity()
+export class Article {
+
+    @ElementType(Translation)
+    @MapKey("locale")
+    translations: Translation[];
+}
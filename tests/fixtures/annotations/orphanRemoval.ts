@@ -0,0 +1,30 @@
+import { Entity, Field, Cascade, ElementType } from "../../../src/mapping/providers/decorators";
+import { CascadeFlags } from "../../../src/mapping/mappingModel";
+
+@Entity()
+export class InvoiceLine {
+
+    _id: any;
+    id: string;
+
+    @Field()
+    description: string;
+}
+
+@Entity()
+export class Invoice {
+
+    _id: any;
+    id: string;
+
+    @Cascade(CascadeFlags.All, { orphanRemoval: true })
+    @ElementType(InvoiceLine)
+    lines: InvoiceLine[];
+
+    @Cascade(CascadeFlags.All, { orphanRemoval: true })
+    summary: InvoiceLine;
+
+    @Cascade(CascadeFlags.All)
+    @ElementType(InvoiceLine)
+    notes: InvoiceLine[];
+}
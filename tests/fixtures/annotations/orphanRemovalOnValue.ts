@@ -0,0 +1,10 @@
+import { Entity, Field, Cascade } from "../../../src/mapping/providers/decorators";
+import { CascadeFlags } from "../../../src/mapping/mappingModel";
+
+@Entity()
+export class Invoice {
+
+    @Field()
+    @Cascade(CascadeFlags.All, { orphanRemoval: true })
+    number: string;
+}
@@ -0,0 +1,43 @@
+import { Entity, Field, Polymorphic } from "../../../src/mapping/providers/decorators";
+
+export interface Commentable {
+
+    _id: any;
+    id: string;
+}
+
+@Entity()
+export class Post implements Commentable {
+
+    _id: any;
+    id: string;
+
+    @Field()
+    title: string;
+}
+
+@Entity()
+export class Photo implements Commentable {
+
+    _id: any;
+    id: string;
+
+    @Field()
+    url: string;
+}
+
+@Entity()
+export class Comment {
+
+    _id: any;
+    id: string;
+
+    @Polymorphic(Post, Photo)
+    target: Commentable;
+
+    @Polymorphic(Post, Photo)
+    related: Commentable[];
+
+    @Field()
+    text: string;
+}
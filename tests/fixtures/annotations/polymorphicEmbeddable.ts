@@ -0,0 +1,15 @@
+import { Entity, Embeddable, Field, Polymorphic } from "../../../src/mapping/providers/decorators";
+
+@Embeddable()
+export class Address {
+
+    @Field()
+    street: string;
+}
+
+@Entity()
+export class A {
+
+    @Polymorphic(Address)
+    target: Object;
+}
@@ -0,0 +1,33 @@
+import { Entity, Field, SoftDelete } from "../../../src/mapping/providers/decorators";
+
+@Entity()
+@SoftDelete()
+export class Invoice {
+
+    _id: any;
+    id: string;
+
+    @Field()
+    number: string;
+}
+
+@Entity()
+export class Receipt {
+
+    _id: any;
+    id: string;
+
+    @Field()
+    invoice: Invoice;
+}
+
+@Entity()
+@SoftDelete({ field: "removedOn" })
+export class Payment {
+
+    _id: any;
+    id: string;
+
+    @Field()
+    amount: number;
+}
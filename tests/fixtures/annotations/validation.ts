@@ -0,0 +1,35 @@
+import { Entity, Embeddable, Field, ElementType, Required, Length, Min, Max, Pattern, Validate } from "../../../src/mapping/providers/decorators";
+
+@Embeddable()
+export class Address {
+
+    @Required()
+    city: string;
+
+    @Pattern(/^\d{5}$/)
+    zip: string;
+}
+
+@Entity()
+export class Customer {
+
+    _id: any;
+    id: string;
+
+    @Required()
+    @Length(2, 50)
+    name: string;
+
+    @Min(18)
+    @Max(120)
+    age: number;
+
+    @Validate(value => value.indexOf("@") != -1 || "Invalid email address.")
+    email: string;
+
+    @Field()
+    address: Address;
+
+    @ElementType(Address)
+    previousAddresses: Address[];
+}
@@ -0,0 +1,92 @@
+import {
+    Entity,
+    Field,
+    PrePersist,
+    PostPersist,
+    PreUpdate,
+    PostUpdate,
+    PreRemove,
+    PostRemove,
+    PostLoad
+} from "../../src/mapping/providers/decorators";
+
+@Entity()
+export class Ticket {
+
+    @Field()
+    title: string;
+
+    @Field()
+    created: Date;
+
+    @Field()
+    modified: Date;
+
+    /**
+     * The names of the lifecycle callbacks called on the entity. Not persisted.
+     */
+    calls: string[];
+
+    constructor(title: string) {
+        this.title = title;
+    }
+
+    @PrePersist()
+    onPrePersist(): void {
+        this._record("PrePersist");
+        this.created = this.modified = new Date();
+    }
+
+    @PostPersist()
+    onPostPersist(): void {
+        this._record("PostPersist");
+    }
+
+    @PreUpdate()
+    onPreUpdate(): void {
+        this._record("PreUpdate");
+        this.modified = new Date();
+    }
+
+    @PostUpdate()
+    onPostUpdate(): void {
+        this._record("PostUpdate");
+    }
+
+    @PreRemove()
+    onPreRemove(): void {
+        this._record("PreRemove");
+    }
+
+    @PostRemove()
+    onPostRemove(): void {
+        this._record("PostRemove");
+    }
+
+    @PostLoad()
+    onPostLoad(): void {
+        this._record("PostLoad");
+    }
+
+    private _record(name: string): void {
+        (this.calls || (this.calls = [])).push(name);
+    }
+}
+
+@Entity()
+export class Note {
+
+    @Field()
+    text: string;
+
+    constructor(text: string) {
+        this.text = text;
+    }
+
+    @PrePersist()
+    validate(): void {
+        if (!this.text) {
+            throw new Error("Note text is required.");
+        }
+    }
+}
@@ -0,0 +1,31 @@
+import { Entity, Embeddable, Field, ElementType, ChangeTracking } from "../../src/mapping/providers/decorators";
+import {ChangeTrackingType} from "../../src/mapping/mappingModel";
+
+@Embeddable()
+export class Wing {
+
+    @Field()
+    span: number;
+
+    constructor(span: number) {
+        this.span = span;
+    }
+}
+
+@Entity()
+@ChangeTracking(ChangeTrackingType.Observe)
+export class Bird {
+
+    @Field()
+    name: string;
+
+    @Field()
+    wing: Wing;
+
+    @ElementType(String)
+    songs: string[];
+
+    constructor(name: string) {
+        this.name = name;
+    }
+}
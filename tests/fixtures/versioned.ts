@@ -0,0 +1,17 @@
+import { Entity, Field } from "../../src/mapping/providers/decorators";
+
+@Entity()
+export class Note {
+
+    id: string;
+
+    @Field()
+    text: string;
+
+    @Field("__v")
+    version: number;
+
+    constructor(text: string) {
+        this.text = text;
+    }
+}
@@ -13,6 +13,10 @@ import {ClassMapping} from "../src/mapping/classMapping";
 import {absolutePath, hasExtension} from "../src/core/fileUtil";
 import {ResultCallback} from "../src/core/callback";
 import {EntityMapping} from "../src/mapping/entityMapping";
+import {EntityCache} from "../src/entityCache";
+import {LruCacheStore} from "../src/config/lruCacheStore";
+import {MockInternalSession} from "./mockInternalSession";
+import {Constructor} from "../src/index";
 
 var glob = require("glob");
 
@@ -70,9 +74,15 @@ export function createPerson(): model.Person {
 
 export function createPersister(collection: MockCollection, callback: (err: Error, persister?: PersisterImpl, factory?: MockSessionFactory) => void): void;
 export function createPersister(collection: MockCollection, ctr: Function, callback: (err: Error, persister?: PersisterImpl, factory?: MockSessionFactory) => void): void;
-export function createPersister(collection: MockCollection, ctrOrCallback: any, callback?: (err: Error, persister?: PersisterImpl, factory?: MockSessionFactory) => void): void {
+export function createPersister(fixture: string, ctr: Constructor<any>, collection: MockCollection, callback: (err: Error, persister?: PersisterImpl, session?: MockInternalSession) => void): void;
+export function createPersister(collectionOrFixture: any, ctrOrCallback: any, collectionOrCallback?: any, callback?: any): void {
 
-    var ctr: any;
+    if(typeof collectionOrFixture === "string") {
+        return createFixturePersister(collectionOrFixture, ctrOrCallback, collectionOrCallback, callback);
+    }
+
+    var collection: MockCollection = collectionOrFixture,
+        ctr: any;
 
     if(arguments.length == 2) {
         callback = ctrOrCallback;
@@ -80,6 +90,7 @@ export function createPersister(collection: MockCollection, ctrOrCallback: any,
     }
     else {
         ctr = ctrOrCallback;
+        callback = collectionOrCallback;
     }
 
     createFactory("model", (err, factory) => {
@@ -89,6 +100,19 @@ export function createPersister(collection: MockCollection, ctrOrCallback: any,
     });
 }
 
+function createFixturePersister(fixture: string, ctr: Constructor<any>, collection: MockCollection, callback: (err: Error, persister?: PersisterImpl, session?: MockInternalSession) => void): void {
+
+    createFactory(fixture, (err, factory) => {
+        if (err) return callback(err);
+
+        // each persister gets its own second-level cache, which is only used for cacheable entities
+        factory.cache = new EntityCache(new LruCacheStore());
+
+        var session = new MockInternalSession(factory);
+        callback(null, new PersisterImpl(session, factory.getMappingForConstructor(ctr), collection), session);
+    });
+}
+
 
 export function requireFiles(filePaths: string[], callback: ResultCallback<Object[]>): void {
 
@@ -0,0 +1,140 @@
+import {assert} from "chai";
+import * as helpers from "../helpers";
+import * as model from "../fixtures/annotations/compositeKey";
+import {CompositeKeyGenerator} from "../../src/config/compositeKeyGenerator";
+
+describe('CompositeKeyGenerator', () => {
+
+    var generator: CompositeKeyGenerator;
+
+    before((done) => {
+
+        helpers.createFactory("annotations/compositeKey", (err, factory) => {
+            if (err) return done(err);
+
+            generator = <CompositeKeyGenerator>factory.getMappingForConstructor(model.Membership).identity;
+            done();
+        });
+    });
+
+    it('is used for entities where the identity property is an embeddable', () => {
+
+        assert.instanceOf(generator, CompositeKeyGenerator);
+    });
+
+    describe('generate', () => {
+
+        it('throws an error', () => {
+
+            assert.throws(() => generator.generate(), "assigned from the identity property");
+        });
+    });
+
+    describe('validate', () => {
+
+        it('returns true if the value has a value for each field in the key', () => {
+
+            assert.isTrue(generator.validate({ user: helpers.generateId(), group: "admins" }));
+        });
+
+        it('returns false if a field in the key is missing', () => {
+
+            assert.isFalse(generator.validate({ user: helpers.generateId() }));
+        });
+
+        it('returns false if the value is not a document', () => {
+
+            assert.isFalse(generator.validate("admins"));
+            assert.isFalse(generator.validate(null));
+        });
+
+        it('does not modify the value', () => {
+
+            var key = { user: helpers.generateId(), group: "admins" };
+
+            generator.validate(key);
+            assert.deepEqual(Object.getOwnPropertyNames(key), ["user", "group"]);
+            assert.equal(key.toString(), "[object Object]");
+        });
+    });
+
+    describe('keyToString', () => {
+
+        it('returns a string representation that does not depend on the order of the fields', () => {
+
+            var userId = helpers.generateId(),
+                key1 = { user: userId, group: "admins" },
+                key2 = { group: "admins", user: userId };
+
+            assert.equal(generator.keyToString(key1), JSON.stringify([userId.toString(), "admins"]));
+            assert.equal(generator.keyToString(key1), generator.keyToString(key2));
+        });
+    });
+
+    describe('fromString', () => {
+
+        it('converts the string representation of a key to a key', () => {
+
+            var userId = helpers.generateId(),
+                key = { user: userId, group: "admins" };
+
+            var result = generator.fromString(generator.keyToString(key));
+            assert.isTrue(userId.equals(result.user));
+            assert.equal(result.group, "admins");
+            assert.equal(generator.keyToString(result), generator.keyToString(key));
+        });
+
+        it('returns null if the string is not a valid key', () => {
+
+            assert.isNull(generator.fromString("admins"));
+            assert.isNull(generator.fromString(JSON.stringify(["admins"])));
+            assert.isNull(generator.fromString(JSON.stringify(["not an id", "admins"])));
+        });
+    });
+
+    describe('areEqual', () => {
+
+        it('returns true if all fields in the keys are equal', () => {
+
+            var userId = helpers.generateId();
+            assert.isTrue(generator.areEqual({ user: userId, group: "admins" }, { group: "admins", user: userId }));
+        });
+
+        it('returns false if any field in the keys is different', () => {
+
+            var userId = helpers.generateId();
+            assert.isFalse(generator.areEqual({ user: userId, group: "admins" }, { user: userId, group: "users" }));
+        });
+    });
+
+    describe('createCriteria', () => {
+
+        it('matches each field in the key separately', () => {
+
+            var userId = helpers.generateId();
+            assert.deepEqual(generator.createCriteria([{ user: userId, group: "admins" }]), {
+                "_id.user": userId,
+                "_id.group": "admins"
+            });
+        });
+
+        it('converts references given as strings to identifiers', () => {
+
+            var userId = helpers.generateId(),
+                criteria = generator.createCriteria([{ user: userId.toString(), group: "admins" }]);
+
+            assert.isTrue(userId.equals(criteria["_id.user"]));
+        });
+
+        it('combines the criteria for multiple keys with $or', () => {
+
+            var userId = helpers.generateId();
+            assert.deepEqual(generator.createCriteria([{ user: userId, group: "admins" }, { user: userId, group: "users" }]), {
+                $or: [
+                    { "_id.user": userId, "_id.group": "admins" },
+                    { "_id.user": userId, "_id.group": "users" }
+                ]
+            });
+        });
+    });
+});
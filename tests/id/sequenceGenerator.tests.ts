@@ -0,0 +1,94 @@
+import {assert} from "chai";
+import {SequenceGenerator} from "../../src/config/sequenceGenerator";
+import {MockDb} from "../driver/mockDb";
+import {MockCollection} from "../driver/mockCollection";
+
+describe('SequenceGenerator', () => {
+
+    describe('generateAsync', () => {
+
+        it('reserves a block of identifiers from the counters collection', (done) => {
+
+            var db = new MockDb(),
+                collection = <MockCollection>db.collection("counters"),
+                generator = new SequenceGenerator({ blockSize: 10 });
+
+            collection.onFindAndModify = (query, sort, doc, options, callback) => {
+
+                assert.deepEqual(query, { _id: "person" });
+                assert.deepEqual(doc, { $inc: { value: 10 }});
+                assert.isTrue(options.upsert);
+                callback(null, { value: { _id: "person", value: 30 }});
+            };
+
+            generator.generateAsync({ connection: db, collectionName: "person" }, (err, id) => {
+                if(err) return done(err);
+
+                assert.equal(id, 21);
+                done();
+            });
+        });
+
+        it('only accesses the database when the block of identifiers is used up', (done) => {
+
+            var db = new MockDb(),
+                collection = <MockCollection>db.collection("counters"),
+                generator = new SequenceGenerator({ blockSize: 2 }),
+                value = 0,
+                called = 0,
+                ids: number[] = [];
+
+            collection.onFindAndModify = (query, sort, doc, options, callback) => {
+                called++;
+                value += doc.$inc.value;
+                callback(null, { value: { _id: "person", value: value }});
+            };
+
+            var context = { connection: db, collectionName: "person" },
+                remaining = 5;
+
+            for(var i = 0; i < 5; i++) {
+                generator.generateAsync(context, (err, id) => {
+                    if(err) return done(err);
+
+                    ids.push(id);
+                    if(--remaining == 0) {
+                        assert.deepEqual(ids, [1, 2, 3, 4, 5]);
+                        assert.equal(called, 3);
+                        done();
+                    }
+                });
+            }
+        });
+
+        it('uses the sequence name if specified', (done) => {
+
+            var db = new MockDb(),
+                collection = <MockCollection>db.collection("ids"),
+                generator = new SequenceGenerator({ name: "invoice", collectionName: "ids" });
+
+            collection.onFindAndModify = (query, sort, doc, options, callback) => {
+
+                assert.deepEqual(query, { _id: "invoice" });
+                callback(null, { value: { _id: "invoice", value: 100 }});
+            };
+
+            generator.generateAsync({ connection: db, collectionName: "person" }, done);
+        });
+    });
+
+    describe('fromString', () => {
+
+        it('returns null if value is not a positive integer', () => {
+
+            var generator = new SequenceGenerator();
+            assert.isNull(generator.fromString("Foo"));
+            assert.isNull(generator.fromString("0"));
+        });
+
+        it('returns the number for the string representation', () => {
+
+            assert.strictEqual(new SequenceGenerator().fromString("42"), 42);
+        });
+    });
+});
@@ -0,0 +1,84 @@
+import {assert} from "chai";
+import {UuidGenerator} from "../../src/config/uuidGenerator";
+import {Binary} from "mongodb";
+
+describe('UuidGenerator', () => {
+
+    var generator = new UuidGenerator();
+
+    describe('generate', () => {
+
+        it('returns a Binary with the UUID subtype', () => {
+
+            var id = generator.generate();
+            assert.instanceOf(id, Binary);
+            assert.equal(id.sub_type, 4);
+        });
+
+        it('returns a version 4 UUID', () => {
+
+            assert.match(generator.keyToString(generator.generate()), /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+        });
+    });
+
+    describe('validate', () => {
+
+        it('returns true if value is a UUID', () => {
+
+            assert.isTrue(generator.validate(generator.generate()));
+        });
+
+        it('returns false if value is a Binary with a different subtype', () => {
+
+            assert.isFalse(generator.validate(new Binary(Buffer.from(new Array(16)), 0)));
+        });
+
+        it('does not modify the value', () => {
+
+            var value = new Binary(Buffer.from("3b241101e2bb42558caf4136c566a962", "hex"), 4),
+                toString = value.toString;
+
+            assert.isTrue(generator.validate(value));
+            assert.equal(value.toString, toString);
+        });
+    });
+
+    describe('keyToString', () => {
+
+        it('returns the canonical string representation of a Binary read from the database', () => {
+
+            var text = "3b241101-e2bb-4255-8caf-4136c566a962",
+                value = new Binary(Buffer.from(text.replace(/-/g, ""), "hex"), 4);
+
+            assert.equal(generator.keyToString(value), text);
+        });
+    });
+
+    describe('fromString', () => {
+
+        it('returns null if value is not a valid UUID', () => {
+
+            assert.isNull(generator.fromString("Foo"));
+        });
+
+        it('returns the UUID for a valid string representation of a UUID', () => {
+
+            var text = "3b241101-e2bb-4255-8caf-4136c566a962";
+            assert.equal(generator.keyToString(generator.fromString(text)), text);
+        });
+    });
+
+    describe('areEqual', () => {
+
+        it('returns true if UUIDs have the same value', () => {
+
+            var text = "3b241101-e2bb-4255-8caf-4136c566a962";
+            assert.isTrue(generator.areEqual(generator.fromString(text), generator.fromString(text)));
+        });
+
+        it('returns false if UUIDs have different values', () => {
+
+            assert.isFalse(generator.areEqual(generator.generate(), generator.generate()));
+        });
+    });
+});
@@ -0,0 +1,108 @@
+import {assert} from "chai";
+import * as async from "async";
+import {LruCacheStore} from "../src/config/lruCacheStore";
+
+describe('LruCacheStore', () => {
+
+    describe('get', () => {
+
+        it('returns the value that was set for the key in the region', (done) => {
+
+            var store = new LruCacheStore();
+
+            store.set("countries", "ca", { name: "Canada" }, (err) => {
+                if (err) return done(err);
+
+                store.get("countries", "ca", (err, value) => {
+                    if (err) return done(err);
+
+                    assert.deepEqual(value, { name: "Canada" });
+                    done();
+                });
+            });
+        });
+
+        it('returns undefined if the key is not in the region', (done) => {
+
+            var store = new LruCacheStore();
+
+            store.set("countries", "ca", { name: "Canada" }, (err) => {
+                if (err) return done(err);
+
+                store.get("products", "ca", (err, value) => {
+                    if (err) return done(err);
+
+                    assert.isUndefined(value);
+                    done();
+                });
+            });
+        });
+    });
+
+    describe('set', () => {
+
+        it('discards the least recently used value when the store is full', (done) => {
+
+            var store = new LruCacheStore(2);
+
+            async.series([
+                (next: any) => store.set("countries", "ca", "Canada", next),
+                (next: any) => store.set("countries", "mx", "Mexico", next),
+                (next: any) => store.get("countries", "ca", next),
+                (next: any) => store.set("countries", "us", "United States", next),
+                (next: any) => store.get("countries", "ca", next),
+                (next: any) => store.get("countries", "mx", next)
+            ], (err, results) => {
+                if (err) return done(err);
+
+                assert.equal(store.size, 2);
+                assert.equal(results[4], "Canada");
+                assert.isUndefined(results[5]);
+                done();
+            });
+        });
+    });
+
+    describe('remove', () => {
+
+        it('removes the value for the key in the region', (done) => {
+
+            var store = new LruCacheStore();
+
+            async.series([
+                (next: any) => store.set("countries", "ca", "Canada", next),
+                (next: any) => store.set("countries", "mx", "Mexico", next),
+                (next: any) => store.remove("countries", "ca", next),
+                (next: any) => store.get("countries", "ca", next)
+            ], (err, results) => {
+                if (err) return done(err);
+
+                assert.equal(store.size, 1);
+                assert.isUndefined(results[3]);
+                done();
+            });
+        });
+    });
+
+    describe('clear', () => {
+
+        it('removes all values in the region', (done) => {
+
+            var store = new LruCacheStore();
+
+            async.series([
+                (next: any) => store.set("countries", "ca", "Canada", next),
+                (next: any) => store.set("products", "ca", "Maple syrup", next),
+                (next: any) => store.set("countries", "mx", "Mexico", next),
+                (next: any) => store.clear("countries", next),
+                (next: any) => store.get("products", "ca", next)
+            ], (err, results) => {
+                if (err) return done(err);
+
+                assert.equal(store.size, 1);
+                assert.equal(results[4], "Maple syrup");
+                done();
+            });
+        });
+    });
+});
@@ -0,0 +1,99 @@
+import {assert} from "chai";
+import {
+    RequiredConstraint,
+    LengthConstraint,
+    MinConstraint,
+    MaxConstraint,
+    PatternConstraint,
+    FunctionConstraint
+} from "../../src/mapping/constraint";
+
+describe('RequiredConstraint', () => {
+
+    it('returns a message if the value is null, undefined, or an empty string', () => {
+
+        var constraint = new RequiredConstraint();
+
+        assert.equal(constraint.validate(null), "Value is required.");
+        assert.equal(constraint.validate(undefined), "Value is required.");
+        assert.equal(constraint.validate(""), "Value is required.");
+        assert.isUndefined(constraint.validate(0));
+        assert.isUndefined(constraint.validate(false));
+    });
+});
+
+describe('LengthConstraint', () => {
+
+    it('returns a message if the length of a string or array is out of range', () => {
+
+        var constraint = new LengthConstraint(2, 3);
+
+        assert.equal(constraint.validate("a"), "Length must be between 2 and 3.");
+        assert.equal(constraint.validate([1, 2, 3, 4]), "Length must be between 2 and 3.");
+        assert.isUndefined(constraint.validate("abc"));
+        assert.equal(new LengthConstraint(2).validate("a"), "Length must be at least 2.");
+    });
+
+    it('ignores values that do not have a length', () => {
+
+        var constraint = new LengthConstraint(2);
+
+        assert.isUndefined(constraint.validate(null));
+        assert.isUndefined(constraint.validate(5));
+    });
+});
+
+describe('MinConstraint', () => {
+
+    it('returns a message if the number is less than the minimum', () => {
+
+        var constraint = new MinConstraint(1);
+
+        assert.equal(constraint.validate(0), "Value must be greater than or equal to 1.");
+        assert.isUndefined(constraint.validate(1));
+        assert.isUndefined(constraint.validate(null));
+    });
+});
+
+describe('MaxConstraint', () => {
+
+    it('returns a message if the number is greater than the maximum', () => {
+
+        var constraint = new MaxConstraint(10);
+
+        assert.equal(constraint.validate(11), "Value must be less than or equal to 10.");
+        assert.isUndefined(constraint.validate(10));
+        assert.isUndefined(constraint.validate(null));
+    });
+});
+
+describe('PatternConstraint', () => {
+
+    it('returns a message if the string does not match the pattern', () => {
+
+        var constraint = new PatternConstraint(/^[a-z]+$/g);
+
+        assert.equal(constraint.validate("abc1"), "Value does not match pattern /^[a-z]+$/g.");
+        assert.isUndefined(constraint.validate("abc"));
+        // a global expression must not keep state between values
+        assert.isUndefined(constraint.validate("abc"));
+    });
+});
+
+describe('FunctionConstraint', () => {
+
+    it('returns the message returned by the function or a default message if the function returns false', () => {
+
+        assert.equal(new FunctionConstraint(value => "Not allowed.").validate(1), "Not allowed.");
+        assert.equal(new FunctionConstraint(value => false).validate(1), "Value is invalid.");
+        assert.isUndefined(new FunctionConstraint(value => true).validate(1));
+    });
+
+    it('does not call the function if the value is null or undefined', () => {
+
+        var called = false;
+        new FunctionConstraint(value => called = true).validate(undefined);
+
+        assert.isFalse(called);
+    });
+});
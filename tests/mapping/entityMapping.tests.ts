@@ -4,6 +4,13 @@ import * as model from "../fixtures/model";
 import {EntityMapping} from "../../src/mapping/entityMapping";
 import {ObjectIdGenerator} from "../../src/config/objectIdGenerator";
 import {FlushPriority} from "../../src/mapping/mappingModel";
+import {WriteContext} from "../../src/mapping/writeContext";
+import * as identityModel from "../fixtures/annotations/identity";
+import * as dbRefModel from "../fixtures/annotations/dbRef";
+import {ReadContext} from "../../src/mapping/readContext";
+import {Reference} from "../../src/reference";
+import {DBRef} from "mongodb";
+import {InternalSession} from "../../src/session";
 
 describe('EntityMapping', () => {
 
@@ -52,6 +59,105 @@ describe('EntityMapping', () => {
             assert.isTrue(mapping.areEqual({ _id: id }, id));
             assert.isTrue(mapping.areEqual(id, { _id: id }));
         });
+
+        it('returns true if both arguments are DBRefs with the same identifier', () => {
+
+            var mapping = createMapping();
+            var id = helpers.generateId();
+            assert.isTrue(mapping.areEqual(new DBRef("people", id), new DBRef("people", id)));
+            assert.isFalse(mapping.areEqual(new DBRef("people", id), new DBRef("people", helpers.generateId())));
+        });
+    });
+
+    describe('read', () => {
+
+        it('returns a reference for a DBRef to the collection of the entity', (done) => {
+
+            readReference(new DBRef("accounts", helpers.generateId(), "legacy"), done, (value, context, id) => {
+
+                assert.isUndefined(context.hasErrors);
+                assert.instanceOf(value, Reference);
+                assert.equal(value.id, id.toString());
+            });
+        });
+
+        it('returns a reference for a DBRef stored as a plain document', (done) => {
+
+            readReference({ $ref: "accounts", $id: helpers.generateId() }, done, (value, context, id) => {
+
+                assert.isUndefined(context.hasErrors);
+                assert.equal(value.id, id.toString());
+            });
+        });
+
+        it('adds an error to the context if the DBRef is to a different collection', (done) => {
+
+            readReference(new DBRef("users", helpers.generateId()), done, (value, context) => {
+
+                assert.isTrue(context.hasErrors);
+                assert.include(context.getErrorMessage(), "DBRef to collection 'users' does not reference the collection for entity 'Account'");
+            });
+        });
+
+        it('adds an error to the context if the DBRef is to a different database', (done) => {
+
+            readReference(new DBRef("accounts", helpers.generateId(), "other"), done, (value, context) => {
+
+                assert.isTrue(context.hasErrors);
+                assert.include(context.getErrorMessage(), "DBRef to collection 'other.accounts'");
+            });
+        });
+    });
+
+    describe('write', () => {
+
+        it('writes a reference as a DBRef if the property stores DBRefs', (done) => {
+
+            helpers.createFactory("annotations/dbRef", (err, factory) => {
+                if (err) return done(err);
+
+                var mapping = factory.getMappingForConstructor(dbRefModel.Customer),
+                    account = new dbRefModel.Account(),
+                    entity = new dbRefModel.Customer(),
+                    context = new WriteContext();
+
+                helpers.setIdentifier(account, helpers.generateId());
+                helpers.setIdentifier(entity, helpers.generateId());
+                entity.account = account;
+                entity.previousAccounts = [account];
+                entity.primaryAccount = account;
+
+                var document = mapping.write(context, entity);
+                if (context.hasErrors) return done(new Error(context.getErrorMessage()));
+
+                assert.instanceOf(document.account, DBRef);
+                assert.equal(document.account.namespace, "accounts");
+                assert.equal(document.account.db, "legacy");
+                assert.equal(document.account.oid, account._id);
+                assert.instanceOf(document.previousAccounts[0], DBRef);
+                assert.equal(document.primaryAccount, account._id);
+                done();
+            });
+        });
+
+        it('returns an error if the value of the identity property was changed', (done) => {
+
+            helpers.createFactory("annotations/identity", (err, factory) => {
+                if (err) return done(err);
+
+                var mapping = factory.getMappingForConstructor(identityModel.Country),
+                    entity = new identityModel.Country(),
+                    context = new WriteContext();
+
+                entity.code = "CA";
+                helpers.setIdentifier(entity, "US");
+
+                mapping.write(context, entity);
+                assert.isTrue(context.hasErrors);
+                assert.include(context.getErrorMessage(), "The value of identity property 'code' cannot be changed");
+                done();
+            });
+        });
     });
 });
 
@@ -61,4 +167,18 @@ function createMapping(): EntityMapping {
     mapping.inheritanceRoot = mapping;
     mapping.identity = new ObjectIdGenerator();
     return mapping;
-}
\ No newline at end of file
+}
+
+function readReference(value: any, done: (err?: Error) => void, callback: (value: any, context: ReadContext, id: any) => void): void {
+
+    helpers.createFactory("annotations/dbRef", (err, factory) => {
+        if (err) return done(err);
+
+        var mapping = factory.getMappingForConstructor(dbRefModel.Account),
+            context = new ReadContext(<InternalSession>factory.createSession());
+
+        context.path = "account";
+        callback(mapping.read(context, value), context, value.oid || value.$id);
+        done();
+    });
+}
@@ -0,0 +1,68 @@
+import {assert} from "chai";
+import {KeyedMapMapping} from "../../src/mapping/keyedMapMapping";
+import {ObjectMapping} from "../../src/mapping/objectMapping";
+import {StringMapping} from "../../src/mapping/stringMapping";
+import {Property} from "../../src/mapping/property";
+import {ReadContext} from "../../src/mapping/readContext";
+import {WriteContext} from "../../src/mapping/writeContext";
+
+describe('KeyedMapMapping', () => {
+
+    describe('read', () => {
+
+        it('reads an array as a Map keyed by the key property', () => {
+
+            var mapping = createMapping();
+            var context = new ReadContext(null);
+
+            var result = mapping.read(context, [{ locale: "en", title: "Hello" }, { locale: "fr", title: "Bonjour" }]);
+
+            assert.instanceOf(result, Map);
+            assert.equal(result.get("en").title, "Hello");
+            assert.equal(result.get("fr").title, "Bonjour");
+        });
+    });
+
+    describe('write', () => {
+
+        it('writes a Map as an array of the values', () => {
+
+            var mapping = createMapping();
+            var context = new WriteContext();
+
+            var value = new Map();
+            value.set("en", { locale: "en", title: "Hello" });
+
+            assert.deepEqual(mapping.write(context, value), [{ locale: "en", title: "Hello" }]);
+            assert.isUndefined(context.hasErrors);
+        });
+
+        it('adds error to context if the key does not match the value of the key property', () => {
+
+            var mapping = createMapping();
+            var context = new WriteContext();
+
+            var value = new Map();
+            value.set("fr", { locale: "en", title: "Hello" });
+
+            mapping.write(context, value);
+            assert.isTrue(context.hasErrors);
+        });
+    });
+});
+
+function createMapping(): KeyedMapMapping {
+
+    var objectMapping = new ObjectMapping();
+    addProperty(objectMapping, "locale");
+    addProperty(objectMapping, "title");
+
+    return new KeyedMapMapping(objectMapping, "locale");
+}
+
+function addProperty(mapping: ObjectMapping, name: string): void {
+
+    var property = new Property(name, new StringMapping());
+    property.field = name;
+    mapping.addProperty(property);
+}
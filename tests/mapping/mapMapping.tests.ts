@@ -0,0 +1,80 @@
+import {assert} from "chai";
+import {MapMapping} from "../../src/mapping/mapMapping";
+import {StringMapping} from "../../src/mapping/stringMapping";
+import {ReadContext} from "../../src/mapping/readContext";
+import {WriteContext} from "../../src/mapping/writeContext";
+import {Changes} from "../../src/mapping/changes";
+
+describe('MapMapping', () => {
+
+    describe('read', () => {
+
+        it('reads a document as a Map', () => {
+
+            var mapping = new MapMapping(new StringMapping());
+            var context = new ReadContext(null);
+
+            var result = mapping.read(context, { en: "Hello", fr: "Bonjour" });
+
+            assert.instanceOf(result, Map);
+            assert.equal(result.get("en"), "Hello");
+            assert.equal(result.get("fr"), "Bonjour");
+        });
+    });
+
+    describe('write', () => {
+
+        it('writes a Map as a document', () => {
+
+            var mapping = new MapMapping(new StringMapping());
+            var context = new WriteContext();
+
+            var value = new Map();
+            value.set("en", "Hello");
+            value.set("fr", "Bonjour");
+
+            assert.deepEqual(mapping.write(context, value), { en: "Hello", fr: "Bonjour" });
+            assert.isUndefined(context.hasErrors);
+        });
+
+        it('adds error to context if a key contains a path separator', () => {
+
+            var mapping = new MapMapping(new StringMapping());
+            var context = new WriteContext();
+
+            var value = new Map();
+            value.set("en.us", "Hello");
+
+            mapping.write(context, value);
+            assert.isTrue(context.hasErrors);
+        });
+    });
+
+    describe('getChanges', () => {
+
+        it('sets and unsets individual entries', () => {
+
+            var mapping = new MapMapping(new StringMapping());
+            var changes: Changes = {};
+
+            mapping.getChanges({ en: "Hello", fr: "Bonjour" }, { en: "Hi", de: "Hallo" }, "title", changes);
+
+            assert.deepEqual(changes, {
+                $set: { "title.en": "Hi", "title.de": "Hallo" },
+                $unset: { "title.fr": 1 }
+            });
+        });
+    });
+
+    describe('resolve', () => {
+
+        it('resolves the key of an entry to a field', () => {
+
+            var mapping = new MapMapping(new StringMapping());
+            var context = mapping.resolve("en");
+
+            assert.isUndefined(context.error);
+            assert.equal(context.resolvedPath, "en");
+        });
+    });
+});
@@ -0,0 +1,105 @@
+import {assert} from "chai";
+import * as helpers from "../helpers";
+import * as model from "../fixtures/annotations/polymorphic";
+import {PolymorphicReferenceMapping} from "../../src/mapping/polymorphicReferenceMapping";
+import {ReadContext} from "../../src/mapping/readContext";
+import {WriteContext} from "../../src/mapping/writeContext";
+import {Reference} from "../../src/reference";
+import {InternalSession} from "../../src/session";
+import {MockSessionFactory} from "../mockSessionFactory";
+
+describe('PolymorphicReferenceMapping', () => {
+
+    describe('write', () => {
+
+        it('writes the identifier and the collection of the referenced entity', (done) => {
+
+            createMapping(done, (mapping) => {
+
+                var post = createEntity(new model.Post()),
+                    photo = createEntity(new model.Photo()),
+                    context = new WriteContext("target");
+
+                assert.deepEqual(mapping.write(context, post), { _id: post._id, type: "post" });
+                assert.deepEqual(mapping.write(context, photo), { _id: photo._id, type: "photo" });
+                assert.isUndefined(context.hasErrors);
+            });
+        });
+
+        it('adds error to context if the value is not one of the target entities', (done) => {
+
+            createMapping(done, (mapping) => {
+
+                var context = new WriteContext("target");
+
+                mapping.write(context, createEntity(new model.Comment()));
+                assert.isTrue(context.hasErrors);
+                assert.include(context.getErrorMessage(), "Expected reference to entity of type 'Post', 'Photo'");
+            });
+        });
+    });
+
+    describe('read', () => {
+
+        it('returns a reference bound to the mapping for the type of the entity', (done) => {
+
+            createMapping(done, (mapping, factory) => {
+
+                var context = new ReadContext(<InternalSession>factory.createSession()),
+                    id = helpers.generateId();
+
+                context.path = "target";
+
+                var result = mapping.read(context, { _id: id, type: "photo" });
+                assert.instanceOf(result, Reference);
+                assert.equal((<Reference>result).mapping, factory.getMappingForConstructor(model.Photo));
+                assert.equal((<Reference>result).id, id.toString());
+            });
+        });
+
+        it('adds error to context if the type is not one of the target entities', (done) => {
+
+            createMapping(done, (mapping, factory) => {
+
+                var context = new ReadContext(<InternalSession>factory.createSession());
+
+                context.path = "target";
+
+                mapping.read(context, { _id: helpers.generateId(), type: "comment" });
+                assert.isTrue(context.hasErrors);
+                assert.include(context.getErrorMessage(), "Unknown entity type 'comment' for reference");
+            });
+        });
+    });
+
+    describe('areEqual', () => {
+
+        it('returns true if the type and identifier of the references are equal', (done) => {
+
+            createMapping(done, (mapping) => {
+
+                var id = helpers.generateId();
+
+                assert.isTrue(mapping.areEqual({ _id: id, type: "post" }, { _id: id, type: "post" }));
+                assert.isFalse(mapping.areEqual({ _id: id, type: "post" }, { _id: id, type: "photo" }));
+                assert.isFalse(mapping.areEqual({ _id: id, type: "post" }, { _id: helpers.generateId(), type: "post" }));
+            });
+        });
+    });
+});
+
+function createMapping(done: (err?: Error) => void, callback: (mapping: PolymorphicReferenceMapping, factory: MockSessionFactory) => void): void {
+
+    helpers.createFactory("annotations/polymorphic", (err, factory) => {
+        if (err) return done(err);
+
+        callback(<PolymorphicReferenceMapping>factory.getMappingForConstructor(model.Comment).getProperty("target").mapping, factory);
+        done();
+    });
+}
+
+function createEntity<T>(entity: T): T {
+
+    helpers.setIdentifier(entity, helpers.generateId());
+    return entity;
+}
@@ -1,14 +1,21 @@
 import {assert} from "chai";
 import {AnnotationMappingProvider} from "../../../src/mapping/providers/annotationMappingProvider";
 import {Configuration} from "../../../src/config/configuration";
-import {MappingModel, FlushPriority} from "../../../src/mapping/mappingModel";
+import {MappingModel, FlushPriority, LifecycleEvent} from "../../../src/mapping/mappingModel";
 import {EnumMapping} from "../../../src/mapping/enumMapping";
 import {EntityMapping} from "../../../src/mapping/entityMapping";
+import {SetMapping} from "../../../src/mapping/setMapping";
+import {MapMapping} from "../../../src/mapping/mapMapping";
+import {KeyedMapMapping} from "../../../src/mapping/keyedMapMapping";
+import {PolymorphicReferenceMapping} from "../../../src/mapping/polymorphicReferenceMapping";
+import {ArrayMapping} from "../../../src/mapping/arrayMapping";
 import {EnumType} from "../../../src/mapping/enumType";
 import {PropertyConverter} from "../../../src/mapping/mappingModel";
 import * as ConverterFixture from "../../fixtures/annotations/converter";
 import * as CircularReferenceFixture from "../../fixtures/annotations/circularReference1";
 import * as ConverterOnClassFixture from "../../fixtures/annotations/converterOnClass";
+import * as IdentityFixture from "../../fixtures/annotations/identity";
+import {NaturalKeyGenerator} from "../../../src/config/naturalKeyGenerator";
 import {requireFiles, findMapping} from "../../helpers";
 import {Callback} from "../../../src/core/callback";
 import {Property} from "../../../src/mapping/property";
@@ -114,6 +121,19 @@ describe('AnnotationMappingProvider', () => {
                     assert.equal(findMapping(results, "A").collectionName, "namespace.a");
                 });
             });
+
+            it('uses the write concern in the collection options before the write concern in the configuration', (done) => {
+
+                var config = new Configuration();
+
+                config.writeConcern = { w: 1 };
+
+                processFixtureWithConfiguration("collectionWriteConcern", config, done, (results) => {
+
+                    assert.deepEqual(findMapping(results, "A").writeConcern, { w: 1 });
+                    assert.deepEqual(findMapping(results, "B").writeConcern, { w: "majority", wtimeout: undefined, j: true });
+                });
+            });
         });
 
         describe('@index', () => {
@@ -271,6 +291,24 @@ describe('AnnotationMappingProvider', () => {
                 });
             });
 
+            it("creates a SetMapping for a property of type Set", (done) => {
+
+                processFixture("set", done, (results) => {
+
+                    var mapping = findMapping(results, "A").getProperty("field2").mapping;
+                    assert.instanceOf(mapping, SetMapping);
+                    assert.isTrue(mapping.hasFlags(MappingModel.MappingFlags.Iterable));
+                });
+            });
+
+            it("creates a MapMapping for a property of type Map", (done) => {
+
+                processFixture("map", done, (results) => {
+
+                    assert.instanceOf(findMapping(results, "Article").getProperty("tags").mapping, MapMapping);
+                });
+            });
+
             /*
              // Disabled because emitDecoratorMetadata breaks the script when compiled with ES6
             it("throws error if target cannot be found", (done) => {
@@ -284,6 +322,173 @@ describe('AnnotationMappingProvider', () => {
             */
         });
 
+        describe('@mapKey', () => {
+
+            it("creates a KeyedMapMapping with the name of the key property", (done) => {
+
+                processFixture("map", done, (results) => {
+
+                    var mapping = <KeyedMapMapping>findMapping(results, "Article").getProperty("translations").mapping;
+                    assert.instanceOf(mapping, KeyedMapMapping);
+                    assert.equal(mapping.keyPropertyName, "locale");
+                });
+            });
+
+            it("throws error if placed on a property that is not a Map", (done) => {
+
+                processFixture("mapKeyOnArray", (err) => {
+                    assert.ok(err);
+                    assert.include(err.message, "@MapKey can only be used on properties of type 'Map'");
+                    done();
+                });
+            });
+        });
+
+        describe('@polymorphic', () => {
+
+            it("creates a PolymorphicReferenceMapping with the mappings for the target entities", (done) => {
+
+                processFixture("polymorphic", done, (results) => {
+
+                    var mapping = <PolymorphicReferenceMapping>findMapping(results, "Comment").getProperty("target").mapping;
+                    assert.instanceOf(mapping, PolymorphicReferenceMapping);
+                    assert.deepEqual(mapping.targetMappings, [findMapping(results, "Post"), findMapping(results, "Photo")]);
+                });
+            });
+
+            it("uses a PolymorphicReferenceMapping for the elements of an array", (done) => {
+
+                processFixture("polymorphic", done, (results) => {
+
+                    var mapping = <ArrayMapping>findMapping(results, "Comment").getProperty("related").mapping;
+                    assert.instanceOf(mapping, ArrayMapping);
+                    assert.instanceOf(mapping.elementMapping, PolymorphicReferenceMapping);
+                });
+            });
+
+            it("throws error if a target is not an entity", (done) => {
+
+                processFixture("polymorphicEmbeddable", (err) => {
+                    assert.ok(err);
+                    assert.include(err.message, "Targets of @Polymorphic must be entities");
+                    done();
+                });
+            });
+        });
+
+        describe('@id', () => {
+
+            it("maps the property to the _id field and sets it as the identity property", (done) => {
+
+                processFixture("identity", done, (results) => {
+
+                    var mapping = findMapping(results, "Country");
+                    assert.equal(mapping.getProperty("code").field, "_id");
+                    assert.strictEqual(mapping.identityProperty, mapping.getProperty("code"));
+                    assert.instanceOf(mapping.identity, NaturalKeyGenerator);
+                });
+            });
+        });
+
+        describe('@identity', () => {
+
+            it("sets the identity generator for the entity", (done) => {
+
+                processFixture("identity", done, (results) => {
+
+                    assert.instanceOf(findMapping(results, "Invoice").identity, IdentityFixture.AsyncIdentityGenerator);
+                });
+            });
+        });
+
+        describe('@cacheable', () => {
+
+            it("marks the entity as cacheable", (done) => {
+
+                processFixture("cacheable", done, (results) => {
+
+                    assert.isTrue(findMapping(results, "Country").cacheable);
+                    assert.notOk(findMapping(results, "Address").cacheable);
+                });
+            });
+        });
+
+        describe('@softDelete', () => {
+
+            it("sets the field that marks a document as deleted", (done) => {
+
+                processFixture("softDelete", done, (results) => {
+
+                    assert.equal(findMapping(results, "Invoice").softDeleteField, "deletedAt");
+                    assert.equal(findMapping(results, "Payment").softDeleteField, "removedOn");
+                });
+            });
+        });
+
+        describe('@required', () => {
+
+            it("adds the constraints to the property", (done) => {
+
+                processFixture("validation", done, (results) => {
+
+                    var mapping = findMapping(results, "Customer");
+                    assert.lengthOf(mapping.getProperty("name").constraints, 2);
+                    assert.lengthOf(mapping.getProperty("age").constraints, 2);
+                    assert.isUndefined(mapping.getProperty("address").constraints);
+                });
+            });
+        });
+
+        describe('@filter', () => {
+
+            it("adds the filters to the entity", (done) => {
+
+                processFixture("filter", done, (results) => {
+
+                    var filters = findMapping(results, "Account").getFilters();
+                    assert.lengthOf(filters, 2);
+                    assert.deepEqual(filters.filter(filter => filter.name == "tenant")[0].criteria, { tenant: ":tenant" });
+                    assert.deepEqual(filters.filter(filter => filter.name == "active")[0].criteria, { closedOn: null });
+                });
+            });
+
+            it("includes the filters of the base class in the filters for a subclass", (done) => {
+
+                processFixture("filter", done, (results) => {
+
+                    var names = findMapping(results, "SavingsAccount").getFilters().map(filter => filter.name);
+                    assert.sameMembers(names, ["highInterest", "tenant", "active"]);
+                });
+            });
+        });
+
+        describe("@inverseOf", () => {
+
+            it("sets the options used to fetch the inverse side of the relationship", (done) => {
+
+                processFixture("inverseOf", done, (results) => {
+
+                    var mapping = findMapping(results, "Customer");
+                    assert.equal(mapping.getProperty("orders").inverseOf, "customer");
+                    assert.isUndefined(mapping.getProperty("orders").inverseOfOptions);
+                    assert.deepEqual(mapping.getProperty("recentOrders").inverseOfOptions, {
+                        orderBy: [["created", -1]],
+                        where: { status: "open" },
+                        limit: 10
+                    });
+                });
+            });
+
+            it("throws error if the limit is not a positive number", (done) => {
+
+                processFixture("inverseOfInvalidLimit", (err) => {
+                    assert.ok(err);
+                    assert.include(err.message, "Invalid value for 'limit'");
+                    done();
+                });
+            });
+        });
+
         describe("@cascade", () => {
 
             // There was a bug where switch was missing break and @cascade fell through to @field, setting the name of the field
@@ -295,6 +500,26 @@ describe('AnnotationMappingProvider', () => {
                     assert.equal(mapping.getProperty("b").field, "b");
                 });
             });
+
+            it("sets the orphan removal flag if the option is specified", (done) => {
+
+                processFixture("orphanRemoval", done, (results) => {
+
+                    var mapping = findMapping(results, "Invoice");
+                    assert.isTrue(mapping.getProperty("lines").hasFlags(MappingModel.PropertyFlags.OrphanRemoval));
+                    assert.isTrue(mapping.getProperty("summary").hasFlags(MappingModel.PropertyFlags.OrphanRemoval));
+                    assert.isFalse(mapping.getProperty("notes").hasFlags(MappingModel.PropertyFlags.OrphanRemoval));
+                });
+            });
+
+            it("throws error if orphan removal is specified on a property that does not reference an entity", (done) => {
+
+                processFixture("orphanRemovalOnValue", (err) => {
+                    assert.ok(err);
+                    assert.include(err.message, "Orphan removal is only supported for references to entities");
+                    done();
+                });
+            });
         });
 
         describe('@field', () => {
@@ -352,6 +577,26 @@ describe('AnnotationMappingProvider', () => {
                     assert.isFalse(findMapping(results, "A").getProperty("c").hasFlags(MappingModel.PropertyFlags.WriteOnly));
                 });
             });
+
+            it("sets the DbRef flag on the property if `reference` is `dbref`", (done) => {
+
+                processFixture("dbRef", done, (results) => {
+
+                    var mapping = findMapping(results, "Customer");
+                    assert.isTrue(mapping.getProperty("account").hasFlags(MappingModel.PropertyFlags.DbRef));
+                    assert.isTrue(mapping.getProperty("previousAccounts").hasFlags(MappingModel.PropertyFlags.DbRef));
+                    assert.isFalse(mapping.getProperty("primaryAccount").hasFlags(MappingModel.PropertyFlags.DbRef));
+                });
+            });
+
+            it("returns an error if `reference` is specified on a property that does not reference an entity", (done) => {
+
+                processFixture("dbRefOnValue", (err) => {
+                    assert.ok(err);
+                    assert.include(err.message, "Option 'reference' can only be specified for properties that reference entities");
+                    done();
+                });
+            });
         });
 
         describe('@parent', () => {
@@ -473,6 +718,38 @@ describe('AnnotationMappingProvider', () => {
                 });
             }
         });
+
+        describe('@prePersist', () => {
+
+            it("adds callbacks defined on the entity and mapped superclass, base class first", (done) => {
+
+                processFixture("lifecycle", done, (results) => {
+
+                    var mapping = findMapping(results, "B");
+                    var calls: string[] = [];
+                    var entity: any = {
+                        onPrePersist: () => calls.push("onPrePersist"),
+                        onPrePersistOverridden: () => calls.push("onPrePersistOverridden"),
+                        onPostLoad: () => calls.push("onPostLoad")
+                    };
+
+                    mapping.invokeLifecycleCallbacks(LifecycleEvent.PrePersist, entity);
+                    assert.deepEqual(calls, ["onPrePersist", "onPrePersistOverridden"]);
+
+                    assert.isTrue(mapping.hasLifecycleCallbacks(LifecycleEvent.PostLoad));
+                    assert.isFalse(mapping.hasLifecycleCallbacks(LifecycleEvent.PreUpdate));
+                });
+            });
+
+            it("throws error if placed on an embeddable", (done) => {
+
+                processFixture("lifecycleOnEmbeddable", (err) => {
+                    assert.ok(err);
+                    assert.include(err.message, "Invalid annotation @PrePersist: Annotation can only be defined on entities.");
+                    done();
+                });
+            });
+        });
     });
 });
 
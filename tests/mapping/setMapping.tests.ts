@@ -0,0 +1,56 @@
+import {assert} from "chai";
+import {SetMapping} from "../../src/mapping/setMapping";
+import {StringMapping} from "../../src/mapping/stringMapping";
+import {ReadContext} from "../../src/mapping/readContext";
+import {WriteContext} from "../../src/mapping/writeContext";
+import {Observer} from "../../src/observer";
+
+describe('SetMapping', () => {
+
+    describe('read', () => {
+
+        it('reads an array as a Set', () => {
+
+            var mapping = new SetMapping(new StringMapping());
+            var context = new ReadContext(null);
+
+            var result = mapping.read(context, ["a", "b"]);
+
+            assert.instanceOf(result, Set);
+            assert.isTrue(result.has("a"));
+            assert.isTrue(result.has("b"));
+        });
+    });
+
+    describe('write', () => {
+
+        it('writes a Set as an array', () => {
+
+            var mapping = new SetMapping(new StringMapping());
+            var context = new WriteContext();
+
+            assert.deepEqual(mapping.write(context, new Set(["a", "b"])), ["a", "b"]);
+            assert.isUndefined(context.hasErrors);
+        });
+
+        it('adds error to context if value is not a Set', () => {
+
+            var mapping = new SetMapping(new StringMapping());
+            var context = new WriteContext();
+
+            mapping.write(context, "a");
+            assert.isTrue(context.hasErrors);
+        });
+    });
+
+    describe('watch', () => {
+
+        it('returns the same Set', () => {
+
+            var mapping = new SetMapping(new StringMapping());
+            var set = new Set(["a"]);
+
+            assert.strictEqual(mapping.watch(set, new Observer(), []), set);
+        });
+    });
+});
@@ -33,7 +33,7 @@ export class MockInternalSession extends EventEmitter implements InternalSession
         }
     }
 
-    save(obj: Object, callback?: Callback): void {
+    save(obj: Object, callback?: Callback): any {
 
         this.saved.push(obj);
         if (!(<any>obj)._id) {
@@ -46,29 +46,52 @@ export class MockInternalSession extends EventEmitter implements InternalSession
         }
     }
 
-    remove(obj: Object, callback?: Callback): void {
+    remove(obj: Object, callback?: Callback): any {
         if (callback) {
             process.nextTick(callback);
         }
     }
 
-    detach(obj: Object, callback?: Callback): void {
+    detach(obj: Object, callback?: Callback): any {
         if (callback) {
             process.nextTick(callback);
         }
     }
 
-    refresh(obj: Object, callback: Callback): void {
+    refresh(obj: Object, callback?: Callback): any {
         process.nextTick(callback);
     }
 
-    flush(callback?: Callback): void {
+    restore(obj: Object, callback?: Callback): any {
         if (callback) {
             process.nextTick(callback);
         }
     }
 
-    clear(callback?: Callback): void {
+    merge<T>(obj: T, callback?: ResultCallback<T>): any {
+        if (callback) {
+            process.nextTick(() => callback(null, obj));
+        }
+    }
+
+    flush(optionsOrCallback?: any, callback?: Callback): any {
+        if (typeof optionsOrCallback === "function") {
+            callback = optionsOrCallback;
+        }
+        if (callback) {
+            process.nextTick(callback);
+        }
+    }
+
+    transaction(work: (callback: Callback) => void, callback?: Callback): any {
+        work((err) => {
+            if (callback) {
+                callback(err);
+            }
+        });
+    }
+
+    clear(callback?: Callback): any {
         if (callback) {
             process.nextTick(callback);
         }
@@ -98,7 +121,7 @@ export class MockInternalSession extends EventEmitter implements InternalSession
         throw new Error("Not implemented");
     }
 
-    fetch<T>(obj: T, pathsOrCallback: any, callback?: ResultCallback<T>): void {
+    fetch<T>(obj: T, pathsOrCallback?: any, callback?: ResultCallback<T>): any {
 
         var paths: string[];
 
@@ -121,13 +144,13 @@ export class MockInternalSession extends EventEmitter implements InternalSession
         return new MockQueryBuilder<T>(this, ctr);
     }
 
-    wait(callback?: Callback): void {
+    wait(callback?: Callback): any {
         if (callback) {
             process.nextTick(callback);
         }
     }
 
-    close(callback?: Callback): void {
+    close(callback?: Callback): any {
         if (callback) {
             process.nextTick(callback);
         }
@@ -144,7 +167,7 @@ export class MockInternalSession extends EventEmitter implements InternalSession
         return false;
     }
 
-    exists<T>(ctr: Constructor<T>, id: any, callback: ResultCallback<boolean>): void {
+    exists<T>(ctr: Constructor<T>, id: any, callback?: ResultCallback<boolean>): any {
 
         for (let i = 0; i < this._collection.length; i++) {
             if (this._collection[i].id == id) {
@@ -179,7 +202,22 @@ export class MockInternalSession extends EventEmitter implements InternalSession
         return undefined;
     }
 
-    registerManaged(persister: Persister, entity: Object, document: any): void {
+    filters: Map<string, Object> = new Map();
+
+    enableFilter(name: string, parameters?: Object): void {
+        this.filters.set(name, parameters || {});
+    }
+
+    disableFilter(name: string): void {
+        this.filters.delete(name);
+    }
+
+    getFilterParameters(name: string): Object {
+        return this.filters.get(name);
+    }
+
+    registerManaged(persister: Persister, entity: Object, document: any, readOnly?: boolean): any {
+        return entity;
     }
 
     notifyRemoved(entity: Object): void {
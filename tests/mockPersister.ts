@@ -10,6 +10,7 @@ import {QueryDefinition} from "../src/query/queryDefinition";
 import {Observer} from "../src/observer";
 import {Property} from "../src/mapping/property";
 import {InternalSession} from "../src/session";
+import {InverseOfOptions} from "../src/mapping/providers/annotations";
 
 export class MockPersister implements Persister {
 
@@ -103,9 +104,25 @@ export class MockPersister implements Persister {
 
     onRefresh: (entity: any, callback: Callback) => void;
 
-    watch(value: any, observer: Observer): void {
+    restore(entity: any, callback: Callback): void {
+        if(this.onRestore) {
+            process.nextTick(() => this.onRestore(entity, callback));
+        }
+    }
+
+    onRestore: (entity: any, callback: Callback) => void;
+
+    merge(entity: any, callback: ResultCallback<any>): void {
+        if(this.onMerge) {
+            process.nextTick(() => this.onMerge(entity, callback));
+        }
+    }
 
-        this._mapping.watchEntity(value, observer);
+    onMerge: (entity: any, callback: ResultCallback<any>) => void;
+
+    watch(value: any, observer: Observer): any {
+
+        return this._mapping.watchEntity(value, observer);
     }
 
     fetch(entity: any, path: string, callback: Callback): void {
@@ -139,15 +156,23 @@ export class MockPersister implements Persister {
 
     onFindOneById: (id: any, callback: ResultCallback<any>) => void;
 
+    load(document: any, callback: ResultCallback<Object>): void {
+        if(this.onLoad) {
+            process.nextTick(() => this.onLoad(document, callback));
+        }
+    }
+
+    onLoad: (document: any, callback: ResultCallback<Object>) => void;
+
     findOne(criteria: any, callback: ResultCallback<any>): void {
 
     }
 
-    findInverseOf(entity: Object, path: string, callback: ResultCallback<any[]>): void {
+    findInverseOf(entity: Object, path: string, options: InverseOfOptions, callback: ResultCallback<any[]>): void {
 
     }
 
-    findOneInverseOf(entity: Object, path: string, callback: ResultCallback<any>): void {
+    findOneInverseOf(entity: Object, path: string, options: InverseOfOptions, callback: ResultCallback<any>): void {
 
     }
 
@@ -4,12 +4,13 @@ import * as model from "./fixtures/model";
 import {Observer} from "../src/observer";
 import {ObjectIdGenerator} from "../src/config/objectIdGenerator";
 
-describe.skip('Observer', () => {
+describe('Observer', () => {
 
     it('will call the specified callback if a watched objects change', (done) => {
 
         var called = 0;
-        var observer = new Observer(() => {
+        var observer = new Observer();
+        observer.observe(() => {
             called++;
         });
 
@@ -17,7 +18,7 @@ describe.skip('Observer', () => {
             name: "Bob"
         };
 
-        observer.watch(obj);
+        obj = observer.watch(obj);
         obj.name = "Joe";
 
         setTimeout(() => {
@@ -29,13 +30,14 @@ describe.skip('Observer', () => {
     it('will call the specified callback if a watched array change in size', (done) => {
 
         var called = 0;
-        var observer = new Observer(() => {
+        var observer = new Observer();
+        observer.observe(() => {
             called++;
         });
 
         var list: any[] = [];
 
-        observer.watch(list);
+        list = observer.watch(list);
         list.push("test");
 
         setTimeout(() => {
@@ -47,13 +49,14 @@ describe.skip('Observer', () => {
     it('will call the specified callback if a watched array has a changed value', (done) => {
 
         var called = 0;
-        var observer = new Observer(() => {
+        var observer = new Observer();
+        observer.observe(() => {
             called++;
         });
 
         var list: any[] = [ "test" ];
 
-        observer.watch(list);
+        list = observer.watch(list);
         list[0] = "a";
 
         setTimeout(() => {
@@ -65,7 +68,8 @@ describe.skip('Observer', () => {
     it('stops watching the object after the object changes', (done) => {
 
         var called = 0;
-        var observer = new Observer(() => {
+        var observer = new Observer();
+        observer.observe(() => {
             called++;
         });
 
@@ -73,7 +77,7 @@ describe.skip('Observer', () => {
             name: "Bob"
         }
 
-        observer.watch(obj);
+        obj = observer.watch(obj);
         obj.name = "Joe";
 
         setTimeout(() => {
@@ -96,7 +100,8 @@ describe.skip('Observer', () => {
             var session = factory.createSession();
 
             var called = 0;
-            var observer = new Observer(() => {
+            var observer = new Observer();
+            observer.observe(() => {
                 called++;
             });
 
@@ -107,7 +112,7 @@ describe.skip('Observer', () => {
             var obj: any = {
                 parent: ref
             }
-            observer.watch(obj);
+            obj = observer.watch(obj);
 
             obj.parent = {
                 _id: id
@@ -128,7 +133,8 @@ describe.skip('Observer', () => {
             var session = factory.createSession();
 
             var called = 0;
-            var observer = new Observer(() => {
+            var observer = new Observer();
+            observer.observe(() => {
                 called++;
             });
 
@@ -139,7 +145,7 @@ describe.skip('Observer', () => {
             var obj: any = {
                 parent: ref
             }
-            observer.watch(obj);
+            obj = observer.watch(obj);
 
             obj.parent = {
                 _id: generator.generate()
@@ -152,4 +158,95 @@ describe.skip('Observer', () => {
         });
     });
 
+    it('does not call the callback if the observer is not observing', (done) => {
+
+        var called = 0;
+        var observer = new Observer();
+
+        var obj: any = observer.watch({
+            name: "Bob"
+        });
+
+        observer.observe(() => {
+            called++;
+        });
+        observer.unobserve();
+        obj.name = "Joe";
+
+        setTimeout(() => {
+            assert.equal(called, 0, "Callback should not have been called.");
+            done();
+        }, 0);
+    });
+
+    it('returns the same object if the object is already watched by the observer', () => {
+
+        var observer = new Observer();
+        var obj = observer.watch({});
+
+        assert.strictEqual(observer.watch(obj), obj);
+    });
+    it('will call the specified callback if a value is added to a watched Set', () => {
+
+        var called = 0;
+        var observer = new Observer();
+        observer.observe(() => {
+            called++;
+        });
+
+        var set = observer.watchCollection(new Set());
+        set.add("test");
+
+        assert.equal(called, 1, "Callback was not called");
+    });
+
+    it('does not call the specified callback if a value already in a watched Set is added', () => {
+
+        var called = 0;
+        var observer = new Observer();
+        observer.observe(() => {
+            called++;
+        });
+
+        var set = observer.watchCollection(new Set(["test"]));
+        set.add("test");
+
+        assert.equal(called, 0, "Callback should not have been called.");
+    });
+
+    it('will call the specified callback if the value of a key in a watched Map is changed', () => {
+
+        var called = 0;
+        var observer = new Observer();
+        observer.observe(() => {
+            called++;
+        });
+
+        var map = new Map();
+        map.set("a", 1);
+
+        observer.watchCollection(map);
+        map.set("a", 2);
+
+        assert.equal(called, 1, "Callback was not called");
+        assert.equal(map.get("a"), 2);
+    });
+
+    it('notifies the observer that most recently watched the collection', () => {
+
+        var called1 = 0,
+            called2 = 0;
+        var observer1 = new Observer(),
+            observer2 = new Observer();
+
+        observer1.observe(() => called1++);
+        observer2.observe(() => called2++);
+
+        var map = observer2.watchCollection(observer1.watchCollection(new Map()));
+        map.clear();
+        map.set("a", 1);
+
+        assert.equal(called1, 0, "Callback should not have been called.");
+        assert.equal(called2, 1, "Callback was not called");
+    });
 });
\ No newline at end of file
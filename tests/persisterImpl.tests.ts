@@ -2,19 +2,31 @@ import {assert} from "chai";
 import * as async from "async";
 import * as helpers from "./helpers";
 import * as model from "./fixtures/model";
-import {Cursor} from "mongodb";
+import {Cursor, BulkWriteError} from "mongodb";
 import {MockCursor} from "./driver/mockCursor";
 import {MockCollection} from "./driver/mockCollection";
+import {MockClientSession} from "./driver/mockClient";
 import {QueryDefinitionStub} from "./query/queryDefinitionStub";
 import {QueryKind} from "../src/query/queryKind";
 import {Batch} from "../src/batch";
 import * as fetchEagerModel from "./fixtures/fetchEager";
 import * as fetchLazyModel from "./fixtures/fetchLazy";
+import * as lifecycleModel from "./fixtures/lifecycle";
+import * as compositeKeyModel from "./fixtures/annotations/compositeKey";
+import * as cacheableModel from "./fixtures/annotations/cacheable";
+import * as filterModel from "./fixtures/annotations/filter";
+import * as softDeleteModel from "./fixtures/annotations/softDelete";
+import * as validationModel from "./fixtures/annotations/validation";
 import {PersisterImpl} from "../src/persister";
 import {createFactory} from "./helpers";
 import {MockInternalSession} from "./mockInternalSession";
-import {EntityNotFoundError} from "../src/persistenceError";
+import {InternalSession} from "../src/session";
+import {PersistenceError, EntityNotFoundError, FlushError, OptimisticLockError, ValidationError, WriteOperation, WriteErrorType} from "../src/persistenceError";
 import {Callback} from "../src/core/callback";
+import {Cat} from "./fixtures/cat";
+import {Note} from "./fixtures/versioned";
+import {LruCacheStore} from "../src/config/lruCacheStore";
+import {WriteContext} from "../src/mapping/writeContext";
 
 describe('PersisterImpl', () => {
 
@@ -37,6 +49,146 @@ describe('PersisterImpl', () => {
             }, false, done);
         });
 
+        it('adds update operation with only the changed fields if the document has changed', (done) => {
+
+            var party = new model.Party("Bob");
+            var id = (<any>party)["_id"] = helpers.generateId();
+            var collection = new MockCollection();
+            var batch = new Batch();
+
+            helpers.createPersister(collection, model.Party, (err, persister) => {
+                if (err) return done(err);
+
+                persister.dirtyCheck(batch, party, { name: "Fred", _id: id, __t: "Party", __v: 1 }, (err) => {
+                    if(err) return done(err);
+
+                    assert.equal(collection.bulk.replaceOneDocuments.length, 0);
+                    assert.deepEqual(collection.bulk.findDocuments[0], { _id: id, __v: 1 });
+                    assert.deepEqual(collection.bulk.updateDocuments[0], { $set: { name: "Bob", __v: 2 } });
+                    done();
+                });
+            });
+        });
+
+        it('uses dot notation for changes to embedded objects, $unset for removed fields, and $push for appended array elements', (done) => {
+
+            var person = new model.Person(new model.PersonName("Jones", "Bob"));
+            (<any>person)["_id"] = helpers.generateId();
+            person.aliases = [ "Bobby" ];
+            person.email = "bob@example.com";
+
+            var collection = new MockCollection();
+
+            helpers.createPersister(collection, model.Person, (err, persister) => {
+                if (err) return done(err);
+
+                persister.addInsert(new Batch(), person, (err, originalDocument) => {
+                    if(err) return done(err);
+
+                    person.personName.first = "Robert";
+                    person.aliases.push("Rob");
+                    person.email = undefined;
+
+                    persister.dirtyCheck(new Batch(), person, originalDocument, (err) => {
+                        if(err) return done(err);
+
+                        assert.deepEqual(collection.bulk.updateDocuments[0], {
+                            $set: { "personName.first": "Robert", __v: 2 },
+                            $unset: { email: 1 },
+                            $push: { aliases: { $each: [ "Rob" ] } }
+                        });
+                        done();
+                    });
+                });
+            });
+        });
+
+        it('returns a ValidationError if the changed entity does not satisfy a constraint', (done) => {
+
+            var customer = createCustomer();
+            var collection = new MockCollection();
+
+            helpers.createPersister("annotations/validation", validationModel.Customer, collection, (err, persister) => {
+                if (err) return done(err);
+
+                persister.addInsert(new Batch(), customer, (err, originalDocument) => {
+                    if(err) return done(err);
+
+                    customer.age = 150;
+
+                    persister.dirtyCheck(new Batch(), customer, originalDocument, (err) => {
+                        assert.instanceOf(err, ValidationError);
+                        assert.deepEqual((<ValidationError>err).violations, [{ message: "Value must be less than or equal to 120.", path: "age" }]);
+                        done();
+                    });
+                });
+            });
+        });
+
+        it('does not validate an entity that has not changed', (done) => {
+
+            var customer = createCustomer();
+            customer.name = undefined;
+
+            helpers.createPersister("annotations/validation", validationModel.Customer, new MockCollection(), (err, persister, session) => {
+                if (err) return done(err);
+
+                var mapping = session.factory.getMappingForConstructor(validationModel.Customer);
+
+                persister.dirtyCheck(new Batch(), customer, mapping.write(new WriteContext(), customer), (err, document) => {
+                    if(err) return done(err);
+
+                    assert.isUndefined(document);
+                    done();
+                });
+            });
+        });
+
+        it('calls PreUpdate callbacks and writes the changes made by the callbacks if the entity changed', (done) => {
+
+            var collection = new MockCollection();
+
+            helpers.createPersister("lifecycle", lifecycleModel.Ticket, collection, (err, persister, session) => {
+                if (err) return done(err);
+
+                var entity = new lifecycleModel.Ticket("Broken build");
+                (<any>entity)["_id"] = helpers.generateId();
+
+                var mapping = session.factory.getMappingForConstructor(lifecycleModel.Ticket),
+                    originalDocument = mapping.write(new WriteContext(), entity);
+
+                entity.title = "Fixed build";
+                persister.dirtyCheck(new Batch(), entity, originalDocument, (err, document: any) => {
+                    if(err) return done(err);
+
+                    assert.deepEqual(entity.calls, ["PreUpdate"]);
+                    assert.equal(document.title, "Fixed build");
+                    assert.equal(document.modified.getTime(), entity.modified.getTime());
+                    done();
+                });
+            });
+        });
+
+        it('does not call PreUpdate callbacks if the entity did not change', (done) => {
+
+            helpers.createPersister("lifecycle", lifecycleModel.Ticket, new MockCollection(), (err, persister, session) => {
+                if (err) return done(err);
+
+                var entity = new lifecycleModel.Ticket("Broken build");
+                (<any>entity)["_id"] = helpers.generateId();
+
+                var mapping = session.factory.getMappingForConstructor(lifecycleModel.Ticket);
+
+                persister.dirtyCheck(new Batch(), entity, mapping.write(new WriteContext(), entity), (err, document) => {
+                    if(err) return done(err);
+
+                    assert.isUndefined(document);
+                    assert.isUndefined(entity.calls);
+                    done();
+                });
+            });
+        });
+
         function runDirtyCheck(originalDocument: any, updated: boolean, done: Callback): void {
 
             var party = new model.Party("Bob");
@@ -86,6 +238,51 @@ describe('PersisterImpl', () => {
                 });
             });
         });
+
+        it('returns a ValidationError with the path of each value that does not satisfy a constraint', (done) => {
+
+            var customer = createCustomer();
+            customer.name = "B";
+            customer.age = 12;
+            customer.email = "bob";
+            customer.address.city = undefined;
+            customer.previousAddresses = [ createAddress(), createAddress() ];
+            customer.previousAddresses[1].zip = "1234";
+
+            var collection = new MockCollection();
+            var batch = new Batch();
+
+            helpers.createPersister("annotations/validation", validationModel.Customer, collection, (err, persister) => {
+                if (err) return done(err);
+
+                persister.addInsert(batch, customer, (err) => {
+                    assert.instanceOf(err, ValidationError);
+                    assert.equal((<ValidationError>err).entity, customer);
+                    assert.deepEqual((<ValidationError>err).violations.map(violation => violation.path),
+                        ["name", "age", "email", "address.city", "previousAddresses.zip"]);
+                    assert.include(err.message, "email: Invalid email address.");
+                    assert.isUndefined(collection.bulk);
+                    done();
+                });
+            });
+        });
+
+        it('adds insert operation if all constraints are satisfied', (done) => {
+
+            var collection = new MockCollection();
+            var batch = new Batch();
+
+            helpers.createPersister("annotations/validation", validationModel.Customer, collection, (err, persister) => {
+                if (err) return done(err);
+
+                persister.addInsert(batch, createCustomer(), (err) => {
+                    if (err) return done(err);
+
+                    assert.equal(collection.bulk.insertDocuments.length, 1);
+                    done();
+                });
+            });
+        });
     });
 
     describe('addRemove', () => {
@@ -111,281 +308,1536 @@ describe('PersisterImpl', () => {
                 });
             });
         });
-    });
 
-    describe('refresh', () => {
+        it('adds update operation that marks the document as deleted if the entity is soft deleted', (done) => {
+
+            var invoice = new softDeleteModel.Invoice();
+            var id = invoice._id = helpers.generateId();
+            var collection = new MockCollection();
+            var batch = new Batch();
+
+            helpers.createPersister("annotations/softDelete", softDeleteModel.Invoice, collection, (err, persister) => {
+                if (err) return done(err);
+
+                persister.addRemove(batch, invoice, (err) => {
+                    if(err) return done(err);
+
+                    assert.equal(collection.bulk.removeOneCalled, 0);
+                    assert.equal(collection.bulk.findDocuments[0]._id, id);
+                    assert.lengthOf(collection.bulk.updateDocuments, 1);
+                    assert.instanceOf(collection.bulk.updateDocuments[0].$set.deletedAt, Date);
+                    assert.equal(collection.bulk.updateDocuments[0].$set.__v, 1);
+                    done();
+                });
+            });
+        });
     });
 
-    describe('resolve', () => {
+    describe('restore', () => {
+
+        it('clears the field that marks the document as deleted and increments the version', (done) => {
+
+            var payment = new softDeleteModel.Payment();
+            var id = payment._id = helpers.generateId();
+            var collection = new MockCollection();
+            collection.onUpdate = (selector, document, options, callback) => {
+                assert.deepEqual(selector, { _id: id });
+                assert.deepEqual(document, { $unset: { removedOn: "" }, $inc: { __v: 1 }});
+                callback(null, { result: { n: 1 }});
+            };
+
+            helpers.createPersister("annotations/softDelete", softDeleteModel.Payment, collection, (err, persister) => {
+                if (err) return done(err);
+
+                persister.restore(payment, done);
+            });
+        });
+
+        it('returns an EntityNotFoundError if the document does not exist', (done) => {
+
+            var payment = new softDeleteModel.Payment();
+            payment._id = helpers.generateId();
+            var collection = new MockCollection();
+            collection.onUpdate = (selector, document, options, callback) => {
+                callback(null, { result: { n: 0 }});
+            };
+
+            helpers.createPersister("annotations/softDelete", softDeleteModel.Payment, collection, (err, persister) => {
+                if (err) return done(err);
+
+                persister.restore(payment, (err) => {
+                    assert.instanceOf(err, EntityNotFoundError);
+                    done();
+                });
+            });
+        });
     });
 
-    describe('fetchPropertyValue', () => {
+    describe('batch execute', () => {
 
-        it("loads the specified field value", (done) => {
+        it('returns a FlushError that identifies the entity for each write error', (done) => {
 
-            var idA = helpers.generateId();
-            var collection = new MockCollection([ { _id: idA, _b: "some large value" }]);
+            var party1 = new model.Party("Bob"),
+                party2 = new model.Party("Fred"),
+                id2 = (<any>party2)["_id"] = helpers.generateId();
+            (<any>party1)["_id"] = helpers.generateId();
 
-            createFactory("fetchLazy", (err, factory) => {
+            var collection = new MockCollection();
+            var batch = new Batch();
+
+            helpers.createPersister(collection, model.Party, (err, persister) => {
                 if (err) return done(err);
 
-                var session = new MockInternalSession(factory);
-                var mapping = factory.getMappingForConstructor(fetchLazyModel.A);
-                var persister = new PersisterImpl(session, mapping, collection);
+                persister.addInsert(batch, party1, (err) => {
+                    if (err) return done(err);
 
-                persister.findOneById(idA, (err, a) => {
+                    persister.addInsert(batch, party2, (err) => {
+                        if (err) return done(err);
+
+                        collection.bulk.onExecute = (callback) => {
+                            callback(new Error("E11000 duplicate key error"), createBulkWriteResult({ nInserted: 1 }, [
+                                { index: 1, code: 11000, errmsg: "E11000 duplicate key error" }
+                            ]));
+                        };
+
+                        batch.execute((err) => {
+                            assert.instanceOf(err, FlushError);
+                            var failures = (<FlushError>err).failures;
+                            assert.lengthOf(failures, 1);
+                            assert.equal(failures[0].entity, party2);
+                            assert.equal(failures[0].id, id2);
+                            assert.equal(failures[0].operation, WriteOperation.Insert);
+                            assert.equal(failures[0].type, WriteErrorType.DuplicateKey);
+                            assert.include(err.message, id2.toString());
+                            done();
+                        });
+                    });
+                });
+            });
+        });
+
+        it('returns a FlushError for write errors if the driver returns the result on the error', (done) => {
+
+            var party = new model.Party("Bob"),
+                id = (<any>party)["_id"] = helpers.generateId();
+
+            var collection = new MockCollection();
+            var batch = new Batch();
+
+            helpers.createPersister(collection, model.Party, (err, persister) => {
+                if (err) return done(err);
+
+                persister.addInsert(batch, party, (err) => {
                     if (err) return done(err);
 
-                    // clear the value since it's returned from the MockCollection
-                    a.b = null;
+                    collection.bulk.onExecute = (callback) => {
+                        var result = createBulkWriteResult({ nInserted: 0 }, [
+                            { index: 0, code: 11000, errmsg: "E11000 duplicate key error" }
+                        ]);
+                        callback(new BulkWriteError({ message: "E11000 duplicate key error", code: 11000 }, result), null);
+                    };
+
+                    batch.execute((err) => {
+                        assert.instanceOf(err, FlushError);
+                        var failures = (<FlushError>err).failures;
+                        assert.lengthOf(failures, 1);
+                        assert.equal(failures[0].entity, party);
+                        assert.equal(failures[0].id, id);
+                        assert.equal(failures[0].type, WriteErrorType.DuplicateKey);
+                        done();
+                    });
+                });
+            });
+        });
 
-                    assert.instanceOf(a, fetchLazyModel.A);
+        it('returns an OptimisticLockError if version conflicts account for the documents that were not updated', (done) => {
 
-                    persister.fetchPropertyValue(a, mapping.getProperty("b"), (err, result) => {
-                        if (err) return done(err);
+            var party = new model.Party("Bob");
+            var id = (<any>party)["_id"] = helpers.generateId();
+            var collection = new MockCollection();
+            var batch = new Batch();
 
-                        assert.equal(result, "some large value");
+            helpers.createPersister(collection, model.Party, (err, persister) => {
+                if (err) return done(err);
+
+                persister.dirtyCheck(batch, party, { name: "Fred", _id: id, __t: "Party", __v: 1 }, (err) => {
+                    if(err) return done(err);
+
+                    collection.bulk.onExecute = (callback) => {
+                        callback(null, createBulkWriteResult({ nModified: 0 }, []));
+                    };
+
+                    collection.onFind = (criteria, fields) => {
+                        assert.deepEqual(criteria, { _id: { $in: [ id ] }});
+                        assert.deepEqual(fields, { __v: 1 });
+                        return new MockCursor([ { _id: id, __v: 3 } ]);
+                    };
+
+                    batch.execute((err) => {
+                        assert.instanceOf(err, OptimisticLockError);
+                        assert.deepEqual((<OptimisticLockError>err).entities, [ party ]);
+                        var failures = (<OptimisticLockError>err).failures;
+                        assert.lengthOf(failures, 1);
+                        assert.equal(failures[0].entity, party);
+                        assert.equal(failures[0].operation, WriteOperation.Update);
+                        assert.equal(failures[0].type, WriteErrorType.VersionConflict);
+                        assert.equal(failures[0].expectedVersion, 1);
+                        assert.equal(failures[0].currentVersion, 3);
                         done();
                     });
                 });
             });
         });
-    });
 
-    describe('findInverseOf', () => {
+        it('finds the version conflicts for entities with a composite key', (done) => {
 
-        it("finds all entities in the collection where the property specified by path has a value matching id", (done) => {
+            var userId = helpers.generateId(),
+                collection = new MockCollection(),
+                batch = new Batch();
 
-            var person = helpers.createPerson();
-            var id =  (<any>person)._id;
+            createFactory("annotations/compositeKey", (err, factory) => {
+                if (err) return done(err);
+
+                var persister = new PersisterImpl(factory.createSession(), factory.getMappingForConstructor(compositeKeyModel.Membership), collection);
+
+                var user = new compositeKeyModel.User(),
+                    admin = new compositeKeyModel.Membership(),
+                    guest = new compositeKeyModel.Membership();
+
+                user._id = userId;
+                admin.key = new compositeKeyModel.MembershipKey(user, "admins");
+                admin._id = { user: userId, group: "admins" };
+                guest.key = new compositeKeyModel.MembershipKey(user, "guests");
+                guest._id = { user: userId, group: "guests" };
+                admin.role = guest.role = "owner";
+
+                persister.dirtyCheck(batch, admin, { _id: { user: userId, group: "admins" }, role: "member", __v: 1 }, (err) => {
+                    if(err) return done(err);
 
+                    persister.dirtyCheck(batch, guest, { _id: { user: userId, group: "guests" }, role: "member", __v: 1 }, (err) => {
+                        if(err) return done(err);
+
+                        collection.bulk.onExecute = (callback) => {
+                            callback(null, createBulkWriteResult({ nModified: 1 }, []));
+                        };
+
+                        collection.onFind = () => {
+                            // the order of the fields in the key does not matter
+                            return new MockCursor([
+                                { _id: { group: "admins", user: userId }, __v: 2 },
+                                { _id: { group: "guests", user: userId }, __v: 3 }
+                            ]);
+                        };
+
+                        batch.execute((err) => {
+                            assert.instanceOf(err, OptimisticLockError);
+                            assert.deepEqual((<OptimisticLockError>err).entities, [ guest ]);
+                            assert.equal((<OptimisticLockError>err).failures[0].currentVersion, 3);
+                            done();
+                        });
+                    });
+                });
+            });
+        });
+
+        it('returns a FlushError if the documents that were not updated are not version conflicts', (done) => {
+
+            var party = new model.Party("Bob");
+            var id = (<any>party)["_id"] = helpers.generateId();
             var collection = new MockCollection();
-            collection.onFind = (criteria) => {
-                assert.deepEqual(criteria, { parents: id });
-                done();
-                return collection.createCursor();
-            }
+            var batch = new Batch();
 
-            helpers.createPersister(collection, (err, persister) => {
+            helpers.createPersister(collection, model.Party, (err, persister) => {
                 if (err) return done(err);
 
-                persister.findInverseOf(person, "parents", (err, results) => {
+                persister.dirtyCheck(batch, party, { name: "Fred", _id: id, __t: "Party", __v: 1 }, (err) => {
                     if(err) return done(err);
+
+                    collection.bulk.onExecute = (callback) => {
+                        callback(null, createBulkWriteResult({ nModified: 0 }, []));
+                    };
+
+                    collection.onFind = (criteria, fields) => {
+                        // the update was applied so the version was incremented
+                        return new MockCursor([ { _id: id, __v: 2 } ]);
+                    };
+
+                    batch.execute((err) => {
+                        assert.instanceOf(err, FlushError);
+                        assert.notInstanceOf(err, OptimisticLockError);
+                        assert.lengthOf((<FlushError>err).failures, 0);
+                        done();
+                    });
                 });
             });
         });
 
-        it("returns an error if specified path does not represent a property in the mapping", (done) => {
+        it('passes the write concern for the batch to the bulk operation', (done) => {
+
+            var party = new model.Party("Bob");
+            (<any>party)["_id"] = helpers.generateId();
+
+            var collection = new MockCollection();
+            var batch = new Batch({ w: "majority", j: true });
+
+            helpers.createPersister(collection, model.Party, (err, persister) => {
+                if (err) return done(err);
+
+                persister.addInsert(batch, party, (err) => {
+                    if (err) return done(err);
+
+                    collection.bulk.onExecute = (callback, options) => {
+                        assert.deepEqual(options, { w: "majority", j: true });
+                        callback(null, createBulkWriteResult({ nInserted: 1 }, []));
+                    };
+
+                    batch.execute(done);
+                });
+            });
+        });
+
+        it('executes the bulk operation in the client session of the batch without a write concern', (done) => {
+
+            var party = new model.Party("Bob");
+            (<any>party)["_id"] = helpers.generateId();
+
+            var collection = new MockCollection();
+            var session = new MockClientSession();
+            var batch = new Batch({ w: "majority" }, session);
+
+            helpers.createPersister(collection, model.Party, (err, persister) => {
+                if (err) return done(err);
+
+                persister.addInsert(batch, party, (err) => {
+                    if (err) return done(err);
+
+                    assert.equal(collection.bulkOptions.session, session);
+
+                    collection.bulk.onExecute = (callback, options) => {
+                        // the write concern is set on the transaction
+                        assert.deepEqual(options, {});
+                        callback(null, createBulkWriteResult({ nInserted: 1 }, []));
+                    };
+
+                    batch.execute(done);
+                });
+            });
+        });
+
+        it('does not check the number of documents written if the writes are not acknowledged', (done) => {
+
+            var party = new model.Party("Bob");
+            (<any>party)["_id"] = helpers.generateId();
+
+            var collection = new MockCollection();
+            var batch = new Batch({ w: 0 });
+
+            helpers.createPersister(collection, model.Party, (err, persister) => {
+                if (err) return done(err);
+
+                persister.addInsert(batch, party, (err) => {
+                    if (err) return done(err);
+
+                    collection.bulk.onExecute = (callback) => {
+                        callback(null, createBulkWriteResult({ ok: 1 }, []));
+                    };
+
+                    batch.execute(done);
+                });
+            });
+        });
+
+        function createBulkWriteResult(counts: any, writeErrors: any[]): any {
+
+            counts.hasWriteErrors = () => writeErrors.length > 0;
+            counts.getWriteErrors = () => writeErrors;
+            return counts;
+        }
+    });
+
+    describe('refresh', () => {
+    });
+
+    describe('merge', () => {
+
+        it("copies the state of the detached entity onto the managed entity", (done) => {
+
+            var id = helpers.generateId();
+            var collection = new MockCollection([ { _id: id, name: "Mittens" }]);
+
+            createFactory("cat", (err, factory) => {
+                if (err) return done(err);
+
+                var session = new MockInternalSession(factory);
+                var persister = new PersisterImpl(session, factory.getMappingForConstructor(Cat), collection);
+
+                var detached = new Cat("Fluffy");
+                helpers.setIdentifier(detached, id);
+
+                persister.merge(detached, (err, managed: Cat) => {
+                    if (err) return done(err);
+
+                    assert.instanceOf(managed, Cat);
+                    assert.notStrictEqual(managed, detached);
+                    assert.equal(managed.name, "Fluffy");
+                    done();
+                });
+            });
+        });
+
+        it("returns an OptimisticLockError if the detached entity is stale", (done) => {
+
+            var id = helpers.generateId();
+            var collection = new MockCollection([ { _id: id, text: "updated", __v: 2 }]);
+
+            createFactory("versioned", (err, factory) => {
+                if (err) return done(err);
+
+                var session = factory.createSession();
+                var persister = new PersisterImpl(session, factory.getMappingForConstructor(Note), collection);
+
+                var detached = new Note("stale");
+                detached.version = 1;
+                helpers.setIdentifier(detached, id);
+
+                persister.merge(detached, (err) => {
+                    assert.instanceOf(err, OptimisticLockError);
+                    assert.include(err.message, "version has changed");
+                    assert.strictEqual((<OptimisticLockError>err).entities[0], detached);
+                    done();
+                });
+            });
+        });
+
+        it("merges the detached entity if the version matches the version of the managed entity", (done) => {
+
+            var id = helpers.generateId();
+            var collection = new MockCollection([ { _id: id, text: "original", __v: 2 }]);
+
+            createFactory("versioned", (err, factory) => {
+                if (err) return done(err);
+
+                var session = factory.createSession();
+                var persister = new PersisterImpl(session, factory.getMappingForConstructor(Note), collection);
+
+                var detached = new Note("changed");
+                detached.version = 2;
+                helpers.setIdentifier(detached, id);
+
+                persister.merge(detached, (err, managed: Note) => {
+                    if (err) return done(err);
+
+                    assert.equal(managed.text, "changed");
+                    done();
+                });
+            });
+        });
+    });
+
+    describe('resolve', () => {
+    });
+
+    describe('fetchPropertyValue', () => {
+
+        it("loads the specified field value", (done) => {
+
+            var idA = helpers.generateId();
+            var collection = new MockCollection([ { _id: idA, _b: "some large value" }]);
+
+            createFactory("fetchLazy", (err, factory) => {
+                if (err) return done(err);
+
+                var session = new MockInternalSession(factory);
+                var mapping = factory.getMappingForConstructor(fetchLazyModel.A);
+                var persister = new PersisterImpl(session, mapping, collection);
+
+                persister.findOneById(idA, (err, a) => {
+                    if (err) return done(err);
+
+                    // clear the value since it's returned from the MockCollection
+                    a.b = null;
+
+                    assert.instanceOf(a, fetchLazyModel.A);
+
+                    persister.fetchPropertyValue(a, mapping.getProperty("b"), (err, result) => {
+                        if (err) return done(err);
+
+                        assert.equal(result, "some large value");
+                        done();
+                    });
+                });
+            });
+        });
+    });
+
+    describe('findInverseOf', () => {
+
+        it("finds all entities in the collection where the property specified by path has a value matching id", (done) => {
+
+            var person = helpers.createPerson();
+            var id =  (<any>person)._id;
+
+            var collection = new MockCollection();
+            collection.onFind = (criteria) => {
+                assert.deepEqual(criteria, { parents: id });
+                done();
+                return collection.createCursor();
+            }
+
+            helpers.createPersister(collection, (err, persister) => {
+                if (err) return done(err);
+
+                persister.findInverseOf(person, "parents", null, (err, results) => {
+                    if(err) return done(err);
+                });
+            });
+        });
+
+        it("returns an error if specified path does not represent a property in the mapping", (done) => {
+
+            helpers.createPersister(new MockCollection(), (err, persister) => {
+                if (err) return done(err);
+
+                var person = helpers.createPerson();
+
+                persister.findInverseOf(person, "blah", null, (err, results) => {
+                    // TODO: check error code
+                    assert.instanceOf(err, Error);
+                    done();
+                });
+            });
+        });
+
+        it("applies the ordering, criteria, and limit in the options", (done) => {
+
+            var person = helpers.createPerson();
+            var id =  (<any>person)._id;
+            var sorted: any;
+
+            var collection = new MockCollection();
+            collection.onFind = (criteria) => {
+                assert.deepEqual(criteria, { $and: [ { parents: id }, { age: { $gte: 18 }, __t: "Person" } ] });
+
+                var cursor = new MockCursor();
+                cursor.onSort = (keyOrList: any) => {
+                    sorted = keyOrList;
+                    return cursor;
+                };
+                cursor.onLimit = (limit: number) => {
+                    assert.deepEqual(sorted, [ [ "name", -1 ] ]);
+                    assert.equal(limit, 10);
+                    done();
+                    return cursor;
+                };
+                return cursor;
+            }
+
+            helpers.createPersister(collection, (err, persister) => {
+                if (err) return done(err);
+
+                persister.findInverseOf(person, "parents", { orderBy: [["_name", -1]], where: { age: { $gte: 18 } }, limit: 10 }, (err, results) => {
+                    if(err) return done(err);
+                });
+            });
+        });
+    });
+
+    describe('findOneInverseOf', () => {
+
+        it("finds the first entity in the collection where the property specified by path has a value matching id", (done) => {
+
+            var person = helpers.createPerson();
+            var id =  (<any>person)._id;
+
+            var collection = new MockCollection();
+            collection.onFindOne = (criteria, fields, callback) => {
+                assert.deepEqual(criteria, { parents: id });
+                callback(null, { _id: id });
+                done();
+            };
+
+            helpers.createPersister(collection, (err, persister) => {
+                if (err) return done(err);
+
+                persister.findOneInverseOf(person, "parents", null, (err, results) => {
+                    if(err) return done(err);
+                });
+            });
+        });
+
+        it("returns an error if specified path does not represent a property in the mapping", (done) => {
+
+            helpers.createPersister(new MockCollection(), (err, persister) => {
+                if (err) return done(err);
+
+                var person = helpers.createPerson();
+
+                persister.findOneInverseOf(person, "blah", null, (err, results) => {
+                    // TODO: check error code
+                    assert.instanceOf(err, Error);
+                    done();
+                });
+            });
+        });
+
+        it("finds the first entity in the order if an ordering is specified in the options", (done) => {
+
+            var person = helpers.createPerson();
+            var id =  (<any>person)._id;
+
+            var collection = new MockCollection();
+            collection.onFind = (criteria) => {
+                assert.deepEqual(criteria, { parents: id });
+
+                var cursor = new MockCursor();
+                cursor.onLimit = (limit: number) => {
+                    assert.equal(limit, 1);
+                    done();
+                    return cursor;
+                };
+                return cursor;
+            }
+
+            helpers.createPersister(collection, (err, persister) => {
+                if (err) return done(err);
+
+                persister.findOneInverseOf(person, "parents", { orderBy: [["_name", 1]] }, (err, result) => {
+                    if(err) return done(err);
+                });
+            });
+        });
+    });
+
+    describe('findOneById', () => {
+
+        it('calls the callbacks of all invocations when called multiples times for the same identifier', (done) => {
+
+            var id = helpers.generateId();
+            var collection = new MockCollection([ { _id: id }]);
+
+            helpers.createPersister(collection, (err, persister) => {
+                if (err) return done(err);
+
+                async.each([id, id], (id, done) => persister.findOneById(id, done), done);
+            });
+        });
+
+        it("matches each field in the key when finding an entity with a composite key", (done) => {
+
+            var userId = helpers.generateId();
+
+            var collection = new MockCollection();
+            collection.onFindOne = (criteria, fields, callback) => {
+                assert.deepEqual(criteria, { "_id.user": userId, "_id.group": "admins" });
+                callback(null, { _id: { group: "admins", user: userId }, role: "owner" });
+            };
+
+            createFactory("annotations/compositeKey", (err, factory) => {
+                if (err) return done(err);
+
+                var session = new MockInternalSession(factory);
+                var persister = new PersisterImpl(session, factory.getMappingForConstructor(compositeKeyModel.Membership), collection);
+
+                persister.findOneById({ group: "admins", user: userId }, (err, entity: compositeKeyModel.Membership) => {
+                    if (err) return done(err);
+
+                    assert.equal(entity.role, "owner");
+                    assert.equal(entity.key.group, "admins");
+                    assert.equal(entity.id, JSON.stringify([userId.toString(), "admins"]));
+                    done();
+                });
+            });
+        });
+
+        it("finds entities with a composite key by the string representation of the key", (done) => {
+
+            var userId = helpers.generateId(),
+                collection = new MockCollection();
+
+            collection.onFindOne = (criteria: any, fields, callback) => {
+                assert.isTrue(userId.equals(criteria["_id.user"]));
+                assert.equal(criteria["_id.group"], "admins");
+                done();
+            };
+
+            createFactory("annotations/compositeKey", (err, factory) => {
+                if (err) return done(err);
+
+                var session = new MockInternalSession(factory);
+                var persister = new PersisterImpl(session, factory.getMappingForConstructor(compositeKeyModel.Membership), collection);
+
+                persister.findOneById(JSON.stringify([userId.toString(), "admins"]), (err) => {
+                    if (err) return done(err);
+                });
+            });
+        });
+
+        it("fetches properties flagged as FetchEager", (done) => {
+
+            var idA = helpers.generateId(),
+                idC = helpers.generateId();
+            var collection = new MockCollection([{ _id: idA, b: { c: idC }}, { _id: idC }]);
+
+            createFactory("fetchEager", (err, factory) => {
+                if (err) return done(err);
+
+                var session = new MockInternalSession(factory);
+                var persister = new PersisterImpl(session, factory.getMappingForConstructor(fetchEagerModel.A), collection);
+
+                persister.findOneById(idA, (err, a) => {
+                    if (err) return done(err);
+
+                    assert.deepEqual(session.findFetchedPaths(a), ["b.c"], "Expected path 'b.c' to be fetched.");
+                    done();
+                });
+            });
+        });
+
+        it("does not fetch properties flagged as FetchLazy", (done) => {
+
+            var idA = helpers.generateId();
+
+            var collection = new MockCollection();
+            collection.onFindOne = (criteria, fields, callback) => {
+                assert.deepEqual(criteria, { _id: idA });
+                assert.deepEqual(fields, { _b: 0 });
+                done();
+            };
+
+            createFactory("fetchLazy", (err, factory) => {
+                if (err) return done(err);
+
+                var session = new MockInternalSession(factory);
+                var persister = new PersisterImpl(session, factory.getMappingForConstructor(fetchLazyModel.A), collection);
+
+                persister.findOneById(idA, (err, a) => {
+                    if (err) return done(err);
+                });
+            });
+        });
+
+        it("calls PostLoad callbacks on the loaded entity", (done) => {
+
+            var id = helpers.generateId();
+            var collection = new MockCollection([{ _id: id, title: "Broken build" }]);
+
+            createFactory("lifecycle", (err, factory) => {
+                if (err) return done(err);
+
+                var session = new MockInternalSession(factory);
+                var persister = new PersisterImpl(session, factory.getMappingForConstructor(lifecycleModel.Ticket), collection);
+
+                persister.findOneById(id, (err, entity: lifecycleModel.Ticket) => {
+                    if (err) return done(err);
+
+                    assert.deepEqual(entity.calls, ["PostLoad"]);
+                    done();
+                });
+            });
+        });
+
+        it("returns a cacheable entity from the second-level cache without querying the database", (done) => {
+
+            var id = helpers.generateId(),
+                collection = new MockCollection();
+
+            collection.onFindOne = () => {
+                done(new Error("Expected entity to be loaded from the cache."));
+            };
+
+            helpers.createPersister("annotations/cacheable", cacheableModel.Country, collection, (err, persister, session) => {
+                if (err) return done(err);
+
+                var store = <LruCacheStore>session.factory.cache.store;
+
+                store.set("country", id.toString(), { document: { _id: id, name: "Canada", __v: 1 }, version: 1 }, (err) => {
+                    if (err) return done(err);
+
+                    persister.findOneById(id, (err, entity: cacheableModel.Country) => {
+                        if (err) return done(err);
+
+                        assert.equal(entity.name, "Canada");
+                        done();
+                    });
+                });
+            });
+        });
+
+        it("adds the document for a cacheable entity loaded from the database to the second-level cache", (done) => {
+
+            var id = helpers.generateId(),
+                collection = new MockCollection([{ _id: id, name: "Canada", __v: 1 }]);
+
+            helpers.createPersister("annotations/cacheable", cacheableModel.Country, collection, (err, persister, session) => {
+                if (err) return done(err);
+
+                var store = <LruCacheStore>session.factory.cache.store;
+
+                persister.findOneById(id, (err) => {
+                    if (err) return done(err);
+
+                    // the document is added to the cache after the entity is returned
+                    setImmediate(() => store.get("country", id.toString(), (err, entry) => {
+                        if (err) return done(err);
+
+                        assert.deepEqual(entry, { document: { _id: id, name: "Canada", __v: 1 }, version: 1 });
+                        done();
+                    }));
+                });
+            });
+        });
+
+        it("does not add the document to the second-level cache if a newer version was evicted", (done) => {
+
+            var id = helpers.generateId(),
+                collection = new MockCollection([{ _id: id, name: "Canada", __v: 1 }]);
+
+            helpers.createPersister("annotations/cacheable", cacheableModel.Country, collection, (err, persister, session) => {
+                if (err) return done(err);
+
+                var store = <LruCacheStore>session.factory.cache.store;
+
+                // another session wrote version 2 of the document after version 1 was read
+                store.set("country", id.toString(), { version: 2 }, (err) => {
+                    if (err) return done(err);
+
+                    persister.findOneById(id, (err) => {
+                        if (err) return done(err);
+
+                        setImmediate(() => store.get("country", id.toString(), (err, entry) => {
+                            if (err) return done(err);
+
+                            assert.deepEqual(entry, { version: 2 });
+                            done();
+                        }));
+                    });
+                });
+            });
+        });
+
+        it("does not share documents with the second-level cache", (done) => {
+
+            var id = helpers.generateId(),
+                collection = new MockCollection([{ _id: id, name: "Canada", __v: 1 }]);
+
+            helpers.createPersister("annotations/cacheable", cacheableModel.Country, collection, (err, persister, session) => {
+                if (err) return done(err);
+
+                var store = <LruCacheStore>session.factory.cache.store;
+
+                var cache = persister["_cache"];
+
+                persister.findOneById(id, (err) => {
+                    if (err) return done(err);
+
+                    setImmediate(() => store.get("country", id.toString(), (err, entry) => {
+                        if (err) return done(err);
+
+                        assert.notStrictEqual(entry.document, collection.contents[0]);
+
+                        cache.get(persister["_mapping"], id, (err, document: any) => {
+                            if (err) return done(err);
+
+                            assert.notStrictEqual(document, entry.document);
+                            assert.deepEqual(document, entry.document);
+                            done();
+                        });
+                    }));
+                });
+            });
+        });
+
+        it("adds the criteria for the filters that are enabled in the session", (done) => {
+
+            var id = helpers.generateId(),
+                collection = new MockCollection();
+
+            collection.onFindOne = (criteria, fields, callback) => {
+                assert.deepEqual(criteria, { $and: [{ _id: id }, { tenant: "acme" }] });
+                done();
+            };
+
+            helpers.createPersister("annotations/filter", filterModel.Account, collection, (err, persister, session) => {
+                if (err) return done(err);
+
+                session.enableFilter("tenant", { tenant: "acme" });
+                persister.findOneById(id, () => {});
+            });
+        });
+
+        it('returns an EntityNotFoundError if an entity with the specified id does not exists in the database', (done) => {
+
+            var id = helpers.generateId();
+            var collection = new MockCollection([]);
+
+            helpers.createPersister(collection, (err, persister) => {
+                if (err) return done(err);
+
+                persister.findOneById(id, (err) => {
+                    assert.instanceOf(err, EntityNotFoundError);
+                    assert.equal(err.message, `Unable to find document with identifier '${id}'.`);
+                    done();
+                });
+            });
+        });
+    });
+
+    describe('findOne', () => {
+
+    });
+
+    describe('findAll', () => {
+
+        it('executes query with criteria exactly as specified', (done) => {
+
+            var collection = new MockCollection();
+            collection.onFind = (criteria) => {
+                assert.deepEqual(criteria, { 'name': 'Bob' });
+                done();
+                return collection.createCursor();
+            };
+
+            helpers.createPersister(collection, (err, persister) => {
+                if (err) return done(err);
+
+                persister.findAll({ 'name': 'Bob' }, (err, results) => {
+                    if(err) return done(err);
+                });
+            });
+        });
+    });
+
+    describe('executeQuery', () => {
+
+        describe('filters', () => {
+
+            it('combines the criteria of the query with the criteria of the enabled filters', (done) => {
+
+                var collection = new MockCollection();
+                collection.onFind = (criteria) => {
+                    assert.deepEqual(criteria, {
+                        $and: [
+                            { name: "Savings", __t: "SavingsAccount" },
+                            { $and: [{ interestRate: { $gte: 2 } }, { tenant: "acme" }], __t: "SavingsAccount" }
+                        ]
+                    });
+                    done();
+                    return collection.createCursor();
+                };
+
+                helpers.createPersister("annotations/filter", filterModel.SavingsAccount, collection, (err, persister, session) => {
+                    if (err) return done(err);
+
+                    session.enableFilter("tenant", { tenant: "acme" });
+                    session.enableFilter("highInterest", { minimumRate: 2 });
+
+                    var query = new QueryDefinitionStub(QueryKind.FindAll);
+                    query.criteria = { name: "Savings" };
+
+                    persister.executeQuery(query, () => {});
+                });
+            });
+
+            it('uses the criteria of the enabled filters if the query does not have criteria', (done) => {
+
+                var collection = new MockCollection();
+                collection.onUpdate = (selector, document, options, callback) => {
+                    assert.deepEqual(selector, { closedOn: null });
+                    done();
+                };
+
+                helpers.createPersister("annotations/filter", filterModel.Account, collection, (err, persister, session) => {
+                    if (err) return done(err);
+
+                    session.enableFilter("active");
+
+                    var query = new QueryDefinitionStub(QueryKind.UpdateAll);
+                    query.updateDocument = { $set: { name: "Closed" }};
+
+                    persister.executeQuery(query, () => {});
+                });
+            });
+
+            it('does not add the criteria of filters that are not enabled', (done) => {
+
+                var collection = new MockCollection();
+                collection.onFind = (criteria) => {
+                    assert.deepEqual(criteria, { name: "Savings" });
+                    done();
+                    return collection.createCursor();
+                };
+
+                helpers.createPersister("annotations/filter", filterModel.Account, collection, (err, persister) => {
+                    if (err) return done(err);
+
+                    var query = new QueryDefinitionStub(QueryKind.FindAll);
+                    query.criteria = { name: "Savings" };
+
+                    persister.executeQuery(query, () => {});
+                });
+            });
+
+            it('returns an error if a value for a parameter of an enabled filter is missing', (done) => {
+
+                helpers.createPersister("annotations/filter", filterModel.Account, new MockCollection(), (err, persister, session) => {
+                    if (err) return done(err);
+
+                    session.enableFilter("tenant", {});
+
+                    var query = new QueryDefinitionStub(QueryKind.FindAll);
+                    query.criteria = { name: "Savings" };
+
+                    persister.executeQuery(query, (err) => {
+                        assert.instanceOf(err, PersistenceError);
+                        assert.equal(err.message, "Missing value for parameter 'tenant' of filter 'tenant'.");
+                        done();
+                    });
+                });
+            });
+        });
+
+        describe('soft delete', () => {
+
+            it('excludes documents that are marked as deleted', (done) => {
+
+                var collection = new MockCollection();
+                collection.onFind = (criteria) => {
+                    assert.deepEqual(criteria, { $and: [{ number: "1001" }, { deletedAt: null }] });
+                    done();
+                    return collection.createCursor();
+                };
+
+                helpers.createPersister("annotations/softDelete", softDeleteModel.Invoice, collection, (err, persister) => {
+                    if (err) return done(err);
+
+                    var query = new QueryDefinitionStub(QueryKind.FindAll);
+                    query.criteria = { number: "1001" };
+
+                    persister.executeQuery(query, () => {});
+                });
+            });
+
+            it('includes documents that are marked as deleted if the query wants deleted', (done) => {
+
+                var collection = new MockCollection();
+                collection.onFind = (criteria) => {
+                    assert.deepEqual(criteria, { number: "1001" });
+                    done();
+                    return collection.createCursor();
+                };
+
+                helpers.createPersister("annotations/softDelete", softDeleteModel.Invoice, collection, (err, persister) => {
+                    if (err) return done(err);
+
+                    var query = new QueryDefinitionStub(QueryKind.FindAll);
+                    query.criteria = { number: "1001" };
+                    query.wantsDeleted = true;
+
+                    persister.executeQuery(query, () => {});
+                });
+            });
+
+            it('marks the documents as deleted instead of removing them for a remove query', (done) => {
+
+                var collection = new MockCollection();
+                collection.onUpdate = (selector, document, options, callback) => {
+                    assert.deepEqual(selector, { deletedAt: null });
+                    assert.instanceOf(document.$set.deletedAt, Date);
+                    assert.deepEqual(document.$inc, { __v: 1 });
+                    assert.isTrue(options.multi);
+                    callback(null, { result: { nModified: 2 }});
+                };
+
+                helpers.createPersister("annotations/softDelete", softDeleteModel.Invoice, collection, (err, persister) => {
+                    if (err) return done(err);
+
+                    var query = new QueryDefinitionStub(QueryKind.RemoveAll);
+                    query.criteria = {};
+
+                    persister.executeQuery(query, (err, count) => {
+                        if (err) return done(err);
+
+                        assert.equal(count, 2);
+                        done();
+                    });
+                });
+            });
+        });
+
+        describe('findCursor', () => {
+
+            it('creates and returns a cursor for the query', (done) => {
+
+                var collection = new MockCollection();
+
+                helpers.createPersister(collection, (err, persister) => {
+                    if (err) return done(err);
+
+                    var query = new QueryDefinitionStub(QueryKind.FindCursor);
+                    query.criteria = {};
+
+                    persister.executeQuery(query, (err, result) => {
+                        if(err) return done(err);
+
+                        // actual cursor implementation is not export so use duck typing to verify it's a cursor
+                        assert.property(result, "next");
+                        assert.property(result, "close");
+                        done();
+                    });
+                });
+            });
+        });
+
+        describe('findAll', () => {
+
+            it('translates property names to field names in sort specification', (done) => {
+
+                var collection = new MockCollection();
+
+                helpers.createPersister(collection, (err, persister) => {
+                    if (err) return done(err);
+
+                    collection.onFind = (criteria) => {
+
+                        var cursor = new MockCursor();
+
+                        cursor.onSort = (keyOrList: any, directionOrCallback: any, callback?: (err: Error, result: any) => void): Cursor => {
+
+                            assert.deepEqual(keyOrList, [ [ 'name', 1 ] ]);
+                            done();
+
+                            return cursor;
+                        }
+
+                        return cursor;
+                    }
+
+                    var query = new QueryDefinitionStub(QueryKind.FindAll);
+                    query.criteria = {};
+                    query.sortValue = [ [ '_name', 1 ] ];
+
+                    persister.executeQuery(query, (err, results) => {
+                        if(err) return done(err);
+                    });
+                });
+            });
+            it('maps selected properties to fields in the projection', (done) => {
+
+                var collection = new MockCollection();
+
+                helpers.createPersister(collection, (err, persister) => {
+                    if (err) return done(err);
+
+                    collection.onFind = (criteria, fields) => {
+
+                        assert.deepEqual(fields, { __t: 1, "personName.last": 1, age: 1 });
+                        done();
+                        return new MockCursor();
+                    }
+
+                    var query = new QueryDefinitionStub(QueryKind.FindAll);
+                    query.criteria = {};
+                    query.selectPaths = [ "personName.last", "age" ];
+
+                    persister.executeQuery(query, (err, results) => {
+                        if(err) return done(err);
+                    });
+                });
+            });
+
+            it('maps excluded properties to fields in the projection', (done) => {
+
+                var collection = new MockCollection();
+
+                helpers.createPersister(collection, (err, persister) => {
+                    if (err) return done(err);
+
+                    collection.onFind = (criteria, fields) => {
+
+                        assert.deepEqual(fields, { phones: 0, address: 0 });
+                        done();
+                        return new MockCursor();
+                    }
+
+                    var query = new QueryDefinitionStub(QueryKind.FindAll);
+                    query.criteria = {};
+                    query.excludePaths = [ "phones", "address" ];
+
+                    persister.executeQuery(query, (err, results) => {
+                        if(err) return done(err);
+                    });
+                });
+            });
+
+            it('returns an error if a selected property cannot be resolved', (done) => {
+
+                var collection = new MockCollection();
+
+                helpers.createPersister(collection, (err, persister) => {
+                    if (err) return done(err);
+
+                    var query = new QueryDefinitionStub(QueryKind.FindAll);
+                    query.criteria = {};
+                    query.selectPaths = [ "notAProperty" ];
+
+                    persister.executeQuery(query, (err, results) => {
+                        assert.instanceOf(err, Error);
+                        done();
+                    });
+                });
+            });
+
+            it('registers entities loaded with a projection as read-only', (done) => {
+
+                var collection = new MockCollection([ { _id: helpers.generateId(), __t: "Person", age: 42 } ]);
+
+                helpers.createPersister(collection, (err, persister) => {
+                    if (err) return done(err);
 
-            helpers.createPersister(new MockCollection(), (err, persister) => {
-                if (err) return done(err);
+                    var readOnly: boolean;
+                    (<any>persister)._session.registerManaged = (persister: any, entity: any, document: any, flag: boolean) => {
+                        readOnly = flag;
+                        return entity;
+                    };
 
-                var person = helpers.createPerson();
+                    var query = new QueryDefinitionStub(QueryKind.FindOne);
+                    query.criteria = {};
+                    query.selectPaths = [ "age" ];
 
-                persister.findInverseOf(person, "blah", (err, results) => {
-                    // TODO: check error code
-                    assert.instanceOf(err, Error);
-                    done();
+                    persister.executeQuery(query, (err, result) => {
+                        if(err) return done(err);
+                        assert.equal(result.age, 42);
+                        assert.isTrue(readOnly);
+                        done();
+                    });
                 });
             });
-        });
-    });
+            it('replaces an entity loaded with a projection when the entity is loaded with all fields', (done) => {
 
-    describe('findOneInverseOf', () => {
+                var id = helpers.generateId(),
+                    collection = new MockCollection([ { _id: id, __t: "Person", age: 42, name: "Smith, Bob" } ]);
 
-        it("finds the first entity in the collection where the property specified by path has a value matching id", (done) => {
+                helpers.createPersister(collection, (err, persister) => {
+                    if (err) return done(err);
 
-            var person = helpers.createPerson();
-            var id =  (<any>person)._id;
+                    var session: InternalSession = (<any>persister)._session;
 
-            var collection = new MockCollection();
-            collection.onFindOne = (criteria, fields, callback) => {
-                assert.deepEqual(criteria, { parents: id });
-                callback(null, { _id: id });
-                done();
-            };
+                    var query = new QueryDefinitionStub(QueryKind.FindOne);
+                    query.criteria = {};
+                    query.selectPaths = [ "age" ];
 
-            helpers.createPersister(collection, (err, persister) => {
-                if (err) return done(err);
+                    persister.executeQuery(query, (err, partial) => {
+                        if(err) return done(err);
 
-                persister.findOneInverseOf(person, "parents", (err, results) => {
-                    if(err) return done(err);
+                        persister.findOneById(id, (err, entity) => {
+                            if(err) return done(err);
+
+                            assert.notStrictEqual(entity, partial);
+                            assert.strictEqual(session.getObject(id.toString()), entity);
+                            done();
+                        });
+                    });
                 });
             });
         });
 
-        it("returns an error if specified path does not represent a property in the mapping", (done) => {
+        describe('aggregate', () => {
 
-            helpers.createPersister(new MockCollection(), (err, persister) => {
-                if (err) return done(err);
+            it('executes the mapped pipeline and returns the documents', (done) => {
 
-                var person = helpers.createPerson();
+                var collection = new MockCollection();
+                var documents = [ { _id: "Smith", total: 12 } ];
 
-                persister.findOneInverseOf(person, "blah", (err, results) => {
-                    // TODO: check error code
-                    assert.instanceOf(err, Error);
-                    done();
+                collection.onAggregate = (pipeline, callback) => {
+                    assert.deepEqual(pipeline, [ { $match: { __t: "Person" }}, { $group: { _id: "$personName.last", total: { $sum: "$age" }}} ]);
+                    callback(null, documents);
+                }
+
+                helpers.createPersister(collection, (err, persister) => {
+                    if (err) return done(err);
+
+                    var query = new QueryDefinitionStub(QueryKind.Aggregate);
+                    query.pipeline = [ { $group: { _id: "$personName.last", total: { $sum: "$age" }}} ];
+
+                    persister.executeQuery(query, (err, results) => {
+                        if(err) return done(err);
+                        assert.equal(results, documents);
+                        done();
+                    });
                 });
             });
-        });
-    });
 
-    describe('findOneById', () => {
+            it('reads the documents as entities when entities are requested', (done) => {
 
-        it('calls the callbacks of all invocations when called multiples times for the same identifier', (done) => {
+                var collection = new MockCollection([ { _id: helpers.generateId(), __t: "Person", age: 42 } ]);
 
-            var id = helpers.generateId();
-            var collection = new MockCollection([ { _id: id }]);
+                helpers.createPersister(collection, (err, persister) => {
+                    if (err) return done(err);
 
-            helpers.createPersister(collection, (err, persister) => {
-                if (err) return done(err);
+                    var query = new QueryDefinitionStub(QueryKind.Aggregate);
+                    query.pipeline = [ { $match: { age: { $gt: 21 }}} ];
+                    query.wantsEntities = true;
 
-                async.each([id, id], (id, done) => persister.findOneById(id, done), done);
+                    persister.executeQuery(query, (err, results) => {
+                        if(err) return done(err);
+                        assert.lengthOf(results, 1);
+                        assert.instanceOf(results[0], model.Person);
+                        assert.equal(results[0].age, 42);
+                        done();
+                    });
+                });
             });
         });
 
-        it("fetches properties flagged as FetchEager", (done) => {
-
-            var idA = helpers.generateId(),
-                idC = helpers.generateId();
-            var collection = new MockCollection([{ _id: idA, b: { c: idC }}, { _id: idC }]);
+        describe('read options', () => {
 
-            createFactory("fetchEager", (err, factory) => {
-                if (err) return done(err);
+            it('passes the read options to the driver with property names in the index hint mapped to fields', (done) => {
 
-                var session = new MockInternalSession(factory);
-                var persister = new PersisterImpl(session, factory.getMappingForConstructor(fetchEagerModel.A), collection);
+                var collection = new MockCollection();
 
-                persister.findOneById(idA, (err, a) => {
+                helpers.createPersister(collection, (err, persister) => {
                     if (err) return done(err);
 
-                    assert.deepEqual(session.findFetchedPaths(a), ["b.c"], "Expected path 'b.c' to be fetched.");
-                    done();
+                    collection.onFind = (criteria, fields, options) => {
+                        assert.deepEqual(options, {
+                            readPreference: "secondary",
+                            maxTimeMS: 500,
+                            hint: { name: 1 },
+                            collation: { locale: "en", strength: 2 },
+                            comment: "report"
+                        });
+                        done();
+                        return new MockCursor();
+                    }
+
+                    var query = new QueryDefinitionStub(QueryKind.FindAll);
+                    query.criteria = {};
+                    query.readPreferenceMode = "secondary";
+                    query.maxTimeMS = 500;
+                    query.hintValue = { _name: 1 };
+                    query.collationValue = { locale: "en", strength: 2 };
+                    query.commentValue = "report";
+
+                    persister.executeQuery(query, (err) => {
+                        if(err) return done(err);
+                    });
                 });
             });
-        });
 
-        it("does not fetch properties flagged as FetchLazy", (done) => {
+            it('adds the read options to the options for count', (done) => {
 
-            var idA = helpers.generateId();
+                var collection = new MockCollection();
 
-            var collection = new MockCollection();
-            collection.onFindOne = (criteria, fields, callback) => {
-                assert.deepEqual(criteria, { _id: idA });
-                assert.deepEqual(fields, { _b: 0 });
-                done();
-            };
+                collection.onCount = (criteria, options, callback) => {
+                    assert.deepEqual(options, { limit: 10, skip: undefined, readPreference: "secondaryPreferred", hint: "age_1" });
+                    callback(null, 3);
+                }
 
-            createFactory("fetchLazy", (err, factory) => {
-                if (err) return done(err);
+                helpers.createPersister(collection, (err, persister) => {
+                    if (err) return done(err);
 
-                var session = new MockInternalSession(factory);
-                var persister = new PersisterImpl(session, factory.getMappingForConstructor(fetchLazyModel.A), collection);
+                    var query = new QueryDefinitionStub(QueryKind.Count);
+                    query.criteria = {};
+                    query.limitCount = 10;
+                    query.readPreferenceMode = "secondaryPreferred";
+                    query.hintValue = "age_1";
 
-                persister.findOneById(idA, (err, a) => {
-                    if (err) return done(err);
+                    persister.executeQuery(query, (err, result) => {
+                        if(err) return done(err);
+                        assert.equal(result, 3);
+                        done();
+                    });
                 });
             });
-        });
 
-        it('returns an EntityNotFoundError if an entity with the specified id does not exists in the database', (done) => {
+            it('reads from a collection with the read concern if a read concern is specified', (done) => {
 
-            var id = helpers.generateId();
-            var collection = new MockCollection([]);
+                var collection = new MockCollection(),
+                    majorityCollection = new MockCollection([ { _id: helpers.generateId(), __t: "Person", age: 42 } ]);
 
-            helpers.createPersister(collection, (err, persister) => {
-                if (err) return done(err);
+                helpers.createPersister(collection, (err, persister, factory) => {
+                    if (err) return done(err);
 
-                persister.findOneById(id, (err) => {
-                    assert.instanceOf(err, EntityNotFoundError);
-                    assert.equal(err.message, `Unable to find document with identifier '${id}'.`);
-                    done();
+                    (<any>factory.connection).collection = (name: string, options: any) => {
+                        assert.equal(name, collection.collectionName);
+                        assert.deepEqual(options, { readConcern: { level: "majority" }});
+                        return majorityCollection;
+                    }
+
+                    var query = new QueryDefinitionStub(QueryKind.FindOne);
+                    query.criteria = {};
+                    query.readConcernLevel = "majority";
+
+                    persister.executeQuery(query, (err, result) => {
+                        if(err) return done(err);
+                        assert.equal(result.age, 42);
+                        done();
+                    });
                 });
             });
-        });
-    });
 
-    describe('findOne', () => {
+            it('passes the read options to the driver for a query by identifier', (done) => {
 
-    });
+                var collection = new MockCollection(),
+                    id = helpers.generateId();
 
-    describe('findAll', () => {
+                collection.onFindOne = (criteria, fields, callback, options) => {
+                    assert.deepEqual(criteria, { _id: id });
+                    assert.deepEqual(options, { readPreference: "secondary" });
+                    callback(null, { _id: id, __t: "Person", age: 42 });
+                }
 
-        it('executes query with criteria exactly as specified', (done) => {
+                helpers.createPersister(collection, (err, persister) => {
+                    if (err) return done(err);
 
-            var collection = new MockCollection();
-            collection.onFind = (criteria) => {
-                assert.deepEqual(criteria, { 'name': 'Bob' });
-                done();
-                return collection.createCursor();
-            };
+                    var query = new QueryDefinitionStub(QueryKind.FindOneById);
+                    query.id = id;
+                    query.readPreferenceMode = "secondary";
 
-            helpers.createPersister(collection, (err, persister) => {
-                if (err) return done(err);
+                    persister.executeQuery(query, (err, result) => {
+                        if(err) return done(err);
+                        assert.equal(result.age, 42);
+                        done();
+                    });
+                });
+            });
 
-                persister.findAll({ 'name': 'Bob' }, (err, results) => {
-                    if(err) return done(err);
+            it('returns an error if a property in the index hint cannot be resolved', (done) => {
+
+                helpers.createPersister(new MockCollection(), (err, persister) => {
+                    if (err) return done(err);
+
+                    var query = new QueryDefinitionStub(QueryKind.FindAll);
+                    query.criteria = {};
+                    query.hintValue = { missing: 1 };
+
+                    persister.executeQuery(query, (err) => {
+                        assert.instanceOf(err, PersistenceError);
+                        done();
+                    });
                 });
             });
         });
-    });
 
-    describe('executeQuery', () => {
+        describe('join', () => {
 
-        describe('findCursor', () => {
+            it('loads the joined documents for the referenced entities before the entity that references them', (done) => {
 
-            it('creates and returns a cursor for the query', (done) => {
+                var collection = new MockCollection(),
+                    parentId = helpers.generateId(),
+                    parentDocument = { _id: parentId, __t: "Person", age: 60 },
+                    document = { _id: helpers.generateId(), __t: "Person", age: 30, parents: [ parentId ], __join0: [ parentDocument ] };
 
-                var collection = new MockCollection();
+                collection.onAggregate = (pipeline, callback) => {
+                    assert.deepEqual(pipeline, [
+                        { $match: { __t: "Person", age: 30 }},
+                        { $limit: 1 },
+                        { $lookup: { from: "party", localField: "parents", foreignField: "_id", as: "__join0" }}
+                    ]);
+                    callback(null, [ document ]);
+                }
 
-                helpers.createPersister(collection, (err, persister) => {
+                helpers.createPersister(collection, (err, persister, factory) => {
                     if (err) return done(err);
 
-                    var query = new QueryDefinitionStub(QueryKind.FindCursor);
-                    query.criteria = {};
+                    var loaded: any[] = [];
+                    factory.getPersisterForConstructor((<any>persister)._session, model.Person).onLoad = (document, callback) => {
+                        loaded.push(document);
+                        callback(null, {});
+                    }
+
+                    var query = new QueryDefinitionStub(QueryKind.FindOne);
+                    query.criteria = { age: 30 };
+                    query.joinPaths = [ "parents" ];
 
                     persister.executeQuery(query, (err, result) => {
                         if(err) return done(err);
-
-                        // actual cursor implementation is not export so use duck typing to verify it's a cursor
-                        assert.property(result, "next");
-                        assert.property(result, "close");
+                        assert.deepEqual(loaded, [ parentDocument ]);
+                        assert.isUndefined((<any>document).__join0, "Expected joined documents to be removed from document");
+                        assert.instanceOf(result, model.Person);
+                        assert.equal(result.age, 30);
                         done();
                     });
                 });
             });
-        });
-
-        describe('findAll', () => {
 
-            it('translates property names to field names in sort specification', (done) => {
+            it('applies the projection after the lookups and includes the joined documents', (done) => {
 
                 var collection = new MockCollection();
 
+                collection.onAggregate = (pipeline, callback) => {
+                    assert.deepEqual(pipeline, [
+                        { $match: { __t: "Person" }},
+                        { $lookup: { from: "party", localField: "parents", foreignField: "_id", as: "__join0" }},
+                        { $project: { age: 1, __t: 1, __join0: 1 }}
+                    ]);
+                    done();
+                }
+
                 helpers.createPersister(collection, (err, persister) => {
                     if (err) return done(err);
 
-                    collection.onFind = (criteria) => {
-
-                        var cursor = new MockCursor();
+                    var query = new QueryDefinitionStub(QueryKind.FindAll);
+                    query.criteria = {};
+                    query.selectPaths = [ "age" ];
+                    query.joinPaths = [ "parents" ];
 
-                        cursor.onSort = (keyOrList: any, directionOrCallback: any, callback?: (err: Error, result: any) => void): Cursor => {
+                    persister.executeQuery(query, (err) => {
+                        if(err) return done(err);
+                    });
+                });
+            });
 
-                            assert.deepEqual(keyOrList, [ [ 'name', 1 ] ]);
-                            done();
+            it('excludes joined documents that are marked as deleted', (done) => {
+
+                var collection = new MockCollection(),
+                    invoiceId = helpers.generateId();
+
+                collection.onAggregate = (pipeline, callback) => {
+                    assert.deepEqual(pipeline, [
+                        { $limit: 1 },
+                        { $lookup: {
+                            from: "invoice",
+                            let: { references: "$invoice" },
+                            pipeline: [
+                                { $match: { $expr: { $eq: [ "$_id", "$$references" ] }}},
+                                { $match: { deletedAt: null }}
+                            ],
+                            as: "__join0"
+                        }}
+                    ]);
+                    callback(null, [ { _id: helpers.generateId(), invoice: invoiceId, __join0: [] } ]);
+                }
 
-                            return cursor;
-                        }
+                createFactory("annotations/softDelete", (err, factory) => {
+                    if (err) return done(err);
 
-                        return cursor;
-                    }
+                    var persister = new PersisterImpl(factory.createSession(), factory.getMappingForConstructor(softDeleteModel.Receipt), collection);
 
-                    var query = new QueryDefinitionStub(QueryKind.FindAll);
+                    var query = new QueryDefinitionStub(QueryKind.FindOne);
                     query.criteria = {};
-                    query.sortValue = [ [ '_name', 1 ] ];
+                    query.joinPaths = [ "invoice" ];
 
-                    persister.executeQuery(query, (err, results) => {
+                    persister.executeQuery(query, (err, result: softDeleteModel.Receipt) => {
                         if(err) return done(err);
+                        assert.instanceOf(result, softDeleteModel.Receipt);
+                        done();
+                    });
+                });
+            });
+
+            it('returns an error if a joined path is not a reference to an entity', (done) => {
+
+                helpers.createPersister(new MockCollection(), (err, persister) => {
+                    if (err) return done(err);
+
+                    var query = new QueryDefinitionStub(QueryKind.FindAll);
+                    query.joinPaths = [ "personName" ];
+
+                    persister.executeQuery(query, (err) => {
+                        assert.instanceOf(err, PersistenceError);
+                        assert.include(err.message, "is not a reference to an entity");
+                        done();
                     });
                 });
             });
@@ -483,6 +1935,27 @@ describe('PersisterImpl', () => {
 
         describe('updateAll', () => {
 
+            it('passes the write concern for the query to the driver', (done) => {
+
+                var collection = new MockCollection();
+                collection.onUpdate = (selector, document, options, callback) => {
+
+                    assert.deepEqual(options, { multi: true, upsert: false, w: 0 });
+                    callback(null, { result: { ok: 1 } });
+                }
+
+                helpers.createPersister(collection, (err, persister) => {
+                    if (err) return done(err);
+
+                    var query = new QueryDefinitionStub(QueryKind.UpdateAll);
+                    query.criteria = {};
+                    query.updateDocument = { $set: { age: 42 }};
+                    query.writeConcernValue = { w: 0 };
+
+                    persister.executeQuery(query, done);
+                });
+            });
+
             it('serializes embedded objects in update document', (done) => {
 
                 var phone = new model.WorkPhone("555-1212", "x15");
@@ -506,6 +1979,37 @@ describe('PersisterImpl', () => {
                 });
             });
 
+            it('removes the documents for the collection from the second-level cache', (done) => {
+
+                var id = helpers.generateId(),
+                    collection = new MockCollection();
+
+                collection.onUpdate = (selector, document, options, callback) => {
+                    callback(null, { result: { nModified: 1 } });
+                }
+
+                helpers.createPersister("annotations/cacheable", cacheableModel.Country, collection, (err, persister, session) => {
+                    if (err) return done(err);
+
+                    var store = <LruCacheStore>session.factory.cache.store;
+
+                    store.set("country", id.toString(), { document: { _id: id, name: "Canada", __v: 1 }, version: 1 }, (err) => {
+                        if (err) return done(err);
+
+                        var query = new QueryDefinitionStub(QueryKind.UpdateAll);
+                        query.criteria = {};
+                        query.updateDocument = { $set: { name: "Canada" }};
+
+                        persister.executeQuery(query, (err) => {
+                            if (err) return done(err);
+
+                            assert.equal(store.size, 0);
+                            done();
+                        });
+                    });
+                });
+            });
+
             it('does not increment version field if entity is not versioned', (done) => {
 
                 var phone = new model.WorkPhone("555-1212", "x15");
@@ -532,3 +2036,22 @@ describe('PersisterImpl', () => {
     });
 });
 
+function createCustomer(): validationModel.Customer {
+
+    var customer = new validationModel.Customer();
+    customer._id = helpers.generateId();
+    customer.name = "Bob";
+    customer.age = 30;
+    customer.email = "bob@example.com";
+    customer.address = createAddress();
+    return customer;
+}
+
+function createAddress(): validationModel.Address {
+
+    var address = new validationModel.Address();
+    address.city = "Springfield";
+    address.zip = "12345";
+    return address;
+}
+
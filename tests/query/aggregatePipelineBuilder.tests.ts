@@ -0,0 +1,159 @@
+import {assert} from "chai";
+import * as helpers from "../helpers";
+import * as model from "../fixtures/model";
+import * as dbRefModel from "../fixtures/annotations/dbRef";
+import {Callback} from "../../src/core/callback";
+import {AggregatePipelineBuilder} from "../../src/query/aggregatePipelineBuilder";
+import {QueryDocument} from "../../src/query/queryBuilder";
+
+describe('AggregatePipelineBuilder', () => {
+
+    it('limits the pipeline to documents of the entity type', (done) => {
+
+        helpers.createFactory("model", (err, factory) => {
+            if (err) return done(err);
+
+            var builder = new AggregatePipelineBuilder(factory.getMappingForConstructor(model.Person));
+            assert.deepEqual(builder.build([]), [ { $match: { __t: "Person" }} ]);
+            done();
+        });
+    });
+
+    it('translates property names to field names in $match stage', (done) => {
+
+        assertPipeline(done, [ { $match: { "_name": "Bob Jones" }} ], [ { $match: { "name": "Bob Jones" }} ]);
+    });
+
+    it('serializes values in $match stage using the property mapping', (done) => {
+
+        assertPipeline(done, [ { $match: { "gender": model.Gender.Male }} ], [ { $match: { "gender": "Male" }} ]);
+    });
+
+    it('translates property names to field names in $sort stage', (done) => {
+
+        assertPipeline(done, [ { $sort: { "_name": 1, "personName.last": -1 }} ], [ { $sort: { "name": 1, "personName.last": -1 }} ]);
+    });
+
+    it('translates field paths in $group stage expressions', (done) => {
+
+        assertPipeline(done,
+            [ { $group: { _id: "$_name", total: { $sum: "$age" }, count: { $sum: 1 }}} ],
+            [ { $group: { _id: "$name", total: { $sum: "$age" }, count: { $sum: 1 }}} ]);
+    });
+
+    it('does not translate names in stages that follow a $group stage', (done) => {
+
+        assertPipeline(done,
+            [ { $group: { _id: "$_name", total: { $sum: "$age" }}}, { $sort: { total: -1 }}, { $match: { total: { $gt: 10 }}} ],
+            [ { $group: { _id: "$name", total: { $sum: "$age" }}}, { $sort: { total: -1 }}, { $match: { total: { $gt: 10 }}} ]);
+    });
+
+    it('translates included properties and field paths in $project stage', (done) => {
+
+        assertPipeline(done,
+            [ { $project: { "_name": 1, lastName: "$personName.last" }} ],
+            [ { $project: { "name": 1, lastName: "$personName.last" }} ]);
+    });
+
+    it('translates array property in $unwind stage', (done) => {
+
+        assertPipeline(done, [ { $unwind: "$phones" }], [ { $unwind: "$phones" }]);
+    });
+
+    it('determines the collection and fields for $lookup stage from the referenced entity', (done) => {
+
+        assertPipeline(done,
+            [ { $lookup: { localField: "parents" }} ],
+            [ { $lookup: { from: "party", localField: "parents", foreignField: "_id", as: "parents" }} ]);
+    });
+
+    it('returns error if $lookup property is not an entity reference', (done) => {
+
+        assertPipeline((err) => {
+            assert.instanceOf(err, Error);
+            assert.include(err.message, "not a reference to an entity");
+            done();
+        }, [ { $lookup: { localField: "personName" }} ], null);
+    });
+
+    it('returns error if $lookup property references entities in a different database', (done) => {
+
+        helpers.createFactory("annotations/dbRef", (err, factory) => {
+            if (err) return done(err);
+
+            var builder = new AggregatePipelineBuilder(factory.getMappingForConstructor(dbRefModel.Customer));
+            builder.build([ { $lookup: { localField: "primaryAccount" }} ]);
+            assert.instanceOf(builder.error, Error);
+            assert.include(builder.error.message, "different database");
+            done();
+        });
+    });
+
+    it('returns error if property cannot be resolved', (done) => {
+
+        assertPipeline((err) => {
+            // TODO: check error code
+            assert.instanceOf(err, Error);
+            done();
+        }, [ { $group: { _id: "$notAProperty" }} ], null);
+    });
+
+    it('returns error if pipeline stage is unknown', (done) => {
+
+        assertPipeline((err) => {
+            assert.instanceOf(err, Error);
+            assert.include(err.message, "Unknown pipeline stage");
+            done();
+        }, [ { $out: "results" } ], null);
+    });
+
+    it('returns error if entities are requested and the pipeline changes the shape of the documents', (done) => {
+
+        assertPipeline((err) => {
+            assert.instanceOf(err, Error);
+            done();
+        }, [ { $project: { "_name": 1 }} ], null, true);
+    });
+
+    it('returns error if entities are requested and the pipeline includes an $unwind stage', (done) => {
+
+        assertPipeline((err) => {
+            assert.instanceOf(err, Error);
+            assert.include(err.message, "Cannot return entities");
+            done();
+        }, [ { $unwind: "$phones" } ], null, true);
+    });
+
+    it('returns error if entities are requested and a $lookup stage replaces a field of the entity', (done) => {
+
+        assertPipeline((err) => {
+            assert.instanceOf(err, Error);
+            assert.include(err.message, "Cannot return entities");
+            done();
+        }, [ { $lookup: { localField: "parents" }} ], null, true);
+    });
+
+    it('returns entities if a $lookup stage adds a new field', (done) => {
+
+        assertPipeline(done,
+            [ { $lookup: { localField: "parents", as: "parentDocuments" }} ],
+            [ { $lookup: { from: "party", localField: "parents", foreignField: "_id", as: "parentDocuments" }} ], true);
+    });
+});
+
+function assertPipeline(done: Callback, pipeline: QueryDocument[], expected: QueryDocument[], wantsEntities?: boolean): void {
+
+    helpers.createFactory("model", (err, factory) => {
+        if (err) return done(err);
+
+        var builder = new AggregatePipelineBuilder(factory.getMappingForConstructor(model.Person));
+        var result = builder.build(pipeline, wantsEntities);
+        if(builder.error) {
+            return done(builder.error);
+        }
+
+        // skip the stage that matches the discriminator
+        assert.deepEqual(result.slice(1), expected);
+        done();
+    });
+}
@@ -7,6 +7,7 @@ import {Constructor} from "../../src/index";
 import {Callback} from "../../src/core/callback";
 import {CriteriaBuilder} from "../../src/query/criteriaBuilder";
 import {QueryDocument} from "../../src/query/queryBuilder";
+import * as dbRefModel from "../fixtures/annotations/dbRef";
 
 describe('CriteriaBuilder', () => {
 
@@ -48,6 +49,25 @@ describe('CriteriaBuilder', () => {
         assertCriteria(done, { person: person }, {  person: (<any>person)._id }, model.User);
     });
 
+    it("matches the identifier in the DBRef when the property stores references as DBRefs", (done) => {
+
+        helpers.createFactory("annotations/dbRef", (err, factory) => {
+            if (err) return done(err);
+
+            var account = new dbRefModel.Account(),
+                id = helpers.generateId();
+
+            helpers.setIdentifier(account, id);
+
+            var builder = new CriteriaBuilder(factory.getMappingForConstructor(dbRefModel.Customer)),
+                result = builder.build({ account: account, previousAccounts: { $in: [account] }, primaryAccount: account });
+
+            if (builder.error) return done(builder.error);
+            assert.deepEqual(result, { "account.$id": id, "previousAccounts.$id": { $in: [id] }, primaryAccount: id });
+            done();
+        });
+    });
+
     it('returns error if value of $and operation is not an array', (done) => {
 
         assertError(done, { $and: true }, "operator should be an array", model.User);
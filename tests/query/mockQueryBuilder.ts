@@ -1,11 +1,13 @@
 import {
     QueryBuilder, QueryDocument, FindQuery, FindOneQuery, FindOneAndRemoveQuery,
-    FindOneAndUpdateQuery, CountQuery
+    FindOneAndUpdateQuery, CountQuery, DistinctQuery, WriteQuery, QueryCursor, AggregateQuery, ReadPreferenceMode,
+    ReadConcernLevel, Collation
 } from "../../src/query/queryBuilder";
 import {MockInternalSession} from "../mockInternalSession";
 import {Constructor} from "../../src/index";
 import {ResultCallback, IteratorCallback, Callback} from "../../src/core/callback";
 import {QueryKind} from "../../src/query/queryKind";
+import {WriteConcern} from "../../src/config/configuration";
 export class MockQueryBuilder<T> implements QueryBuilder<T> {
 
     private _session: MockInternalSession;
@@ -68,45 +70,45 @@ export class MockQueryBuilder<T> implements QueryBuilder<T> {
         return this._createUpdateQuery(QueryKind.FindOneAndUpsert, criteriaOrUpdateDocument, updateDocumentOrCallback, callback);
     }
 
-    removeAll(callback?: ResultCallback<number>): void;
-    removeAll(criteria: QueryDocument, callback?: ResultCallback<number>): void;
-    removeAll(criteriaOrCallback?: any, callback?: ResultCallback<number>): void {
+    removeAll(callback?: ResultCallback<number>): WriteQuery;
+    removeAll(criteria: QueryDocument, callback?: ResultCallback<number>): WriteQuery;
+    removeAll(criteriaOrCallback?: any, callback?: ResultCallback<number>): WriteQuery {
 
-        this._createRemoveQuery(QueryKind.RemoveAll, criteriaOrCallback, callback);
+        return this._createRemoveQuery(QueryKind.RemoveAll, criteriaOrCallback, callback);
     }
 
-    removeOne(callback?: ResultCallback<number>): void;
-    removeOne(criteria: QueryDocument, callback?: ResultCallback<number>): void;
-    removeOne(criteriaOrCallback?: any, callback?: ResultCallback<number>): void {
+    removeOne(callback?: ResultCallback<number>): WriteQuery;
+    removeOne(criteria: QueryDocument, callback?: ResultCallback<number>): WriteQuery;
+    removeOne(criteriaOrCallback?: any, callback?: ResultCallback<number>): WriteQuery {
 
-        this._createRemoveQuery(QueryKind.RemoveOne, criteriaOrCallback, callback);
+        return this._createRemoveQuery(QueryKind.RemoveOne, criteriaOrCallback, callback);
     }
 
-    updateAll(updateDocument: QueryDocument, callback?: ResultCallback<number>): void;
-    updateAll(criteria: QueryDocument, updateDocument: QueryDocument, callback?: ResultCallback<number>): void;
-    updateAll(criteriaOrUpdateDocument: QueryDocument, updateDocumentOrCallback: any, callback?: ResultCallback<number>): void {
+    updateAll(updateDocument: QueryDocument, callback?: ResultCallback<number>): WriteQuery;
+    updateAll(criteria: QueryDocument, updateDocument: QueryDocument, callback?: ResultCallback<number>): WriteQuery;
+    updateAll(criteriaOrUpdateDocument: QueryDocument, updateDocumentOrCallback: any, callback?: ResultCallback<number>): WriteQuery {
 
-        this._createUpdateQuery(QueryKind.UpdateAll, criteriaOrUpdateDocument, updateDocumentOrCallback, callback);
+        return this._createUpdateQuery(QueryKind.UpdateAll, criteriaOrUpdateDocument, updateDocumentOrCallback, callback);
     }
 
-    updateOne(updateDocument: QueryDocument, callback?: ResultCallback<number>): void;
-    updateOne(criteria: QueryDocument, updateDocument: QueryDocument, callback?: ResultCallback<number>): void;
-    updateOne(criteriaOrUpdateDocument: QueryDocument, updateDocumentOrCallback: any, callback?: ResultCallback<number>): void {
+    updateOne(updateDocument: QueryDocument, callback?: ResultCallback<number>): WriteQuery;
+    updateOne(criteria: QueryDocument, updateDocument: QueryDocument, callback?: ResultCallback<number>): WriteQuery;
+    updateOne(criteriaOrUpdateDocument: QueryDocument, updateDocumentOrCallback: any, callback?: ResultCallback<number>): WriteQuery {
 
-        this._createUpdateQuery(QueryKind.UpdateOne, criteriaOrUpdateDocument, updateDocumentOrCallback, callback);
+        return this._createUpdateQuery(QueryKind.UpdateOne, criteriaOrUpdateDocument, updateDocumentOrCallback, callback);
     }
 
-    upsert(updateDocument: QueryDocument, callback?: ResultCallback<number>): void;
-    upsert(criteria: QueryDocument, updateDocument: QueryDocument, callback?: ResultCallback<number>): void;
-    upsert(criteriaOrUpdateDocument: QueryDocument, updateDocumentOrCallback: any, callback?: ResultCallback<number>): void {
+    upsert(updateDocument: QueryDocument, callback?: ResultCallback<number>): WriteQuery;
+    upsert(criteria: QueryDocument, updateDocument: QueryDocument, callback?: ResultCallback<number>): WriteQuery;
+    upsert(criteriaOrUpdateDocument: QueryDocument, updateDocumentOrCallback: any, callback?: ResultCallback<number>): WriteQuery {
 
-        this._createUpdateQuery(QueryKind.Upsert, criteriaOrUpdateDocument, updateDocumentOrCallback, callback);
+        return this._createUpdateQuery(QueryKind.Upsert, criteriaOrUpdateDocument, updateDocumentOrCallback, callback);
 
     }
 
-    distinct(key: string, callback: ResultCallback<any[]>): void;
-    distinct(key: string, criteria: QueryDocument, callback: ResultCallback<any[]>): void;
-    distinct(key: string, criteriaOrCallback: any, callback?: ResultCallback<any[]>): void {
+    distinct(key: string, callback?: ResultCallback<any[]>): DistinctQuery;
+    distinct(key: string, criteria: QueryDocument, callback?: ResultCallback<any[]>): DistinctQuery;
+    distinct(key: string, criteriaOrCallback?: any, callback?: ResultCallback<any[]>): DistinctQuery {
 
         var query = this._createQuery(QueryKind.Distinct);
         query.key = key;
@@ -117,7 +119,7 @@ export class MockQueryBuilder<T> implements QueryBuilder<T> {
         else {
             query.criteria = criteriaOrCallback || {};
         }
-        query.handleCallback(callback);
+        return query.handleCallback(callback);
     }
 
     count(callback?: ResultCallback<number>): CountQuery;
@@ -137,6 +139,15 @@ export class MockQueryBuilder<T> implements QueryBuilder<T> {
         return query.handleCallback(callback);
     }
 
+    inverseOf(entity: Object, path: string, callback?: ResultCallback<T[]>): FindQuery<T> {
+
+        return this._createFindQuery(QueryKind.FindAll, { [path]: entity }, callback);
+    }
+
+    aggregate(): AggregateQuery<T> {
+        throw new Error("Not implemented");
+    }
+
     private _createUpdateQuery(kind: QueryKind, criteriaOrUpdateDocument: QueryDocument, updateDocumentOrCallback: any,
                                callback?: ResultCallback<any>): any {
 
@@ -192,7 +203,7 @@ export class MockQueryBuilder<T> implements QueryBuilder<T> {
 }
 
 export class MockQueryObject implements FindQuery<Object>, FindOneQuery<Object>, FindOneAndRemoveQuery<Object>,
-    FindOneAndUpdateQuery<Object>, CountQuery {
+    FindOneAndUpdateQuery<Object>, CountQuery, DistinctQuery, WriteQuery {
 
     key: string;
     id: any;
@@ -201,11 +212,22 @@ export class MockQueryObject implements FindQuery<Object>, FindOneQuery<Object>,
 
     wantsUpdated: boolean;
     fetchPaths: string[];
+    joinPaths: string[];
+    selectPaths: string[];
+    excludePaths: string[];
     sortValue: [string, number][];
     limitCount: number;
     skipCount: number;
     iterator: IteratorCallback<Object>;
     batchSizeValue: number;
+    wantsDeleted: boolean;
+    readPreferenceMode: ReadPreferenceMode;
+    readConcernLevel: ReadConcernLevel;
+    maxTimeMS: number;
+    hintValue: string | QueryDocument;
+    collationValue: Collation;
+    commentValue: string;
+    writeConcernValue: WriteConcern;
     error: Error;
     entityCtr: Constructor<any>;
 
@@ -250,6 +272,22 @@ export class MockQueryObject implements FindQuery<Object>, FindOneQuery<Object>,
         return this.handleCallback(callback);
     }
 
+    join(path: string | string[], callback?: ResultCallback<any>): MockQueryObject {
+
+        if (!this.joinPaths) {
+            this.joinPaths = [];
+        }
+
+        if (typeof path === "string") {
+            this.joinPaths.push(path);
+        }
+        else {
+            this.joinPaths = this.joinPaths.concat(path);
+        }
+
+        return this.handleCallback(callback);
+    }
+
     sort(field: string | [string, number][], directionOrCallback: number | ResultCallback<any>,
          callback?: ResultCallback<any>): MockQueryObject {
 
@@ -298,11 +336,63 @@ export class MockQueryObject implements FindQuery<Object>, FindOneQuery<Object>,
         return this.handleCallback(callback);
     }
 
+    select(...paths: string[]): MockQueryObject {
+
+        this.selectPaths = (this.selectPaths || []).concat(paths);
+        return this;
+    }
+
+    exclude(...paths: string[]): MockQueryObject {
+
+        this.excludePaths = (this.excludePaths || []).concat(paths);
+        return this;
+    }
+
+    withDeleted(callback?: ResultCallback<any>): MockQueryObject {
+        this.wantsDeleted = true;
+        return this.handleCallback(callback);
+    }
+
     batchSize(value: number, callback?: ResultCallback<any>): MockQueryObject {
         this.batchSizeValue = value;
         return this.handleCallback(callback);
     }
 
+    readPreference(mode: ReadPreferenceMode, callback?: ResultCallback<any>): MockQueryObject {
+        this.readPreferenceMode = mode;
+        return this.handleCallback(callback);
+    }
+
+    readConcern(level: ReadConcernLevel, callback?: ResultCallback<any>): MockQueryObject {
+        this.readConcernLevel = level;
+        return this.handleCallback(callback);
+    }
+
+    maxTime(milliseconds: number, callback?: ResultCallback<any>): MockQueryObject {
+        this.maxTimeMS = milliseconds;
+        return this.handleCallback(callback);
+    }
+
+    hint(index: string | QueryDocument, callback?: ResultCallback<any>): MockQueryObject {
+        this.hintValue = index;
+        return this.handleCallback(callback);
+    }
+
+    collation(collation: Collation, callback?: ResultCallback<any>): MockQueryObject {
+        this.collationValue = collation;
+        return this.handleCallback(callback);
+    }
+
+    comment(value: string, callback?: ResultCallback<any>): MockQueryObject {
+        this.commentValue = value;
+        return this.handleCallback(callback);
+    }
+
+    writeConcern(writeConcern: WriteConcern, callback?: ResultCallback<any>): MockQueryObject {
+        this.writeConcernValue = writeConcern;
+        return this.handleCallback(callback);
+    }
+
     each(iterator: IteratorCallback<Object>, callback: Callback): void {
 
         if (!iterator) {
@@ -378,4 +468,9 @@ export class MockQueryObject implements FindQuery<Object>, FindOneQuery<Object>,
 
         throw new Error("Not implemented");
     }
+
+    cursor(): QueryCursor<Object> {
+
+        throw new Error("Not implemented");
+    }
 }
@@ -19,6 +19,35 @@ describe('QueryBuilderImpl', () => {
 
     describe('findAll', () => {
 
+        it('sets the select paths', (done) => {
+
+            helpers.createFactory("model", (err, factory) => {
+                if (err) return done(err);
+
+                var session = factory.createSession();
+
+                var persister = factory.getPersisterForConstructor(session, model.Person);
+                persister.onExecuteQuery = (query: QueryDefinition) => {
+                    assert.deepEqual(query.selectPaths, [ "personName", "age", "email" ]);
+                    done();
+                }
+
+                session.query(model.Person).findAll(queryCriteria).select("personName", "age").select("email").execute(() => {});
+            });
+        });
+
+        it('throws an error if select is combined with exclude', (done) => {
+
+            helpers.createFactory("model", (err, factory) => {
+                if (err) return done(err);
+
+                var query = factory.createSession().query(model.Person).findAll(queryCriteria).exclude("age");
+
+                assert.throws(() => query.select("personName"), "Cannot combine select with exclude.");
+                done();
+            });
+        });
+
         it('correctly sets the query kind and criteria', (done) => {
 
             helpers.createFactory("model", (err, factory) => {
@@ -83,6 +112,49 @@ describe('QueryBuilderImpl', () => {
             });
         });
 
+        it("sets the read options on the query", (done) => {
+
+            helpers.createFactory("model", (err, factory) => {
+                if (err) return done(err);
+
+                var session = factory.createSession();
+                var persister = factory.getPersisterForConstructor(session, model.Person);
+                persister.onExecuteQuery = (query: QueryDefinition) => {
+                    assert.equal(query.readPreferenceMode, "secondary");
+                    assert.equal(query.readConcernLevel, "majority");
+                    assert.equal(query.maxTimeMS, 1000);
+                    assert.deepEqual(query.hintValue, { age: 1 });
+                    assert.deepEqual(query.collationValue, { locale: "fr" });
+                    assert.equal(query.commentValue, "analytics");
+                    done();
+                }
+
+                session.query(model.Person).findAll({}).readPreference("secondary").readConcern("majority").maxTime(1000)
+                    .hint({ age: 1 }).collation({ locale: "fr" }).comment("analytics", (err, results) => {
+                        if(err) return done(err);
+                    });
+            });
+        });
+
+        it("sets the joined paths on the query", (done) => {
+
+            helpers.createFactory("model", (err, factory) => {
+                if (err) return done(err);
+
+                var session = factory.createSession();
+                var persister = factory.getPersisterForConstructor(session, model.Person);
+                persister.onExecuteQuery = (query: QueryDefinition) => {
+                    assert.equal(query.kind, QueryKind.FindAll);
+                    assert.deepEqual(query.joinPaths, [ 'parents', 'children' ]);
+                    done();
+                }
+
+                session.query(model.Person).findAll({}).join("parents").join([ "children" ], (err, results) => {
+                    if(err) return done(err);
+                });
+            });
+        });
+
         it("allows specification of 'each' iterator if callback is not provided", (done) => {
 
             helpers.createFactory("model", (err, factory) => {
@@ -501,6 +573,26 @@ describe('QueryBuilderImpl', () => {
             });
         });
 
+        it('sets the write concern on the query', (done) => {
+
+            helpers.createFactory("model", (err, factory) => {
+                if (err) return done(err);
+
+                var session = factory.createSession();
+
+                var persister = factory.getPersisterForConstructor(session, model.Person);
+                persister.onExecuteQuery = (query: QueryDefinition) => {
+                    assert.equal(query.kind, QueryKind.UpdateAll);
+                    assert.deepEqual(query.writeConcernValue, { w: "majority", wtimeout: 5000 });
+                    done();
+                }
+
+                session.query(model.Person).updateAll({ $set: { age: 42 }}).writeConcern({ w: "majority", wtimeout: 5000 }, (err, count) => {
+                    if(err) return done(err);
+                });
+            });
+        });
+
         it('defaults the criteria to {} if not provided', (done) => {
 
             helpers.createFactory("model", (err, factory) => {
@@ -624,6 +716,105 @@ describe('QueryBuilderImpl', () => {
         });
     });
 
+    describe('aggregate', () => {
+
+        it('adds a stage to the pipeline for each method in the chain', (done) => {
+
+            helpers.createFactory("model", (err, factory) => {
+                if (err) return done(err);
+
+                var session = factory.createSession();
+
+                var persister = factory.getPersisterForConstructor(session, model.Person);
+                persister.onExecuteQuery = (query: QueryDefinition) => {
+                    assert.equal(query.kind, QueryKind.Aggregate);
+                    assert.deepEqual(query.pipeline, [
+                        { $match: { age: { $gt: 21 }}},
+                        { $unwind: "$phones" },
+                        { $lookup: { localField: "parents", as: "parentDocuments" }},
+                        { $sort: { "personName.last": 1 }},
+                        { $skip: 10 },
+                        { $limit: 5 },
+                        { $group: { _id: "$personName.last", count: { $sum: 1 }}},
+                        { $project: { count: 1 }}
+                    ]);
+                    done();
+                }
+
+                session.query(model.Person).aggregate()
+                    .match({ age: { $gt: 21 }})
+                    .unwind("phones")
+                    .lookup("parents", "parentDocuments")
+                    .sort("personName.last", 1)
+                    .skip(10)
+                    .limit(5)
+                    .group({ _id: "$personName.last", count: { $sum: 1 }})
+                    .project({ count: 1 }, (err, results) => {
+                        if(err) return done(err);
+                    });
+            });
+        });
+
+        it('sets the query to return entities', (done) => {
+
+            helpers.createFactory("model", (err, factory) => {
+                if (err) return done(err);
+
+                var session = factory.createSession();
+
+                var persister = factory.getPersisterForConstructor(session, model.Person);
+                persister.onExecuteQuery = (query: QueryDefinition) => {
+                    assert.isTrue(query.wantsEntities);
+                    done();
+                }
+
+                session.query(model.Person).aggregate().match({ age: 42 }).returnEntities((err, results) => {
+                    if(err) return done(err);
+                });
+            });
+        });
+    });
+
+    describe('inverseOf', () => {
+
+        it('sets the criteria to match entities that reference the entity', (done) => {
+
+            helpers.createFactory("model", (err, factory) => {
+                if (err) return done(err);
+
+                var session = factory.createSession(),
+                    parent = helpers.createPerson();
+
+                var persister = factory.getPersisterForConstructor(session, model.Person);
+                persister.onExecuteQuery = (query: QueryDefinition) => {
+                    assert.equal(query.kind, QueryKind.FindAll);
+                    assert.deepEqual(query.criteria, { parents: parent });
+                    assert.deepEqual(query.sortValue, [ [ "age", -1 ] ]);
+                    assert.equal(query.skipCount, 20);
+                    assert.equal(query.limitCount, 10);
+                    done();
+                }
+
+                session.query(model.Person).inverseOf(parent, "parents").sort("age", -1).skip(20).limit(10, (err, results) => {
+                    if(err) return done(err);
+                });
+            });
+        });
+
+        it('returns error if entity is not provided', (done) => {
+
+            helpers.createFactory("model", (err, factory) => {
+                if (err) return done(err);
+
+                factory.createSession().query(model.Person).inverseOf(null, "parents", (err, results) => {
+                    assert.instanceOf(err, Error);
+                    assert.include(err.message, "Missing entity");
+                    done();
+                });
+            });
+        });
+    });
+
     describe('count', () => {
 
         it('correctly sets the query kind and criteria', (done) => {
@@ -789,6 +980,112 @@ describe('QueryBuilderImpl', () => {
             });
         }
     });
+
+    describe("cursor", () => {
+
+        it("executes the query and returns each entity followed by null", (done) => {
+
+            createSessionForCursor((err, result) => {
+                if (err) return done(err);
+
+                var cursor = result.session.query(model.Person).findAll({ name: 'Test' }).cursor();
+                var values: any[] = [];
+
+                (function next() {
+                    cursor.next((err, entity) => {
+                        if (err) return done(err);
+
+                        if (entity == null) {
+                            assert.deepEqual(values, [1, 2, 3]);
+                            assert.isTrue(result.cursor.closed, "Expected cursor to be closed.");
+                            done();
+                            return;
+                        }
+
+                        values.push(entity);
+                        next();
+                    });
+                })();
+            });
+        });
+
+        it("returns an async iterator for the cursor", (done) => {
+
+            createSessionForCursor((err, result) => {
+                if (err) return done(err);
+
+                var iterator = result.session.query(model.Person).findAll({ name: 'Test' }).cursor()[Symbol.asyncIterator]();
+                var values: any[] = [];
+
+                (function next(): Promise<void> {
+                    return iterator.next().then((item) => {
+                        if (item.done) {
+                            assert.deepEqual(values, [1, 2, 3]);
+                            return;
+                        }
+
+                        values.push(item.value);
+                        return next();
+                    });
+                })().then(() => done(), done);
+            });
+        });
+
+        it("closes the underlying cursor if iteration is stopped early", (done) => {
+
+            createSessionForCursor((err, result) => {
+                if (err) return done(err);
+
+                var iterator = result.session.query(model.Person).findAll({ name: 'Test' }).cursor()[Symbol.asyncIterator]();
+
+                iterator.next().then((item) => {
+                    assert.equal(item.value, 1);
+                    return iterator.return();
+                }).then((item) => {
+                    assert.isTrue(item.done);
+                    assert.isTrue(result.cursor.closed, "Expected cursor to be closed.");
+                    done();
+                }).catch(done);
+            });
+        });
+
+        it("executes the query once if next is called before the query has returned", (done) => {
+
+            createSessionForCursor((err, result) => {
+                if (err) return done(err);
+
+                var cursor = result.session.query(model.Person).findAll({ name: 'Test' }).cursor();
+
+                Promise.all([cursor.next(), cursor.next()]).then((values) => {
+                    assert.deepEqual(values, [1, 2]);
+                    assert.equal(result.executed, 1);
+                    done();
+                }).catch(done);
+            });
+        });
+
+        function createSessionForCursor(callback: ResultCallback<{ session: InternalSession, cursor: MockCursor, executed: number }>): void {
+
+            helpers.createFactory("model", (err, factory) => {
+                if (err) return callback(err);
+
+                var session = factory.createSession();
+                var persister = factory.getPersisterForConstructor(session, model.Person);
+                var result = { session, cursor: new MockCursor([1, 2, 3]), executed: 0 };
+
+                persister.onExecuteQuery = (query: QueryDefinition, callback: any) => {
+
+                    assert.equal(query.kind, QueryKind.FindCursor);
+                    result.executed++;
+                    process.nextTick(() => {
+                        callback(null, result.cursor);
+                    });
+                };
+
+                callback(null, result);
+            });
+        }
+    });
 });
 
 class MockCursor implements Cursor<any> {
@@ -1,9 +1,10 @@
 import {InternalSession} from "../../src/session";
 import {QueryDefinition} from "../../src/query/queryDefinition";
 import {IteratorCallback} from "../../src/core/callback";
-import {QueryDocument} from "../../src/query/queryBuilder";
+import {QueryDocument, ReadPreferenceMode, ReadConcernLevel, Collation} from "../../src/query/queryBuilder";
 import {QueryKind} from "../../src/query/queryKind";
 import {ResultCallback} from "../../src/core/callback";
+import {WriteConcern} from "../../src/config/configuration";
 
 export class QueryDefinitionStub implements QueryDefinition {
 
@@ -15,11 +16,24 @@ export class QueryDefinitionStub implements QueryDefinition {
 
     wantsUpdated: boolean;
     fetchPaths: string[];
+    joinPaths: string[];
+    selectPaths: string[];
+    excludePaths: string[];
     sortValue: [string, number][];
     limitCount: number;
     skipCount: number;
     iterator: IteratorCallback<Object>;
     batchSizeValue: number;
+    pipeline: QueryDocument[];
+    wantsEntities: boolean;
+    wantsDeleted: boolean;
+    readPreferenceMode: ReadPreferenceMode;
+    readConcernLevel: ReadConcernLevel;
+    maxTimeMS: number;
+    hintValue: string | QueryDocument;
+    collationValue: Collation;
+    commentValue: string;
+    writeConcernValue: WriteConcern;
 
     get readOnly(): boolean {
         switch (this.kind) {
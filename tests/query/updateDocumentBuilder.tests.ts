@@ -6,6 +6,8 @@ import {Constructor} from "../../src/index";
 import {Callback} from "../../src/core/callback";
 import {UpdateDocumentBuilder} from "../../src/query/updateDocumentBuilder";
 import {QueryDocument} from "../../src/query/queryBuilder";
+import * as dbRefModel from "../fixtures/annotations/dbRef";
+import {DBRef} from "mongodb";
 
 describe('UpdateDocumentBuilder', () => {
 
@@ -165,6 +167,24 @@ describe('UpdateDocumentBuilder', () => {
         assertDocument(done, { $pull: { phones: { type: model.PhoneType.Work }}}, { $pull: { phones: { type: "Work" }}});
     });
 
+    it('writes references as DBRefs when the property stores references as DBRefs', (done) => {
+
+        helpers.createFactory("annotations/dbRef", (err, factory) => {
+            if (err) return done(err);
+
+            var account = new dbRefModel.Account();
+            helpers.setIdentifier(account, helpers.generateId());
+
+            var builder = new UpdateDocumentBuilder(factory.getMappingForConstructor(dbRefModel.Customer)),
+                result = builder.build({ $set: { account: account }, $push: { previousAccounts: account }});
+
+            if (builder.error) return done(builder.error);
+            assert.instanceOf(result["$set"]["account"], DBRef);
+            assert.instanceOf(result["$push"]["previousAccounts"], DBRef);
+            done();
+        });
+    });
+
     it('returns error if a document replacement is attempted', (done) => {
 
         var person = helpers.createPerson();
@@ -1,5 +1,5 @@
 import {assert} from "chai";
-import {ObjectID} from "mongodb";
+import {ObjectID, MongoError} from "mongodb";
 import * as helpers from "./helpers";
 import * as model from "./fixtures/model";
 import {SessionFactoryImpl} from "../src/sessionFactory";
@@ -9,7 +9,7 @@ import {MockPersister} from "./mockPersister";
 import {MappingRegistry} from "../src/mapping/mappingRegistry";
 import {ObjectIdGenerator} from "../src/config/objectIdGenerator";
 import {QueryKind} from "../src/query/queryKind";
-import {Callback} from "../src/core/callback";
+import {Callback, ResultCallback} from "../src/core/callback";
 import {Reference} from "../src/reference";
 
 // Fixtures
@@ -19,8 +19,20 @@ import {Dog} from "./fixtures/dog";
 import {Person} from "./fixtures/classImmutable";
 import * as cascade from "./fixtures/cascade";
 import {MockDb} from "./driver/mockDb";
+import {MockClient} from "./driver/mockClient";
 import * as fetchLazyModel from "./fixtures/fetchLazy";
+import * as observeModel from "./fixtures/observe";
+import * as lifecycleModel from "./fixtures/lifecycle";
+import * as identityModel from "./fixtures/annotations/identity";
+import * as compositeKeyModel from "./fixtures/annotations/compositeKey";
+import * as cacheableModel from "./fixtures/annotations/cacheable";
+import * as softDeleteModel from "./fixtures/annotations/softDelete";
+import * as orphanRemovalModel from "./fixtures/annotations/orphanRemoval";
 import {setIdentifier} from "./helpers";
+import {OptimisticLockError, PersistenceError, EntityNotFoundError} from "../src/persistenceError";
+import {Batch} from "../src/batch";
+import {EntityCache} from "../src/entityCache";
+import {LruCacheStore} from "../src/config/lruCacheStore";
 
 describe('SessionImpl', () => {
 
@@ -41,6 +53,114 @@ describe('SessionImpl', () => {
             });
         });
 
+        it('uses the value of the identity property as the identifier of an entity with a natural key', (done) => {
+
+            helpers.createFactory("annotations/identity", (err, factory) => {
+                if(err) return done(err);
+
+                var entity = new identityModel.Country();
+                entity.code = "US";
+                factory.createSession().save(entity, (err) => {
+                    if (err) return done(err);
+
+                    assert.equal(entity._id, "US");
+                    assert.equal(entity.id, "US");
+                    done();
+                });
+            });
+        });
+
+        it('returns an error if an entity with a natural key does not have a value for the identity property', (done) => {
+
+            helpers.createFactory("annotations/identity", (err, factory) => {
+                if(err) return done(err);
+
+                factory.createSession().save(new identityModel.Country(), (err) => {
+                    assert.instanceOf(err, Error);
+                    assert.include(err.message, "Missing or invalid identifier in property 'code'");
+                    done();
+                });
+            });
+        });
+
+        it('uses the document written by the identity property as the identifier of an entity with a composite key', (done) => {
+
+            helpers.createFactory("annotations/compositeKey", (err, factory) => {
+                if(err) return done(err);
+
+                var session = factory.createSession(),
+                    user = new compositeKeyModel.User(),
+                    entity = new compositeKeyModel.Membership();
+
+                entity.key = new compositeKeyModel.MembershipKey(user, "admins");
+
+                session.save(user);
+                session.save(entity, (err) => {
+                    if (err) return done(err);
+
+                    assert.deepEqual(entity._id, { user: user._id, group: "admins" });
+                    assert.equal(entity.id, JSON.stringify([user.id, "admins"]));
+
+                    // the entity can be found by a key with the fields in any order
+                    var key = { group: "admins", user: user._id };
+                    assert.equal(session.getObject(factory.getMappingForConstructor(compositeKeyModel.Membership).keyToString(key)), entity);
+                    done();
+                });
+            });
+        });
+
+        it('returns an error if the identity property of an entity with a composite key cannot be serialized', (done) => {
+
+            helpers.createFactory("annotations/compositeKey", (err, factory) => {
+                if(err) return done(err);
+
+                var entity = new compositeKeyModel.Membership();
+                entity.key = new compositeKeyModel.MembershipKey(new compositeKeyModel.User(), "admins");
+
+                // the user has not been saved so it does not have an identifier
+                factory.createSession().save(entity, (err) => {
+                    assert.instanceOf(err, Error);
+                    assert.include(err.message, "Error serializing identifier in property 'key'");
+                    done();
+                });
+            });
+        });
+
+        it('generates the identifier asynchronously if supported by the identity generator', (done) => {
+
+            helpers.createFactory("annotations/identity", (err, factory) => {
+                if(err) return done(err);
+
+                var session = factory.createSession(),
+                    entity1 = new identityModel.Invoice(),
+                    entity2 = new identityModel.Invoice();
+
+                session.save(entity1);
+                session.save(entity2, (err) => {
+                    if (err) return done(err);
+
+                    assert.typeOf(entity1._id, "number");
+                    assert.equal(entity2._id, entity1._id + 1);
+                    assert.isTrue(session.contains(entity1) && session.contains(entity2));
+                    done();
+                });
+            });
+        });
+
+        it('returns a promise if a callback is not provided', (done) => {
+
+            helpers.createFactory("model", (err, factory) => {
+                if(err) return done(err);
+
+                var entity = createEntity();
+                factory.createSession().save(entity).then(() => {
+
+                    assert.isTrue(entity["_id"] !== undefined, "Entity was not assigned an identifier");
+                    done();
+                }, done);
+            });
+        });
+
         it('returns an error if a persister cannot be found for the object', (done) => {
 
             helpers.createFactory("model", (err, factory) => {
@@ -309,6 +429,27 @@ describe('SessionImpl', () => {
             });
         });
 
+        it('does not remove the identifier of a soft deleted entity after flush', (done) => {
+
+            helpers.createFactory("annotations/softDelete", (err, factory) => {
+                if (err) return done(err);
+
+                var session = factory.createSession();
+                var persister = factory.getPersisterForConstructor(session, softDeleteModel.Invoice);
+                var entity = createInvoice(session, persister);
+
+                session.remove(entity);
+                session.flush(err => {
+                    if (err) return done(err);
+
+                    assert.isFalse(session.contains(entity));
+                    assert.isDefined(entity._id, "Identifier was removed from a soft deleted entity");
+                    assert.equal(persister.removeCalled, 1);
+                    done();
+                });
+            });
+        });
+
         it('returns an error if the object is a detached entity', (done) => {
             helpers.createFactory("model", (err, factory) => {
                 if (err) return done(err);
@@ -431,6 +572,78 @@ describe('SessionImpl', () => {
             });
         });
 
+        it('removes entities that are no longer referenced by a property with orphan removal', (done) => {
+
+            helpers.createFactory("annotations/orphanRemoval", (err, factory) => {
+                if (err) return done(err);
+
+                var session = factory.createSession(),
+                    persister = factory.getPersisterForConstructor(session, orphanRemovalModel.Invoice),
+                    linePersister = factory.getPersisterForConstructor(session, orphanRemovalModel.InvoiceLine),
+                    lines = [createInvoiceLine(session, linePersister), createInvoiceLine(session, linePersister)],
+                    summary = createInvoiceLine(session, linePersister),
+                    note = createInvoiceLine(session, linePersister);
+
+                var invoice = new orphanRemovalModel.Invoice();
+                setIdentifier(invoice, helpers.generateId());
+                invoice.lines = lines.slice();
+                invoice.summary = summary;
+                invoice.notes = [note];
+                invoice = session.registerManaged(persister, invoice, session.toDocument(invoice));
+
+                invoice.lines.splice(0, 1);
+                invoice.summary = null;
+                invoice.notes = [];
+
+                session.flush(err => {
+                    if (err) return done(err);
+                    assert.equal(linePersister.removeCalled, 2);
+                    assert.isFalse(session.contains(lines[0]));
+                    assert.isTrue(session.contains(lines[1]));
+                    assert.isFalse(session.contains(summary));
+                    assert.isTrue(session.contains(note));
+                    done();
+                });
+            });
+        });
+
+        it('loads orphaned entities that are not managed by the session before removing them', (done) => {
+
+            helpers.createFactory("annotations/orphanRemoval", (err, factory) => {
+                if (err) return done(err);
+
+                var session = factory.createSession(),
+                    persister = factory.getPersisterForConstructor(session, orphanRemovalModel.Invoice),
+                    linePersister = factory.getPersisterForConstructor(session, orphanRemovalModel.InvoiceLine),
+                    lineId = helpers.generateId(),
+                    missingId = helpers.generateId(),
+                    line: orphanRemovalModel.InvoiceLine;
+
+                linePersister.onFindOneById = (id, callback) => {
+                    if (id == missingId) {
+                        return callback(new EntityNotFoundError("Unable to find document."));
+                    }
+                    line = new orphanRemovalModel.InvoiceLine();
+                    setIdentifier(line, id);
+                    callback(null, session.registerManaged(linePersister, line, {}));
+                };
+
+                var invoice = new orphanRemovalModel.Invoice();
+                setIdentifier(invoice, helpers.generateId());
+                invoice = session.registerManaged(persister, invoice, { _id: invoice._id, lines: [lineId, missingId] });
+
+                invoice.lines = [];
+
+                session.flush(err => {
+                    if (err) return done(err);
+                    assert.equal(linePersister.removeCalled, 1);
+                    assert.isTrue(linePersister.wasRemoved(line));
+                    assert.isFalse(session.contains(line));
+                    done();
+                });
+            });
+        });
+
         it('only removes an object once even if remove is called multiple times', (done) => {
 
             helpers.createFactory("model", (err, factory) => {
@@ -579,6 +792,107 @@ describe('SessionImpl', () => {
         }
     });
 
+    describe('merge', () => {
+
+        it('copies the state of the detached entity onto the managed entity and returns the managed entity', (done) => {
+
+            helpers.createFactory("dog", (err, factory) => {
+                if (err) return done(err);
+
+                var entity = new Dog("Snoopy");
+                var session = factory.createSession();
+                var persister = factory.getPersisterForObject(session, entity);
+
+                persister.onMerge = (detached, callback) => {
+                    entity.name = detached.name;
+                    callback(null, entity);
+                };
+
+                session.save(entity);
+                session.flush((err) => {
+                    if (err) return done(err);
+
+                    var detached = new Dog("Lassie");
+                    setIdentifier(detached, (<any>entity)._id);
+
+                    session.merge(detached, (err, result) => {
+                        if (err) return done(err);
+
+                        assert.strictEqual(result, entity);
+                        assert.equal(entity.name, "Lassie");
+
+                        session.flush((err) => {
+                            if (err) return done(err);
+
+                            // tracking is deferred explicit so the managed entity must have been flagged as dirty
+                            assert.equal(persister.dirtyCheckCalled, 1, "Merged entity was not dirty checked");
+                            done();
+                        });
+                    });
+                });
+            });
+        });
+
+        it('saves a new entity', (done) => {
+
+            helpers.createFactory("dog", (err, factory) => {
+                if (err) return done(err);
+
+                var entity = new Dog("Snoopy");
+                var session = factory.createSession();
+                var persister = factory.getPersisterForObject(session, entity);
+
+                session.merge(entity, (err, result) => {
+                    if (err) return done(err);
+
+                    assert.strictEqual(result, entity);
+                    assert.isTrue(session.contains(entity));
+
+                    session.flush((err) => {
+                        if (err) return done(err);
+
+                        assert.isTrue(persister.wasInserted(entity), "New entity was not inserted");
+                        done();
+                    });
+                });
+            });
+        });
+
+        it('returns an error if the entity is removed', (done) => {
+
+            helpers.createFactory("dog", (err, factory) => {
+                if (err) return done(err);
+
+                var entity = new Dog("Snoopy");
+                var session = factory.createSession();
+
+                session.save(entity);
+                session.flush();
+                session.remove(entity);
+                session.merge(entity, (err) => {
+                    assert.instanceOf(err, Error);
+                    assert.include(err.message, "Cannot merge a removed entity");
+                    done();
+                });
+            });
+        });
+
+        it('returns an error if a Reference is passed', (done) => {
+
+            helpers.createFactory("dog", (err, factory) => {
+                if (err) return done(err);
+
+                var session = factory.createSession();
+
+                session.merge(session.getReference(Dog, helpers.generateId()), (err) => {
+                    assert.instanceOf(err, Error);
+                    assert.include(err.message, "Reference passed to merge");
+                    done();
+                });
+            });
+        });
+    });
+
     describe('detach', () => {
 
         it('makes managed object unmanaged but does not remove identifier', (done) => {
@@ -799,72 +1113,392 @@ describe('SessionImpl', () => {
             });
         });
 
-        function dirtyCheckCalled(fixture: string, create: () => [any, any], modify: (session: InternalSession, entities: [any, any]) => void, expectedDirtyCheckCalled: number, done: (err?: Error) => void) {
+        it('removes the documents for cacheable entities that were removed from the second-level cache', (done) => {
 
-            helpers.createFactory(fixture, (err, factory) => {
+            helpers.createFactory("annotations/cacheable", (err, factory) => {
                 if (err) return done(err);
 
+                var store = new LruCacheStore();
+                factory.cache = new EntityCache(store);
+
+                var entity = new cacheableModel.Country();
                 var session = factory.createSession();
-                var entities = create();
-                var entity1 = entities[0];
-                var entity2 = entities[1];
-                var persister = factory.getPersisterForObject(session, entity1);
+                session.save(entity);
 
-                session.save(entity1);
                 session.flush((err) => {
-                    if(err) return done(err);
+                    if (err) return done(err);
 
-                    assert.equal(persister.insertCalled, 1);
+                    store.set("country", entity.id, { document: { _id: entity._id, name: "Canada", __v: 1 }, version: 1 }, (err) => {
+                        if (err) return done(err);
 
-                    session.save(entity2); // schedule entity2 for something else. this entity should not be dirty checked.
-                    modify && modify(session, [entity1, entity2]);
+                        session.remove(entity);
+                        session.flush((err) => {
+                            if (err) return done(err);
 
-                    session.flush((err) => {
-                        if (err) return done(err);
+                            factory.cache.get(factory.getMappingForObject(entity), entity._id, (err, document) => {
+                                if (err) return done(err);
 
-                        assert.equal(persister.insertCalled, 2);
-                        assert.equal(persister.dirtyCheckCalled, expectedDirtyCheckCalled);
-                        done();
+                                assert.isUndefined(document);
+                                done();
+                            });
+                        });
                     });
                 });
             });
-        }
-    });
-
-    describe('find', () => {
+        });
 
-        it('executes callback passing the entity that has the specified id if the entity exists in the database', (done) => {
+        it('does not add a document to the second-level cache that is older than the version written by the flush', (done) => {
 
-            helpers.createFactory("model", (err, factory) => {
+            helpers.createFactory("annotations/cacheable", (err, factory) => {
                 if (err) return done(err);
 
+                factory.cache = new EntityCache(new LruCacheStore());
+
+                var entity = new cacheableModel.Country();
                 var session = factory.createSession();
+                var persister = factory.getPersisterForObject(session, entity);
+                var mapping = factory.getMappingForObject(entity);
 
-                var persister = factory.getPersisterForConstructor(session, model.Person);
-                persister.onExecuteQuery = (query, callback) => {
-                    assert.equal(query.kind, QueryKind.FindOneById);
-                    assert.equal(query.id, 1);
-                    var ret = new model.Person(new model.PersonName("Smith"));
-                    setIdentifier(ret, query.id);
-                    session.registerManaged(persister, ret, {});
-                    callback(null, ret);
-                };
+                session.save(entity);
+                session.flush((err) => {
+                    if (err) return done(err);
 
-                session.find(model.Person, 1, (err, entity) => {
-                    assert.equal(entity.personName.last, "Smith");
-                    done();
+                    persister.dirtyCheck = (batch: Batch, entity: any, originalDocument: any, callback: ResultCallback<Object>) => {
+                        callback(null, { _id: entity._id, name: "Canada", __v: 2 });
+                    };
+
+                    session.save(entity);
+                    session.flush((err) => {
+                        if (err) return done(err);
+
+                        // another session read version 1 before the flush
+                        factory.cache.put(mapping, { _id: entity._id, name: "Kanata", __v: 1 }, (err) => {
+                            if (err) return done(err);
+
+                            factory.cache.get(mapping, entity._id, (err, document) => {
+                                if (err) return done(err);
+
+                                assert.isUndefined(document);
+                                done();
+                            });
+                        });
+                    });
                 });
             });
         });
 
-        it('throws an error if more than one callback is passed to a function in the chain', (done) => {
+        it('returns a promise that is rejected if there is an error when inserting and a callback is not provided', (done) => {
 
             helpers.createFactory("model", (err, factory) => {
-                if (err) throw err;
+                if (err) return done(err);
 
+                var entity = createEntity();
                 var session = factory.createSession();
+                session.save(entity);
 
-                session.find(model.Person, 1, (err, entity) => {
+                var persister = factory.getPersisterForObject(session, entity);
+                persister.insertError = new Error("some error");
+
+                session.flush().then(() => {
+                    done(new Error("Expected flush to fail."));
+                }, (err: Error) => {
+                    assert.equal(err.message, "some error");
+                    done();
+                });
+            });
+        });
+
+        it('raises the optimisticLock event if the flush fails because of a version conflict', (done) => {
+
+            helpers.createFactory("dog", (err, factory) => {
+                if (err) return done(err);
+
+                var session = factory.createSession();
+                var entity = new Dog("Rocky");
+                var persister = factory.getPersisterForObject(session, entity);
+                var error = new OptimisticLockError("Version conflict.", []);
+
+                // add a command to the batch that fails with a version conflict
+                persister.addInsert = (batch: Batch, entity: any, callback: ResultCallback<Object>) => {
+                    batch.addCommand(1, { priority: 1, execute: (callback: Callback) => process.nextTick(() => callback(error)) });
+                    callback(null, {});
+                };
+
+                var raised: Error;
+                session.on('optimisticLock', (err: OptimisticLockError) => raised = err);
+
+                session.save(entity);
+                session.flush((err) => {
+                    assert.equal(err, error);
+                    assert.equal(raised, error);
+                    done();
+                });
+            });
+        });
+
+        it('uses the write concern passed to flush for the batch', (done) => {
+
+            helpers.createFactory("dog", (err, factory) => {
+                if (err) return done(err);
+
+                var session = factory.createSession();
+                var entity = new Dog("Rocky");
+                var persister = factory.getPersisterForObject(session, entity);
+
+                persister.addInsert = (batch: Batch, entity: any, callback: ResultCallback<Object>) => {
+                    assert.deepEqual(batch.writeConcern, { w: "majority", j: true });
+                    callback(null, {});
+                };
+
+                session.save(entity);
+                session.flush({ writeConcern: { w: "majority", j: true } }, done);
+            });
+        });
+
+        it('writes the batch in a transaction if the flush is transactional', (done) => {
+
+            helpers.createFactory("dog", (err, factory) => {
+                if (err) return done(err);
+
+                var client = new MockClient();
+                factory.client = client;
+
+                var session = factory.createSession();
+                var entity = new Dog("Rocky");
+                var persister = factory.getPersisterForObject(session, entity);
+
+                persister.addInsert = (batch: Batch, entity: any, callback: ResultCallback<Object>) => {
+                    assert.equal(batch.session, client.sessions[0]);
+                    assert.isTrue(batch.session.inTransaction());
+                    callback(null, {});
+                };
+
+                session.save(entity);
+                session.flush({ transactional: true, writeConcern: { w: "majority" } }, (err) => {
+                    if (err) return done(err);
+
+                    assert.lengthOf(client.sessions, 1);
+                    assert.deepEqual(client.sessions[0].transactionOptions, { writeConcern: { w: "majority" } });
+                    assert.isTrue(client.sessions[0].committed);
+                    assert.isTrue(client.sessions[0].ended);
+                    done();
+                });
+            });
+        });
+
+        it('restores the scheduled operations if the transaction is aborted', (done) => {
+
+            helpers.createFactory("dog", (err, factory) => {
+                if (err) return done(err);
+
+                var client = new MockClient();
+                factory.client = client;
+
+                var session = factory.createSession();
+                var entity = new Dog("Rocky");
+                var persister = factory.getPersisterForObject(session, entity);
+                var error = new Error("Write failed.");
+                var inserted = 0;
+
+                // add a command to the batch that fails the first time
+                persister.addInsert = (batch: Batch, entity: any, callback: ResultCallback<Object>) => {
+                    if (inserted++ == 0) {
+                        batch.addCommand(1, { priority: 1, execute: (callback: Callback) => process.nextTick(() => callback(error)) });
+                    }
+                    callback(null, {});
+                };
+
+                session.save(entity);
+                session.flush({ transactional: true }, (err) => {
+                    assert.equal(err, error);
+                    assert.isTrue(client.sessions[0].aborted);
+                    assert.isTrue(client.sessions[0].ended);
+
+                    // the session is still valid and the entity is inserted by the next flush
+                    session.flush((err) => {
+                        if (err) return done(err);
+
+                        assert.equal(inserted, 2);
+                        done();
+                    });
+                });
+            });
+        });
+
+        it('makes the session invalid if it is not known if the transaction was committed', (done) => {
+
+            helpers.createFactory("dog", (err, factory) => {
+                if (err) return done(err);
+
+                var client = new MockClient();
+                factory.client = client;
+
+                var session = factory.createSession();
+                session.save(new Dog("Rocky"));
+
+                var error = new MongoError("Commit failed.");
+                error.addErrorLabel("UnknownTransactionCommitResult");
+                client.startSession = () => {
+                    var clientSession = MockClient.prototype.startSession.call(client);
+                    clientSession.commitError = error;
+                    return clientSession;
+                };
+
+                session.flush({ transactional: true }, (err) => {
+                    assert.equal(err, error);
+
+                    session.flush((err) => {
+                        assert.instanceOf(err, PersistenceError);
+                        assert.include(err.message, "Session is invalid");
+                        done();
+                    });
+                });
+            });
+        });
+
+        it('returns an error for a transactional flush if the session factory was not created with a client', (done) => {
+
+            helpers.createFactory("dog", (err, factory) => {
+                if (err) return done(err);
+
+                var session = factory.createSession();
+                var entity = new Dog("Rocky");
+                var persister = factory.getPersisterForObject(session, entity);
+
+                session.save(entity);
+                session.flush({ transactional: true }, (err) => {
+                    assert.instanceOf(err, PersistenceError);
+                    assert.include(err.message, "MongoClient");
+
+                    session.flush((err) => {
+                        if (err) return done(err);
+
+                        assert.isTrue(persister.wasInserted(entity));
+                        done();
+                    });
+                });
+            });
+        });
+
+        function dirtyCheckCalled(fixture: string, create: () => [any, any], modify: (session: InternalSession, entities: [any, any]) => void, expectedDirtyCheckCalled: number, done: (err?: Error) => void) {
+
+            helpers.createFactory(fixture, (err, factory) => {
+                if (err) return done(err);
+
+                var session = factory.createSession();
+                var entities = create();
+                var entity1 = entities[0];
+                var entity2 = entities[1];
+                var persister = factory.getPersisterForObject(session, entity1);
+
+                session.save(entity1);
+                session.flush((err) => {
+                    if(err) return done(err);
+
+                    assert.equal(persister.insertCalled, 1);
+
+                    session.save(entity2); // schedule entity2 for something else. this entity should not be dirty checked.
+                    modify && modify(session, [entity1, entity2]);
+
+                    session.flush((err) => {
+                        if (err) return done(err);
+
+                        assert.equal(persister.insertCalled, 2);
+                        assert.equal(persister.dirtyCheckCalled, expectedDirtyCheckCalled);
+                        done();
+                    });
+                });
+            });
+        }
+    });
+
+    describe('transaction', () => {
+
+        it('flushes the changes made by the work in a transaction', (done) => {
+
+            helpers.createFactory("dog", (err, factory) => {
+                if (err) return done(err);
+
+                var client = new MockClient();
+                factory.client = client;
+
+                var session = factory.createSession();
+                var entity = new Dog("Rocky");
+                var persister = factory.getPersisterForObject(session, entity);
+
+                session.transaction((callback) => {
+                    session.save(entity, callback);
+                }, (err) => {
+                    if (err) return done(err);
+
+                    assert.isTrue(persister.wasInserted(entity));
+                    assert.isTrue(client.sessions[0].committed);
+                    done();
+                });
+            });
+        });
+
+        it('does not flush if the work returns an error', (done) => {
+
+            helpers.createFactory("dog", (err, factory) => {
+                if (err) return done(err);
+
+                var client = new MockClient();
+                factory.client = client;
+
+                var session = factory.createSession();
+                var entity = new Dog("Rocky");
+                var persister = factory.getPersisterForObject(session, entity);
+                var error = new Error("Work failed.");
+
+                session.transaction((callback) => {
+                    session.save(entity, () => callback(error));
+                }).then(() => {
+                    done(new Error("Expected transaction to fail."));
+                }, (err: Error) => {
+                    assert.equal(err, error);
+                    assert.isFalse(persister.wasInserted(entity));
+                    assert.lengthOf(client.sessions, 0);
+                    done();
+                });
+            });
+        });
+    });
+
+    describe('find', () => {
+
+        it('executes callback passing the entity that has the specified id if the entity exists in the database', (done) => {
+
+            helpers.createFactory("model", (err, factory) => {
+                if (err) return done(err);
+
+                var session = factory.createSession();
+
+                var persister = factory.getPersisterForConstructor(session, model.Person);
+                persister.onExecuteQuery = (query, callback) => {
+                    assert.equal(query.kind, QueryKind.FindOneById);
+                    assert.equal(query.id, 1);
+                    var ret = new model.Person(new model.PersonName("Smith"));
+                    setIdentifier(ret, query.id);
+                    session.registerManaged(persister, ret, {});
+                    callback(null, ret);
+                };
+
+                session.find(model.Person, 1, (err, entity) => {
+                    assert.equal(entity.personName.last, "Smith");
+                    done();
+                });
+            });
+        });
+
+        it('throws an error if more than one callback is passed to a function in the chain', (done) => {
+
+            helpers.createFactory("model", (err, factory) => {
+                if (err) throw err;
+
+                var session = factory.createSession();
+
+                session.find(model.Person, 1, (err, entity) => {
                     if(err) return done(err);
                 }).fetch("children", (err, entity) => {
                     // TODO: check error code
@@ -914,6 +1548,320 @@ describe('SessionImpl', () => {
 
     describe('registerManaged', () => {
 
+        it('does not dirty check untouched entities when change tracking is observe', (done) => {
+
+            observe(null, 0, done);
+        });
+
+        it('dirty checks entities that have changed when change tracking is observe', (done) => {
+
+            observe((entity) => entity.name = "Tweety", 1, done);
+        });
+
+        it('dirty checks entities when an embedded object has changed and change tracking is observe', (done) => {
+
+            observe((entity) => entity.wing.span = 10, 1, done);
+        });
+
+        it('dirty checks entities when an array has changed and change tracking is observe', (done) => {
+
+            observe((entity) => entity.songs.push("chirp"), 1, done);
+        });
+
+        it('observes values assigned to the entity after the entity is flushed when change tracking is observe', (done) => {
+
+            helpers.createFactory("observe", (err, factory) => {
+                if (err) return done(err);
+
+                var session = factory.createSession();
+                var persister = factory.getPersisterForConstructor(session, observeModel.Bird);
+                var entity = createBird(session, persister);
+
+                entity.wing = new observeModel.Wing(5);
+                session.flush((err) => {
+                    if (err) return done(err);
+                    assert.equal(persister.dirtyCheckCalled, 1);
+
+                    entity.wing.span = 6;
+                    session.flush((err) => {
+                        if (err) return done(err);
+                        assert.equal(persister.dirtyCheckCalled, 2, "Change to assigned value was not detected");
+                        done();
+                    });
+                });
+            });
+        });
+
+        it('does not dirty check entities registered as read-only', (done) => {
+
+            helpers.createFactory("observe", (err, factory) => {
+                if (err) return done(err);
+
+                var session = factory.createSession();
+                var persister = factory.getPersisterForConstructor(session, observeModel.Bird);
+
+                var entity: any = new observeModel.Bird("Polly");
+                setIdentifier(entity, helpers.generateId());
+                entity = session.registerManaged(persister, entity, {}, true);
+
+                entity.name = "Tweety";
+                session.save(entity);
+                session.flush((err) => {
+                    if (err) return done(err);
+
+                    assert.equal(persister.dirtyCheckCalled, 0);
+                    done();
+                });
+            });
+        });
+
+        function observe(modify: (entity: any) => void, expected: number, done: Callback): void {
+
+            helpers.createFactory("observe", (err, factory) => {
+                if (err) return done(err);
+
+                var session = factory.createSession();
+                var persister = factory.getPersisterForConstructor(session, observeModel.Bird);
+                var entity = createBird(session, persister);
+
+                if (modify) {
+                    modify(entity);
+                }
+
+                session.flush((err) => {
+                    if (err) return done(err);
+
+                    assert.equal(persister.dirtyCheckCalled, expected);
+                    done();
+                });
+            });
+        }
+
+        function createBird(session: InternalSession, persister: MockPersister): any {
+
+            var entity: any = new observeModel.Bird("Polly");
+            entity.wing = new observeModel.Wing(3);
+            entity.songs = [ "tweet" ];
+            setIdentifier(entity, helpers.generateId());
+
+            return session.registerManaged(persister, entity, {});
+        }
+    });
+
+    describe('lifecycle callbacks', () => {
+
+        it('calls PrePersist callbacks when a new entity is saved', (done) => {
+
+            helpers.createFactory("lifecycle", (err, factory) => {
+                if (err) return done(err);
+
+                var entity = new lifecycleModel.Ticket("Broken build");
+                factory.createSession().save(entity, (err) => {
+                    if (err) return done(err);
+
+                    assert.deepEqual(entity.calls, ["PrePersist"]);
+                    assert.instanceOf(entity.created, Date);
+                    done();
+                });
+            });
+        });
+
+        it('passes the error thrown by a PrePersist callback to the callback and does not save the entity', (done) => {
+
+            helpers.createFactory("lifecycle", (err, factory) => {
+                if (err) return done(err);
+
+                var session = factory.createSession();
+                var entity = new lifecycleModel.Note(null);
+                session.save(entity, (err) => {
+                    assert.ok(err);
+                    assert.equal(err.message, "Note text is required.");
+                    assert.isFalse(session.contains(entity), "Entity should not be managed by the session.");
+                    done();
+                });
+            });
+        });
+
+        it('calls PostPersist callbacks after the entity is inserted', (done) => {
+
+            helpers.createFactory("lifecycle", (err, factory) => {
+                if (err) return done(err);
+
+                var session = factory.createSession();
+                var entity = new lifecycleModel.Ticket("Broken build");
+                session.save(entity);
+                session.flush((err) => {
+                    if (err) return done(err);
+
+                    assert.deepEqual(entity.calls, ["PrePersist", "PostPersist"]);
+                    done();
+                });
+            });
+        });
+
+        it('calls PostUpdate callbacks when a changed entity is flushed', (done) => {
+
+            helpers.createFactory("lifecycle", (err, factory) => {
+                if (err) return done(err);
+
+                var session = factory.createSession();
+                var persister = factory.getPersisterForConstructor(session, lifecycleModel.Ticket);
+                var entity = createTicket(session, persister);
+
+                entity.title = "Fixed build";
+                session.flush((err) => {
+                    if (err) return done(err);
+
+                    assert.deepEqual(entity.calls, ["PostUpdate"]);
+                    done();
+                });
+            });
+        });
+
+        it('calls PreRemove and PostRemove callbacks when a removed entity is flushed', (done) => {
+
+            helpers.createFactory("lifecycle", (err, factory) => {
+                if (err) return done(err);
+
+                var session = factory.createSession();
+                var persister = factory.getPersisterForConstructor(session, lifecycleModel.Ticket);
+                var entity = createTicket(session, persister);
+
+                session.remove(entity);
+                session.flush((err) => {
+                    if (err) return done(err);
+
+                    assert.deepEqual(entity.calls, ["PreRemove", "PostRemove"]);
+                    assert.equal(persister.removeCalled, 1);
+                    done();
+                });
+            });
+        });
+
+        function createTicket(session: InternalSession, persister: MockPersister): lifecycleModel.Ticket {
+
+            var entity = new lifecycleModel.Ticket("Broken build");
+            setIdentifier(entity, helpers.generateId());
+
+            return session.registerManaged(persister, entity, session.toDocument(entity));
+        }
+    });
+
+    describe('enableFilter', () => {
+
+        it('enables the filter with the specified parameters', (done) => {
+
+            helpers.createFactory("annotations/filter", (err, factory) => {
+                if (err) return done(err);
+
+                var session = factory.createSession();
+                session.enableFilter("tenant", { tenant: "acme" });
+
+                assert.deepEqual(session.getFilterParameters("tenant"), { tenant: "acme" });
+                done();
+            });
+        });
+
+        it('throws an error if a filter with the specified name is not defined on any entity', (done) => {
+
+            helpers.createFactory("annotations/filter", (err, factory) => {
+                if (err) return done(err);
+
+                var session = factory.createSession();
+                assert.throws(() => session.enableFilter("tennant", { tenant: "acme" }), "Unknown filter 'tennant'.");
+                done();
+            });
+        });
+    });
+
+    describe('disableFilter', () => {
+
+        it('disables the filter', (done) => {
+
+            helpers.createFactory("annotations/filter", (err, factory) => {
+                if (err) return done(err);
+
+                var session = factory.createSession();
+                session.enableFilter("active");
+                session.disableFilter("active");
+
+                assert.isUndefined(session.getFilterParameters("active"));
+                done();
+            });
+        });
+    });
+
+    describe('restore', () => {
+
+        it('restores the entity and removes the marker from the original document of a managed entity', (done) => {
+
+            helpers.createFactory("annotations/softDelete", (err, factory) => {
+                if (err) return done(err);
+
+                var session = factory.createSession();
+                var persister = factory.getPersisterForConstructor(session, softDeleteModel.Invoice);
+                var entity = createInvoice(session, persister, new Date());
+
+                var restored: any;
+                persister.onRestore = (entity, callback) => {
+                    restored = entity;
+                    callback();
+                };
+
+                persister.dirtyCheck = (batch, entity, originalDocument, callback) => {
+                    assert.isUndefined(originalDocument.deletedAt);
+                    callback(null, originalDocument);
+                };
+
+                session.restore(entity, (err) => {
+                    if (err) return done(err);
+
+                    assert.equal(restored, entity);
+                    session.flush(done);
+                });
+            });
+        });
+
+        it('increments the version of a managed entity', (done) => {
+
+            helpers.createFactory("annotations/softDelete", (err, factory) => {
+                if (err) return done(err);
+
+                var session = factory.createSession();
+                var persister = factory.getPersisterForConstructor(session, softDeleteModel.Invoice);
+                var entity = new softDeleteModel.Invoice();
+                setIdentifier(entity, helpers.generateId());
+
+                var document: any = session.toDocument(entity);
+                document.deletedAt = new Date();
+                document.__v = 2;
+                session.registerManaged(persister, entity, document);
+
+                persister.onRestore = (entity, callback) => callback();
+
+                session.restore(entity, (err) => {
+                    if (err) return done(err);
+
+                    assert.equal(session.getVersion(entity), 3);
+                    done();
+                });
+            });
+        });
+
+        it('returns an error if soft delete is not enabled for the entity', (done) => {
+
+            helpers.createFactory("model", (err, factory) => {
+                if (err) return done(err);
+
+                var session = factory.createSession();
+
+                session.restore(createEntity(1), (err) => {
+                    assert.instanceOf(err, PersistenceError);
+                    assert.include(err.message, "Soft delete is not enabled");
+                    done();
+                });
+            });
+        });
     });
 
     describe('getPersister', () => {
@@ -978,6 +1926,21 @@ describe('SessionImpl', () => {
             });
         });
 
+        it('returns a promise if a callback is not provided', (done) => {
+
+            helpers.createFactory("model", (err, factory) => {
+                if (err) return done(err);
+
+                var session = factory.createSession();
+                var entity = createEntity();
+                session.save(entity);
+                session.close().then(() => {
+                    var persister = factory.getPersisterForObject(session, entity);
+                    assert.isTrue(persister.wasInserted(entity));
+                    done();
+                }, done);
+            });
+        });
     });
 
     describe('getReference', () => {
@@ -1039,6 +2002,22 @@ describe('SessionImpl', () => {
             });
         });
 
+        it('returns a promise for the entity if a callback is not provided', (done) => {
+
+            helpers.createFactory("cat", (err, factory) => {
+                if (err) return done(err);
+
+                var session = factory.createSession();
+                var entity = new Cat("Mittens");
+
+                session.save(entity);
+                session.fetch(entity).then((result) => {
+                    assert.strictEqual(result, entity);
+                    done();
+                }, done);
+            });
+        });
+
         it.skip('should not cause object to become dirty when change tracking is observe', (done) => {
 
             helpers.createFactory("cat", (err, factory) => {
@@ -1166,4 +2145,26 @@ function createEntity(id?: any): any {
         setIdentifier(ret, id);
     }
     return ret;
-}
\ No newline at end of file
+}
+
+function createInvoice(session: InternalSession, persister: MockPersister, deletedAt?: Date): softDeleteModel.Invoice {
+
+    var entity = new softDeleteModel.Invoice(),
+        document: any;
+
+    setIdentifier(entity, helpers.generateId());
+    document = session.toDocument(entity);
+    if (deletedAt) {
+        document.deletedAt = deletedAt;
+    }
+
+    return session.registerManaged(persister, entity, document);
+}
+
+function createInvoiceLine(session: InternalSession, persister: MockPersister): orphanRemovalModel.InvoiceLine {
+
+    var entity = new orphanRemovalModel.InvoiceLine();
+
+    setIdentifier(entity, helpers.generateId());
+    return session.registerManaged(persister, entity, session.toDocument(entity));
+}
@@ -158,4 +158,106 @@ describe('TaskQueue', () => {
             });
         });
     });
-});
\ No newline at end of file
+
+    it('continues executing tasks if the task that failed recovered its state', (done) => {
+
+        var queue = new TaskQueue((action, arg, callback) => {
+            process.nextTick(() => arg ? callback(null, arg) : callback(new Error("1"), undefined, true));
+        });
+
+        // this task will return an error
+        queue.add(Action.Flush, Action.Save | Action.Flush, 0, (err: Error) => {
+            assert.equal(err.message, "1");
+        });
+
+        // this task is still executed
+        queue.add(Action.Save, Action.Flush, 42, (err: Error, result: number) => {
+            if (err) return done(err);
+
+            assert.equal(result, 42);
+            assert.ok(!queue.invalid);
+            done();
+        });
+    });
+
+    describe('addPromise', () => {
+
+        it('returns a promise that is resolved with the result of the task', () => {
+
+            var queue = new TaskQueue((action, arg, callback) => {
+                process.nextTick(() => callback(null, arg * 2));
+            });
+
+            return queue.addPromise(Action.Save, Action.Flush, 21).then((result) => {
+                assert.equal(result, 42);
+            });
+        });
+
+        it('returns a promise that is rejected if the task returns an error', () => {
+
+            var queue = new TaskQueue((action, arg, callback) => {
+                process.nextTick(() => callback(new Error("1")));
+            });
+
+            return queue.addPromise(Action.Save, Action.Flush, 0).then(() => {
+                assert.fail("Expected promise to be rejected.");
+            }, (err: Error) => {
+                assert.equal(err.message, "1");
+            });
+        });
+
+        it('rejects promises of queued tasks when an error occurs in a previous task', () => {
+
+            var queue = new TaskQueue((action, arg, callback) => {
+                process.nextTick(() => callback(arg ? null : new Error("1")));
+            });
+
+            // this task will return an error
+            queue.addPromise(Action.Save, Action.Flush, 0);
+
+            // this task will be skipped
+            return queue.addPromise(Action.Flush, Action.Save, 1).then(() => {
+                assert.fail("Expected promise to be rejected.");
+            }, (err: Error) => {
+                assert.equal(err.message, "1");
+            });
+        });
+
+        it('passes error to next task with a callback if an error occurs in a task that has a promise', (done) => {
+
+            var queue = new TaskQueue((action, arg, callback) => {
+                process.nextTick(() => callback(new Error("1")));
+            });
+
+            var rejected = false;
+
+            // this task will return an error
+            queue.addPromise(Action.Save, Action.Flush, 0).catch(() => rejected = true);
+            // this task will be passed the error
+            queue.add(Action.Flush, Action.Save, 0, (err) => {
+                assert.ok(err);
+                assert.equal(err.message, "1");
+                setImmediate(() => {
+                    assert.isTrue(rejected, "Expected promise to be rejected.");
+                    done();
+                });
+            });
+        });
+
+        it('rejects the promise when queue is invalid', () => {
+
+            var queue = new TaskQueue((action, arg, callback) => {
+                process.nextTick(() => callback(new Error("1")));
+            });
+
+            return queue.addPromise(Action.Save, Action.Flush, 0).catch(() => {
+
+                return queue.addPromise(Action.Save, Action.Flush, 0).then(() => {
+                    assert.fail("Expected promise to be rejected.");
+                }, (err: Error) => {
+                    assert.equal(err.message, "Session is invalid. An error occurred during a previous action.");
+                });
+            });
+        });
+    });
+});
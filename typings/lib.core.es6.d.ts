@@ -3896,6 +3896,12 @@ interface SymbolConstructor {
       */
     iterator: symbol;
 
+    /**
+      * A method that returns the default async iterator for an object. Called by the semantics of the
+      * for-await-of statement.
+      */
+    asyncIterator: symbol;
+
     /**
       * A regular expression method that matches the regular expression against a string. Called 
       * by the String.prototype.match method. 
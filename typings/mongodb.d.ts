@@ -13,8 +13,68 @@ declare module "mongodb" {
   export class MongoClient{
     constructor(serverConfig: any, options: any);
 
-    static connect(uri: string, options: any, callback: (err: Error, db: Db) => void): void;
-    static connect(uri: string, callback: (err: Error, db: Db) => void): void;
+    static connect(uri: string, options: any, callback: (err: Error, client: MongoClient) => void): void;
+    static connect(uri: string, callback: (err: Error, client: MongoClient) => void): void;
+
+    // Gets the database with the specified name. If no name is given, the database in the connection string is used.
+    db(dbName?: string): Db;
+
+    // Starts a client session used to run operations in a transaction.
+    startSession(options?: SessionOptions): ClientSession;
+
+    close(force?: boolean, callback?: (err: Error, result: any) => void): void;
+  }
+
+  // Class documentation : http://mongodb.github.io/node-mongodb-native/3.7/api/ClientSession.html
+  export interface ClientSession {
+
+    // Starts a new transaction with the given options.
+    startTransaction(options?: TransactionOptions): void;
+
+    // Commits the currently active transaction.
+    commitTransaction(callback: (err: MongoError, result: any) => void): void;
+
+    // Aborts the currently active transaction.
+    abortTransaction(callback: (err: MongoError, result: any) => void): void;
+
+    // Ends the session on the server.
+    endSession(callback?: (err: Error, result: any) => void): void;
+
+    // Returns true if the session is in a transaction.
+    inTransaction(): boolean;
+  }
+
+  export interface SessionOptions {
+    causalConsistency?: boolean;
+    defaultTransactionOptions?: TransactionOptions;
+  }
+
+  export interface TransactionOptions {
+    readConcern?: { level: string };
+    writeConcern?: { w?: number | string; wtimeout?: number; j?: boolean };
+    readPreference?: string;
+  }
+
+  // Class documentation : http://mongodb.github.io/node-mongodb-native/3.7/api/MongoError.html
+  export class MongoError implements Error {
+    constructor(message: string);
+
+    name: string;
+    message: string;
+    code: number;
+
+    // Checks the error to see if it has an error label, such as "TransientTransactionError".
+    hasErrorLabel(label: string): boolean;
+
+    // Adds a label to the error.
+    addErrorLabel(label: string): void;
+  }
+
+  // Error returned by a bulk operation if any of the operations failed. The result of the bulk operation is included.
+  export class BulkWriteError extends MongoError {
+    constructor(error: any, result: BulkWriteResult);
+
+    result: BulkWriteResult;
   }
 
   // Class documentation : http://mongodb.github.io/node-mongodb-native/api-generated/server.html
@@ -30,8 +90,6 @@ declare module "mongodb" {
 
     databaseName: string;
 
-    public db(dbName: string): Db;
-
     public open(callback: (err : Error, db : Db) => void ): void;
     public close(forceClose?: boolean, callback?: (err: Error, result: any) => void ): void;
     public admin(callback: (err: Error, result: any) => void ): any;
@@ -41,7 +99,7 @@ declare module "mongodb" {
     listCollections(filter: Object): Cursor;
     public collection(collectionName: string): Collection;
     public collection(collectionName: string, callback: (err: Error, collection: Collection) => void ): Collection;
-    public collection(collectionName: string, options: MongoCollectionOptions, callback: (err: Error, collection: Collection) => void ): Collection;
+    public collection(collectionName: string, options: MongoCollectionOptions, callback?: (err: Error, collection: Collection) => void ): Collection;
 
     public collections(callback: (err: Error, collections: Collection[]) => void ): void;
     public eval(code: any, parameters: any[], options?: any, callback?: (err: Error, result: any) => void ): void;
@@ -154,6 +212,20 @@ declare module "mongodb" {
     length(): number;
   }
 
+  // Class documentation : http://mongodb.github.io/node-mongodb-native/api-bson-generated/db_ref.html
+  export class DBRef {
+    constructor (namespace: string, oid: any, db?: string);
+
+    // The name of the collection the document is in.
+    namespace: string;
+
+    // The identifier of the document.
+    oid: any;
+
+    // Optional. The name of the database the document is in.
+    db: string;
+  }
+
   export interface SocketOptions {
     //= set seconds before connection times out default:0
     timeout?: number;
@@ -318,11 +390,11 @@ declare module "mongodb" {
     update(selector: Object, document: any, options: { safe?: boolean; upsert?: any; multi?: boolean; serializeFunctions?: boolean; }, callback: (err: Error, result: any) => void): void;
 
     distinct(key: string, query: Object, callback: (err: Error, result: any) => void): void;
-    distinct(key: string, query: Object, options: { readPreference: string; }, callback: (err: Error, result: any) => void): void;
+    distinct(key: string, query: Object, options: { readPreference?: string; maxTimeMS?: number; collation?: Object; }, callback: (err: Error, result: any) => void): void;
 
     count(callback: (err: Error, result: any) => void): void;
     count(query: Object, callback: (err: Error, result: any) => void): void;
-    count(query: Object, options: { readPreference?: string; }, callback: (err: Error, result: any) => void): void;
+    count(query: Object, options: { readPreference?: string; limit?: number; skip?: number; hint?: Object; maxTimeMS?: number; collation?: Object; }, callback: (err: Error, result: any) => void): void;
 
     drop(callback?: (err: Error, result: any) => void): void;
 
@@ -370,12 +442,12 @@ declare module "mongodb" {
     geoHaystackSearch(x: number, y: number, callback: Function): void;
     geoHaystackSearch(x: number, y: number, options: Object, callback: Function): void;
     indexes(callback: Function): void;
-    aggregate(pipeline: any[], callback: (err: Error, results: any) => void): void;
-    aggregate(pipeline: any[], options: {readPreference: string}, callback: (err: Error, results: any) => void): void;
+    aggregate(pipeline: any[], callback: (err: Error, cursor: Cursor) => void): void;
+    aggregate(pipeline: any[], options: { readPreference?: string; maxTimeMS?: number; collation?: Object; }, callback: (err: Error, cursor: Cursor) => void): void;
     stats(options: {readPreference: string; scale: number}, callback: (err: Error, results: CollStats) => void): void;
     stats(callback: (err: Error, results: CollStats) => void): void;
 
-    initializeUnorderedBulkOp(): UnorderedBulkOperation;
+    initializeUnorderedBulkOp(options?: { session?: ClientSession }): UnorderedBulkOperation;
 
     hint: any;
   }
@@ -479,6 +551,8 @@ declare module "mongodb" {
     raw?: boolean;
     readPreference?: String;
     partial?: boolean;
+    maxTimeMS?: number;
+    collation?: Object;
   }
 
   export interface MongoCollectionOptions {
@@ -488,6 +562,7 @@ declare module "mongodb" {
     raw?: boolean;
     pkFactory?: any;
     readPreference?: string;
+    readConcern?: { level: string };
   }
 
   export interface UnorderedBulkOperation {
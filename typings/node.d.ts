@@ -114,6 +114,19 @@ declare var Buffer: {
      */
     new (array: any[]): Buffer;
     prototype: Buffer;
+    /**
+     * Creates a new buffer containing the given {str}.
+     *
+     * @param str String to store in buffer.
+     * @param encoding encoding to use, optional.  Default is 'utf8'
+     */
+    from(str: string, encoding?: string): Buffer;
+    /**
+     * Creates a new buffer containing the given {array} of octets.
+     *
+     * @param array The octets to store.
+     */
+    from(array: any[]): Buffer;
     /**
      * Returns true if {obj} is a Buffer
      *